@@ -17,11 +17,43 @@ const envSchema = z.object({
     // Clerk
     CLERK_PUBLISHABLE_KEY: z.string().optional(),
     CLERK_SECRET_KEY: z.string().optional(),
+    // Public key (PEM) that verifies Clerk session tokens. Without it tokens are
+    // only decoded, which is refused in production.
+    CLERK_JWT_KEY: z.string().optional(),
 
     // AI
     GROQ_API_KEY: z.string().min(1, 'GROQ_API_KEY is required'),
     GEMINI_API_KEY: z.string().min(1, 'GEMINI_API_KEY is required'),
 
+    // Platform administrators (comma-separated emails) — outbox, disputes, passport revocation
+    PLATFORM_ADMIN_EMAILS: z.string().default(''),
+
+    // Email delivery — brevo | smtp | file (writes to EMAIL_SINK_DIR) | console
+    EMAIL_TRANSPORT: z.enum(['brevo', 'smtp', 'file', 'console']).default('brevo'),
+    EMAIL_FROM: z.string().optional(),
+    EMAIL_FROM_NAME: z.string().default('EcoExchange'),
+    EMAIL_SINK_DIR: z.string().default('mail-sink'),
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.string().default('587'),
+    SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASS: z.string().optional(),
+
+    // Payments — provider that moves the money behind the escrow ledger
+    PAYMENT_PROVIDER: z.enum(['mock']).default('mock'),
+    // Platform fee tiers as <deal value from>:<percent>, e.g. 0:3,100000:2.5
+    PLATFORM_FEE_SCHEDULE: z.string().default('0:3,100000:2.5,1000000:1.5'),
+    PLATFORM_FEE_MIN: z.string().default('25'),
+    // Where generated invoice PDFs are stored
+    INVOICE_DIR: z.string().default('storage/invoices'),
+
+    // Passport ledger — Ed25519 private key (PEM) that signs ledger entries.
+    // Without it a key is generated once and kept in PASSPORT_KEY_FILE.
+    PASSPORT_SIGNING_KEY: z.string().optional(),
+    PASSPORT_KEY_FILE: z.string().default('storage/keys/passport-ed25519.pem'),
+    // Where generated passport certificates are stored
+    CERTIFICATE_DIR: z.string().default('storage/certificates'),
+
     // Brevo
     BREVO_API_KEY: z.string().optional(),
     BREVO_SMTP_SERVER: z.string().optional(),
@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { Auditor } from '../models/Auditor';
+import { EmailLog } from '../models/EmailLog';
+import { emailOutbox } from '../services/notifications/emailOutbox.service';
+
+export class AdminController {
+    // ==================== EMAIL OUTBOX ====================
+
+    /**
+     * GET /api/admin/emails
+     * List outbox messages — filter by status (e.g. dead, failed) and type
+     */
+    async listEmails(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { items, pagination } = await emailOutbox.list({
+                status: req.query.status as any,
+                type: req.query.type as string,
+                page: parseInt(req.query.page as string) || 1,
+                limit: parseInt(req.query.limit as string) || 25,
+            });
+
+            res.json({ success: true, data: items, pagination });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/admin/emails/stats
+     * Message counts per outbox status
+     */
+    async emailStats(_req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const stats = await emailOutbox.stats();
+            res.json({ success: true, data: stats });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/admin/emails/:id
+     * Full message including rendered HTML and last error
+     */
+    async getEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const email = await EmailLog.findById(req.params.id);
+            if (!email) {
+                res.status(404).json({ success: false, error: 'Email not found' });
+                return;
+            }
+
+            res.json({ success: true, data: email });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/admin/emails/:id/replay
+     * Re-queue a failed / dead-lettered message and attempt it immediately
+     */
+    async replayEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const email = await emailOutbox.replay(req.params.id as string);
+            res.json({
+                success: true,
+                data: email,
+                message: email.status === 'sent' ? 'Email delivered' : `Email re-queued (${email.status})`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/admin/emails/drain
+     * Run the outbox drain now instead of waiting for the scheduler
+     */
+    async drainEmails(_req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const summary = await emailOutbox.drain();
+            res.json({ success: true, data: summary });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // ==================== AUDITORS ====================
+
+    /**
+     * GET /api/admin/auditors
+     * Registered third-party passport auditors
+     */
+    async listAuditors(_req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const auditors = await Auditor.find().sort({ organization: 1 });
+            res.json({ success: true, data: auditors });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/admin/auditors
+     * Register an accredited auditor and the emails that may review for it
+     */
+    async registerAuditor(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const auditor = await Auditor.create({ ...req.body, registeredBy: req.user?.email });
+            res.status(201).json({ success: true, data: auditor });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * PATCH /api/admin/auditors/:id
+     * Update accreditation or reviewers, or suspend with active: false
+     */
+    async updateAuditor(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const auditor = await Auditor.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true });
+            if (!auditor) {
+                res.status(404).json({ success: false, error: 'Auditor not found' });
+                return;
+            }
+
+            res.json({ success: true, data: auditor });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export const adminController = new AdminController();
@@ -1,7 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env';
-import { Company } from '../models/Company';
+import { Company, CompanyDocument } from '../models/Company';
+import { User, UserDocument } from '../models/User';
+import { MembershipDocument } from '../models/Membership';
+import { membershipService } from '../services/membership/membership.service';
 import { logger } from '../utils/logger';
 
 export class AuthController {
@@ -17,9 +20,25 @@ export class AuthController {
 
             switch (type) {
                 case 'user.created': {
+                    // Webhook payloads are not signature-checked, so the email
+                    // is never treated as verified here
+                    const email = data.email_addresses?.[0]?.email_address;
+                    const user = await membershipService.upsertClerkUser(data.id, {
+                        email,
+                        firstName: data.first_name,
+                        lastName: data.last_name,
+                    });
+
+                    // Invited people join the inviting company instead of getting their own
+                    const joined = await membershipService.acceptPendingInvitationByEmail(user);
+                    if (joined) {
+                        logger.info(`Clerk user ${data.id} joined company ${joined.companyId} via invitation`);
+                        break;
+                    }
+
                     const existingCompany = await Company.findOne({ clerkUserId: data.id });
                     if (!existingCompany) {
-                        await Company.create({
+                        const company = await Company.create({
                             clerkUserId: data.id,
                             name: `${data.first_name || ''} ${data.last_name || ''}`.trim() || 'New Company',
                             email: data.email_addresses?.[0]?.email_address,
@@ -28,6 +47,7 @@ export class AuthController {
                             onboardingComplete: false,
                             verificationStatus: 'pending',
                         });
+                        await membershipService.ensureOwner(company, { clerkUserId: data.id, email });
                         logger.info(`Company created for Clerk user: ${data.id}`);
                     }
                     break;
@@ -47,6 +67,7 @@ export class AuthController {
                         { clerkUserId: data.id },
                         { verificationStatus: 'suspended' }
                     );
+                    await User.findOneAndUpdate({ clerkUserId: data.id }, { status: 'disabled' });
                     break;
                 }
             }
@@ -59,16 +80,16 @@ export class AuthController {
 
     /**
      * POST /api/auth/sync
-     * Sync authenticated Clerk user to Company document
+     * Sync authenticated Clerk user to User, Membership and Company documents
      */
     async sync(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            if (!req.user || !req.user.userId) {
+            const clerkId = req.user?.clerkUserId;
+            if (!req.user || !clerkId) {
                 res.status(401).json({ success: false, error: 'Unauthorized' });
                 return;
             }
 
-            const clerkId = req.user.userId;
             const email = req.user.email;
             // Derive a meaningful name from Clerk user data
             const derivedName = (
@@ -78,12 +99,29 @@ export class AuthController {
                 'New Company'
             );
 
-            let company = await Company.findOne({ clerkUserId: clerkId });
+            const user = await membershipService.upsertClerkUser(clerkId, {
+                email,
+                emailVerified: req.user.verified && req.user.emailVerified,
+                firstName: req.user.firstName,
+                lastName: req.user.lastName,
+                fullName: req.user.fullName,
+            });
+
+            let membership: MembershipDocument | null =
+                await membershipService.getActiveMembership(user._id.toString(), req.user.companyId)
+                || await membershipService.acceptPendingInvitationByEmail(user);
+
+            let company: CompanyDocument | null = membership
+                ? await Company.findById(membership.companyId)
+                : await Company.findOne({ clerkUserId: clerkId });
 
             if (!company) {
                 // Wait to see if webhook created it
                 await new Promise((resolve) => setTimeout(resolve, 500));
-                company = await Company.findOne({ clerkUserId: clerkId });
+                membership = await membershipService.getActiveMembership(user._id.toString());
+                company = membership
+                    ? await Company.findById(membership.companyId)
+                    : await Company.findOne({ clerkUserId: clerkId });
 
                 if (!company) {
                     // Create it proactively if webhook is delayed
@@ -98,7 +136,8 @@ export class AuthController {
                     });
                     logger.info(`Company created from sync for Clerk user: ${clerkId} — name: "${derivedName}"`);
                 }
-            } else {
+            } else if (company.clerkUserId === clerkId) {
+                // Only the founding account keeps the company profile in sync with Clerk
                 company.lastLoginAt = new Date();
                 // Always sync email from Clerk to keep it up-to-date
                 if (email) {
@@ -115,6 +154,11 @@ export class AuthController {
                 await company.save();
             }
 
+            if (!membership) {
+                await membershipService.ensureOwner(company, { clerkUserId: clerkId, email });
+                membership = await membershipService.getActiveMembership(user._id.toString(), company._id.toString());
+            }
+
             res.json({
                 success: true,
                 data: {
@@ -127,6 +171,11 @@ export class AuthController {
                         onboardingComplete: company.onboardingComplete,
                         verificationStatus: company.verificationStatus,
                     },
+                    user: {
+                        id: user._id,
+                        email: user.email,
+                        role: membership?.role,
+                    },
                 },
             });
         } catch (error) {
@@ -142,8 +191,11 @@ export class AuthController {
         try {
             const { name, email, password, industry, location } = req.body;
 
-            const existing = await Company.findOne({ email });
-            if (existing) {
+            const [existing, existingUser] = await Promise.all([
+                Company.findOne({ email }),
+                User.findOne({ email: email.toLowerCase() }),
+            ]);
+            if (existing || existingUser) {
                 res.status(409).json({ success: false, error: 'Email already registered' });
                 return;
             }
@@ -160,8 +212,16 @@ export class AuthController {
                 verificationStatus: 'pending',
             });
 
+            await User.create({
+                email,
+                password: hashedPassword,
+                fullName: name,
+                lastLoginAt: new Date(),
+            });
+            const user = await membershipService.ensureOwner(company, { email });
+
             const token = jwt.sign(
-                { userId: company._id.toString(), companyId: company._id.toString(), email },
+                { userId: user._id.toString(), companyId: company._id.toString(), email },
                 env.JWT_SECRET,
                 { expiresIn: '30d' }
             );
@@ -193,19 +253,40 @@ export class AuthController {
         try {
             const { email, password } = req.body;
 
-            const company = await Company.findOne({ email });
-            if (!company) {
+            let user: UserDocument | null = await User.findOne({ email: email.toLowerCase() }).select('+password');
+            const legacyCompany = user?.password ? null : await Company.findOne({ email }).select('+password');
+            if (legacyCompany) {
+                // Accounts registered before users existed log in through their company
+                user ??= await membershipService.ensureOwner(legacyCompany, { email });
+                await membershipService.migrateLegacyPassword(user, legacyCompany);
+            }
+
+            // No stored hash means no password was ever set — those accounts
+            // set one from a signed-in session via POST /api/auth/password
+            const bcrypt = require('bcryptjs');
+            const valid = !!user?.password && await bcrypt.compare(password, user.password);
+            if (!user || !valid || user.status === 'disabled') {
                 res.status(401).json({ success: false, error: 'Invalid credentials' });
                 return;
             }
 
+            const membership = await membershipService.getActiveMembership(user._id.toString());
+            const company = membership ? await Company.findById(membership.companyId) : null;
+            if (!company) {
+                res.status(403).json({ success: false, error: 'No active company membership for this account' });
+                return;
+            }
+
             // For JWT-based auth, generate token
             const token = jwt.sign(
-                { userId: company._id.toString(), companyId: company._id.toString(), email },
+                { userId: user._id.toString(), companyId: company._id.toString(), email },
                 env.JWT_SECRET,
                 { expiresIn: '30d' }
             );
 
+            user.lastLoginAt = new Date();
+            await user.save();
+
             company.lastLoginAt = new Date();
             await company.save();
 
@@ -228,6 +309,36 @@ export class AuthController {
         }
     }
 
+    /**
+     * POST /api/auth/password
+     * Set or change the password used by the email + password login.
+     * Accounts that never had one (legacy and Clerk sign-ups) set it here.
+     */
+    async setPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { currentPassword, newPassword } = req.body;
+
+            const user = await User.findById(req.user?.userId).select('+password').catch(() => null);
+            if (!user) {
+                res.status(404).json({ success: false, error: 'User not found' });
+                return;
+            }
+
+            const bcrypt = require('bcryptjs');
+            if (user.password && !(currentPassword && await bcrypt.compare(currentPassword, user.password))) {
+                res.status(401).json({ success: false, error: 'Current password is incorrect' });
+                return;
+            }
+
+            user.password = await bcrypt.hash(newPassword, 12);
+            await user.save();
+
+            res.json({ success: true, message: 'Password updated' });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * GET /api/auth/me
      * Get current authenticated user
@@ -3,9 +3,30 @@ import { Company } from '../models/Company';
 import { ImpactAnalytics } from '../models/ImpactAnalytics';
 import { WasteListing } from '../models/WasteListing';
 import { Match } from '../models/Match';
+import { membershipService } from '../services/membership/membership.service';
+import { reputationService } from '../services/reputation/reputation.service';
+import { hazardousComplianceService } from '../services/compliance/hazardous.service';
+import { ledgerService } from '../services/payments/ledger.service';
 import { logger } from '../utils/logger';
 import { triggerESGLiveUpdate } from './esgLiveDocument.controller';
 
+// Set by the platform, never from a profile form. The hazardous waste
+// authorization has its own validated endpoint.
+const SERVER_OWNED_FIELDS = [
+    '_id', 'clerkUserId', 'password', 'role', 'reputation',
+    'hazardousAuthorization', 'lastLoginAt', 'createdAt', 'updatedAt',
+];
+
+function profileFields(body: Record<string, unknown>, currentStatus?: string): Record<string, unknown> {
+    const fields = { ...body };
+    for (const key of SERVER_OWNED_FIELDS) delete fields[key];
+    // Finishing onboarding asks for verification; any other status is the platform's call
+    if (!(fields.verificationStatus === 'in_progress' && (currentStatus ?? 'pending') === 'pending')) {
+        delete fields.verificationStatus;
+    }
+    return fields;
+}
+
 export class CompanyController {
     /**
      * POST /api/companies
@@ -14,11 +35,15 @@ export class CompanyController {
     async create(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
             const companyData = {
-                ...req.body,
-                clerkUserId: req.user?.userId,
+                ...profileFields(req.body),
+                clerkUserId: req.user?.clerkUserId,
             };
 
             const company = await Company.create(companyData);
+            await membershipService.ensureOwner(company, {
+                clerkUserId: req.user?.clerkUserId,
+                email: req.user?.email,
+            });
 
             res.status(201).json({
                 success: true,
@@ -31,7 +56,7 @@ export class CompanyController {
 
     /**
      * GET /api/companies/:id
-     * Get company profile
+     * Get company profile with its reliability breakdown
      */
     async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
@@ -41,6 +66,8 @@ export class CompanyController {
                 return;
             }
 
+            company.set('reputation', await reputationService.get(company.id));
+
             res.json({ success: true, data: company });
         } catch (error) {
             next(error);
@@ -59,15 +86,11 @@ export class CompanyController {
                 return;
             }
 
-            // Authorization check
-            if (company._id.toString() !== req.user?.companyId && company.clerkUserId !== req.user?.userId) {
-                res.status(403).json({ success: false, error: 'Not authorized to update this company' });
-                return;
-            }
+            const changes = profileFields(req.body, company.verificationStatus);
 
             const updated = await Company.findByIdAndUpdate(
                 req.params.id,
-                { ...req.body, updatedAt: new Date() },
+                { ...changes, updatedAt: new Date() },
                 { new: true, runValidators: true }
             );
 
@@ -82,6 +105,19 @@ export class CompanyController {
         }
     }
 
+    /**
+     * PUT /api/companies/:id/hazardous-authorization
+     * Record the SPCB authorization that lets the company receive hazardous waste
+     */
+    async setHazardousAuthorization(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const company = await hazardousComplianceService.setAuthorization(req.params.id as string, req.body);
+            res.json({ success: true, data: company.hazardousAuthorization });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * GET /api/companies/:id/analytics
      * Get company analytics summary
@@ -103,6 +139,26 @@ export class CompanyController {
         }
     }
 
+    /**
+     * GET /api/companies/:id/statement
+     * Escrow ledger statement — charges, refunds, earnings, fees and payouts
+     */
+    async getStatement(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const from = req.query.from ? new Date(req.query.from as string) : undefined;
+            const to = req.query.to ? new Date(req.query.to as string) : undefined;
+            if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+                res.status(400).json({ success: false, error: 'from and to must be valid dates' });
+                return;
+            }
+
+            const statement = await ledgerService.statement(req.params.id as string, { from, to });
+            res.json({ success: true, data: statement });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * GET /api/companies
      * List companies with optional filters
@@ -0,0 +1,140 @@
+import { Request, Response, NextFunction } from 'express';
+import { Dispute } from '../models/Dispute';
+import { Match } from '../models/Match';
+import { disputeService } from '../services/disputes/dispute.service';
+import { HttpError } from '../utils/errors';
+
+export class DisputeController {
+    /**
+     * GET /api/matches/:id/disputes
+     * All disputes on a match, newest first
+     */
+    async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const disputes = await disputeService.listForMatch(req.params.id as string);
+            res.json({ success: true, data: disputes });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/disputes
+     * File a dispute — either party, once the match is accepted
+     */
+    async file(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            // Ownership verified by requireResourceOwner('Match')
+            const match = res.locals.resource;
+            const dispute = await disputeService.file(match, this.actor(req), req.body);
+
+            res.status(201).json({
+                success: true,
+                data: dispute,
+                message: 'Dispute filed. Payment is on hold until it is resolved.',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/disputes/:disputeId/response
+     * The counterparty's answer to a dispute
+     */
+    async respond(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const dispute = await this.loadDispute(req);
+            await disputeService.respond(dispute, match, this.actor(req), req.body);
+
+            res.json({ success: true, data: dispute });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/disputes/:disputeId/evidence
+     * Add notes or attachments while the dispute is open
+     */
+    async addEvidence(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const dispute = await this.loadDispute(req);
+            await disputeService.addEvidence(dispute, match, this.actor(req), req.body);
+
+            res.status(201).json({ success: true, data: dispute });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/disputes/:disputeId/withdraw
+     */
+    async withdraw(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const dispute = await this.loadDispute(req);
+            await disputeService.withdraw(dispute, match, this.actor(req), req.body?.reason);
+
+            res.json({ success: true, data: dispute, message: 'Dispute withdrawn' });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/disputes/:disputeId/ruling
+     * Platform admin decision — settles payment and the passport
+     */
+    async rule(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = await Match.findById(req.params.id);
+            if (!match) {
+                res.status(404).json({ success: false, error: 'Match not found' });
+                return;
+            }
+
+            const dispute = await this.loadDispute(req);
+            await disputeService.rule(dispute, match, { userId: req.user?.userId, email: req.user?.email }, req.body);
+
+            res.json({ success: true, data: dispute, message: 'Ruling recorded' });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/admin/disputes
+     * Dispute queue for platform admins — filter by status
+     */
+    async listAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { items, pagination } = await disputeService.list({
+                status: req.query.status as any,
+                page: parseInt(req.query.page as string) || 1,
+                limit: parseInt(req.query.limit as string) || 25,
+            });
+
+            res.json({ success: true, data: items, pagination });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    private actor(req: Request) {
+        return { companyId: (req.user?.companyId || req.user?.userId) as string, userId: req.user?.userId };
+    }
+
+    private async loadDispute(req: Request) {
+        const dispute = await Dispute.findOne({ _id: req.params.disputeId, matchId: req.params.id }).catch(() => null);
+        if (!dispute) {
+            throw new HttpError(404, 'Dispute not found');
+        }
+        return dispute;
+    }
+}
+
+export const disputeController = new DisputeController();
@@ -8,6 +8,7 @@ import { Suggestion } from '../models/Suggestion';
 import { logger } from '../utils/logger';
 import Groq from 'groq-sdk';
 import { env } from '../config/env';
+import { signStreamToken } from '../middleware/auth.middleware';
 import crypto from 'crypto';
 
 const groq = new Groq({ apiKey: env.GROQ_API_KEY });
@@ -274,6 +275,19 @@ export class ESGLiveDocumentController {
         }
     }
 
+    /**
+     * POST /api/esg-live/:companyId/stream-token
+     * One-minute token for opening the SSE stream
+     */
+    async issueStreamToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const token = signStreamToken(req.user!.userId, req.params.companyId as string);
+            res.json({ success: true, data: { token } });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * GET /api/esg-live/:companyId/stream
      * Server-Sent Events for real-time updates
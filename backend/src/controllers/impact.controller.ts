@@ -256,6 +256,8 @@ export class ImpactController {
             const matchesCompleted = await Match.countDocuments({
                 $or: [{ sellerId: companyId }, { buyerId: companyId }],
                 'execution.status': 'completed',
+                // Revoked passports no longer count towards impact
+                'actualImpact.revokedAt': { $exists: false },
             });
             const matchesTotal = await Match.countDocuments({
                 $or: [{ sellerId: companyId }, { buyerId: companyId }],
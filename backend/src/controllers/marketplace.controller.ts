@@ -1,10 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
-import { WasteListing } from '../models/WasteListing';
+import { WasteListing, WasteListingDocument } from '../models/WasteListing';
 import { NeedListing } from '../models/NeedListing';
 import { Company } from '../models/Company';
 import { Match } from '../models/Match';
 import { logger } from '../utils/logger';
 import { brevoService } from '../services/notifications/brevo.service';
+import { auctionService } from '../services/auctions/auction.service';
+import { savedSearchService } from '../services/savedSearches/savedSearch.service';
+import { matchingEngine } from '../services/matching/algorithm';
+import { listingAnalyticsService } from '../services/analytics/listingAnalytics.service';
+import { priceIndexService } from '../services/pricing/priceIndex.service';
+import { lineageService } from '../services/passports/lineage.service';
+import { MATERIAL_CATEGORIES } from '../utils/constants';
 import { env } from '../config/env';
 
 export class MarketplaceController {
@@ -15,15 +22,27 @@ export class MarketplaceController {
      */
     async createWasteListing(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const companyId = req.body.companyId || req.user?.companyId || req.user?.userId;
+            const companyId = req.user?.companyId || req.user?.userId;
             const company = await Company.findById(companyId);
 
+            const pricing = req.body.pricing;
+            if (pricing?.type === 'auction') {
+                pricing.auction = auctionService.prepare(pricing.auction, pricing.amount, req.body.expiresAt);
+            }
+            // Relisted material — the seller must have received each source passport
+            if (req.body.provenance) {
+                req.body.provenance = await lineageService.prepareProvenance(String(companyId), req.body.provenance);
+            }
+
             const listing = await WasteListing.create({
                 ...req.body,
                 companyId,
+                listedBy: req.user?.userId,
                 location: req.body.location || company?.location || { type: 'Point', coordinates: [0, 0] },
             });
+            await priceIndexService.benchmarkListing(listing);
 
+            this.notifySavedSearches(listing);
             res.status(201).json({ success: true, data: listing });
         } catch (error) {
             next(error);
@@ -121,8 +140,9 @@ export class MarketplaceController {
                 return;
             }
 
-            // Increment view count
+            // Increment view count and log when it happened
             await WasteListing.findByIdAndUpdate(req.params.id, { $inc: { viewCount: 1 } });
+            listingAnalyticsService.record('view', listing, { actorCompanyId: req.user?.companyId });
 
             res.json({ success: true, data: listing });
         } catch (error) {
@@ -130,6 +150,66 @@ export class MarketplaceController {
         }
     }
 
+    /**
+     * GET /api/marketplace/price-index?category=&state=&months=
+     * Public monthly INR/kg price index for a material, national or per state
+     */
+    async getPriceIndex(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const category = req.query.category as string;
+            if (!MATERIAL_CATEGORIES.includes(category as typeof MATERIAL_CATEGORIES[number])) {
+                res.status(400).json({ success: false, error: `category must be one of ${MATERIAL_CATEGORIES.join(', ')}` });
+                return;
+            }
+            const months = Math.min(Math.max(parseInt(req.query.months as string) || 12, 1), 36);
+
+            const index = await priceIndexService.series(category, (req.query.state as string) || undefined, months);
+            res.json({ success: true, data: index });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/marketplace/price-index/suggest?category=&unit=&state=
+     * Suggested asking price per unit with the typical range
+     */
+    async suggestPrice(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { category, unit = 'kg' } = req.query as Record<string, string>;
+            if (!MATERIAL_CATEGORIES.includes(category as typeof MATERIAL_CATEGORIES[number])) {
+                res.status(400).json({ success: false, error: `category must be one of ${MATERIAL_CATEGORIES.join(', ')}` });
+                return;
+            }
+
+            let state = req.query.state as string | undefined;
+            if (!state && req.user?.companyId) {
+                const company = await Company.findById(req.user.companyId).select('location.state');
+                state = company?.location?.state?.trim() || undefined;
+            }
+
+            const suggestion = await priceIndexService.suggest(category, unit, state);
+            res.json({ success: true, data: suggestion });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/marketplace/waste-listings/:id/analytics
+     * Daily trends, conversion funnel and peer comparison for the seller
+     */
+    async getWasteListingAnalytics(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const days = parseInt(req.query.days as string) || 30;
+            const analytics = await listingAnalyticsService.forListing(res.locals.resource, days);
+
+            res.json({ success: true, data: analytics });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * PUT /api/waste-listings/:id
      */
@@ -141,10 +221,22 @@ export class MarketplaceController {
                 return;
             }
 
-            if (listing.companyId.toString() !== req.user?.companyId && listing.companyId.toString() !== req.user?.userId) {
-                res.status(403).json({ success: false, error: 'Not authorized' });
+            // The lot and its terms are fixed once bidding has started
+            if ((req.body.pricing || req.body.quantity) && listing.pricing?.type === 'auction'
+                && (listing.pricing.auction?.status !== 'scheduled' || listing.pricing.auction?.bidCount > 0)) {
+                res.status(409).json({ success: false, error: 'Quantity and pricing cannot change once bidding has started' });
                 return;
             }
+            if (req.body.pricing?.type === 'auction') {
+                const pricing = { ...listing.toObject().pricing, ...req.body.pricing };
+                req.body.pricing = {
+                    ...pricing,
+                    auction: auctionService.prepare(pricing.auction, pricing.amount, req.body.expiresAt || listing.expiresAt),
+                };
+            }
+            if (req.body.provenance) {
+                req.body.provenance = await lineageService.prepareProvenance(listing.companyId.toString(), req.body.provenance);
+            }
 
             const updated = await WasteListing.findByIdAndUpdate(
                 req.params.id,
@@ -152,6 +244,12 @@ export class MarketplaceController {
                 { new: true, runValidators: true }
             );
 
+            if (updated && (req.body.pricing || req.body.quantity || req.body.material)) {
+                await priceIndexService.benchmarkListing(updated);
+            }
+            if (updated && listing.status !== 'active') {
+                this.notifySavedSearches(updated);
+            }
             res.json({ success: true, data: updated });
         } catch (error) {
             next(error);
@@ -169,8 +267,9 @@ export class MarketplaceController {
                 return;
             }
 
-            if (listing.companyId.toString() !== req.user?.companyId && listing.companyId.toString() !== req.user?.userId) {
-                res.status(403).json({ success: false, error: 'Not authorized' });
+            const auction = listing.pricing?.type === 'auction' ? listing.pricing.auction : undefined;
+            if (auction && ['scheduled', 'open'].includes(auction.status) && auction.bidCount > 0) {
+                res.status(409).json({ success: false, error: 'An auction with bids cannot be withdrawn' });
                 return;
             }
 
@@ -183,6 +282,46 @@ export class MarketplaceController {
         }
     }
 
+    // ==================== AUCTIONS ====================
+
+    /**
+     * POST /api/waste-listings/:id/bids
+     * Bid a price per unit on an auction listing
+     */
+    async placeBid(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { bid, listing } = await auctionService.placeBid(req.params.id as string, {
+                companyId: (req.user?.companyId || req.user?.userId) as string,
+                userId: req.user?.userId,
+            }, req.body.amount);
+
+            res.status(201).json({
+                success: true,
+                data: { bid, auction: { endsAt: listing.pricing.auction.endsAt, bidCount: listing.pricing.auction.bidCount } },
+                message: bid.extendedAuction ? 'Bid placed — the auction has been extended' : 'Bid placed',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/waste-listings/:id/bids
+     * Bid history — full for the seller, redacted for everyone else
+     */
+    async listBids(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const history = await auctionService.history(
+                req.params.id as string,
+                (req.user?.companyId || req.user?.userId) as string | undefined
+            );
+
+            res.json({ success: true, data: history });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     // ==================== NEED LISTINGS ====================
 
     /**
@@ -197,6 +336,13 @@ export class MarketplaceController {
                 companyId,
             });
 
+            // Match against waste already on the market straight away
+            if (listing.status === 'active') {
+                matchingEngine.matchNeed(listing._id.toString())
+                    .then((matches) => matches.length && logger.info(`🎯 New need ${listing._id} matched ${matches.length} listing(s)`))
+                    .catch((error) => logger.error(`Reverse matching failed for need ${listing._id}:`, error));
+            }
+
             res.status(201).json({ success: true, data: listing });
         } catch (error) {
             next(error);
@@ -274,11 +420,6 @@ export class MarketplaceController {
                 return;
             }
 
-            if (listing.companyId.toString() !== req.user?.companyId && listing.companyId.toString() !== req.user?.userId) {
-                res.status(403).json({ success: false, error: 'Not authorized' });
-                return;
-            }
-
             const updated = await NeedListing.findByIdAndUpdate(
                 req.params.id,
                 { ...req.body },
@@ -367,11 +508,12 @@ export class MarketplaceController {
 
             // Always record the inquiry regardless of email outcome
             await WasteListing.findByIdAndUpdate(listingId, { $inc: { inquiryCount: 1 } });
+            listingAnalyticsService.record('inquiry', listing, { actorCompanyId: buyerCompanyId });
 
-            // Attempt email delivery (non-blocking for the user experience)
+            // Queue the email in the outbox; it is retried until delivered
             let emailSent = false;
             try {
-                await brevoService.sendContactSellerEmail(sellerEmail, {
+                emailSent = await brevoService.sendContactSellerEmail(sellerEmail, {
                     sellerName: sellerCompany?.name || 'Seller',
                     buyerName,
                     buyerIndustry,
@@ -382,9 +524,8 @@ export class MarketplaceController {
                     price,
                     listingId,
                 });
-                emailSent = true;
             } catch (emailError: any) {
-                logger.error(`Failed to deliver contact-seller email for listing ${listingId}:`, {
+                logger.error(`Failed to queue contact-seller email for listing ${listingId}:`, {
                     message: emailError.message,
                     code: emailError.code,
                 });
@@ -397,8 +538,8 @@ export class MarketplaceController {
                     message: 'Interest notification sent to seller. They will contact you shortly.',
                 });
             } else {
-                // Partial success — interest recorded but email failed
-                logger.info(`Interest recorded for listing ${listingId} from ${buyerName} (email delivery failed)`);
+                // Partial success — interest recorded, email waiting in the outbox for a retry
+                logger.info(`Interest recorded for listing ${listingId} from ${buyerName} (email queued for retry)`);
                 res.status(202).json({
                     success: true,
                     message: 'Your interest has been recorded. The seller will be notified when the email service recovers.',
@@ -409,6 +550,16 @@ export class MarketplaceController {
             next(error);
         }
     }
+
+    // ==================== HELPERS ====================
+
+    // Saved-search notifications must not hold up the listing response
+    private notifySavedSearches(listing: WasteListingDocument): void {
+        if (listing.status !== 'active') return;
+        savedSearchService.onListingActivated(listing).catch((error) => {
+            logger.error(`Saved-search evaluation failed for listing ${listing._id}:`, error);
+        });
+    }
 }
 
 export const marketplaceController = new MarketplaceController();
@@ -1,11 +1,26 @@
 import { Request, Response, NextFunction } from 'express';
 import { Match } from '../models/Match';
+import { MatchBundle } from '../models/MatchBundle';
 import { WasteListing } from '../models/WasteListing';
 import { ProductPassport } from '../models/ProductPassport';
 import { matchingEngine } from '../services/matching/algorithm';
 import { impactCalculator } from '../services/impact/calculator';
 import { brevoService } from '../services/notifications/brevo.service';
 import { n8nService } from '../services/notifications/n8n.service';
+import { negotiationService, OfferResponse } from '../services/matching/negotiation.service';
+import { matchStateMachine } from '../services/matching/stateMachine';
+import { disputeService } from '../services/disputes/dispute.service';
+import { transportService } from '../services/logistics/transport.service';
+import { shipmentService } from '../services/logistics/shipment.service';
+import { hazardousComplianceService } from '../services/compliance/hazardous.service';
+import { ledgerService } from '../services/payments/ledger.service';
+import { invoiceService } from '../services/payments/invoice.service';
+import { passportLedgerService } from '../services/passports/passportLedger.service';
+import { certificateService } from '../services/passports/certificate.service';
+import { lineageService } from '../services/passports/lineage.service';
+import { listingAnalyticsService } from '../services/analytics/listingAnalytics.service';
+import { HazardousManifest } from '../models/HazardousManifest';
+import { Invoice } from '../models/Invoice';
 import { Company } from '../models/Company';
 import { logger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
@@ -13,28 +28,25 @@ import { v4 as uuidv4 } from 'uuid';
 export class MatchingController {
     /**
      * POST /api/matches/find
-     * Trigger match finding for a waste listing
+     * Trigger match finding for a waste listing, or for a need listing
+     * (reverse matching)
      */
     async findMatches(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const { wasteListingId } = req.body;
+            const { wasteListingId, needListingId } = req.body;
 
-            if (!wasteListingId) {
-                res.status(400).json({ success: false, error: 'wasteListingId is required' });
+            if (!wasteListingId && !needListingId) {
+                res.status(400).json({ success: false, error: 'wasteListingId or needListingId is required' });
                 return;
             }
 
-            // Verify ownership
-            const listing = await WasteListing.findById(wasteListingId);
-            if (!listing) {
-                res.status(404).json({ success: false, error: 'Listing not found' });
+            if (needListingId) {
+                await this.findMatchesForNeed(res);
                 return;
             }
 
-            if (listing.companyId.toString() !== req.user?.companyId && listing.companyId.toString() !== req.user?.userId) {
-                res.status(403).json({ success: false, error: 'Not authorized' });
-                return;
-            }
+            // Ownership verified by requireResourceOwner('WasteListing')
+            const listing = res.locals.resource;
 
             // Run matching engine
             const results = await matchingEngine.findMatches(wasteListingId);
@@ -86,7 +98,7 @@ export class MatchingController {
     async getMyMatches(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
             const companyId = req.user?.companyId || req.user?.userId;
-            const { status, role, page = '1', limit = '20' } = req.query;
+            const { status, role, bundleId, page = '1', limit = '20' } = req.query;
 
             const filter: any = {};
             if (role === 'seller') {
@@ -98,6 +110,7 @@ export class MatchingController {
             }
 
             if (status) filter['negotiation.status'] = status;
+            if (bundleId) filter.bundleId = bundleId;
 
             const pageNum = parseInt(page as string);
             const limitNum = Math.min(parseInt(limit as string), 50);
@@ -124,6 +137,97 @@ export class MatchingController {
         }
     }
 
+    /**
+     * POST /api/matches/bundles
+     * Propose bundles of several waste listings that together cover a need
+     */
+    async proposeBundles(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            // Ownership verified by requireResourceOwner('NeedListing')
+            const need = res.locals.resource;
+            const bundles = await matchingEngine.proposeBundles(need._id.toString());
+
+            res.json({
+                success: true,
+                data: bundles,
+                message: bundles.length
+                    ? `Proposed ${bundles.length} bundle(s)`
+                    : 'No combination of listings covers this need. Try widening quantity, budget or distance.',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/matches/bundles
+     * Bundles proposed to the current company, optionally for one need
+     */
+    async listBundles(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const companyId = req.user?.companyId || req.user?.userId;
+            const { needListingId, status = 'proposed' } = req.query;
+
+            const filter: any = { buyerId: companyId };
+            if (needListingId) filter.needListingId = needListingId;
+            if (status !== 'all') filter.status = status;
+
+            const bundles = await MatchBundle.find(filter)
+                .populate('items.wasteListingId', 'material quantity pricing status')
+                .populate('items.sellerId', 'name industry location.city')
+                .sort({ score: -1, createdAt: -1 })
+                .limit(50);
+
+            res.json({ success: true, data: bundles });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/bundles/:id/accept
+     * Accept a bundle — creates one linked match per seller
+     */
+    async acceptBundle(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+            const { bundle, matches } = await matchingEngine.acceptBundle(res.locals.resource, { companyId, userId: req.user?.userId });
+            const [buyer, listings] = await Promise.all([
+                Company.findById(companyId).select('name'),
+                WasteListing.find({ _id: { $in: bundle.items.map((item) => item.wasteListingId) } })
+                    .select('material companyId')
+                    .populate('companyId', 'email'),
+            ]);
+
+            for (const match of matches) {
+                const item = bundle.items.find((i) => i.wasteListingId.toString() === match.wasteListingId.toString());
+                const listing: any = listings.find((l) => l._id.toString() === match.wasteListingId.toString());
+                const sellerEmail = listing?.companyId?.email;
+                if (item && sellerEmail) {
+                    brevoService.sendMatchNotification(sellerEmail, {
+                        matchId: match._id,
+                        material: listing.material.category,
+                        quantity: `${item.quantity} ${item.unit}`,
+                        price: item.pricePerUnit,
+                        sellerName: buyer?.name || 'Industrial Buyer',
+                        distance: item.distanceKm,
+                        score: match.matchScore,
+                        impact: match.predictedImpact,
+                    }).catch((err: any) => logger.warn('Match notification email failed:', err));
+                }
+                n8nService.triggerMatchFound(match).catch(() => { });
+            }
+
+            res.json({
+                success: true,
+                data: { bundle, matches },
+                message: `Bundle accepted — ${matches.length} sellers have your offer`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * GET /api/matches/:id
      */
@@ -141,7 +245,10 @@ export class MatchingController {
                 return;
             }
 
-            res.json({ success: true, data: match });
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+            const actions = matchStateMachine.availableTransitions(match, matchStateMachine.partyOf(match, companyId));
+
+            res.json({ success: true, data: match, actions });
         } catch (error) {
             next(error);
         }
@@ -149,36 +256,313 @@ export class MatchingController {
 
     /**
      * POST /api/matches/:id/accept
+     * Accept the open offer, or the listing's own terms if nobody has made one
      */
     async acceptMatch(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const match = await Match.findById(req.params.id);
-            if (!match) {
-                res.status(404).json({ success: false, error: 'Match not found' });
+            // Ownership verified by requireResourceOwner('Match')
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+
+            await negotiationService.acceptMatch(match, { companyId, userId: req.user?.userId }, req.body?.reason);
+
+            res.json({ success: true, data: match });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/negotiate
+     * Send a message; proposed price/quantity are turned into a versioned offer
+     */
+    async negotiate(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+            const actor = { companyId, userId: req.user?.userId };
+
+            if (req.body.proposedPrice || req.body.proposedQuantity) {
+                const current = negotiationService.openOffer(match);
+                const listing = await WasteListing.findById(match.wasteListingId).select('quantity pricing');
+                const pickupStart = req.body.proposedPickupDate ? new Date(req.body.proposedPickupDate) : undefined;
+
+                await negotiationService.makeOffer(match, actor, {
+                    pricePerUnit: req.body.proposedPrice ?? current?.pricePerUnit ?? listing?.pricing?.amount ?? 0,
+                    quantity: req.body.proposedQuantity ?? current?.quantity ?? listing?.quantity?.value ?? 0,
+                    pickupWindow: pickupStart
+                        ? { start: pickupStart, end: new Date(pickupStart.getTime() + 24 * 60 * 60 * 1000) }
+                        : undefined,
+                    message: req.body.message,
+                });
+
+                res.json({ success: true, data: match });
                 return;
             }
 
-            const companyId = req.user?.companyId || req.user?.userId;
-            if (match.buyerId.toString() !== companyId && match.sellerId.toString() !== companyId) {
-                res.status(403).json({ success: false, error: 'Not authorized' });
+            matchStateMachine.partyOf(match, companyId);
+            match.negotiation.messages.push({
+                from: companyId as any,
+                message: req.body.message || '',
+                timestamp: new Date(),
+                attachments: req.body.attachments || [],
+            });
+
+            await match.save();
+
+            res.json({ success: true, data: match });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/offers
+     * Open a new versioned offer (price, quantity, pickup window, expiry)
+     */
+    async makeOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+
+            await negotiationService.makeOffer(match, { companyId, userId: req.user?.userId }, req.body);
+
+            res.status(201).json({
+                success: true,
+                data: match,
+                message: `Offer v${match.negotiation.currentOfferVersion} sent`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/offers/:version/accept
+     */
+    async acceptOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+        return this.answerOffer(req, res, next, 'accept');
+    }
+
+    /**
+     * POST /api/matches/:id/offers/:version/reject
+     */
+    async rejectOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+        return this.answerOffer(req, res, next, 'reject');
+    }
+
+    /**
+     * POST /api/matches/:id/offers/:version/counter
+     * Replace the current offer with new terms
+     */
+    async counterOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+        return this.answerOffer(req, res, next, 'counter');
+    }
+
+    /**
+     * POST /api/matches/:id/reject
+     * Walk away from a match that is still being negotiated
+     */
+    async reject(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+            const offer = negotiationService.openOffer(match);
+
+            matchStateMachine.transition(match, 'negotiation', 'rejected', {
+                actor: matchStateMachine.partyOf(match, companyId),
+                companyId,
+                userId: req.user?.userId,
+                reason: req.body.reason || 'Match declined',
+            });
+            if (offer) {
+                offer.status = 'rejected';
+                offer.respondedAt = new Date();
+                offer.respondedBy = req.user?.userId;
+                match.negotiation.awaitingResponseFrom = undefined;
+            }
+
+            await match.save();
+
+            res.json({ success: true, data: match });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/pickup
+     * Seller confirms the material has been collected
+     */
+    async markPickedUp(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+
+            // Manifest for hazardous loads happens on the way out
+            await shipmentService.pickedUp(match, {
+                actor: matchStateMachine.partyOf(match, companyId),
+                companyId,
+                userId: req.user?.userId,
+                reason: req.body.reason || 'Picked up',
+            }, { trackingCode: req.body.trackingCode, logisticsProvider: req.body.logisticsProvider });
+
+            await match.save();
+            // Charge only once the pickup is on record
+            await shipmentService.chargeEscrow(match);
+
+            res.json({ success: true, data: match });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/matches/:id/shipment
+     * Pickup slots, transporter and tracking events
+     */
+    async getShipment(_req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            res.json({ success: true, data: shipmentService.forParties(res.locals.resource) });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/pickup-slots
+     * Seller proposes pickup slots for the buyer to choose from
+     */
+    async proposePickupSlots(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+
+            shipmentService.proposeSlots(match, {
+                actor: matchStateMachine.partyOf(match, companyId),
+                companyId,
+                userId: req.user?.userId,
+                reason: 'Pickup slots proposed',
+            }, req.body.slots);
+            await match.save();
+
+            res.json({ success: true, data: shipmentService.forParties(match) });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/pickup-slots/:slotId/confirm
+     * Buyer confirms one of the proposed slots
+     */
+    async confirmPickupSlot(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+
+            shipmentService.confirmSlot(match, {
+                actor: matchStateMachine.partyOf(match, companyId),
+                companyId,
+                userId: req.user?.userId,
+                reason: 'Pickup slot confirmed',
+            }, req.params.slotId as string);
+            await match.save();
+
+            res.json({ success: true, data: shipmentService.forParties(match) });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/tracking-link
+     * Seller issues the transporter a tokenised link for posting tracking events
+     */
+    async issueTrackingLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+
+            const link = shipmentService.issueTrackingToken(match, {
+                actor: matchStateMachine.partyOf(match, companyId),
+                companyId,
+                userId: req.user?.userId,
+                reason: 'Tracking link issued',
+            }, req.body);
+            await match.save();
+
+            res.status(201).json({ success: true, data: link });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/deliver
+     * Seller reports delivery, optionally with proof-of-delivery links
+     */
+    async markDelivered(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+
+            shipmentService.delivered(match, {
+                actor: matchStateMachine.partyOf(match, companyId),
+                companyId,
+                userId: req.user?.userId,
+                reason: req.body.notes || 'Delivered',
+            }, { proofOfDelivery: req.body.proofOfDelivery, notes: req.body.notes });
+
+            await match.save();
+            await hazardousComplianceService.markDelivered(match);
+
+            res.json({ success: true, data: match });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/verify
+     * Buyer approves the delivery, or rejects it and opens a dispute
+     */
+    async verifyDelivery(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+            const { approved, notes } = req.body;
+
+            match.execution.buyerVerification = { approved, notes, at: new Date() };
+
+            if (!approved) {
+                // A rejected delivery opens a dispute for a platform ruling
+                const dispute = await disputeService.file(match, { companyId, userId: req.user?.userId }, {
+                    category: req.body.category || 'quality',
+                    description: notes,
+                    desiredOutcome: req.body.desiredOutcome || 'other',
+                });
+
+                res.json({ success: true, data: match, dispute });
                 return;
             }
 
-            match.negotiation.status = 'accepted';
-            match.negotiation.acceptedAt = new Date();
-            match.negotiation.acceptedBy = companyId;
-            match.execution.status = 'pickup_scheduled';
-            match.statusHistory.push({
-                status: 'accepted',
-                changedAt: new Date(),
-                changedBy: companyId,
-                reason: req.body.reason || 'Match accepted',
+            matchStateMachine.transition(match, 'execution', 'verified', {
+                actor: matchStateMachine.partyOf(match, companyId),
+                companyId,
+                userId: req.user?.userId,
+                reason: notes || 'Delivery verified by buyer',
             });
-
             await match.save();
 
-            // Update listing status
-            await WasteListing.findByIdAndUpdate(match.wasteListingId, { status: 'reserved' });
+            // Money moves once the verification is on record. A failed
+            // release leaves the payment held; completion retries it.
+            try {
+                await ledgerService.release(match);
+                await match.save();
+            } catch (error) {
+                logger.error(`Escrow release failed for match ${match._id}:`, error);
+            }
 
             res.json({ success: true, data: match });
         } catch (error) {
@@ -187,44 +571,56 @@ export class MatchingController {
     }
 
     /**
-     * POST /api/matches/:id/negotiate
+     * POST /api/matches/:id/route
+     * Record the route actually driven (stops, vehicle, load factor) before completion
      */
-    async negotiate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    async recordRoute(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const match = await Match.findById(req.params.id);
+            const match = await Match.findById(req.params.id)
+                .populate('sellerId', 'name location')
+                .populate('buyerId', 'name location');
             if (!match) {
                 res.status(404).json({ success: false, error: 'Match not found' });
                 return;
             }
 
-            const companyId = req.user?.companyId || req.user?.userId;
-            if (match.buyerId.toString() !== companyId && match.sellerId.toString() !== companyId) {
-                res.status(403).json({ success: false, error: 'Not authorized' });
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+            const role = matchStateMachine.partyOf(match, companyId);
+            if (!['pickup_scheduled', 'in_transit', 'delivered', 'verified'].includes(match.execution.status)) {
+                res.status(409).json({ success: false, error: `Routes can only be recorded between acceptance and completion (execution is ${match.execution.status})` });
                 return;
             }
 
-            match.negotiation.status = 'in_progress';
-            if (req.body.proposedPrice) match.negotiation.proposedPrice = req.body.proposedPrice;
-            if (req.body.proposedQuantity) match.negotiation.proposedQuantity = req.body.proposedQuantity;
-            if (req.body.proposedPickupDate) match.negotiation.proposedPickupDate = new Date(req.body.proposedPickupDate);
-
-            match.negotiation.messages.push({
-                from: companyId as any,
-                message: req.body.message || 'Counter offer submitted',
-                timestamp: new Date(),
-                attachments: req.body.attachments || [],
+            // Omitted endpoints default to the two company sites
+            const seller = match.sellerId as any;
+            const buyer = match.buyerId as any;
+            const stops = [...req.body.stops];
+            if (req.body.startAtSeller) stops.unshift({ label: seller?.name, coordinates: seller?.location?.coordinates });
+            if (req.body.endAtBuyer) stops.push({ label: buyer?.name, coordinates: buyer?.location?.coordinates });
+
+            const route = transportService.fromRoute(stops, {
+                legDistancesKm: req.body.legDistancesKm,
+                vehicleType: req.body.vehicleType,
+                loadFactor: req.body.loadFactor,
             });
 
-            match.statusHistory.push({
-                status: 'negotiating',
-                changedAt: new Date(),
-                changedBy: companyId,
-                reason: 'Counter offer',
+            match.set('transport.actual', {
+                ...route,
+                carrier: req.body.carrier,
+                recordedBy: companyId,
+                recordedByUser: req.user?.userId,
+            });
+            if (req.body.carrier) match.execution.logisticsProvider = req.body.carrier;
+            matchStateMachine.record(match, 'execution', match.execution.status, 'route_recorded', {
+                actor: role,
+                companyId,
+                userId: req.user?.userId,
+                reason: `${route.distanceKm} km by ${route.vehicleType} over ${route.legs.length} leg(s)`,
             });
 
             await match.save();
 
-            res.json({ success: true, data: match });
+            res.json({ success: true, data: match.transport });
         } catch (error) {
             next(error);
         }
@@ -238,31 +634,73 @@ export class MatchingController {
         try {
             const match = await Match.findById(req.params.id)
                 .populate('wasteListingId')
-                .populate('sellerId', 'name location')
-                .populate('buyerId', 'name location');
+                .populate('sellerId', 'name email location')
+                .populate('buyerId', 'name email location');
 
             if (!match) {
                 res.status(404).json({ success: false, error: 'Match not found' });
                 return;
             }
 
-            const companyId = req.user?.companyId || req.user?.userId;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+
+            // A hazardous exchange cannot close without a current authorization
+            await hazardousComplianceService.assertAuthorized(match.wasteListingId, match.buyerId);
 
-            // Calculate actual impact
+            // Retry an escrow release that failed at verification
+            if (match.execution.status === 'verified' && ['pending', 'held'].includes(match.financials?.paymentStatus)) {
+                await ledgerService.release(match);
+                await match.save();
+            }
+
+            // Only a verified delivery can be completed
+            matchStateMachine.transition(match, 'execution', 'completed', {
+                actor: matchStateMachine.partyOf(match, companyId),
+                companyId,
+                userId: req.user?.userId,
+                reason: req.body.reason || 'Transaction completed',
+            });
+
+            // Settle on the locked terms; matches accepted before terms were
+            // locked fall back to the listing
             const wasteListing = match.wasteListingId as any;
-            const quantityKg = impactCalculator.normalizeToKg(
-                wasteListing.quantity.value,
-                wasteListing.quantity.unit
-            );
+            const terms = match.financials?.agreedTerms;
+            const quantity = terms?.quantity ?? wasteListing.quantity.value;
+            const unit = terms?.unit || wasteListing.quantity.unit;
+            const quantityKg = impactCalculator.normalizeToKg(quantity, unit, wasteListing.material.category);
             const seller = match.sellerId as any;
             const buyer = match.buyerId as any;
 
-            const distance = req.body.actualDistanceKm || match.matchFactors?.distanceScore || 50;
+            // Transport: a recorded route wins, then a client-supplied distance,
+            // then a road estimate between the two company locations
+            const vehicleType = req.body.vehicleType || req.body.transportMode || 'truck';
+            const loadFactor = req.body.loadFactor ?? 1.0;
+            const recorded = match.transport?.actual?.source === 'recorded' ? match.transport.actual : null;
+            const transport = recorded
+                || (req.body.actualDistanceKm ? transportService.fromDistance(req.body.actualDistanceKm, vehicleType, loadFactor) : null)
+                || transportService.estimate(
+                    { label: seller?.name, coordinates: seller?.location?.coordinates },
+                    { label: buyer?.name, coordinates: buyer?.location?.coordinates },
+                    vehicleType,
+                    loadFactor
+                );
+
+            if (!transport) {
+                res.status(422).json({
+                    success: false,
+                    error: 'Seller or buyer location is missing — record the route or pass actualDistanceKm',
+                });
+                return;
+            }
+
+            if (!recorded) match.set('transport.actual', transport);
+            if (transport.source === 'estimated') match.set('transport.estimate', transport);
+
+            // Transport emissions come from the assessment above, not the calculator
             const impact = impactCalculator.calculateExchangeImpact(
                 wasteListing.material.category,
                 quantityKg,
-                distance,
-                req.body.transportMode || 'truck'
+                0
             );
 
             match.actualImpact = {
@@ -270,20 +708,13 @@ export class MatchingController {
                 waterSavedLiters: impact.waterSavedLiters,
                 landfillAvoidedM3: impact.landfillAvoidedM3,
                 energySavedKwh: impact.energySavedKwh,
-                transportEmissionsKg: impact.transportEmissionsKg,
-                netCo2Saved: impact.netCo2Saved,
-                economicValueRealized: req.body.finalPrice || (wasteListing.pricing?.amount || 0) * wasteListing.quantity.value,
+                transportEmissionsKg: transport.co2Kg,
+                netCo2Saved: Math.round((impact.co2SavedKg - transport.co2Kg) * 100) / 100,
+                economicValueRealized: terms?.totalPrice ?? (req.body.finalPrice || (wasteListing.pricing?.amount || 0) * quantity),
             };
 
-            match.execution.status = 'completed';
-            match.execution.verifiedAt = new Date();
-            match.completedAt = new Date();
-            match.statusHistory.push({
-                status: 'completed',
-                changedAt: new Date(),
-                changedBy: companyId,
-                reason: 'Transaction completed',
-            });
+            // Relisted material points back at the passports it was received under
+            const provenance = await lineageService.forListing(wasteListing);
 
             // Generate Product Passport
             const passportNumber = `CIRC-${new Date().getFullYear()}-${uuidv4().slice(0, 8).toUpperCase()}`;
@@ -294,17 +725,29 @@ export class MatchingController {
                     companyName: seller?.name || 'Seller',
                     location: { coordinates: seller?.location?.coordinates || [0, 0], address: seller?.location?.address || '' },
                     materialType: wasteListing.material.category,
-                    quantity: wasteListing.quantity.value,
-                    unit: wasteListing.quantity.unit,
+                    quantity,
+                    unit,
+                    quantityKg: Math.round(quantityKg * 100) / 100,
                     date: match.createdAt,
                 },
                 journey: {
                     transport: {
-                        mode: req.body.transportMode || 'truck',
-                        distanceKm: distance,
-                        emissionsKg: impact.transportEmissionsKg,
+                        mode: transportService.passportMode(transport.vehicleType),
+                        distanceKm: transport.distanceKm,
+                        emissionsKg: transport.co2Kg,
+                        carrier: match.transport?.actual?.carrier || match.execution?.logisticsProvider,
+                        distanceSource: transport.source,
+                        vehicleType: transport.vehicleType,
+                        loadFactor: transport.loadFactor,
+                        emissionFactor: transport.emissionFactor,
+                        routeFactor: transport.routeFactor,
+                        legs: transport.legs,
+                        formula: transport.formula,
+                        trackingEvents: shipmentService.passportEvents(match),
                     },
+                    processing: provenance?.processing || [],
                 },
+                lineage: provenance?.lineage,
                 destination: {
                     companyId: match.buyerId,
                     companyName: buyer?.name || 'Buyer',
@@ -319,16 +762,46 @@ export class MatchingController {
                     methodology: 'EPA WARM Model + IPCC India Grid Factors',
                 },
                 blockchain: { network: 'none' },
-                verification: { status: 'verified' },
+                // Verified by a third-party audit, not on issue
+                verification: { status: 'pending' },
                 publicUrl: `/verify/${passportNumber}`,
                 matchId: match._id,
             });
 
             match.passportId = passport._id;
             await match.save();
+            await hazardousComplianceService.linkPassport(match, passport);
+
+            // Tax invoice — if it cannot be issued yet (e.g. no GSTIN on file)
+            // the exchange still completes and the seller can issue it later
+            try {
+                await invoiceService.issue(match, passport);
+                await match.save();
+            } catch (error: any) {
+                logger.warn(`⚠️ Invoice not issued for match ${match._id}: ${error.message}`);
+            }
+
+            // Seal the issued passport into the ledger — the anchoring job
+            // backfills it if this fails
+            try {
+                await passportLedgerService.record(passport, 'issue');
+            } catch (error: any) {
+                logger.warn(`⚠️ Passport ${passport.passportNumber} not recorded in the ledger: ${error.message}`);
+            }
+
+            // QR code and PDF certificate, emailed to both parties
+            try {
+                await certificateService.issue(passport);
+                for (const party of [seller, buyer]) {
+                    if (party?.email) brevoService.sendImpactCertificate(party.email, passport).catch(() => { });
+                }
+            } catch (error: any) {
+                logger.warn(`⚠️ Certificate not generated for passport ${passport.passportNumber}: ${error.message}`);
+            }
 
             // Update listing status
             await WasteListing.findByIdAndUpdate(match.wasteListingId, { status: 'completed' });
+            listingAnalyticsService.record('completed', match.wasteListingId, { matchId: match._id, actorCompanyId: companyId });
 
             // Trigger n8n and email (async)
             n8nService.triggerDealCompleted(match).catch(() => { });
@@ -344,6 +817,164 @@ export class MatchingController {
             next(error);
         }
     }
+
+    /**
+     * POST /api/matches/:id/manifest
+     * Issue the hazardous waste movement manifest (also issued at pickup)
+     */
+    async issueManifest(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const manifest = await hazardousComplianceService.issueManifest(res.locals.resource);
+            if (!manifest) {
+                res.status(422).json({ success: false, error: 'Only hazardous exchanges carry a manifest' });
+                return;
+            }
+
+            res.status(201).json({ success: true, data: manifest });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/matches/:id/manifest
+     * The match's manifest — ?format=html for the printable document
+     */
+    async getManifest(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const manifest = await HazardousManifest.findOne({ matchId: res.locals.resource._id });
+            if (!manifest) {
+                res.status(404).json({ success: false, error: 'No manifest has been issued for this match' });
+                return;
+            }
+
+            if (req.query.format === 'html') {
+                res.type('html').send(hazardousComplianceService.render(manifest));
+                return;
+            }
+            res.json({ success: true, data: manifest });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/invoice
+     * Issue the GST invoice for a completed exchange (also issued on completion)
+     */
+    async issueInvoice(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const invoice = await invoiceService.issue(match);
+            await match.save();
+
+            res.status(201).json({ success: true, data: invoice });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/matches/:id/invoice
+     * Download the invoice PDF — ?format=json for the invoice record
+     */
+    async getInvoice(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const invoice = await Invoice.findOne({ matchId: res.locals.resource._id });
+            if (!invoice) {
+                res.status(404).json({ success: false, error: 'No invoice has been issued for this match' });
+                return;
+            }
+
+            if (req.query.format === 'json') {
+                res.json({ success: true, data: invoice });
+                return;
+            }
+            const pdf = await invoiceService.file(invoice);
+            res.type('application/pdf')
+                .attachment(`${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`)
+                .send(pdf);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/matches/:id/ledger
+     * Escrow journal of the match, oldest first
+     */
+    async getLedger(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const transactions = await ledgerService.forMatch(res.locals.resource._id);
+            res.json({ success: true, data: { financials: res.locals.resource.financials, transactions } });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Answer the current offer as the party it was sent to
+     */
+    private async answerOffer(req: Request, res: Response, next: NextFunction, action: OfferResponse): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            const companyId = (req.user?.companyId || req.user?.userId) as string;
+            const version = parseInt(req.params.version as string);
+
+            await negotiationService.respond(match, { companyId, userId: req.user?.userId }, version, action, {
+                reason: req.body?.reason,
+                terms: action === 'counter' ? req.body : undefined,
+            });
+
+            res.json({ success: true, data: match });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // Reverse matching: score active waste listings against the need and
+    // tell the top sellers a buyer is interested
+    private async findMatchesForNeed(res: Response): Promise<void> {
+        // Ownership verified by requireResourceOwner('NeedListing')
+        const need = res.locals.resource;
+        const results = await matchingEngine.findMatchesForNeed(need._id.toString());
+
+        if (results.length === 0) {
+            res.json({
+                success: true,
+                data: [],
+                message: 'No listings found above 70% threshold. Try widening quantity, budget or distance.',
+            });
+            return;
+        }
+
+        const matches = await matchingEngine.createMatchesForNeed(need._id.toString(), results);
+        const buyer = await Company.findById(need.companyId).select('name');
+
+        for (const match of matches.slice(0, 3)) {
+            const result = results.find((r) => r.wasteListing._id.toString() === match.wasteListingId.toString());
+            const sellerEmail = result?.wasteListing.companyId?.email;
+            if (sellerEmail) {
+                brevoService.sendMatchNotification(sellerEmail, {
+                    matchId: match._id,
+                    material: result.wasteListing.material.category,
+                    quantity: `${result.wasteListing.quantity.value} ${result.wasteListing.quantity.unit}`,
+                    price: result.wasteListing.pricing?.amount,
+                    sellerName: buyer?.name || 'Industrial Buyer',
+                    distance: result.distance,
+                    score: match.matchScore,
+                    impact: match.predictedImpact,
+                }).catch((err: any) => logger.warn('Match notification email failed:', err));
+            }
+            n8nService.triggerMatchFound(match).catch(() => { });
+        }
+
+        res.json({
+            success: true,
+            data: matches,
+            message: `Found ${matches.length} matches`,
+        });
+    }
 }
 
 export const matchingController = new MatchingController();
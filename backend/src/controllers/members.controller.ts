@@ -0,0 +1,153 @@
+import { Request, Response, NextFunction } from 'express';
+import { User } from '../models/User';
+import { AccessAuditLog } from '../models/AccessAuditLog';
+import { membershipService } from '../services/membership/membership.service';
+
+export class MembersController {
+    /**
+     * GET /api/members
+     * List members and pending invitations of the acting company
+     */
+    async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const companyId = req.user?.companyId;
+            if (!companyId) {
+                res.status(403).json({ success: false, error: 'No company membership found for this account' });
+                return;
+            }
+
+            const members = await membershipService.listMembers(companyId);
+
+            res.json({
+                success: true,
+                data: members,
+                me: { userId: req.user?.userId, membershipId: req.user?.membershipId, role: req.user?.role },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/members/invitations
+     * Invite someone by email to join the acting company with a role
+     */
+    async invite(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const invitation = await membershipService.invite({
+                companyId: req.user!.companyId!,
+                email: req.body.email,
+                role: req.body.role,
+                invitedBy: req.user!.userId,
+                actorRole: req.user?.role,
+            });
+
+            res.status(201).json({
+                success: true,
+                data: invitation,
+                message: `Invitation sent to ${invitation.email}`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/members/invitations/:token/accept
+     * Accept an invitation as the signed-in user
+     */
+    async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const user = await User.findById(req.user?.userId).catch(() => null);
+            if (!user) {
+                res.status(401).json({ success: false, error: 'Sign in before accepting an invitation' });
+                return;
+            }
+
+            const membership = await membershipService.acceptInvitation(req.params.token as string, user);
+
+            res.json({
+                success: true,
+                data: membership,
+                message: 'Invitation accepted. Send X-Company-Id to act for this company.',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * PUT /api/members/:id/role
+     * Change a member's role
+     */
+    async changeRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const membership = await membershipService.changeRole({
+                companyId: req.user!.companyId!,
+                membershipId: req.params.id as string,
+                role: req.body.role,
+                actorUserId: req.user!.userId,
+                actorRole: req.user?.role,
+            });
+
+            res.json({ success: true, data: membership });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * DELETE /api/members/:id
+     * Remove a member or cancel a pending invitation
+     */
+    async remove(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const membership = await membershipService.removeMember({
+                companyId: req.user!.companyId!,
+                membershipId: req.params.id as string,
+                actorUserId: req.user!.userId,
+                actorRole: req.user?.role,
+            });
+
+            res.json({
+                success: true,
+                data: membership,
+                message: membership.userId ? 'Member removed' : 'Invitation cancelled',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/members/access-log
+     * Denied access attempts by members of, or against, the acting company
+     */
+    async accessLog(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const companyId = req.user!.companyId!;
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+            const filter = { $or: [{ companyId }, { targetCompanyId: companyId }] };
+
+            const [entries, total] = await Promise.all([
+                AccessAuditLog.find(filter)
+                    .sort({ createdAt: -1 })
+                    .skip((page - 1) * limit)
+                    .limit(limit)
+                    .lean(),
+                AccessAuditLog.countDocuments(filter),
+            ]);
+
+            res.json({
+                success: true,
+                data: entries,
+                pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export const membersController = new MembersController();
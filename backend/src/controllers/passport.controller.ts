@@ -1,5 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { ProductPassport } from '../models/ProductPassport';
+import { passportLedgerService } from '../services/passports/passportLedger.service';
+import { passportSigner } from '../services/passports/signer';
+import { certificateService } from '../services/passports/certificate.service';
+import { lineageService } from '../services/passports/lineage.service';
+import { passportAuditService } from '../services/passports/passportAudit.service';
 import { logger } from '../utils/logger';
 
 export class PassportController {
@@ -23,6 +28,24 @@ export class PassportController {
         }
     }
 
+    /**
+     * GET /api/passports/:id/lineage
+     * Chain-of-custody graph around a passport with de-duplicated cumulative impact
+     */
+    async lineage(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const passport = await ProductPassport.findById(req.params.id);
+            if (!passport) {
+                res.status(404).json({ success: false, error: 'Product passport not found' });
+                return;
+            }
+
+            res.json({ success: true, data: await lineageService.graph(passport) });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * GET /api/verify/:passportNumber
      * Public verification endpoint (no auth required)
@@ -61,7 +84,26 @@ export class PassportController {
                     journey: {
                         transportMode: passport.journey.transport.mode,
                         distanceKm: passport.journey.transport.distanceKm,
+                        processing: (passport.journey.processing || []).map((step: any) => ({
+                            facility: step.facility,
+                            process: step.process,
+                            date: step.date,
+                            yieldPct: step.yieldPct,
+                            emissionsKg: step.emissionsKg,
+                        })),
+                        // Transporter-reported pickup, GPS points and delivery
+                        tracking: (passport.journey.transport.trackingEvents || []).map((event: any) => ({
+                            status: event.status,
+                            timestamp: event.timestamp,
+                            location: event.location?.length ? event.location : undefined,
+                        })),
                     },
+                    // Relisted material — the passports it was received under
+                    madeFrom: passport.lineage?.parentPassportNumbers || [],
+                    // Hazardous loads: the manifest number lets regulators trace the movement
+                    hazardous: passport.hazardous?.manifestNumber
+                        ? { category: passport.hazardous.category, manifestNumber: passport.hazardous.manifestNumber }
+                        : undefined,
                     impact: {
                         co2SavedKg: passport.impact.co2SavedVsVirgin,
                         waterSavedLiters: passport.impact.waterSavedLiters,
@@ -69,8 +111,16 @@ export class PassportController {
                         landfillAvoidedM3: passport.impact.landfillAvoidedM3,
                         methodology: passport.impact.methodology,
                     },
+                    // Third-party audits with the hashes of the evidence relied on
+                    audits: passportLedgerService.publicRecord(passport).audits || [],
+                    revocation: passport.verification.status === 'revoked'
+                        ? { revokedAt: passport.verification.revokedAt, reason: passport.verification.revocationReason }
+                        : undefined,
                     blockchain: passport.blockchain,
+                    qrCode: passport.verification.qrCode,
                     verifiedAt: passport.createdAt,
+                    // Signed hash-chain entry and Merkle path — checkable offline
+                    proof: await passportLedgerService.proof(passport),
                 },
             });
         } catch (error) {
@@ -78,6 +128,136 @@ export class PassportController {
         }
     }
 
+    /**
+     * GET /api/passports/verify/:passportNumber/certificate
+     * Public PDF certificate (no auth required)
+     */
+    async certificate(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const passport = await ProductPassport.findOne({ passportNumber: req.params.passportNumber });
+            if (!passport) {
+                res.status(404).json({ success: false, error: 'Invalid passport number. This certificate does not exist.' });
+                return;
+            }
+
+            const pdf = await certificateService.file(passport);
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${passport.passportNumber}.pdf"`);
+            res.send(pdf);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/passports/ledger/key
+     * Public key that signs passport ledger entries and anchors
+     */
+    async ledgerKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            res.json({
+                success: true,
+                data: { keyId: passportSigner.keyId, type: 'Ed25519', pem: passportSigner.publicKeyPem },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // ==================== AUDITS ====================
+
+    /**
+     * GET /api/passports/audits/queue
+     * Passports awaiting a verdict, for accredited auditors
+     */
+    async auditQueue(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const reviewer = await passportAuditService.auditorFor(req.user);
+            const { items, pagination } = await passportAuditService.queue(
+                reviewer,
+                parseInt(req.query.page as string) || 1,
+                parseInt(req.query.limit as string) || 25
+            );
+
+            res.json({ success: true, data: items, pagination });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/passports/:id/audits
+     * Open a review of a passport on behalf of the auditor's organisation
+     */
+    async openAudit(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const reviewer = await passportAuditService.auditorFor(req.user);
+            const passport = await ProductPassport.findById(req.params.id);
+            if (!passport) {
+                res.status(404).json({ success: false, error: 'Product passport not found' });
+                return;
+            }
+
+            const audit = await passportAuditService.open(passport, reviewer, req.body.scope);
+            res.status(201).json({ success: true, data: audit });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/passports/:id/audits/:auditId/evidence
+     * Attach an evidence document by URL and SHA-256
+     */
+    async addAuditEvidence(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const reviewer = await passportAuditService.auditorFor(req.user);
+            const passport = await ProductPassport.findById(req.params.id);
+            if (!passport) {
+                res.status(404).json({ success: false, error: 'Product passport not found' });
+                return;
+            }
+
+            const document = await passportAuditService.attachEvidence(passport, req.params.auditId as string, reviewer, req.body);
+            res.status(201).json({ success: true, data: document });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/passports/:id/audits/:auditId/verdict
+     * Close the review — pass verifies the passport, fail disputes it
+     */
+    async auditVerdict(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const reviewer = await passportAuditService.auditorFor(req.user);
+            const passport = await ProductPassport.findById(req.params.id);
+            if (!passport) {
+                res.status(404).json({ success: false, error: 'Product passport not found' });
+                return;
+            }
+
+            const audit = await passportAuditService.verdict(passport, req.params.auditId as string, reviewer, req.body.result, req.body.findings);
+            res.json({ success: true, data: { audit, status: passport.verification.status } });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/admin/passports/:id/revoke
+     * Platform admin revocation with a reason
+     */
+    async revoke(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const passport = await passportAuditService.revoke(req.params.id as string, req.body.reason, req.user?.email);
+            res.json({ success: true, data: passport });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * GET /api/product-passports
      * List passports for a company
@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express';
+import { Match } from '../models/Match';
+import { reviewService } from '../services/reviews/review.service';
+
+export class ReviewController {
+    /**
+     * POST /api/matches/:id/review
+     * Rate and review the other party — once each, after completion
+     */
+    async submit(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            // Ownership verified by requireResourceOwner('Match')
+            const match = res.locals.resource;
+            const { held } = await reviewService.submit(match, this.actor(req), req.body);
+
+            res.status(201).json({
+                success: true,
+                data: match.ratings,
+                message: held
+                    ? 'Review submitted. It will be published once a moderator has checked it.'
+                    : 'Review published',
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/matches/:id/review/report
+     * Report the review the other party left about you
+     */
+    async report(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = res.locals.resource;
+            await reviewService.report(match, this.actor(req), req.body.reason);
+
+            res.json({ success: true, message: 'Review reported to the moderators' });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/companies/:id/reviews
+     * Published reviews a company has received — public
+     */
+    async listForCompany(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { items, summary, pagination } = await reviewService.listForCompany(req.params.id as string, {
+                page: parseInt(req.query.page as string) || 1,
+                limit: parseInt(req.query.limit as string) || 20,
+            });
+
+            res.json({ success: true, data: items, summary, pagination });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/admin/reviews
+     * Held and reported reviews awaiting moderation
+     */
+    async listQueue(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { items, pagination } = await reviewService.listQueue({
+                page: parseInt(req.query.page as string) || 1,
+                limit: parseInt(req.query.limit as string) || 25,
+            });
+
+            res.json({ success: true, data: items, pagination });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/admin/reviews/:matchId/:side
+     * Publish or hide the review of the seller or buyer on a match
+     */
+    async moderate(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = await Match.findById(req.params.matchId).catch(() => null);
+            if (!match) {
+                res.status(404).json({ success: false, error: 'Match not found' });
+                return;
+            }
+
+            await reviewService.moderate(
+                match,
+                req.params.side as 'seller' | 'buyer',
+                { userId: req.user?.userId },
+                req.body.action,
+                req.body.notes
+            );
+
+            res.json({ success: true, data: match.ratings, message: req.body.action === 'publish' ? 'Review published' : 'Review hidden' });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    private actor(req: Request) {
+        return { companyId: (req.user?.companyId || req.user?.userId) as string, userId: req.user?.userId };
+    }
+}
+
+export const reviewController = new ReviewController();
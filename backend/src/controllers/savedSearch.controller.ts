@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from 'express';
+import { savedSearchService } from '../services/savedSearches/savedSearch.service';
+
+export class SavedSearchController {
+    /**
+     * GET /api/marketplace/saved-searches
+     * The company's saved searches with their unseen hit counts
+     */
+    async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const searches = await savedSearchService.list(this.actor(req).companyId);
+            res.json({ success: true, data: searches });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/marketplace/saved-searches
+     * Save a filter set and subscribe to new listings matching it
+     */
+    async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const search = await savedSearchService.create(this.actor(req), req.body);
+            res.status(201).json({ success: true, data: search, message: 'Search saved' });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * PUT /api/marketplace/saved-searches/:id
+     * Rename, change filters or cadence, pause or resume
+     */
+    async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            // Ownership verified by requireResourceOwner('SavedSearch')
+            const search = await savedSearchService.update(res.locals.resource, req.body);
+            res.json({ success: true, data: search });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * DELETE /api/marketplace/saved-searches/:id
+     */
+    async remove(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            await savedSearchService.remove(res.locals.resource);
+            res.json({ success: true, message: 'Saved search deleted' });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/marketplace/saved-searches/hits
+     * New listings that matched the company's saved searches
+     */
+    async hits(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { items, unseen, pagination } = await savedSearchService.hits(this.actor(req).companyId, {
+                savedSearchId: req.query.savedSearchId as string | undefined,
+                unseenOnly: req.query.unseen === 'true',
+                page: parseInt(req.query.page as string) || 1,
+                limit: parseInt(req.query.limit as string) || 20,
+            });
+
+            res.json({ success: true, data: items, unseen, pagination });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/marketplace/saved-searches/hits/seen
+     * Mark hits as seen — all of them, or one search's
+     */
+    async markSeen(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const updated = await savedSearchService.markSeen(this.actor(req).companyId, req.body?.savedSearchId);
+            res.json({ success: true, data: { updated } });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    private actor(req: Request) {
+        return { companyId: (req.user?.companyId || req.user?.userId) as string, userId: req.user?.userId };
+    }
+}
+
+export const savedSearchController = new SavedSearchController();
@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import { shipmentService } from '../services/logistics/shipment.service';
+
+// Transporters have no account — the token from the seller's tracking
+// link is sent in the X-Tracking-Token header (kept out of URLs and logs)
+const tokenOf = (req: Request) => req.header('x-tracking-token');
+
+export class TrackingController {
+    /**
+     * GET /api/tracking
+     * Pickup, drop-off and progress for the holder of a tracking link
+     */
+    async view(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = await shipmentService.authenticate(tokenOf(req));
+            res.json({ success: true, data: await shipmentService.driverView(match) });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/tracking/events
+     * Transporter reports pickup, an in-transit GPS point or delivery
+     */
+    async report(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const match = await shipmentService.authenticate(tokenOf(req));
+            const events = await shipmentService.report(match, req.body);
+            res.status(201).json({ success: true, data: { status: match.execution.status, events } });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+export const trackingController = new TrackingController();
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { Alert } from '../models/Alert';
+import { EmailLog } from '../models/EmailLog';
 import { logger } from '../utils/logger';
 
 /**
@@ -28,6 +29,18 @@ export class WebhookController {
 
             logger.info(`📧 Brevo Email Event: ${event} for message ${messageId}`);
 
+            // Keep the outbox record in step with the provider
+            switch (event) {
+                case 'delivered':
+                    await EmailLog.updateOne({ messageId }, { status: 'delivered', deliveredAt: new Date() });
+                    break;
+                case 'hard_bounce':
+                case 'invalid_email':
+                case 'blocked':
+                    await EmailLog.updateOne({ messageId }, { status: 'bounced', error: `Provider event: ${event}` });
+                    break;
+            }
+
             // Find the alert associated with this message ID
             const alert = await Alert.findOne({ 'emailDelivery.brevoMessageId': messageId });
 
@@ -4,7 +4,13 @@ import { NeedListing } from '../models/NeedListing';
 import { Match } from '../models/Match';
 import { Company } from '../models/Company';
 import { matchingEngine } from '../services/matching/algorithm';
+import { negotiationService } from '../services/matching/negotiation.service';
+import { auctionService } from '../services/auctions/auction.service';
+import { savedSearchService } from '../services/savedSearches/savedSearch.service';
+import { priceIndexService } from '../services/pricing/priceIndex.service';
+import { passportLedgerService } from '../services/passports/passportLedger.service';
 import { brevoService } from '../services/notifications/brevo.service';
+import { emailOutbox } from '../services/notifications/emailOutbox.service';
 import { impactPredictor } from '../services/impact/predictor';
 import { ImpactAnalytics } from '../models/ImpactAnalytics';
 import { logger } from '../utils/logger';
@@ -46,7 +52,19 @@ export function initCronJobs(): void {
             const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
             const expiredMatches = await Match.updateMany(
                 { 'negotiation.status': 'pending', createdAt: { $lte: thirtyDaysAgo } },
-                { $set: { 'negotiation.status': 'expired' } }
+                {
+                    $set: { 'negotiation.status': 'expired' },
+                    $push: {
+                        statusHistory: {
+                            track: 'negotiation',
+                            from: 'pending',
+                            status: 'expired',
+                            changedAt: now,
+                            actorRole: 'system',
+                            reason: 'No response within 30 days',
+                        },
+                    },
+                }
             );
 
             if (expiredWaste.modifiedCount || expiredNeed.modifiedCount || expiredMatches.modifiedCount) {
@@ -77,6 +95,9 @@ export function initCronJobs(): void {
                 newExpiry.setDate(newExpiry.getDate() + 30);
                 listing.expiresAt = newExpiry;
                 await listing.save();
+                await savedSearchService.onListingActivated(listing).catch((err) => {
+                    logger.error(`Cron: saved-search evaluation failed for ${listing._id}:`, err);
+                });
             }
 
             if (expired.length > 0) {
@@ -93,9 +114,11 @@ export function initCronJobs(): void {
     cron.schedule('0 */6 * * *', async () => {
         try {
             // Find active waste listings with 0 matches (new/unmatched)
+            // Auctions find their buyer through bidding, not matching
             const unmatchedListings = await WasteListing.find({
                 status: 'active',
                 matchCount: 0,
+                'pricing.type': { $ne: 'auction' },
             }).limit(20);
 
             let matchesCreated = 0;
@@ -111,8 +134,23 @@ export function initCronJobs(): void {
                 }
             }
 
+            // Reverse direction: needs still waiting for a seller
+            const unmatchedNeeds = await NeedListing.find({
+                status: 'active',
+                matchCount: 0,
+            }).select('_id').limit(20);
+
+            for (const need of unmatchedNeeds) {
+                try {
+                    const matches = await matchingEngine.matchNeed(need._id.toString());
+                    matchesCreated += matches.length;
+                } catch (err) {
+                    // Skip individual failures
+                }
+            }
+
             if (matchesCreated > 0) {
-                logger.info(`🎯 Auto-matched: ${matchesCreated} new matches from ${unmatchedListings.length} listings`);
+                logger.info(`🎯 Auto-matched: ${matchesCreated} new matches from ${unmatchedListings.length} listings and ${unmatchedNeeds.length} needs`);
             }
         } catch (error) {
             logger.error('Cron: auto-match failed:', error);
@@ -151,6 +189,7 @@ export function initCronJobs(): void {
                                 $or: [{ sellerId: company._id }, { buyerId: company._id }],
                                 'execution.status': 'completed',
                                 completedAt: { $gte: oneWeekAgo },
+                                'actualImpact.revokedAt': { $exists: false },
                             },
                         },
                         {
@@ -236,5 +275,78 @@ export function initCronJobs(): void {
         }
     });
 
+    // ─────────────────────────────────────────────────────
+    // 7. Drain email outbox (retries with backoff) — every 2 minutes
+    // ─────────────────────────────────────────────────────
+    cron.schedule('*/2 * * * *', async () => {
+        try {
+            const summary = await emailOutbox.drain();
+            if (summary.processed) {
+                logger.info(
+                    `📬 Outbox drained: ${summary.sent} sent, ${summary.failed} retrying, ${summary.dead} dead-lettered`
+                );
+            }
+        } catch (error) {
+            logger.error('Cron: email-outbox-drain failed:', error);
+        }
+    });
+
+    // ─────────────────────────────────────────────────────
+    // 8. Expire negotiation offers past their deadline — every 15 minutes
+    // ─────────────────────────────────────────────────────
+    cron.schedule('*/15 * * * *', async () => {
+        try {
+            await negotiationService.expireStaleOffers();
+        } catch (error) {
+            logger.error('Cron: offer-expiry failed:', error);
+        }
+    });
+
+    // ─────────────────────────────────────────────────────
+    // 9. Open and close auctions — every minute
+    // ─────────────────────────────────────────────────────
+    cron.schedule('* * * * *', async () => {
+        try {
+            await auctionService.processDue();
+        } catch (error) {
+            logger.error('Cron: auction-settlement failed:', error);
+        }
+    });
+
+    // ─────────────────────────────────────────────────────
+    // 10. Saved-search daily digests — every day at 8 AM
+    // ─────────────────────────────────────────────────────
+    cron.schedule('0 8 * * *', async () => {
+        try {
+            await savedSearchService.sendDigests();
+        } catch (error) {
+            logger.error('Cron: saved-search-digest failed:', error);
+        }
+    });
+
+    // ─────────────────────────────────────────────────────
+    // 11. Rebuild the regional price index — every day at 3 AM
+    // ─────────────────────────────────────────────────────
+    cron.schedule('0 3 * * *', async () => {
+        try {
+            await priceIndexService.rebuild();
+        } catch (error) {
+            logger.error('Cron: price-index failed:', error);
+        }
+    });
+    // Build it once at startup so a fresh deployment has prices to show
+    priceIndexService.rebuild().catch((error) => logger.error('Startup: price-index failed:', error));
+
+    // ─────────────────────────────────────────────────────
+    // 12. Anchor the passport ledger in a Merkle root — every hour
+    // ─────────────────────────────────────────────────────
+    cron.schedule('30 * * * *', async () => {
+        try {
+            await passportLedgerService.anchor();
+        } catch (error) {
+            logger.error('Cron: passport-ledger anchor failed:', error);
+        }
+    });
+
     logger.info('✅ All cron jobs initialized');
 }
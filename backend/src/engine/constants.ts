@@ -153,11 +153,39 @@ export const DEFAULT_MATCH_WEIGHTS = {
     reliabilityScore: 0.10,
 };
 
+// Buyer preferences (NeedListing.matchingPreferences) steer part of the
+// weight; material and quantity fit always keep a fixed floor so a
+// price-only preference cannot match the wrong material.
+export const PREFERENCE_FIXED_WEIGHTS = {
+    materialCompatibility: 0.20,
+    quantityFit: 0.20,
+};
+export const PREFERENCE_WEIGHT_SHARE = 0.60;
+
+// ═══════════════════════════════════════════════════════════════
+// RELIABILITY (COMPANY REPUTATION) CONSTANTS
+// ═══════════════════════════════════════════════════════════════
+export const RELIABILITY_WEIGHTS = {
+    completion: 0.30,       // Accepted deals carried through to completion
+    disputes: 0.20,         // Deals not lost in a dispute ruling
+    onTime: 0.20,           // Pickups (seller) / verifications (buyer) on time
+    ratings: 0.20,          // Counterparty star ratings
+    responsiveness: 0.10,   // Time taken to answer offers
+};
+export const REPUTATION_HALF_LIFE_DAYS = 180;   // An event loses half its weight every 6 months
+export const REPUTATION_PRIOR_WEIGHT = 2;       // Pseudo-observations at the neutral score
+export const REPUTATION_NEUTRAL_SCORE = 50;     // Score of a company with no history
+export const RESPONSE_TARGET_HOURS = 4;         // Answering within this scores 100
+export const RESPONSE_LIMIT_HOURS = 72;         // Answering after this (or never) scores 0
+
 // ═══════════════════════════════════════════════════════════════
 // EARTH CONSTANTS
 // ═══════════════════════════════════════════════════════════════
 export const EARTH_RADIUS_KM = 6371;
 
+// Road distance ≈ 1.3× great circle on Indian road networks
+export const ROAD_ROUTE_FACTOR = 1.3;
+
 // ═══════════════════════════════════════════════════════════════
 // PREDICTIVE ANALYTICS CONSTANTS
 // ═══════════════════════════════════════════════════════════════
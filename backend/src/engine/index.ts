@@ -6,7 +6,7 @@
  *   emissions  → Formulas 1-9   (Carbon + Waste)
  *   circular   → Formulas 10-12 (MCI, Credits, ISE)
  *   transport  → Formulas 13-15 (Haversine, Vehicle, Route)
- *   matching   → Formulas 16-19 (Scoring, Price, Distance, Quantity)
+ *   matching   → Formulas 16-19 (Scoring, Price, Distance, Quantity) + Reliability
  *   predictive → Formulas 20-22 (Smoothing, CI, Regression)
  *   economic   → Formulas 23-25 (CAC, IRR, Eco-efficiency)
  */
@@ -43,10 +43,15 @@ export {
 // Matching (F16-F19)
 export {
     calculateWeightedMatchScore,
+    weightsFromPreferences,
     calculatePriceScore,
     calculateDistanceScore,
     calculateQuantityFit,
     calculateMaterialCompatibility,
+    calculateReliabilityScore,
+    decayWeight,
+    ratingToScore,
+    responseLatencyScore,
 } from './matching';
 
 // Predictive (F20-F22)
@@ -5,7 +5,17 @@
  * ZERO AI. Scoring is pure math.
  */
 
-import { DEFAULT_MATCH_WEIGHTS } from './constants';
+import {
+    DEFAULT_MATCH_WEIGHTS,
+    PREFERENCE_FIXED_WEIGHTS,
+    PREFERENCE_WEIGHT_SHARE,
+    RELIABILITY_WEIGHTS,
+    REPUTATION_HALF_LIFE_DAYS,
+    REPUTATION_PRIOR_WEIGHT,
+    REPUTATION_NEUTRAL_SCORE,
+    RESPONSE_TARGET_HOURS,
+    RESPONSE_LIMIT_HOURS,
+} from './constants';
 
 function round1(n: number): number {
     return Math.round(n * 10) / 10;
@@ -78,6 +88,44 @@ export function calculateWeightedMatchScore(
     };
 }
 
+export interface MatchingPreferences {
+    prioritizeDistance?: number;
+    prioritizePrice?: number;
+    prioritizeQuality?: number;
+    prioritizeReliability?: number;
+}
+
+/**
+ * Turn a buyer's matching preferences into match weights.
+ * w_material = 0.20 + 0.60 × q̂   w_quantity = 0.20
+ * w_price = 0.60 × p̂   w_distance = 0.60 × d̂   w_reliability = 0.60 × r̂
+ * where q̂, p̂, d̂, r̂ are the preferences normalised to sum to 1.
+ * No usable preferences → the default weights.
+ */
+export function weightsFromPreferences(prefs?: MatchingPreferences): Required<MatchWeights> {
+    const raw = {
+        quality: Math.max(0, prefs?.prioritizeQuality ?? 0),
+        price: Math.max(0, prefs?.prioritizePrice ?? 0),
+        distance: Math.max(0, prefs?.prioritizeDistance ?? 0),
+        reliability: Math.max(0, prefs?.prioritizeReliability ?? 0),
+    };
+    const total = raw.quality + raw.price + raw.distance + raw.reliability;
+    if (!prefs || total <= 0) return { ...DEFAULT_MATCH_WEIGHTS };
+
+    const share = (value: number) => Math.round((PREFERENCE_WEIGHT_SHARE * value / total) * 1000) / 1000;
+    const weights = {
+        materialCompatibility: PREFERENCE_FIXED_WEIGHTS.materialCompatibility + share(raw.quality),
+        quantityFit: PREFERENCE_FIXED_WEIGHTS.quantityFit,
+        priceCompatibility: share(raw.price),
+        distanceScore: share(raw.distance),
+        reliabilityScore: share(raw.reliability),
+    };
+    // Absorb rounding drift so the weights sum to exactly 1
+    const drift = 1 - Object.values(weights).reduce((sum, w) => sum + w, 0);
+    weights.materialCompatibility = Math.round((weights.materialCompatibility + drift) * 1000) / 1000;
+    return weights;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // FORMULA 17: Price Compatibility Score
 // Score = 100 × (1 - |Listed - BudgetMid| / BudgetMid)
@@ -229,3 +277,84 @@ export function calculateMaterialCompatibility(
         formula: `Material(${listedCategory}/${listedSubType || 'any'} vs ${neededCategory}/${neededSubTypes?.join(',') || 'any'}) = ${score}`,
     };
 }
+
+// ═══════════════════════════════════════════════════════════════
+// RELIABILITY SCORE (time-decayed company reputation)
+// wᵢ = 0.5^(ageDaysᵢ / halfLife)
+// Componentₖ = (Σ wᵢxᵢ + prior × 50) / (Σ wᵢ + prior)
+// Score = Σ(Wₖ × Componentₖ)
+// ═══════════════════════════════════════════════════════════════
+
+export interface ReputationObservation {
+    ageDays: number; // >= 0
+    value: number;   // 0-100
+}
+
+export interface ReputationSignals {
+    completion: ReputationObservation[];
+    disputes: ReputationObservation[];
+    onTime: ReputationObservation[];
+    ratings: ReputationObservation[];
+    responsiveness: ReputationObservation[];
+}
+
+export type ReputationComponent = keyof ReputationSignals;
+
+export function decayWeight(ageDays: number, halfLifeDays: number = REPUTATION_HALF_LIFE_DAYS): number {
+    if (halfLifeDays <= 0) throw new Error('halfLifeDays must be > 0');
+    return Math.pow(0.5, Math.max(0, ageDays) / halfLifeDays);
+}
+
+/** 1-5 stars → 0-100 */
+export function ratingToScore(stars: number): number {
+    if (stars < 1 || stars > 5) throw new Error(`rating must be 1-5, got ${stars}`);
+    return round1(((stars - 1) / 4) * 100);
+}
+
+/** 100 within the target, linear down to 0 at the limit */
+export function responseLatencyScore(hours: number): number {
+    if (hours < 0) throw new Error('hours must be >= 0');
+    if (hours <= RESPONSE_TARGET_HOURS) return 100;
+    if (hours >= RESPONSE_LIMIT_HOURS) return 0;
+    return round1(100 * (RESPONSE_LIMIT_HOURS - hours) / (RESPONSE_LIMIT_HOURS - RESPONSE_TARGET_HOURS));
+}
+
+export function calculateReliabilityScore(
+    signals: ReputationSignals,
+    halfLifeDays: number = REPUTATION_HALF_LIFE_DAYS
+): {
+    score: number;
+    components: Record<ReputationComponent, { score: number; weight: number; observations: number }>;
+    formula: string;
+} {
+    const components = {} as Record<ReputationComponent, { score: number; weight: number; observations: number }>;
+    let score = 0;
+
+    for (const key of Object.keys(RELIABILITY_WEIGHTS) as ReputationComponent[]) {
+        let weighted = 0;
+        let weight = 0;
+        for (const obs of signals[key]) {
+            if (obs.value < 0 || obs.value > 100) throw new Error(`${key} observation must be 0-100, got ${obs.value}`);
+            const w = decayWeight(obs.ageDays, halfLifeDays);
+            weighted += w * obs.value;
+            weight += w;
+        }
+
+        // Thin histories are pulled toward neutral rather than trusted outright
+        const componentScore = round1(
+            (weighted + REPUTATION_PRIOR_WEIGHT * REPUTATION_NEUTRAL_SCORE) / (weight + REPUTATION_PRIOR_WEIGHT)
+        );
+        components[key] = { score: componentScore, weight: Math.round(weight * 100) / 100, observations: signals[key].length };
+        score += componentScore * RELIABILITY_WEIGHTS[key];
+    }
+
+    score = clamp(round1(score), 0, 100);
+
+    return {
+        score,
+        components,
+        formula: `Reliability = ${(Object.keys(components) as ReputationComponent[])
+            .map((key) => `${components[key].score}×${RELIABILITY_WEIGHTS[key]}`)
+            .join(' + ')} = ${score} (half-life ${halfLifeDays}d)`,
+    };
+}
@@ -5,7 +5,7 @@
  * ZERO AI. Haversine + vehicle emissions are hardcoded.
  */
 
-import { EARTH_RADIUS_KM, TRANSPORT_FACTORS } from './constants';
+import { EARTH_RADIUS_KM, ROAD_ROUTE_FACTOR, TRANSPORT_FACTORS } from './constants';
 
 function round2(n: number): number {
     return Math.round(n * 100) / 100;
@@ -146,7 +146,7 @@ export function estimateTransport(
     const dist = haversineDistance(lat1, lon1, lat2, lon2);
 
     // Road distance ≈ 1.3× great circle (route factor)
-    const roadDistanceKm = round2(dist.distanceKm * 1.3);
+    const roadDistanceKm = round2(dist.distanceKm * ROAD_ROUTE_FACTOR);
 
     const emissions = calculateVehicleEmissions({
         distanceKm: roadDistanceKm,
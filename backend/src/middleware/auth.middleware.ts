@@ -1,8 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
-import { Company } from '../models/Company';
+import { User } from '../models/User';
+import { membershipService } from '../services/membership/membership.service';
+import { hasPermission, Permission } from '../utils/permissions';
+import { denyAccess } from './authorization.middleware';
 
 /**
  * JWT Authentication middleware
@@ -26,38 +30,79 @@ export const authMiddleware = async (
 
         const token = authHeader.split(' ')[1];
 
+        const requestedCompanyId = req.headers['x-company-id'] as string | undefined;
+
         try {
             // Try to verify as our own JWT first
             const decoded = jwt.verify(token, env.JWT_SECRET) as any;
+            if (decoded.scope) throw new Error('Scoped tokens are not sessions');
 
-            (req as any).user = {
+            const { user, membership } = await membershipService.resolveActor({
                 userId: decoded.userId,
-                companyId: decoded.companyId,
-                email: decoded.email,
-                firstName: decoded.firstName || '',
-                lastName: decoded.lastName || '',
-                fullName: decoded.fullName || '',
+                companyId: requestedCompanyId || decoded.companyId,
+                legacyCompanyId: decoded.userId === decoded.companyId ? decoded.companyId : undefined,
+                profile: { email: decoded.email },
+            });
+
+            // Tokens without a user/membership behind them keep their claims
+            // but carry no role, so permission-checked routes reject them.
+            const companyId = membership?.companyId?.toString() || decoded.companyId;
+            (req as any).user = {
+                userId: user?._id?.toString() || decoded.userId,
+                companyId,
+                membershipId: membership?._id?.toString(),
+                role: membership?.role,
+                email: user?.email || decoded.email,
+                firstName: user?.firstName || decoded.firstName || '',
+                lastName: user?.lastName || decoded.lastName || '',
+                fullName: user?.fullName || decoded.fullName || '',
+                verified: true,
             };
-            (req as any).companyId = decoded.companyId;
+            (req as any).companyId = companyId;
 
             next();
         } catch (jwtError) {
-            // If JWT fails, try Clerk-style token (decode without verify for dev)
+            // If JWT fails, try a Clerk session token — verified when CLERK_JWT_KEY
+            // is set, otherwise only decoded (development and test only)
             try {
-                const decoded = jwt.decode(token) as any;
+                const verified = !!env.CLERK_JWT_KEY;
+                if (!verified && env.NODE_ENV === 'production') {
+                    throw new Error('Clerk token verification key is not configured');
+                }
+                const decoded = verified
+                    ? jwt.verify(token, env.CLERK_JWT_KEY!.replace(/\\n/g, '\n'), { algorithms: ['RS256'] }) as any
+                    : jwt.decode(token) as any;
                 if (decoded && decoded.sub) {
-                    // Find company by clerkUserId
-                    const company = await Company.findOne({ clerkUserId: decoded.sub });
-                    const companyId = company?._id?.toString();
-
-                    (req as any).user = {
-                        userId: decoded.sub,
-                        companyId,
+                    const profile = {
                         email: decoded.email || decoded.email_addresses?.[0]?.email_address,
+                        emailVerified: verified && decoded.email_verified === true,
                         firstName: decoded.first_name || decoded.given_name || '',
                         lastName: decoded.last_name || decoded.family_name || '',
                         fullName: decoded.name || decoded.full_name || '',
                     };
+
+                    // Find the user (or legacy company) by clerkUserId
+                    const { user, membership } = await membershipService.resolveActor({
+                        clerkUserId: decoded.sub,
+                        companyId: requestedCompanyId,
+                        profile,
+                    });
+                    const companyId = membership?.companyId?.toString();
+
+                    // Unverified token claims never replace what is stored on the user
+                    (req as any).user = {
+                        userId: user?._id?.toString() || decoded.sub,
+                        companyId,
+                        membershipId: membership?._id?.toString(),
+                        role: membership?.role,
+                        clerkUserId: decoded.sub,
+                        email: (profile.emailVerified && profile.email) || user?.email || profile.email,
+                        emailVerified: profile.emailVerified,
+                        verified,
+                        firstName: user?.firstName || profile.firstName,
+                        lastName: user?.lastName || profile.lastName,
+                        fullName: user?.fullName || profile.fullName,
+                    };
                     (req as any).companyId = companyId;
 
                     next();
@@ -81,6 +126,62 @@ export const authMiddleware = async (
     }
 };
 
+/**
+ * Platform-operator guard — use after authMiddleware.
+ * Admins are listed by email in PLATFORM_ADMIN_EMAILS and matched against the
+ * email stored on the User, never a token claim; decode-only tokens are refused.
+ */
+export const requirePlatformAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const admins = env.PLATFORM_ADMIN_EMAILS
+            .split(',')
+            .map((email) => email.trim().toLowerCase())
+            .filter(Boolean);
+
+        const user = req.user?.verified && mongoose.isValidObjectId(req.user.userId)
+            ? await User.findById(req.user.userId).select('email status')
+            : null;
+
+        if (!user || user.status === 'disabled' || !admins.includes(user.email.toLowerCase())) {
+            denyAccess(req, res, { reason: 'not a platform admin' }, 'Platform admin access required.');
+            return;
+        }
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
+
+const STREAM_TOKEN_SCOPE = 'esg-stream';
+
+/**
+ * Short-lived token for one company's SSE stream. EventSource clients cannot
+ * set headers, so this goes in the URL instead of the session token.
+ */
+export const signStreamToken = (userId: string, companyId: string): string =>
+    jwt.sign({ scope: STREAM_TOKEN_SCOPE, userId, companyId }, env.JWT_SECRET, { expiresIn: '60s' });
+
+/**
+ * Authenticates SSE routes from `?stream_token=` — use instead of authMiddleware.
+ * Session tokens are refused here, and stream tokens everywhere else.
+ */
+export const streamTokenAuth = (req: Request, res: Response, next: NextFunction): void => {
+    const token = req.query.stream_token;
+    try {
+        const decoded = typeof token === 'string' ? jwt.verify(token, env.JWT_SECRET) as any : null;
+        if (decoded?.scope !== STREAM_TOKEN_SCOPE) throw new Error('Not a stream token');
+
+        req.user = { userId: decoded.userId, companyId: decoded.companyId, verified: true };
+        next();
+    } catch {
+        res.status(401).json({
+            success: false,
+            error: 'Invalid or expired stream token.',
+        });
+    }
+};
+
 /**
  * Optional auth — sets req.user if token exists, but doesn't block
  */
@@ -97,6 +198,7 @@ export const optionalAuth = async (
     try {
         const token = authHeader.split(' ')[1];
         const decoded = jwt.verify(token, env.JWT_SECRET) as any;
+        if (decoded.scope) return next();
         req.user = {
             userId: decoded.userId,
             companyId: decoded.companyId,
@@ -107,3 +209,29 @@ export const optionalAuth = async (
     }
     next();
 };
+
+/**
+ * Role-based permission guard — use after authMiddleware.
+ * Rejects members whose role in the acting company lacks the permission.
+ */
+export const requirePermission = (permission: Permission) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!req.user?.companyId) {
+            res.status(403).json({
+                success: false,
+                error: 'No company membership found for this account.',
+            });
+            return;
+        }
+
+        if (!hasPermission(req.user.role, permission)) {
+            denyAccess(req, res, {
+                reason: `role ${req.user.role || 'none'} lacks ${permission}`,
+                permission,
+            }, `Your role (${req.user.role || 'none'}) does not allow this action.`);
+            return;
+        }
+
+        next();
+    };
+};
@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from 'express';
+import { Model } from 'mongoose';
+import { WasteListing } from '../models/WasteListing';
+import { NeedListing } from '../models/NeedListing';
+import { Match } from '../models/Match';
+import { MatchBundle } from '../models/MatchBundle';
+import { Suggestion } from '../models/Suggestion';
+import { SavedSearch } from '../models/SavedSearch';
+import { AccessAuditLog } from '../models/AccessAuditLog';
+import { logger } from '../utils/logger';
+
+export type OwnedResource = 'WasteListing' | 'NeedListing' | 'Match' | 'MatchBundle' | 'Suggestion' | 'SavedSearch';
+
+// Fields holding the owning company id — any match grants access
+const RESOURCE_OWNERS: Record<OwnedResource, { model: Model<any>; ownerFields: string[] }> = {
+    WasteListing: { model: WasteListing, ownerFields: ['companyId'] },
+    NeedListing: { model: NeedListing, ownerFields: ['companyId'] },
+    Match: { model: Match, ownerFields: ['sellerId', 'buyerId'] },
+    MatchBundle: { model: MatchBundle, ownerFields: ['buyerId'] },
+    Suggestion: { model: Suggestion, ownerFields: ['companyId'] },
+    SavedSearch: { model: SavedSearch, ownerFields: ['companyId'] },
+};
+
+/**
+ * Record a denied attempt and answer 403.
+ */
+export const denyAccess = (
+    req: Request,
+    res: Response,
+    details: {
+        reason: string;
+        targetCompanyId?: string;
+        resourceType?: string;
+        resourceId?: string;
+        permission?: string;
+    },
+    message: string = 'Not authorized to access this resource'
+): void => {
+    logger.warn(`Access denied: ${req.method} ${req.originalUrl} — ${details.reason}`, {
+        user: req.user?.userId,
+        company: req.user?.companyId,
+    });
+
+    // Fire-and-forget: auditing must never block or fail the request
+    AccessAuditLog.create({
+        userId: req.user?.userId,
+        companyId: req.user?.companyId,
+        role: req.user?.role,
+        ...details,
+        method: req.method,
+        path: req.originalUrl,
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+    }).catch((err) => logger.error('Failed to write access audit log:', err));
+
+    res.status(403).json({ success: false, error: message });
+};
+
+/**
+ * True when the request acts for `companyId`. Members of several companies
+ * pick the one they act for with the X-Company-Id header (see authMiddleware),
+ * so access is always judged against that single acting company.
+ */
+export const canAccessCompany = (req: Request, companyId?: string): boolean => {
+    return !!companyId && !!req.user?.companyId && req.user.companyId === companyId;
+};
+
+/**
+ * Guard for company-scoped routes (`/:companyId/...`) — use after authMiddleware.
+ */
+export const requireCompanyAccess = (param: string = 'companyId') => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const targetCompanyId = req.params[param] as string;
+
+        if (!canAccessCompany(req, targetCompanyId)) {
+            denyAccess(req, res, {
+                reason: 'not acting for target company',
+                targetCompanyId,
+            }, 'Not authorized to access this company');
+            return;
+        }
+
+        next();
+    };
+};
+
+/**
+ * Guard that loads a resource and checks it belongs to the caller's company.
+ * The loaded document is left on `res.locals.resource` for the controller.
+ *
+ * By default the id comes from `req.params.id`; pass `{ bodyField }` to read
+ * it from the request body instead (e.g. `wasteListingId`).
+ */
+export const requireResourceOwner = (
+    resourceType: OwnedResource,
+    options: { param?: string; bodyField?: string } = {}
+) => {
+    const { model, ownerFields } = RESOURCE_OWNERS[resourceType];
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const resourceId = options.bodyField
+                ? req.body?.[options.bodyField]
+                : req.params[options.param || 'id'];
+
+            if (!resourceId) {
+                res.status(400).json({ success: false, error: `${options.bodyField || 'id'} is required` });
+                return;
+            }
+
+            const resource = await model.findById(resourceId);
+            if (!resource) {
+                res.status(404).json({ success: false, error: `${resourceType} not found` });
+                return;
+            }
+
+            const owners = ownerFields
+                .map((field) => resource.get(field))
+                .filter(Boolean)
+                .map((id: any) => (id._id || id).toString());
+
+            if (!owners.some((ownerId: string) => canAccessCompany(req, ownerId))) {
+                denyAccess(req, res, {
+                    reason: `not an owner of ${resourceType}`,
+                    targetCompanyId: owners[0],
+                    resourceType,
+                    resourceId: resourceId.toString(),
+                }, 'Not authorized');
+                return;
+            }
+
+            res.locals.resource = resource;
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+};
@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── Access Audit Log ─────────────────────────────────────
+// One entry per denied authorization attempt (403). Kept for 180 days.
+export interface AccessAuditLogDocument extends Document {
+    userId?: string;
+    companyId?: string;
+    role?: string;
+    targetCompanyId?: string;
+    resourceType?: string;
+    resourceId?: string;
+    permission?: string;
+    reason: string;
+    method: string;
+    path: string;
+    ip?: string;
+    userAgent?: string;
+    createdAt: Date;
+}
+
+const accessAuditLogSchema = new Schema(
+    {
+        userId: { type: String, index: true },
+        companyId: { type: String, index: true },
+        role: String,
+        targetCompanyId: { type: String, index: true },
+        resourceType: String,
+        resourceId: String,
+        permission: String,
+        reason: { type: String, required: true },
+        method: { type: String, required: true },
+        path: { type: String, required: true },
+        ip: String,
+        userAgent: String,
+    },
+    { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+accessAuditLogSchema.index({ createdAt: 1 }, { expireAfterSeconds: 180 * 24 * 60 * 60 });
+
+export const AccessAuditLog = mongoose.model<AccessAuditLogDocument>('AccessAuditLog', accessAuditLogSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── Auditor Document ─────────────────────────────────────
+// An accredited third-party verification body registered by a platform
+// admin. Its people sign in with their own accounts; the emails listed
+// here are the ones allowed to review passports on its behalf.
+export interface AuditorDocument extends Document {
+    organization: string;
+    accreditation: {
+        body: string;
+        number: string;
+        validUntil?: Date;
+    };
+    emails: string[];
+    active: boolean;
+    registeredBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const auditorSchema = new Schema(
+    {
+        organization: { type: String, required: true, trim: true },
+        accreditation: {
+            // e.g. NABCB, an ISO 14065 verification body accreditation
+            body: { type: String, required: true },
+            number: { type: String, required: true },
+            validUntil: Date,
+        },
+        emails: [{ type: String, lowercase: true, trim: true }],
+        active: { type: Boolean, default: true },
+        registeredBy: String,
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+auditorSchema.index({ emails: 1 });
+
+export const Auditor = mongoose.model<AuditorDocument>('Auditor', auditorSchema);
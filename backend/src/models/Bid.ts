@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── Bid States ───────────────────────────────────────────
+// active      → the bidder's live bid
+// outbid      → an open-auction bid beaten by another company
+// superseded  → replaced by a higher bid from the same company
+// won / lost  → settled when the auction closed
+export type BidStatus = 'active' | 'outbid' | 'superseded' | 'won' | 'lost';
+
+export interface BidDocument extends Document {
+    listingId: any;
+    sellerId: any;
+    bidderId: any;
+    bidderUser?: any;
+    amount: number;
+    quantity: number;
+    unit: string;
+    status: BidStatus;
+    extendedAuction: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const bidSchema = new Schema(
+    {
+        listingId: { type: Schema.Types.ObjectId, ref: 'WasteListing', required: true },
+        sellerId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+        bidderId: { type: Schema.Types.ObjectId, ref: 'Company', required: true, index: true },
+        bidderUser: { type: Schema.Types.ObjectId, ref: 'User' },
+        // Price per unit — the whole listed quantity is sold as one lot
+        amount: { type: Number, required: true, min: 0 },
+        quantity: { type: Number, required: true },
+        unit: { type: String, required: true },
+        status: {
+            type: String,
+            enum: ['active', 'outbid', 'superseded', 'won', 'lost'],
+            default: 'active',
+        },
+        // This bid pushed the end time back (anti-sniping)
+        extendedAuction: { type: Boolean, default: false },
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+bidSchema.index({ listingId: 1, amount: -1, createdAt: 1 });
+bidSchema.index({ listingId: 1, bidderId: 1, status: 1 });
+
+export const Bid = mongoose.model<BidDocument>('Bid', bidSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { GSTIN_PATTERN } from '../utils/gst';
 
 // ═══════════════════════════════════════════════════════════════
 // COMPREHENSIVE COMPANY DOCUMENT — ALL 10 ONBOARDING STEPS
@@ -37,6 +38,7 @@ export interface CompanyDocument extends Document {
     email?: string;
     password?: string;
     registrationNumber?: string;
+    gstin?: string;
     yearEstablished?: number;
     website?: string;
 
@@ -130,6 +132,16 @@ export interface CompanyDocument extends Document {
         sustainabilityTargets?: string;
     };
 
+    // State Pollution Control Board authorization to receive hazardous waste
+    hazardousAuthorization?: {
+        authorizationNumber: string;
+        issuedBy?: string;
+        validFrom?: Date;
+        validUntil: Date;
+        categories?: string[]; // Hazardous Waste Rules categories covered; empty = all
+        updatedAt?: Date;
+    };
+
     // Legacy compatibility
     facilitySize?: number;
     employeeCount?: number;
@@ -148,6 +160,12 @@ export interface CompanyDocument extends Document {
     verificationStatus: string;
     lastLoginAt?: Date;
     role?: string;
+    reputation?: {
+        score: number;
+        components: Record<string, { score: number; weight: number; observations: number }>;
+        formula: string;
+        computedAt: Date;
+    };
     createdAt: Date;
     updatedAt: Date;
 }
@@ -185,6 +203,7 @@ const companySchema = new Schema(
         email: { type: String, trim: true, lowercase: true },
         password: { type: String, select: false },
         registrationNumber: { type: String, trim: true },
+        gstin: { type: String, trim: true, uppercase: true, match: [GSTIN_PATTERN, 'Invalid GSTIN'] },
         yearEstablished: Number,
         website: { type: String, trim: true },
 
@@ -311,6 +330,16 @@ const companySchema = new Schema(
             sustainabilityTargets: String,
         },
 
+        // Set through PUT /api/companies/:id/hazardous-authorization only
+        hazardousAuthorization: {
+            authorizationNumber: { type: String, trim: true },
+            issuedBy: { type: String, trim: true },
+            validFrom: Date,
+            validUntil: Date,
+            categories: [{ type: String, trim: true }],
+            updatedAt: Date,
+        },
+
         // Legacy compat
         facilitySize: Number,
         employeeCount: Number,
@@ -356,6 +385,14 @@ const companySchema = new Schema(
             default: 'admin',
         },
         lastLoginAt: Date,
+
+        // Cached reliability snapshot — recomputed by the reputation service when stale
+        reputation: {
+            score: Number,
+            components: Schema.Types.Mixed,
+            formula: String,
+            computedAt: Date,
+        },
     },
     {
         timestamps: true,
@@ -0,0 +1,119 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DisputeCategory =
+    | 'quality'
+    | 'quantity'
+    | 'contamination'
+    | 'non_delivery'
+    | 'late_delivery'
+    | 'documentation'
+    | 'payment'
+    | 'other';
+
+export type DisputeOutcome = 'full_refund' | 'partial_refund' | 'replacement' | 'price_adjustment' | 'passport_correction' | 'other';
+
+// ─── Dispute States ───────────────────────────────────────
+// open         → filed, waiting for the counterparty
+// responded    → counterparty answered, waiting for a platform ruling
+// resolved     → a platform admin ruled; effects applied to the match
+// withdrawn    → the filer dropped it before a ruling
+export type DisputeStatus = 'open' | 'responded' | 'resolved' | 'withdrawn';
+
+export interface DisputeDocument extends Document {
+    matchId: any;
+    passportId?: any;
+    filedBy: any;
+    filedByUser?: any;
+    filedByRole: 'seller' | 'buyer';
+    againstCompanyId: any;
+    category: DisputeCategory;
+    description: string;
+    attachments: string[];
+    desiredOutcome: DisputeOutcome;
+    requestedAmount?: number;
+    executionStatusBefore: string;
+    paymentStatusBefore: string;
+    status: DisputeStatus;
+    respondBy: Date;
+    response?: any;
+    evidence: any[];
+    ruling?: any;
+    withdrawnAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const disputeSchema = new Schema(
+    {
+        matchId: { type: Schema.Types.ObjectId, ref: 'Match', required: true, index: true },
+        passportId: { type: Schema.Types.ObjectId, ref: 'ProductPassport' },
+        filedBy: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+        filedByUser: { type: Schema.Types.ObjectId, ref: 'User' },
+        filedByRole: { type: String, enum: ['seller', 'buyer'], required: true },
+        againstCompanyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+        category: {
+            type: String,
+            enum: ['quality', 'quantity', 'contamination', 'non_delivery', 'late_delivery', 'documentation', 'payment', 'other'],
+            required: true,
+        },
+        description: { type: String, required: true },
+        attachments: [String],
+        desiredOutcome: {
+            type: String,
+            enum: ['full_refund', 'partial_refund', 'replacement', 'price_adjustment', 'passport_correction', 'other'],
+            required: true,
+        },
+        requestedAmount: Number,
+        // Restored when the dispute is ruled on or withdrawn
+        executionStatusBefore: { type: String, required: true },
+        paymentStatusBefore: { type: String, required: true },
+        status: {
+            type: String,
+            enum: ['open', 'responded', 'resolved', 'withdrawn'],
+            default: 'open',
+            index: true,
+        },
+        respondBy: { type: Date, required: true },
+        response: {
+            by: { type: Schema.Types.ObjectId, ref: 'Company' },
+            byUser: { type: Schema.Types.ObjectId, ref: 'User' },
+            statement: String,
+            attachments: [String],
+            acceptsOutcome: Boolean,
+            respondedAt: Date,
+        },
+        evidence: [
+            {
+                submittedBy: { type: Schema.Types.ObjectId, ref: 'Company' },
+                submittedByUser: { type: Schema.Types.ObjectId, ref: 'User' },
+                role: { type: String, enum: ['seller', 'buyer'] },
+                note: String,
+                attachments: [String],
+                submittedAt: { type: Date, default: Date.now },
+            },
+        ],
+        ruling: {
+            decision: { type: String, enum: ['upheld', 'partially_upheld', 'dismissed'] },
+            paymentAction: { type: String, enum: ['release', 'refund', 'partial_refund'] },
+            refundAmount: Number,
+            passportAction: { type: String, enum: ['none', 'revoke', 'amend'] },
+            passportAmendment: { quantity: Number, unit: String, notes: String },
+            faultCompanyId: { type: Schema.Types.ObjectId, ref: 'Company' },
+            notes: String,
+            ruledBy: { type: Schema.Types.ObjectId, ref: 'User' },
+            ruledByEmail: String,
+            ruledAt: Date,
+        },
+        withdrawnAt: Date,
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+disputeSchema.index({ status: 1, createdAt: -1 });
+disputeSchema.index({ 'ruling.faultCompanyId': 1, 'ruling.ruledAt': -1 });
+
+export const Dispute = mongoose.model<DisputeDocument>('Dispute', disputeSchema);
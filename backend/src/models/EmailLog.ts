@@ -1,12 +1,36 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// ─── Outbox States ────────────────────────────────────────
+// queued   → waiting for its first attempt
+// sending  → claimed by a worker (lockedAt set)
+// failed   → last attempt failed, retry scheduled at nextAttemptAt
+// dead     → gave up after maxAttempts; replay from the admin API
+// sent / delivered / bounced → handed to the provider / provider webhook result
+export type EmailStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'failed' | 'dead' | 'bounced';
+
 export interface EmailLogDocument extends Document {
     matchId?: any;
     type: string;
     recipient: string;
-    sentAt: Date;
-    status: string;
+    to: Array<{ email: string; name?: string }>;
+    subject?: string;
+    htmlContent?: string;
+    attachments?: Array<{ name: string; path: string }>;
+    idempotencyKey?: string;
+    status: EmailStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt?: Date;
+    lastAttemptAt?: Date;
+    lockedAt?: Date;
+    sentAt?: Date;
+    deliveredAt?: Date;
+    deadLetteredAt?: Date;
+    messageId?: string;
     error?: string;
+    replayCount: number;
+    createdAt: Date;
+    updatedAt: Date;
 }
 
 const emailLogSchema = new Schema(
@@ -14,17 +38,37 @@ const emailLogSchema = new Schema(
         matchId: { type: Schema.Types.ObjectId, ref: 'Match', index: true },
         type: { type: String, required: true, index: true },
         recipient: { type: String, required: true },
-        sentAt: { type: Date, default: Date.now },
+        to: [{
+            _id: false,
+            email: { type: String, required: true },
+            name: String,
+        }],
+        subject: String,
+        htmlContent: String,
+        // Stored by path — the file is attached at each delivery attempt
+        attachments: [{ _id: false, name: String, path: String }],
+        idempotencyKey: { type: String, unique: true, sparse: true },
         status: {
             type: String,
-            enum: ['sent', 'delivered', 'failed', 'bounced'],
-            default: 'sent',
+            enum: ['queued', 'sending', 'sent', 'delivered', 'failed', 'dead', 'bounced'],
+            default: 'queued',
         },
+        attempts: { type: Number, default: 0 },
+        maxAttempts: { type: Number, default: 8 },
+        nextAttemptAt: Date,
+        lastAttemptAt: Date,
+        lockedAt: Date,
+        sentAt: Date,
+        deliveredAt: Date,
+        deadLetteredAt: Date,
+        messageId: { type: String, index: true },
         error: String,
+        replayCount: { type: Number, default: 0 },
     },
     { timestamps: true }
 );
 
 emailLogSchema.index({ sentAt: -1 });
+emailLogSchema.index({ status: 1, nextAttemptAt: 1 });
 
 export const EmailLog = mongoose.model<EmailLogDocument>('EmailLog', emailLogSchema);
@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── Manifest States ──────────────────────────────────────
+// issued     → generated once terms are agreed, load not yet moving
+// in_transit → handed to the transporter at pickup
+// delivered  → receiver reported arrival
+// closed     → exchange completed and linked to its passport
+export type ManifestStatus = 'issued' | 'in_transit' | 'delivered' | 'closed';
+
+export interface HazardousManifestDocument extends Document {
+    manifestNumber: string;
+    matchId: any;
+    wasteListingId: any;
+    passportId?: any;
+    sender: any;
+    receiver: any;
+    transporter?: any;
+    waste: any;
+    status: ManifestStatus;
+    issuedAt: Date;
+    dispatchedAt?: Date;
+    deliveredAt?: Date;
+    closedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Movement document for one hazardous exchange (Hazardous Waste Rules, Form 10)
+const hazardousManifestSchema = new Schema(
+    {
+        manifestNumber: { type: String, required: true, unique: true },
+        matchId: { type: Schema.Types.ObjectId, ref: 'Match', required: true, unique: true },
+        wasteListingId: { type: Schema.Types.ObjectId, ref: 'WasteListing', required: true },
+        passportId: { type: Schema.Types.ObjectId, ref: 'ProductPassport' },
+        sender: {
+            companyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+            name: { type: String, required: true },
+            address: String,
+            contactEmail: String,
+        },
+        receiver: {
+            companyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+            name: { type: String, required: true },
+            address: String,
+            contactEmail: String,
+            // Snapshot of the authorization the load was accepted under
+            authorizationNumber: { type: String, required: true },
+            authorizationIssuedBy: String,
+            authorizationValidUntil: { type: Date, required: true },
+        },
+        transporter: {
+            name: String,
+            vehicleType: String,
+            trackingCode: String,
+        },
+        waste: {
+            category: { type: String, required: true },
+            hazardousCategory: { type: String, required: true },
+            description: String,
+            quantity: { type: Number, required: true },
+            unit: { type: String, required: true },
+            quantityKg: Number,
+            msdsAvailable: Boolean,
+        },
+        status: {
+            type: String,
+            enum: ['issued', 'in_transit', 'delivered', 'closed'],
+            default: 'issued',
+        },
+        issuedAt: { type: Date, default: Date.now },
+        dispatchedAt: Date,
+        deliveredAt: Date,
+        closedAt: Date,
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+export const HazardousManifest = mongoose.model<HazardousManifestDocument>('HazardousManifest', hazardousManifestSchema);
@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface InvoiceParty {
+    companyId: any;
+    name: string;
+    gstin?: string;
+    address?: string;
+    state?: string;
+    stateCode?: string;
+}
+
+export interface InvoiceLine {
+    description: string;
+    hsnCode: string;
+    quantity: number;
+    unit: string;
+    rate: number;
+    taxableValue: number;
+    gstRate: number;
+}
+
+export interface InvoiceDocument extends Document {
+    invoiceNumber: string;
+    financialYear: string;
+    sequence: number;
+    matchId: any;
+    passportId?: any;
+    seller: InvoiceParty;
+    buyer: InvoiceParty;
+    placeOfSupply: string;
+    intraState: boolean;
+    lines: InvoiceLine[];
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    totalTax: number;
+    grandTotal: number;
+    currency: string;
+    filePath: string;
+    issuedAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const partySchema = new Schema(
+    {
+        companyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+        name: { type: String, required: true },
+        gstin: String,
+        address: String,
+        state: String,
+        stateCode: String,
+    },
+    { _id: false }
+);
+
+// Tax invoice the seller issues the buyer for one completed exchange
+const invoiceSchema = new Schema(
+    {
+        // Numbered per seller and financial year, e.g. INV/26-27/00001
+        invoiceNumber: { type: String, required: true },
+        financialYear: { type: String, required: true },
+        sequence: { type: Number, required: true },
+        matchId: { type: Schema.Types.ObjectId, ref: 'Match', required: true, unique: true },
+        passportId: { type: Schema.Types.ObjectId, ref: 'ProductPassport' },
+        seller: { type: partySchema, required: true },
+        buyer: { type: partySchema, required: true },
+        placeOfSupply: { type: String, required: true },
+        intraState: { type: Boolean, required: true },
+        lines: [{
+            _id: false,
+            description: { type: String, required: true },
+            hsnCode: { type: String, required: true },
+            quantity: { type: Number, required: true },
+            unit: { type: String, required: true },
+            rate: { type: Number, required: true },
+            taxableValue: { type: Number, required: true },
+            gstRate: { type: Number, required: true },
+        }],
+        taxableValue: { type: Number, required: true },
+        cgst: { type: Number, default: 0 },
+        sgst: { type: Number, default: 0 },
+        igst: { type: Number, default: 0 },
+        totalTax: { type: Number, required: true },
+        grandTotal: { type: Number, required: true },
+        currency: { type: String, default: 'INR' },
+        filePath: { type: String, required: true },
+        issuedAt: { type: Date, default: Date.now },
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+invoiceSchema.index({ 'seller.companyId': 1, invoiceNumber: 1 }, { unique: true });
+invoiceSchema.index({ 'buyer.companyId': 1, issuedAt: -1 });
+
+export const Invoice = mongoose.model<InvoiceDocument>('Invoice', invoiceSchema);
+
+// Last invoice number used by a seller in a financial year
+const invoiceSequenceSchema = new Schema({
+    sellerId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+    financialYear: { type: String, required: true },
+    last: { type: Number, default: 0 },
+});
+
+invoiceSequenceSchema.index({ sellerId: 1, financialYear: 1 }, { unique: true });
+
+export const InvoiceSequence = mongoose.model('InvoiceSequence', invoiceSequenceSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── Ledger Accounts ──────────────────────────────────────
+// buyer_receivable  → what a buyer owes on agreed deals (per buyer)
+// escrow            → deal value the platform owes out, to seller or back to buyer (per match)
+// cash              → money held with the payment provider
+// seller_payable    → earnings owed to a seller, net of fees (per seller)
+// platform_revenue  → platform fees (tagged with the seller that paid them)
+export type LedgerAccount = 'buyer_receivable' | 'escrow' | 'cash' | 'seller_payable' | 'platform_revenue';
+
+// ─── Transaction Types ────────────────────────────────────
+// agreement → terms locked: buyer owes the deal value into escrow
+// hold      → pickup: buyer charged, cash now held
+// release   → buyer verified: escrow split into seller earnings and fee
+// payout    → seller earnings paid out of cash
+// refund    → escrow returned to the buyer from cash
+// void      → escrow cancelled before anything was charged
+export type LedgerTransactionType = 'agreement' | 'hold' | 'release' | 'payout' | 'refund' | 'void';
+
+export interface LedgerLine {
+    account: LedgerAccount;
+    companyId?: any;
+    debit: number;
+    credit: number;
+}
+
+export interface LedgerTransactionDocument extends Document {
+    idempotencyKey: string;
+    matchId: any;
+    type: LedgerTransactionType;
+    lines: LedgerLine[];
+    amount: number;
+    currency: string;
+    providerReference?: string;
+    memo?: string;
+    postedAt: Date;
+    createdAt: Date;
+}
+
+// One balanced journal entry — debits always equal credits
+const ledgerTransactionSchema = new Schema(
+    {
+        idempotencyKey: { type: String, required: true, unique: true },
+        matchId: { type: Schema.Types.ObjectId, ref: 'Match', required: true, index: true },
+        type: {
+            type: String,
+            enum: ['agreement', 'hold', 'release', 'payout', 'refund', 'void'],
+            required: true,
+        },
+        lines: [{
+            _id: false,
+            account: {
+                type: String,
+                enum: ['buyer_receivable', 'escrow', 'cash', 'seller_payable', 'platform_revenue'],
+                required: true,
+            },
+            companyId: { type: Schema.Types.ObjectId, ref: 'Company' },
+            debit: { type: Number, default: 0 },
+            credit: { type: Number, default: 0 },
+        }],
+        amount: { type: Number, required: true },
+        currency: { type: String, default: 'INR' },
+        providerReference: String,
+        memo: String,
+        postedAt: { type: Date, default: Date.now },
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+ledgerTransactionSchema.index({ 'lines.companyId': 1, postedAt: -1 });
+
+export const LedgerTransaction = mongoose.model<LedgerTransactionDocument>('LedgerTransaction', ledgerTransactionSchema);
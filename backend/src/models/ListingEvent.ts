@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── Listing Event Types ──────────────────────────────────
+// view      → listing detail opened
+// inquiry   → buyer contacted the seller
+// bid       → auction bid placed
+// match     → listing matched to a need (engine, bundle or auction)
+// accepted  → terms agreed on a match for the listing
+// completed → exchange completed and passported
+export type ListingEventType = 'view' | 'inquiry' | 'bid' | 'match' | 'accepted' | 'completed';
+
+export const LISTING_EVENT_TYPES: ListingEventType[] = ['view', 'inquiry', 'bid', 'match', 'accepted', 'completed'];
+
+export interface ListingEventDocument extends Document {
+    listingId: any;
+    sellerId: any;
+    type: ListingEventType;
+    actorCompanyId?: any;
+    matchId?: any;
+    at: Date;
+}
+
+// One thing that happened to a waste listing — the time series behind its analytics
+const listingEventSchema = new Schema({
+    listingId: { type: Schema.Types.ObjectId, ref: 'WasteListing', required: true },
+    sellerId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+    type: { type: String, enum: LISTING_EVENT_TYPES, required: true },
+    actorCompanyId: { type: Schema.Types.ObjectId, ref: 'Company' },
+    matchId: { type: Schema.Types.ObjectId, ref: 'Match' },
+    at: { type: Date, default: Date.now },
+});
+
+listingEventSchema.index({ listingId: 1, at: -1 });
+listingEventSchema.index({ sellerId: 1, type: 1, at: -1 });
+
+export const ListingEvent = mongoose.model<ListingEventDocument>('ListingEvent', listingEventSchema);
@@ -5,12 +5,15 @@ export interface MatchDocument extends Document {
     needListingId: any;
     sellerId: any;
     buyerId: any;
+    bundleId?: any;
     matchScore: number;
     matchFactors: any;
     aiAnalysis?: any;
     predictedImpact?: any;
     negotiation: any;
     execution: any;
+    transport?: any;
+    shipment?: any;
     actualImpact?: any;
     passportId?: any;
     financials: any;
@@ -21,10 +24,62 @@ export interface MatchDocument extends Document {
     updatedAt: Date;
 }
 
+// Moderation state of one review — held reviews stay off the public listing
+const reviewModerationSchema = new Schema(
+    {
+        status: { type: String, enum: ['published', 'held', 'hidden'], default: 'published' },
+        flags: [{
+            _id: false,
+            source: { type: String, enum: ['auto', 'report'] },
+            reason: String,
+            by: { type: Schema.Types.ObjectId, ref: 'Company' },
+            byUser: { type: Schema.Types.ObjectId, ref: 'User' },
+            at: { type: Date, default: Date.now },
+        }],
+        needsReview: { type: Boolean, default: false },
+        moderatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+        moderatedAt: Date,
+        notes: String,
+    },
+    { _id: false }
+);
+
+// Distance/emissions figure with the assumptions it was computed from
+const transportAssessmentSchema = new Schema(
+    {
+        source: { type: String, enum: ['estimated', 'recorded', 'client'] },
+        distanceKm: Number,
+        vehicleType: String,
+        loadFactor: Number,
+        emissionFactor: Number,
+        co2Kg: Number,
+        estimatedCostINR: Number,
+        routeFactor: Number,
+        legs: [{
+            _id: false,
+            from: { label: String, coordinates: [Number] },
+            to: { label: String, coordinates: [Number] },
+            distanceKm: Number,
+            measured: Boolean,
+        }],
+        formula: String,
+        assessedAt: Date,
+        carrier: String,
+        recordedBy: { type: Schema.Types.ObjectId, ref: 'Company' },
+        recordedByUser: { type: Schema.Types.ObjectId, ref: 'User' },
+    },
+    { _id: false }
+);
+
 const matchSchema = new Schema(
     {
         wasteListingId: { type: Schema.Types.ObjectId, ref: 'WasteListing', required: true, index: true },
-        needListingId: { type: Schema.Types.ObjectId, ref: 'NeedListing', required: true },
+        // Absent when the match came from an auction rather than a need listing
+        needListingId: { type: Schema.Types.ObjectId, ref: 'NeedListing' },
+        origin: { type: String, enum: ['matching', 'auction', 'bundle'], default: 'matching' },
+        auctionBidId: { type: Schema.Types.ObjectId, ref: 'Bid' },
+        // Shared by every match created from one accepted bundle
+        bundleId: { type: Schema.Types.ObjectId, ref: 'MatchBundle' },
         sellerId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
         buyerId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
         matchScore: { type: Number, min: 0, max: 100, required: true, index: true },
@@ -34,6 +89,8 @@ const matchSchema = new Schema(
             priceCompatibility: Number,
             distanceScore: Number,
             reliabilityScore: Number,
+            // Seller sits in one of the buyer's preferred regions
+            preferredRegion: Boolean,
         },
         aiAnalysis: {
             explanation: String,
@@ -66,13 +123,38 @@ const matchSchema = new Schema(
                     attachments: [String],
                 },
             ],
+            // Versioned offer/counter-offer trail — the last entry is the live one
+            offers: [
+                {
+                    version: { type: Number, required: true },
+                    fromCompanyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+                    fromRole: { type: String, enum: ['seller', 'buyer'], required: true },
+                    proposedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+                    pricePerUnit: { type: Number, required: true },
+                    quantity: { type: Number, required: true },
+                    unit: String,
+                    pickupWindow: { start: Date, end: Date },
+                    expiresAt: { type: Date, required: true },
+                    message: String,
+                    status: {
+                        type: String,
+                        enum: ['open', 'accepted', 'rejected', 'countered', 'expired'],
+                        default: 'open',
+                    },
+                    respondedAt: Date,
+                    respondedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+                    createdAt: { type: Date, default: Date.now },
+                },
+            ],
+            currentOfferVersion: { type: Number, default: 0 },
+            awaitingResponseFrom: { type: String, enum: ['seller', 'buyer'] },
             acceptedAt: Date,
             acceptedBy: { type: Schema.Types.ObjectId, ref: 'Company' },
         },
         execution: {
             status: {
                 type: String,
-                enum: ['not_started', 'pickup_scheduled', 'in_transit', 'delivered', 'verified', 'disputed', 'completed'],
+                enum: ['not_started', 'pickup_scheduled', 'in_transit', 'delivered', 'verified', 'disputed', 'completed', 'cancelled'],
                 default: 'not_started',
             },
             pickupScheduledAt: Date,
@@ -85,6 +167,41 @@ const matchSchema = new Schema(
             buyerVerification: { approved: Boolean, notes: String, at: Date },
             sellerVerification: { approved: Boolean, notes: String, at: Date },
         },
+        transport: {
+            estimate: transportAssessmentSchema,
+            actual: transportAssessmentSchema,
+        },
+        // Pickup booking and what the transporter reported on the way
+        shipment: {
+            // Proposed by the seller; the buyer confirms one
+            slots: [{
+                start: { type: Date, required: true },
+                end: { type: Date, required: true },
+                status: { type: String, enum: ['proposed', 'confirmed', 'declined', 'withdrawn'], default: 'proposed' },
+                proposedAt: { type: Date, default: Date.now },
+                respondedAt: Date,
+            }],
+            transporter: {
+                name: String,
+                vehicleNumber: String,
+                driverName: String,
+                driverPhone: String,
+            },
+            // SHA-256 of the transporter's tracking token — the token itself is shown once
+            trackingTokenHash: { type: String, select: false },
+            trackingTokenExpiresAt: Date,
+            events: [{
+                _id: false,
+                type: { type: String, enum: ['picked_up', 'in_transit', 'delivered'], required: true },
+                at: { type: Date, required: true },
+                // [lng, lat]
+                location: { type: [Number], default: undefined },
+                note: String,
+                proof: String,
+                source: { type: String, enum: ['transporter', 'seller'] },
+                receivedAt: { type: Date, default: Date.now },
+            }],
+        },
         actualImpact: {
             co2SavedKg: Number,
             waterSavedLiters: Number,
@@ -93,6 +210,8 @@ const matchSchema = new Schema(
             transportEmissionsKg: Number,
             netCo2Saved: Number,
             economicValueRealized: Number,
+            // Set when the passport is revoked — the exchange then drops out of impact totals
+            revokedAt: Date,
         },
         passportId: { type: Schema.Types.ObjectId, ref: 'ProductPassport' },
         financials: {
@@ -101,11 +220,25 @@ const matchSchema = new Schema(
             buyerSavings: Number,
             paymentStatus: {
                 type: String,
-                enum: ['pending', 'held', 'released', 'refunded'],
+                enum: ['pending', 'held', 'released', 'refunded', 'partially_refunded'],
                 default: 'pending',
             },
+            refundedAmount: Number,
             invoiceUrl: String,
+            // Terms both parties agreed to; complete() settles on these
+            agreedTerms: {
+                source: { type: String, enum: ['offer', 'listing', 'auction'] },
+                offerVersion: Number,
+                pricePerUnit: Number,
+                quantity: Number,
+                unit: String,
+                totalPrice: Number,
+                currency: String,
+                pickupWindow: { start: Date, end: Date },
+                lockedAt: Date,
+            },
         },
+        // seller* fields are the buyer's review of the seller, buyer* the seller's review of the buyer
         ratings: {
             sellerRating: { type: Number, min: 1, max: 5 },
             buyerRating: { type: Number, min: 1, max: 5 },
@@ -113,12 +246,24 @@ const matchSchema = new Schema(
             buyerReview: String,
             sellerWouldRecommend: Boolean,
             buyerWouldRecommend: Boolean,
+            sellerReviewedAt: Date,
+            buyerReviewedAt: Date,
+            sellerReviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+            buyerReviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+            moderation: {
+                seller: reviewModerationSchema,
+                buyer: reviewModerationSchema,
+            },
         },
         statusHistory: [
             {
+                track: { type: String, enum: ['negotiation', 'execution'] },
+                from: String,
                 status: String,
                 changedAt: { type: Date, default: Date.now },
                 changedBy: { type: Schema.Types.ObjectId, ref: 'Company' },
+                changedByUser: { type: Schema.Types.ObjectId, ref: 'User' },
+                actorRole: { type: String, enum: ['seller', 'buyer', 'system'] },
                 reason: String,
             },
         ],
@@ -135,5 +280,10 @@ matchSchema.index({ sellerId: 1, 'negotiation.status': 1, createdAt: -1 });
 matchSchema.index({ buyerId: 1, 'negotiation.status': 1, createdAt: -1 });
 matchSchema.index({ matchScore: -1, 'negotiation.status': 1 });
 matchSchema.index({ 'negotiation.status': 1, createdAt: 1 });
+matchSchema.index({ bundleId: 1 }, { sparse: true });
+matchSchema.index({ 'shipment.trackingTokenHash': 1 }, { sparse: true });
+matchSchema.index({ 'negotiation.offers.status': 1, 'negotiation.offers.expiresAt': 1 });
+matchSchema.index({ 'ratings.moderation.seller.needsReview': 1 }, { sparse: true });
+matchSchema.index({ 'ratings.moderation.buyer.needsReview': 1 }, { sparse: true });
 
 export const Match = mongoose.model<MatchDocument>('Match', matchSchema);
@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── Bundle States ────────────────────────────────────────
+// proposed    → computed for a need, waiting for the buyer
+// accepted    → the buyer took it; one Match per item was created
+// superseded  → replaced by a newer proposal run for the same need
+// expired     → not accepted before expiresAt
+export type BundleStatus = 'proposed' | 'accepted' | 'superseded' | 'expired';
+
+export type BundleStrategy = 'lowest_cost' | 'nearest' | 'fewest_sellers';
+
+export interface BundleItem {
+    wasteListingId: any;
+    sellerId: any;
+    quantity: number;
+    unit: string;
+    quantityKg: number;
+    pricePerUnit: number;
+    materialCost: number;
+    distanceKm: number;
+    transportCost: number;
+    factors: any;
+}
+
+export interface MatchBundleDocument extends Document {
+    needListingId: any;
+    buyerId: any;
+    strategy: BundleStrategy;
+    status: BundleStatus;
+    items: BundleItem[];
+    totals: {
+        quantityKg: number;
+        materialCost: number;
+        transportCost: number;
+        totalCost: number;
+        costPerKg: number;
+        currency: string;
+    };
+    score: number;
+    factors: any;
+    matchIds: any[];
+    acceptedBy?: any;
+    acceptedAt?: Date;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// One seller's share of the bundle — quantity is in the listing's own unit
+const bundleItemSchema = new Schema(
+    {
+        wasteListingId: { type: Schema.Types.ObjectId, ref: 'WasteListing', required: true },
+        sellerId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+        quantity: { type: Number, required: true },
+        unit: { type: String, required: true },
+        quantityKg: Number,
+        pricePerUnit: Number,
+        materialCost: Number,
+        distanceKm: Number,
+        // Road haul from this seller to the buyer
+        transportCost: Number,
+        factors: {
+            materialCompatibility: Number,
+            priceCompatibility: Number,
+            distanceScore: Number,
+            reliabilityScore: Number,
+            preferredRegion: Boolean,
+        },
+    },
+    { _id: false }
+);
+
+const matchBundleSchema = new Schema(
+    {
+        needListingId: { type: Schema.Types.ObjectId, ref: 'NeedListing', required: true },
+        buyerId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+        strategy: { type: String, enum: ['lowest_cost', 'nearest', 'fewest_sellers'], required: true },
+        status: {
+            type: String,
+            enum: ['proposed', 'accepted', 'superseded', 'expired'],
+            default: 'proposed',
+        },
+        items: [bundleItemSchema],
+        totals: {
+            quantityKg: Number,
+            materialCost: Number,
+            transportCost: Number,
+            totalCost: Number,
+            costPerKg: Number,
+            currency: { type: String, default: 'INR' },
+        },
+        score: { type: Number, min: 0, max: 100 },
+        factors: {
+            materialCompatibility: Number,
+            quantityFit: Number,
+            priceCompatibility: Number,
+            distanceScore: Number,
+            reliabilityScore: Number,
+        },
+        matchIds: [{ type: Schema.Types.ObjectId, ref: 'Match' }],
+        acceptedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+        acceptedAt: Date,
+        expiresAt: { type: Date, required: true },
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+matchBundleSchema.index({ needListingId: 1, status: 1, score: -1 });
+matchBundleSchema.index({ buyerId: 1, status: 1, createdAt: -1 });
+
+export const MatchBundle = mongoose.model<MatchBundleDocument>('MatchBundle', matchBundleSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { MemberRole } from '../types';
+
+// ─── Membership States ────────────────────────────────────
+export type MembershipRole = MemberRole;
+export type MembershipStatus = 'invited' | 'active' | 'revoked';
+
+// ─── Membership Document ──────────────────────────────────
+// Links a User to a Company with a role. Pending invitations are
+// memberships in the `invited` state that carry an invite token and
+// no userId until the invitee accepts.
+export interface MembershipDocument extends Document {
+    companyId: mongoose.Types.ObjectId;
+    userId?: mongoose.Types.ObjectId;
+    email: string;
+    role: MembershipRole;
+    status: MembershipStatus;
+    invitedBy?: mongoose.Types.ObjectId;
+    inviteToken?: string;
+    inviteExpiresAt?: Date;
+    acceptedAt?: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const membershipSchema = new Schema(
+    {
+        companyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true, index: true },
+        userId: { type: Schema.Types.ObjectId, ref: 'User', index: true },
+        email: { type: String, required: true, lowercase: true, trim: true },
+        role: {
+            type: String,
+            enum: ['owner', 'admin', 'procurement', 'viewer'],
+            default: 'viewer',
+        },
+        status: {
+            type: String,
+            enum: ['invited', 'active', 'revoked'],
+            default: 'invited',
+        },
+        invitedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+        inviteToken: { type: String, unique: true, sparse: true, select: false },
+        inviteExpiresAt: Date,
+        acceptedAt: Date,
+        revokedAt: Date,
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            virtuals: true,
+            transform: (_doc, ret: any) => {
+                delete ret.inviteToken;
+                return ret;
+            },
+        },
+        toObject: { virtuals: true },
+    }
+);
+
+membershipSchema.index({ companyId: 1, email: 1 });
+membershipSchema.index({ userId: 1, status: 1 });
+
+export const Membership = mongoose.model<MembershipDocument>('Membership', membershipSchema);
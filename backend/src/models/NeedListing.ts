@@ -7,6 +7,7 @@ export interface NeedListingDocument extends Document {
     urgency: string;
     status: string;
     matchingPreferences: any;
+    matchCount: number;
     createdAt: Date;
     expiresAt?: Date;
 }
@@ -62,6 +63,7 @@ const needListingSchema = new Schema(
             prioritizeQuality: { type: Number, default: 0.2 },
             prioritizeReliability: { type: Number, default: 0.2 },
         },
+        matchCount: { type: Number, default: 0 },
         expiresAt: Date,
     },
     {
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── Ledger Entry Types ───────────────────────────────────
+// issue  → passport issued on a completed exchange
+// amend  → impact or quantity figures corrected (dispute ruling)
+// status → verification status changed (disputed, verified, revoked)
+// audit  → third-party audit opened or evidence attached
+export type PassportLedgerEntryType = 'issue' | 'amend' | 'status' | 'audit';
+
+export interface PassportLedgerEntryDocument extends Document {
+    sequence: number;
+    passportId: any;
+    passportNumber: string;
+    type: PassportLedgerEntryType;
+    recordHash: string;
+    previousHash: string;
+    entryHash: string;
+    signature: string;
+    keyId: string;
+    recordedAt: Date;
+    anchorId?: any;
+    leafIndex?: number;
+}
+
+// One append-only link in the passport hash chain. entryHash covers the
+// passport's canonical public record (recordHash) and the previous entry,
+// and is signed with the platform key.
+const passportLedgerEntrySchema = new Schema({
+    sequence: { type: Number, required: true, unique: true },
+    passportId: { type: Schema.Types.ObjectId, ref: 'ProductPassport', required: true },
+    passportNumber: { type: String, required: true },
+    type: { type: String, enum: ['issue', 'amend', 'status', 'audit'], required: true },
+    recordHash: { type: String, required: true },
+    // entryHash of sequence - 1, 64 zeros for the first entry
+    previousHash: { type: String, required: true },
+    entryHash: { type: String, required: true, unique: true },
+    // Ed25519 over entryHash, base64
+    signature: { type: String, required: true },
+    keyId: { type: String, required: true },
+    recordedAt: { type: Date, required: true },
+    // Set when the entry is sealed into a Merkle root
+    anchorId: { type: Schema.Types.ObjectId, ref: 'PassportAnchor' },
+    leafIndex: Number,
+});
+
+passportLedgerEntrySchema.index({ passportId: 1, sequence: -1 });
+passportLedgerEntrySchema.index({ anchorId: 1, sequence: 1 });
+
+export interface PassportAnchorDocument extends Document {
+    number: number;
+    fromSequence: number;
+    toSequence: number;
+    leafCount: number;
+    merkleRoot: string;
+    previousAnchorHash: string;
+    anchorHash: string;
+    signature: string;
+    keyId: string;
+    anchoredAt: Date;
+}
+
+// Merkle root over a run of ledger entries, chained to the previous root
+const passportAnchorSchema = new Schema({
+    number: { type: Number, required: true, unique: true },
+    fromSequence: { type: Number, required: true },
+    toSequence: { type: Number, required: true },
+    leafCount: { type: Number, required: true },
+    merkleRoot: { type: String, required: true },
+    previousAnchorHash: { type: String, required: true },
+    anchorHash: { type: String, required: true, unique: true },
+    // Ed25519 over anchorHash, base64
+    signature: { type: String, required: true },
+    keyId: { type: String, required: true },
+    anchoredAt: { type: Date, required: true },
+});
+
+export const PassportLedgerEntry = mongoose.model<PassportLedgerEntryDocument>('PassportLedgerEntry', passportLedgerEntrySchema);
+export const PassportAnchor = mongoose.model<PassportAnchorDocument>('PassportAnchor', passportAnchorSchema);
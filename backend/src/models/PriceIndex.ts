@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// State key for the all-India index
+export const NATIONAL = 'ALL';
+
+export interface PriceDistribution {
+    min: number;
+    p10: number;
+    p25: number;
+    median: number;
+    p75: number;
+    p90: number;
+    max: number;
+    mean: number;
+}
+
+export interface PriceIndexDocument extends Document {
+    category: string;
+    state: string;
+    period: string;
+    sampleCount: number;
+    dealCount: number;
+    askCount: number;
+    pricePerKg: PriceDistribution;
+    currency: string;
+    computedAt: Date;
+}
+
+// Price distribution of one material in one state for one month, in INR/kg
+const priceIndexSchema = new Schema({
+    category: { type: String, required: true },
+    // Seller's state, or 'ALL' for the national index
+    state: { type: String, required: true },
+    // Calendar month, YYYY-MM
+    period: { type: String, required: true },
+    sampleCount: { type: Number, required: true },
+    // Completed exchanges at their agreed price
+    dealCount: { type: Number, default: 0 },
+    // Listing asking prices
+    askCount: { type: Number, default: 0 },
+    pricePerKg: {
+        min: Number,
+        p10: Number,
+        p25: Number,
+        median: Number,
+        p75: Number,
+        p90: Number,
+        max: Number,
+        mean: Number,
+    },
+    currency: { type: String, default: 'INR' },
+    computedAt: { type: Date, default: Date.now },
+});
+
+priceIndexSchema.index({ category: 1, state: 1, period: -1 }, { unique: true });
+
+export const PriceIndex = mongoose.model<PriceIndexDocument>('PriceIndex', priceIndexSchema);
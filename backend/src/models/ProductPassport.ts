@@ -8,9 +8,14 @@ export interface ProductPassportDocument extends Document {
     impact: any;
     blockchain: any;
     verification: any;
+    hazardous?: any;
+    invoice?: any;
+    certificate?: any;
+    lineage?: any;
     publicUrl: string;
     matchId: any;
     createdAt: Date;
+    updatedAt: Date;
 }
 
 const productPassportSchema = new Schema(
@@ -23,19 +28,45 @@ const productPassportSchema = new Schema(
             materialType: { type: String, required: true },
             quantity: { type: Number, required: true },
             unit: { type: String, required: true },
+            // Mass equivalent the impact figures were computed from
+            quantityKg: Number,
             date: { type: Date, required: true },
             batchId: String,
             qualityCertifications: [String],
         },
         journey: {
             transport: {
-                mode: { type: String, enum: ['truck', 'rail', 'ship', 'pipeline'], default: 'truck' },
+                mode: { type: String, enum: ['truck', 'rail', 'ship', 'pipeline', 'air'], default: 'truck' },
                 distanceKm: Number,
                 emissionsKg: Number,
                 carrier: String,
+                // Assumptions behind distanceKm / emissionsKg
+                distanceSource: { type: String, enum: ['estimated', 'recorded', 'client'] },
+                vehicleType: String,
+                loadFactor: Number,
+                emissionFactor: Number,
+                routeFactor: Number,
+                legs: [{
+                    _id: false,
+                    from: { label: String, coordinates: [Number] },
+                    to: { label: String, coordinates: [Number] },
+                    distanceKm: Number,
+                    measured: Boolean,
+                }],
+                formula: String,
                 trackingEvents: [{ timestamp: Date, location: [Number], status: String, proof: String }],
             },
-            processing: [{ facility: String, process: String, date: Date, emissionsKg: Number, outputQuantity: Number }],
+            // What the seller did to received material before relisting it (kg)
+            processing: [{
+                _id: false,
+                facility: String,
+                process: String,
+                date: Date,
+                emissionsKg: Number,
+                inputQuantity: Number,
+                outputQuantity: Number,
+                yieldPct: Number,
+            }],
         },
         destination: {
             companyId: { type: Schema.Types.ObjectId, ref: 'Company' },
@@ -54,17 +85,79 @@ const productPassportSchema = new Schema(
             verifiedBy: String,
             verificationDate: Date,
         },
+        // 'local' is the platform's own hash-chained ledger: blockNumber is the
+        // anchor number, transactionHash the anchor hash, merkleRoot its root
         blockchain: {
-            network: { type: String, enum: ['ethereum', 'polygon', 'hyperledger', 'none'], default: 'none' },
+            network: { type: String, enum: ['ethereum', 'polygon', 'hyperledger', 'local', 'none'], default: 'none' },
             transactionHash: String,
             blockNumber: Number,
             anchorTimestamp: Date,
+            merkleRoot: String,
+            // Latest ledger entry for this passport
+            ledgerSequence: Number,
         },
         verification: {
             qrCode: String,
             status: { type: String, enum: ['pending', 'verified', 'disputed', 'revoked'], default: 'pending' },
-            auditors: [{ organization: String, date: Date, result: String }],
-            documents: [{ type: { type: String }, url: String, hash: String }],
+            // Third-party audits — opened by an accredited auditor, closed with a verdict
+            auditors: [{
+                auditorId: { type: Schema.Types.ObjectId, ref: 'Auditor' },
+                organization: String,
+                accreditation: String,
+                reviewerEmail: String,
+                status: { type: String, enum: ['in_review', 'completed'], default: 'in_review' },
+                startedAt: Date,
+                scope: String,
+                // Verdict date and outcome
+                date: Date,
+                result: { type: String, enum: ['pass', 'fail'] },
+                findings: String,
+            }],
+            // Audit evidence — hash is the SHA-256 of the document, hex
+            documents: [{
+                type: { type: String },
+                name: String,
+                url: String,
+                hash: String,
+                auditId: Schema.Types.ObjectId,
+                addedBy: String,
+                addedAt: Date,
+            }],
+            revokedAt: Date,
+            revocationReason: String,
+            revokedBy: String,
+            amendments: [{
+                field: String,
+                from: Schema.Types.Mixed,
+                to: Schema.Types.Mixed,
+                reason: String,
+                disputeId: { type: Schema.Types.ObjectId, ref: 'Dispute' },
+                at: { type: Date, default: Date.now },
+            }],
+        },
+        // Hazardous loads only — the manifest the material moved on
+        hazardous: {
+            category: String,
+            manifestId: { type: Schema.Types.ObjectId, ref: 'HazardousManifest' },
+            manifestNumber: String,
+            receiverAuthorization: String,
+        },
+        // Tax invoice for the exchange — shown to the parties, not on public verify
+        invoice: {
+            invoiceId: { type: Schema.Types.ObjectId, ref: 'Invoice' },
+            invoiceNumber: String,
+        },
+        // PDF certificate — regenerated when the passport changes after generatedAt
+        certificate: {
+            filePath: String,
+            generatedAt: Date,
+        },
+        // Chain of custody — passports of the received material this lot was relisted from
+        lineage: {
+            parentPassportIds: [{ type: Schema.Types.ObjectId, ref: 'ProductPassport' }],
+            parentPassportNumbers: [String],
+            // 0 for virgin waste, 1 + deepest parent otherwise
+            depth: { type: Number, default: 0 },
         },
         publicUrl: { type: String, unique: true },
         matchId: { type: Schema.Types.ObjectId, ref: 'Match', required: true },
@@ -76,4 +169,6 @@ const productPassportSchema = new Schema(
     }
 );
 
+productPassportSchema.index({ 'lineage.parentPassportIds': 1 });
+
 export const ProductPassport = mongoose.model<ProductPassportDocument>('ProductPassport', productPassportSchema);
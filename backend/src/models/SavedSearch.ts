@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── Saved Search ─────────────────────────────────────────
+// A company's stored waste-listing filter set. Evaluated against every
+// listing that goes active; hits are kept as SavedSearchHit rows.
+export type SearchCadence = 'instant' | 'daily';
+
+export interface SavedSearchFilters {
+    category?: string;
+    hazardous?: boolean;
+    minPrice?: number;
+    maxPrice?: number;
+    lng?: number;
+    lat?: number;
+    radiusKm?: number;
+}
+
+export interface SavedSearchDocument extends Document {
+    companyId: any;
+    createdBy?: any;
+    name: string;
+    filters: SavedSearchFilters;
+    cadence: SearchCadence;
+    channels: { email: boolean; inApp: boolean };
+    active: boolean;
+    hitCount: number;
+    lastHitAt?: Date;
+    lastDigestAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const savedSearchSchema = new Schema(
+    {
+        companyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true, index: true },
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+        name: { type: String, required: true, trim: true },
+        filters: {
+            category: String,
+            hazardous: Boolean,
+            minPrice: Number,
+            maxPrice: Number,
+            // Radius search centre — both set or neither
+            lng: Number,
+            lat: Number,
+            radiusKm: Number,
+        },
+        cadence: { type: String, enum: ['instant', 'daily'], default: 'instant' },
+        channels: {
+            email: { type: Boolean, default: true },
+            inApp: { type: Boolean, default: true },
+        },
+        active: { type: Boolean, default: true },
+        hitCount: { type: Number, default: 0 },
+        lastHitAt: Date,
+        lastDigestAt: Date,
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+savedSearchSchema.index({ active: 1, 'filters.category': 1 });
+
+export const SavedSearch = mongoose.model<SavedSearchDocument>('SavedSearch', savedSearchSchema);
+
+// ─── Saved Search Hit ─────────────────────────────────────
+// One listing matching one saved search. seenAt drives the in-app
+// unread count; emailedAt marks it as delivered (instantly or in the
+// daily digest).
+export interface SavedSearchHitDocument extends Document {
+    savedSearchId: any;
+    companyId: any;
+    listingId: any;
+    seenAt?: Date;
+    emailedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const savedSearchHitSchema = new Schema(
+    {
+        savedSearchId: { type: Schema.Types.ObjectId, ref: 'SavedSearch', required: true },
+        companyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+        listingId: { type: Schema.Types.ObjectId, ref: 'WasteListing', required: true },
+        seenAt: Date,
+        emailedAt: Date,
+    },
+    { timestamps: true }
+);
+
+// A relisted listing must not notify the same search twice
+savedSearchHitSchema.index({ savedSearchId: 1, listingId: 1 }, { unique: true });
+savedSearchHitSchema.index({ companyId: 1, seenAt: 1, createdAt: -1 });
+
+export const SavedSearchHit = mongoose.model<SavedSearchHitDocument>('SavedSearchHit', savedSearchHitSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ─── User Document ────────────────────────────────────────
+// A person who acts on behalf of one or more companies. Company
+// access and roles live on Membership, not here.
+export interface UserDocument extends Document {
+    clerkUserId?: string;
+    email: string;
+    password?: string;
+    firstName?: string;
+    lastName?: string;
+    fullName?: string;
+    status: 'active' | 'disabled';
+    lastLoginAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const userSchema = new Schema(
+    {
+        clerkUserId: { type: String, unique: true, sparse: true },
+        email: { type: String, required: true, lowercase: true, trim: true },
+        password: { type: String, select: false },
+        firstName: String,
+        lastName: String,
+        fullName: String,
+        status: {
+            type: String,
+            enum: ['active', 'disabled'],
+            default: 'active',
+        },
+        lastLoginAt: Date,
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+userSchema.index({ email: 1 }, { unique: true });
+
+export const User = mongoose.model<UserDocument>('User', userSchema);
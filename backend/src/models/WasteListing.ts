@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { QUANTITY_UNITS } from '../utils/units';
 
 export interface WasteListingDocument extends Document {
     companyId: any;
@@ -9,6 +10,7 @@ export interface WasteListingDocument extends Document {
     pricing: any;
     logistics: any;
     location: any;
+    provenance?: any;
     status: string;
     viewCount: number;
     inquiryCount: number;
@@ -23,7 +25,7 @@ export interface WasteListingDocument extends Document {
 const wasteListingSchema = new Schema(
     {
         companyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true, index: true },
-        listedBy: { type: Schema.Types.ObjectId, ref: 'Company' },
+        listedBy: { type: Schema.Types.ObjectId, ref: 'User' },
         material: {
             category: {
                 type: String,
@@ -34,11 +36,13 @@ const wasteListingSchema = new Schema(
             subType: String,
             chemicalComposition: String,
             hazardous: { type: Boolean, default: false },
+            // Hazardous Waste Rules Schedule I/II entry, e.g. "5.1" or "A1010"
+            hazardousCategory: { type: String, trim: true },
             msdsAvailable: Boolean,
         },
         quantity: {
             value: { type: Number, required: true },
-            unit: { type: String, enum: ['kg', 'ton', 'liter', 'cubic_meter'], required: true },
+            unit: { type: String, enum: QUANTITY_UNITS, required: true },
             frequency: { type: String, enum: ['one_time', 'daily', 'weekly', 'monthly', 'quarterly'], default: 'monthly' },
             availableFrom: Date,
             availableUntil: Date,
@@ -56,6 +60,39 @@ const wasteListingSchema = new Schema(
             currency: { type: String, default: 'INR' },
             minimumOrder: Number,
             bulkDiscount: { threshold: Number, percentage: Number },
+            // Asking price against the regional price index, per listing unit
+            benchmark: {
+                median: Number,
+                low: Number,
+                high: Number,
+                deviationPct: Number,
+                flag: { type: String, enum: ['low', 'high'] },
+                scope: String,
+                period: String,
+                assessedAt: Date,
+            },
+            // Only for type 'auction' — amount is the opening price per unit
+            auction: {
+                bidding: { type: String, enum: ['open', 'sealed'] },
+                reservePrice: { type: Number, select: false },
+                minIncrement: Number,
+                startsAt: Date,
+                endsAt: Date,
+                originalEndsAt: Date,
+                antiSnipingMinutes: Number,
+                extensionMinutes: Number,
+                status: { type: String, enum: ['scheduled', 'open', 'settling', 'closed', 'unsold'] },
+                // Open auctions only — sealed bids stay in the Bid collection until close
+                highBid: Number,
+                highBidderId: { type: Schema.Types.ObjectId, ref: 'Company' },
+                bidCount: Number,
+                extensions: Number,
+                winningBidId: { type: Schema.Types.ObjectId, ref: 'Bid' },
+                matchId: { type: Schema.Types.ObjectId, ref: 'Match' },
+                // Set while close() settles the auction; a stale one is retried
+                settlingAt: Date,
+                closedAt: Date,
+            },
         },
         logistics: {
             pickupAvailable: { type: Boolean, default: false },
@@ -69,6 +106,20 @@ const wasteListingSchema = new Schema(
             coordinates: { type: [Number], default: [0, 0] },
             address: String,
         },
+        // Relisted material — passports it was received under and the processing since
+        provenance: {
+            parentPassportIds: [{ type: Schema.Types.ObjectId, ref: 'ProductPassport' }],
+            processing: [{
+                _id: false,
+                facility: String,
+                process: String,
+                date: Date,
+                emissionsKg: Number,
+                inputQuantity: Number,
+                outputQuantity: Number,
+                yieldPct: Number,
+            }],
+        },
         status: {
             type: String,
             enum: ['draft', 'active', 'negotiating', 'reserved', 'completed', 'expired', 'withdrawn'],
@@ -92,5 +143,6 @@ const wasteListingSchema = new Schema(
 wasteListingSchema.index({ status: 1, 'material.category': 1, location: '2dsphere' });
 wasteListingSchema.index({ status: 1, companyId: 1, createdAt: -1 });
 wasteListingSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+wasteListingSchema.index({ 'pricing.auction.status': 1, 'pricing.auction.endsAt': 1 }, { sparse: true });
 
 export const WasteListing = mongoose.model<WasteListingDocument>('WasteListing', wasteListingSchema);
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/admin.controller';
+import { disputeController } from '../controllers/dispute.controller';
+import { passportController } from '../controllers/passport.controller';
+import { reviewController } from '../controllers/review.controller';
+import { authMiddleware, requirePlatformAdmin } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import {
+    moderateReviewParamsSchema,
+    moderateReviewSchema,
+    registerAuditorSchema,
+    revokePassportSchema,
+    updateAuditorSchema,
+} from '../validators';
+
+const router = Router();
+
+// Platform operators only
+router.use(authMiddleware, requirePlatformAdmin);
+
+// Email outbox
+router.get('/emails', adminController.listEmails.bind(adminController));
+router.get('/emails/stats', adminController.emailStats.bind(adminController));
+router.post('/emails/drain', adminController.drainEmails.bind(adminController));
+router.get('/emails/:id', adminController.getEmail.bind(adminController));
+router.post('/emails/:id/replay', adminController.replayEmail.bind(adminController));
+
+// Disputes awaiting a ruling
+router.get('/disputes', disputeController.listAll.bind(disputeController));
+
+// Passport auditors and revocation
+router.get('/auditors', adminController.listAuditors.bind(adminController));
+router.post('/auditors', validate(registerAuditorSchema), adminController.registerAuditor.bind(adminController));
+router.patch('/auditors/:id', validate(updateAuditorSchema), adminController.updateAuditor.bind(adminController));
+router.post('/passports/:id/revoke', validate(revokePassportSchema), passportController.revoke.bind(passportController));
+
+// Review moderation queue
+router.get('/reviews', reviewController.listQueue.bind(reviewController));
+router.post('/reviews/:matchId/:side', validate(moderateReviewParamsSchema, 'params'), validate(moderateReviewSchema), reviewController.moderate.bind(reviewController));
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { alertsController } from '../controllers/alerts.controller';
-import { authMiddleware } from '../middleware/auth.middleware';
+import { authMiddleware, requirePermission } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -14,6 +14,6 @@ router.get('/recent', authMiddleware, alertsController.getRecent.bind(alertsCont
 router.put('/:id/acknowledge', authMiddleware, alertsController.acknowledge.bind(alertsController));
 router.put('/acknowledge-all', authMiddleware, alertsController.acknowledgeAll.bind(alertsController));
 router.get('/settings', authMiddleware, alertsController.getSettings.bind(alertsController));
-router.put('/settings', authMiddleware, alertsController.updateSettings.bind(alertsController));
+router.put('/settings', authMiddleware, requirePermission('alerts:configure'), alertsController.updateSettings.bind(alertsController));
 
 export default router;
@@ -3,7 +3,7 @@ import { authController } from '../controllers/auth.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { authLimiter } from '../middleware/rateLimiter.middleware';
 import { validate } from '../middleware/validation.middleware';
-import { registerSchema, loginSchema } from '../validators';
+import { registerSchema, loginSchema, setPasswordSchema } from '../validators';
 
 const router = Router();
 
@@ -14,6 +14,7 @@ router.post('/login', authLimiter, validate(loginSchema), authController.login.b
 
 // Protected
 router.post('/sync', authMiddleware, authController.sync.bind(authController));
+router.post('/password', authMiddleware, authLimiter, validate(setPasswordSchema), authController.setPassword.bind(authController));
 router.get('/me', authMiddleware, authController.me.bind(authController));
 
 export default router;
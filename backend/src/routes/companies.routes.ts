@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { companyController } from '../controllers/company.controller';
-import { authMiddleware } from '../middleware/auth.middleware';
+import { reviewController } from '../controllers/review.controller';
+import { authMiddleware, requirePermission } from '../middleware/auth.middleware';
+import { requireCompanyAccess } from '../middleware/authorization.middleware';
 import { validate } from '../middleware/validation.middleware';
-import { createCompanySchema, updateCompanySchema } from '../validators';
+import { createCompanySchema, updateCompanySchema, hazardousAuthorizationSchema } from '../validators';
 
 const router = Router();
 
@@ -10,7 +12,10 @@ router.post('/', authMiddleware, validate(createCompanySchema), companyControlle
 router.get('/', authMiddleware, companyController.list.bind(companyController));
 router.get('/nearby', authMiddleware, companyController.nearby.bind(companyController));
 router.get('/:id', authMiddleware, companyController.getById.bind(companyController));
-router.put('/:id', authMiddleware, validate(updateCompanySchema), companyController.update.bind(companyController));
-router.get('/:id/analytics', authMiddleware, companyController.getAnalytics.bind(companyController));
+router.get('/:id/reviews', reviewController.listForCompany.bind(reviewController));
+router.put('/:id', authMiddleware, requireCompanyAccess('id'), requirePermission('company:update'), validate(updateCompanySchema), companyController.update.bind(companyController));
+router.put('/:id/hazardous-authorization', authMiddleware, requireCompanyAccess('id'), requirePermission('company:update'), validate(hazardousAuthorizationSchema), companyController.setHazardousAuthorization.bind(companyController));
+router.get('/:id/analytics', authMiddleware, requireCompanyAccess('id'), companyController.getAnalytics.bind(companyController));
+router.get('/:id/statement', authMiddleware, requireCompanyAccess('id'), companyController.getStatement.bind(companyController));
 
 export default router;
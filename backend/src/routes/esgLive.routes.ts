@@ -1,18 +1,23 @@
 import { Router } from 'express';
 import { esgLiveDocumentController } from '../controllers/esgLiveDocument.controller';
+import { authMiddleware, streamTokenAuth } from '../middleware/auth.middleware';
+import { requireCompanyAccess } from '../middleware/authorization.middleware';
 
 const router = Router();
 
 // Full live document snapshot
-router.get('/:companyId', (req, res, next) => esgLiveDocumentController.getDocument(req, res, next));
+router.get('/:companyId', authMiddleware, requireCompanyAccess(), (req, res, next) => esgLiveDocumentController.getDocument(req, res, next));
 
-// SSE real-time stream
-router.get('/:companyId/stream', (req, res) => esgLiveDocumentController.streamUpdates(req, res));
+// Short-lived token for the stream, since EventSource cannot send the session header
+router.post('/:companyId/stream-token', authMiddleware, requireCompanyAccess(), (req, res, next) => esgLiveDocumentController.issueStreamToken(req, res, next));
+
+// SSE real-time stream (EventSource sends the stream token as ?stream_token=)
+router.get('/:companyId/stream', streamTokenAuth, requireCompanyAccess(), (req, res) => esgLiveDocumentController.streamUpdates(req, res));
 
 // Manual refresh + SSE push
-router.post('/:companyId/refresh', (req, res, next) => esgLiveDocumentController.refreshDocument(req, res, next));
+router.post('/:companyId/refresh', authMiddleware, requireCompanyAccess(), (req, res, next) => esgLiveDocumentController.refreshDocument(req, res, next));
 
 // Framework-specific data
-router.get('/:companyId/framework/:framework', (req, res, next) => esgLiveDocumentController.getFramework(req, res, next));
+router.get('/:companyId/framework/:framework', authMiddleware, requireCompanyAccess(), (req, res, next) => esgLiveDocumentController.getFramework(req, res, next));
 
 export default router;
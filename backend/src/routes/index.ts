@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import authRoutes from './auth.routes';
 import companiesRoutes from './companies.routes';
+import membersRoutes from './members.routes';
 import marketplaceRoutes from './marketplace.routes';
 import matchesRoutes from './matches.routes';
 import impactRoutes from './impact.routes';
@@ -12,11 +13,14 @@ import alertsRoutes from './alerts.routes';
 import webhookRoutes from './webhook.routes';
 import roiRoutes from './roi.routes';
 import esgLiveRoutes from './esgLive.routes';
+import adminRoutes from './admin.routes';
+import trackingRoutes from './tracking.routes';
 
 const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/companies', companiesRoutes);
+router.use('/members', membersRoutes);
 router.use('/marketplace', marketplaceRoutes);
 router.use('/matches', matchesRoutes);
 router.use('/impact', impactRoutes);
@@ -28,5 +32,7 @@ router.use('/alerts', alertsRoutes);
 router.use('/webhooks', webhookRoutes);
 router.use('/roi', roiRoutes);
 router.use('/esg-live', esgLiveRoutes);
+router.use('/admin', adminRoutes);
+router.use('/tracking', trackingRoutes);
 
 export default router;
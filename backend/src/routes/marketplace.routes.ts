@@ -1,26 +1,43 @@
 import { Router } from 'express';
 import { marketplaceController } from '../controllers/marketplace.controller';
-import { authMiddleware, optionalAuth } from '../middleware/auth.middleware';
+import { savedSearchController } from '../controllers/savedSearch.controller';
+import { authMiddleware, optionalAuth, requirePermission } from '../middleware/auth.middleware';
+import { requireResourceOwner } from '../middleware/authorization.middleware';
 import { validate } from '../middleware/validation.middleware';
-import { createWasteListingSchema, updateWasteListingSchema, createNeedListingSchema } from '../validators';
+import { createWasteListingSchema, updateWasteListingSchema, createNeedListingSchema, placeBidSchema, createSavedSearchSchema, updateSavedSearchSchema } from '../validators';
 
 const router = Router();
 
 // Public
 router.get('/stats', marketplaceController.stats.bind(marketplaceController));
+router.get('/price-index', marketplaceController.getPriceIndex.bind(marketplaceController));
+router.get('/price-index/suggest', optionalAuth, marketplaceController.suggestPrice.bind(marketplaceController));
 
 // Waste Listings
-router.post('/waste-listings', authMiddleware, validate(createWasteListingSchema), marketplaceController.createWasteListing.bind(marketplaceController));
+router.post('/waste-listings', authMiddleware, requirePermission('marketplace:write'), validate(createWasteListingSchema), marketplaceController.createWasteListing.bind(marketplaceController));
 router.get('/waste-listings', optionalAuth, marketplaceController.searchWasteListings.bind(marketplaceController));
+router.get('/waste-listings/:id/analytics', authMiddleware, requireResourceOwner('WasteListing'), marketplaceController.getWasteListingAnalytics.bind(marketplaceController));
 router.get('/waste-listings/:id', optionalAuth, marketplaceController.getWasteListing.bind(marketplaceController));
-router.put('/waste-listings/:id', authMiddleware, validate(updateWasteListingSchema), marketplaceController.updateWasteListing.bind(marketplaceController));
-router.delete('/waste-listings/:id', authMiddleware, marketplaceController.deleteWasteListing.bind(marketplaceController));
-router.post('/waste-listings/:id/contact', authMiddleware, marketplaceController.contactSeller.bind(marketplaceController));
+router.put('/waste-listings/:id', authMiddleware, requirePermission('marketplace:write'), requireResourceOwner('WasteListing'), validate(updateWasteListingSchema), marketplaceController.updateWasteListing.bind(marketplaceController));
+router.delete('/waste-listings/:id', authMiddleware, requirePermission('marketplace:write'), requireResourceOwner('WasteListing'), marketplaceController.deleteWasteListing.bind(marketplaceController));
+router.post('/waste-listings/:id/contact', authMiddleware, requirePermission('marketplace:write'), marketplaceController.contactSeller.bind(marketplaceController));
+
+// Auctions
+router.post('/waste-listings/:id/bids', authMiddleware, requirePermission('marketplace:write'), validate(placeBidSchema), marketplaceController.placeBid.bind(marketplaceController));
+router.get('/waste-listings/:id/bids', authMiddleware, marketplaceController.listBids.bind(marketplaceController));
 
 // Need Listings
-router.post('/need-listings', authMiddleware, validate(createNeedListingSchema), marketplaceController.createNeedListing.bind(marketplaceController));
+router.post('/need-listings', authMiddleware, requirePermission('marketplace:write'), validate(createNeedListingSchema), marketplaceController.createNeedListing.bind(marketplaceController));
 router.get('/need-listings', optionalAuth, marketplaceController.searchNeedListings.bind(marketplaceController));
 router.get('/need-listings/:id', optionalAuth, marketplaceController.getNeedListing.bind(marketplaceController));
-router.put('/need-listings/:id', authMiddleware, marketplaceController.updateNeedListing.bind(marketplaceController));
+router.put('/need-listings/:id', authMiddleware, requirePermission('marketplace:write'), requireResourceOwner('NeedListing'), marketplaceController.updateNeedListing.bind(marketplaceController));
+
+// Saved Searches
+router.get('/saved-searches', authMiddleware, savedSearchController.list.bind(savedSearchController));
+router.post('/saved-searches', authMiddleware, requirePermission('marketplace:write'), validate(createSavedSearchSchema), savedSearchController.create.bind(savedSearchController));
+router.get('/saved-searches/hits', authMiddleware, savedSearchController.hits.bind(savedSearchController));
+router.post('/saved-searches/hits/seen', authMiddleware, savedSearchController.markSeen.bind(savedSearchController));
+router.put('/saved-searches/:id', authMiddleware, requirePermission('marketplace:write'), requireResourceOwner('SavedSearch'), validate(updateSavedSearchSchema), savedSearchController.update.bind(savedSearchController));
+router.delete('/saved-searches/:id', authMiddleware, requirePermission('marketplace:write'), requireResourceOwner('SavedSearch'), savedSearchController.remove.bind(savedSearchController));
 
 export default router;
@@ -1,16 +1,65 @@
-import { Router } from 'express';
+import { Router, RequestHandler } from 'express';
 import { matchingController } from '../controllers/matching.controller';
-import { authMiddleware } from '../middleware/auth.middleware';
+import { disputeController } from '../controllers/dispute.controller';
+import { reviewController } from '../controllers/review.controller';
+import { authMiddleware, requirePermission, requirePlatformAdmin } from '../middleware/auth.middleware';
+import { requireResourceOwner } from '../middleware/authorization.middleware';
 import { validate } from '../middleware/validation.middleware';
-import { findMatchesSchema, negotiateSchema, completeMatchSchema } from '../validators';
+import {
+    findMatchesSchema, proposeBundlesSchema, negotiateSchema, offerSchema, offerResponseSchema,
+    rejectMatchSchema, pickupSchema, pickupSlotsSchema, trackingLinkSchema, deliverySchema, verifyDeliverySchema, recordRouteSchema, completeMatchSchema,
+    fileDisputeSchema, disputeResponseSchema, disputeEvidenceSchema, withdrawDisputeSchema, disputeRulingSchema,
+    reviewSchema, reportReviewSchema,
+} from '../validators';
 
 const router = Router();
 
-router.post('/find', authMiddleware, validate(findMatchesSchema), matchingController.findMatches.bind(matchingController));
+// Matching runs from either side — check ownership of whichever listing was sent
+const ownsWasteListing = requireResourceOwner('WasteListing', { bodyField: 'wasteListingId' });
+const ownsNeedListing = requireResourceOwner('NeedListing', { bodyField: 'needListingId' });
+const requireListingOwner: RequestHandler = (req, res, next) => (req.body.needListingId ? ownsNeedListing : ownsWasteListing)(req, res, next);
+
+router.post('/find', authMiddleware, requirePermission('matches:manage'), validate(findMatchesSchema), requireListingOwner, matchingController.findMatches.bind(matchingController));
 router.get('/', authMiddleware, matchingController.getMyMatches.bind(matchingController));
-router.get('/:id', authMiddleware, matchingController.getMatch.bind(matchingController));
-router.post('/:id/accept', authMiddleware, matchingController.acceptMatch.bind(matchingController));
-router.post('/:id/negotiate', authMiddleware, validate(negotiateSchema), matchingController.negotiate.bind(matchingController));
-router.post('/:id/complete', authMiddleware, validate(completeMatchSchema), matchingController.complete.bind(matchingController));
+
+// Split fulfilment — bundles of several listings for one need
+router.post('/bundles', authMiddleware, requirePermission('matches:manage'), validate(proposeBundlesSchema), ownsNeedListing, matchingController.proposeBundles.bind(matchingController));
+router.get('/bundles', authMiddleware, matchingController.listBundles.bind(matchingController));
+router.post('/bundles/:id/accept', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('MatchBundle'), matchingController.acceptBundle.bind(matchingController));
+
+router.get('/:id', authMiddleware, requireResourceOwner('Match'), matchingController.getMatch.bind(matchingController));
+router.post('/:id/accept', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), matchingController.acceptMatch.bind(matchingController));
+router.post('/:id/negotiate', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(negotiateSchema), matchingController.negotiate.bind(matchingController));
+router.post('/:id/offers', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(offerSchema), matchingController.makeOffer.bind(matchingController));
+router.post('/:id/offers/:version/accept', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(offerResponseSchema), matchingController.acceptOffer.bind(matchingController));
+router.post('/:id/offers/:version/reject', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(offerResponseSchema), matchingController.rejectOffer.bind(matchingController));
+router.post('/:id/offers/:version/counter', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(offerSchema), matchingController.counterOffer.bind(matchingController));
+router.post('/:id/reject', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(rejectMatchSchema), matchingController.reject.bind(matchingController));
+router.get('/:id/shipment', authMiddleware, requireResourceOwner('Match'), matchingController.getShipment.bind(matchingController));
+router.post('/:id/pickup-slots', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(pickupSlotsSchema), matchingController.proposePickupSlots.bind(matchingController));
+router.post('/:id/pickup-slots/:slotId/confirm', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), matchingController.confirmPickupSlot.bind(matchingController));
+router.post('/:id/tracking-link', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(trackingLinkSchema), matchingController.issueTrackingLink.bind(matchingController));
+router.post('/:id/pickup', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(pickupSchema), matchingController.markPickedUp.bind(matchingController));
+router.post('/:id/deliver', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(deliverySchema), matchingController.markDelivered.bind(matchingController));
+router.post('/:id/verify', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(verifyDeliverySchema), matchingController.verifyDelivery.bind(matchingController));
+router.post('/:id/route', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(recordRouteSchema), matchingController.recordRoute.bind(matchingController));
+router.get('/:id/manifest', authMiddleware, requireResourceOwner('Match'), matchingController.getManifest.bind(matchingController));
+router.get('/:id/invoice', authMiddleware, requireResourceOwner('Match'), matchingController.getInvoice.bind(matchingController));
+router.post('/:id/invoice', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), matchingController.issueInvoice.bind(matchingController));
+router.get('/:id/ledger', authMiddleware, requireResourceOwner('Match'), matchingController.getLedger.bind(matchingController));
+router.post('/:id/manifest', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), matchingController.issueManifest.bind(matchingController));
+router.post('/:id/complete', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(completeMatchSchema), matchingController.complete.bind(matchingController));
+
+// Disputes
+router.get('/:id/disputes', authMiddleware, requireResourceOwner('Match'), disputeController.list.bind(disputeController));
+router.post('/:id/disputes', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(fileDisputeSchema), disputeController.file.bind(disputeController));
+router.post('/:id/disputes/:disputeId/response', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(disputeResponseSchema), disputeController.respond.bind(disputeController));
+router.post('/:id/disputes/:disputeId/evidence', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(disputeEvidenceSchema), disputeController.addEvidence.bind(disputeController));
+router.post('/:id/disputes/:disputeId/withdraw', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(withdrawDisputeSchema), disputeController.withdraw.bind(disputeController));
+router.post('/:id/disputes/:disputeId/ruling', authMiddleware, requirePlatformAdmin, validate(disputeRulingSchema), disputeController.rule.bind(disputeController));
+
+// Reviews
+router.post('/:id/review', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(reviewSchema), reviewController.submit.bind(reviewController));
+router.post('/:id/review/report', authMiddleware, requirePermission('matches:manage'), requireResourceOwner('Match'), validate(reportReviewSchema), reviewController.report.bind(reviewController));
 
 export default router;
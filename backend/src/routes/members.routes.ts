@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { membersController } from '../controllers/members.controller';
+import { authMiddleware, requirePermission } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { inviteMemberSchema, updateMemberRoleSchema } from '../validators';
+
+const router = Router();
+
+router.get('/', authMiddleware, membersController.list.bind(membersController));
+router.get('/access-log', authMiddleware, requirePermission('members:manage'), membersController.accessLog.bind(membersController));
+router.post('/invitations', authMiddleware, requirePermission('members:manage'), validate(inviteMemberSchema), membersController.invite.bind(membersController));
+router.post('/invitations/:token/accept', authMiddleware, membersController.acceptInvitation.bind(membersController));
+router.put('/:id/role', authMiddleware, requirePermission('members:manage'), validate(updateMemberRoleSchema), membersController.changeRole.bind(membersController));
+router.delete('/:id', authMiddleware, requirePermission('members:manage'), membersController.remove.bind(membersController));
+
+export default router;
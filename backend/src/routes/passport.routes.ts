@@ -1,14 +1,25 @@
 import { Router } from 'express';
 import { passportController } from '../controllers/passport.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { auditEvidenceSchema, auditVerdictSchema, openAuditSchema } from '../validators';
 
 const router = Router();
 
 // Public verification
 router.get('/verify/:passportNumber', passportController.verify.bind(passportController));
+router.get('/verify/:passportNumber/certificate', passportController.certificate.bind(passportController));
+router.get('/ledger/key', passportController.ledgerKey.bind(passportController));
+
+// Third-party audits — accredited auditors only
+router.get('/audits/queue', authMiddleware, passportController.auditQueue.bind(passportController));
+router.post('/:id/audits', authMiddleware, validate(openAuditSchema), passportController.openAudit.bind(passportController));
+router.post('/:id/audits/:auditId/evidence', authMiddleware, validate(auditEvidenceSchema), passportController.addAuditEvidence.bind(passportController));
+router.post('/:id/audits/:auditId/verdict', authMiddleware, validate(auditVerdictSchema), passportController.auditVerdict.bind(passportController));
 
 // Protected
 router.get('/', authMiddleware, passportController.list.bind(passportController));
+router.get('/:id/lineage', authMiddleware, passportController.lineage.bind(passportController));
 router.get('/:id', authMiddleware, passportController.getById.bind(passportController));
 
 export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { predictionController } from '../controllers/prediction.controller';
-import { authMiddleware } from '../middleware/auth.middleware';
+import { authMiddleware, requirePermission } from '../middleware/auth.middleware';
+import { requireCompanyAccess } from '../middleware/authorization.middleware';
 
 const router = Router();
 
@@ -8,15 +9,15 @@ const router = Router();
 router.use(authMiddleware);
 
 // Generate predictions for a company
-router.post('/:companyId/generate', (req, res, next) => predictionController.generate(req, res, next));
+router.post('/:companyId/generate', requireCompanyAccess(), requirePermission('company:update'), (req, res, next) => predictionController.generate(req, res, next));
 
 // Get latest prediction
-router.get('/:companyId', (req, res, next) => predictionController.getLatest(req, res, next));
+router.get('/:companyId', requireCompanyAccess(), (req, res, next) => predictionController.getLatest(req, res, next));
 
 // Get prediction history
-router.get('/:companyId/history', (req, res, next) => predictionController.getHistory(req, res, next));
+router.get('/:companyId/history', requireCompanyAccess(), (req, res, next) => predictionController.getHistory(req, res, next));
 
 // What-if scenario analysis
-router.post('/:companyId/scenario', (req, res, next) => predictionController.scenario(req, res, next));
+router.post('/:companyId/scenario', requireCompanyAccess(), (req, res, next) => predictionController.scenario(req, res, next));
 
 export default router;
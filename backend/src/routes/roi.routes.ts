@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { roiController } from '../controllers/roi.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requireCompanyAccess } from '../middleware/authorization.middleware';
 
 const router = Router();
 
-router.get('/:companyId', roiController.getDashboardData.bind(roiController));
-router.post('/:companyId/export', roiController.exportReport.bind(roiController));
+router.get('/:companyId', authMiddleware, requireCompanyAccess(), roiController.getDashboardData.bind(roiController));
+router.post('/:companyId/export', authMiddleware, requireCompanyAccess(), roiController.exportReport.bind(roiController));
 
 export default router;
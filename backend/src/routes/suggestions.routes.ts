@@ -1,15 +1,20 @@
 import { Router } from 'express';
 import { suggestionController } from '../controllers/suggestion.controller';
+import { authMiddleware, requirePermission } from '../middleware/auth.middleware';
+import { requireCompanyAccess, requireResourceOwner } from '../middleware/authorization.middleware';
 
 const router = Router();
 
+// Secure all routes
+router.use(authMiddleware);
+
 // Generate new AI suggestions
-router.post('/:companyId/generate', (req, res, next) => suggestionController.generate(req, res, next));
+router.post('/:companyId/generate', requireCompanyAccess(), requirePermission('company:update'), (req, res, next) => suggestionController.generate(req, res, next));
 
 // List suggestions with filtering
-router.get('/:companyId', (req, res, next) => suggestionController.list(req, res, next));
+router.get('/:companyId', requireCompanyAccess(), (req, res, next) => suggestionController.list(req, res, next));
 
 // Update suggestion status
-router.patch('/:id/status', (req, res, next) => suggestionController.updateStatus(req, res, next));
+router.patch('/:id/status', requirePermission('company:update'), requireResourceOwner('Suggestion'), (req, res, next) => suggestionController.updateStatus(req, res, next));
 
 export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { trackingController } from '../controllers/tracking.controller';
+import { validate } from '../middleware/validation.middleware';
+import { trackingEventSchema } from '../validators';
+
+const router = Router();
+
+// Token-authenticated transporter endpoints (no user session)
+router.get('/', trackingController.view.bind(trackingController));
+router.post('/events', validate(trackingEventSchema), trackingController.report.bind(trackingController));
+
+export default router;
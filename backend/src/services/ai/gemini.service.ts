@@ -8,6 +8,7 @@ import {
     LANDFILL_VOLUME_PER_KG,
     TRANSPORT_EMISSION_FACTORS,
 } from '../../utils/constants';
+import { toKg } from '../../utils/units';
 
 const genAI = new GoogleGenerativeAI(env.GEMINI_API_KEY);
 
@@ -82,7 +83,7 @@ Be precise. Use 2024 emission factors.`;
         unit: string,
         transportDistance: number
     ) {
-        const kg = unit === 'ton' ? quantity * 1000 : unit === 'cubic_meter' ? quantity * 500 : quantity;
+        const kg = toKg(quantity, unit, wasteType);
         const type = wasteType as keyof typeof RECYCLING_SAVINGS;
 
         const co2Savings = (RECYCLING_SAVINGS[type] || 1.0) * kg;
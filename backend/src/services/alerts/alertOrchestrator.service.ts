@@ -128,7 +128,7 @@ export class AlertOrchestratorService {
         let messageId = null;
         if (recipientEmail) {
             try {
-                messageId = await brevoService.sendAlertEmail(recipientEmail, aiResult.subject, aiResult.htmlBody);
+                messageId = await brevoService.sendAlertEmail(recipientEmail, aiResult.subject, aiResult.htmlBody, `alert:${alert._id}`);
                 alert.status = 'sent';
                 alert.emailDelivery = {
                     sentTo: recipientEmail,
@@ -0,0 +1,239 @@
+import { Types } from 'mongoose';
+import { Bid } from '../../models/Bid';
+import { Company } from '../../models/Company';
+import { ListingEvent, ListingEventType, LISTING_EVENT_TYPES } from '../../models/ListingEvent';
+import { Match } from '../../models/Match';
+import { WasteListing, WasteListingDocument } from '../../models/WasteListing';
+import { logger } from '../../utils/logger';
+
+const MAX_DAYS = 365;
+const PEER_WINDOW_DAYS = 180;
+const PEER_RADIUS_KM = 200;
+const MAX_PEERS = 500;
+const EARTH_RADIUS_KM = 6378.1;
+
+type ListingRef = { _id: any; companyId?: any } | string | Types.ObjectId;
+
+interface ListingRates {
+    viewsPerDay: number;
+    inquiriesPerDay: number;
+    matchesPerDay: number;
+    inquiryRate: number;
+    completionRate: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LISTING ANALYTICS — views, inquiries, bids, matches, acceptances and
+// completions are recorded as events against the listing. A seller gets
+// daily trends, the view-to-completion funnel and a comparison with
+// listings of the same material in the same region.
+// ═══════════════════════════════════════════════════════════════
+
+export class ListingAnalyticsService {
+    /**
+     * Record an event on one or more listings. Never throws — analytics
+     * must not break the request that triggered it.
+     */
+    async record(
+        type: ListingEventType,
+        listings: ListingRef | ListingRef[],
+        context: { actorCompanyId?: any; matchId?: any } = {}
+    ): Promise<void> {
+        try {
+            const refs = (Array.isArray(listings) ? listings : [listings]).filter(Boolean);
+            if (refs.length === 0) return;
+
+            const known = new Map<string, any>();
+            const unknown: string[] = [];
+            for (const ref of refs) {
+                const id = (typeof ref === 'object' && '_id' in ref ? ref._id : ref).toString();
+                const seller = typeof ref === 'object' && 'companyId' in ref ? ref.companyId : undefined;
+                if (seller) known.set(id, seller._id || seller);
+                else unknown.push(id);
+            }
+            if (unknown.length > 0) {
+                const found = await WasteListing.find({ _id: { $in: unknown } }).select('companyId').lean();
+                for (const listing of found) known.set(listing._id.toString(), listing.companyId);
+            }
+
+            const at = new Date();
+            await ListingEvent.insertMany([...known.entries()].map(([listingId, sellerId]) => ({
+                listingId,
+                sellerId,
+                type,
+                actorCompanyId: context.actorCompanyId?._id || context.actorCompanyId,
+                matchId: context.matchId,
+                at,
+            })));
+        } catch (error: any) {
+            logger.warn(`⚠️ Listing ${type} event not recorded: ${error.message}`);
+        }
+    }
+
+    async forListing(listing: WasteListingDocument, days = 30) {
+        const window = Math.min(Math.max(Math.floor(days) || 30, 1), MAX_DAYS);
+        const [daily, funnel, comparison] = await Promise.all([
+            this.dailyTrends(listing, window),
+            this.funnel(listing),
+            this.comparison(listing),
+        ]);
+
+        return { listingId: listing._id, days: window, daily, funnel, comparison };
+    }
+
+    /**
+     * Event counts per day for the last `days` days, zero-filled.
+     */
+    async dailyTrends(listing: WasteListingDocument, days: number) {
+        const since = new Date();
+        since.setUTCHours(0, 0, 0, 0);
+        since.setUTCDate(since.getUTCDate() - (days - 1));
+
+        const rows = await ListingEvent.aggregate([
+            { $match: { listingId: listing._id, at: { $gte: since } } },
+            {
+                $group: {
+                    _id: { day: { $dateToString: { format: '%Y-%m-%d', date: '$at' } }, type: '$type' },
+                    count: { $sum: 1 },
+                },
+            },
+        ]);
+
+        const byDay = new Map<string, Record<ListingEventType, number>>();
+        for (let i = 0; i < days; i++) {
+            const day = new Date(since.getTime() + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+            byDay.set(day, Object.fromEntries(LISTING_EVENT_TYPES.map((t) => [t, 0])) as Record<ListingEventType, number>);
+        }
+        for (const row of rows) {
+            const counts = byDay.get(row._id.day);
+            if (counts) counts[row._id.type as ListingEventType] = row.count;
+        }
+
+        return [...byDay.entries()].map(([date, counts]) => ({
+            date,
+            views: counts.view,
+            inquiries: counts.inquiry,
+            bids: counts.bid,
+            matches: counts.match,
+            accepted: counts.accepted,
+            completed: counts.completed,
+        }));
+    }
+
+    /**
+     * All-time funnel from view to completed exchange, with the conversion
+     * from each stage to the next. Views and inquiries come from the
+     * listing's counters, which predate the event log.
+     */
+    async funnel(listing: WasteListingDocument) {
+        const [bids, matches, accepted, completed] = await Promise.all([
+            Bid.countDocuments({ listingId: listing._id }),
+            Match.countDocuments({ wasteListingId: listing._id }),
+            Match.countDocuments({ wasteListingId: listing._id, 'negotiation.status': 'accepted' }),
+            Match.countDocuments({ wasteListingId: listing._id, 'execution.status': 'completed' }),
+        ]);
+
+        const counts: Array<[string, number]> = [
+            ['views', listing.viewCount || 0],
+            ['inquiries', listing.inquiryCount || 0],
+            ['matches', matches],
+            ['accepted', accepted],
+            ['completed', completed],
+        ];
+        const stages = counts.map(([stage, count], i) => ({
+            stage,
+            count,
+            conversion: i === 0 ? null : this.ratio(count, counts[i - 1][1]),
+        }));
+
+        return {
+            stages,
+            bids,
+            viewToCompletion: this.ratio(completed, listing.viewCount || 0),
+        };
+    }
+
+    /**
+     * How the listing performs against listings of the same material in the
+     * seller's state (or within 200 km when the state is unknown), listed in
+     * the last 180 days. Counters are normalised per day listed.
+     */
+    async comparison(listing: WasteListingDocument) {
+        const seller = await Company.findById(listing.companyId).select('location.state');
+        const state = seller?.location?.state;
+        const [lng, lat] = listing.location?.coordinates || [0, 0];
+
+        const filter: Record<string, any> = {
+            _id: { $ne: listing._id },
+            'material.category': listing.material.category,
+            status: { $ne: 'draft' },
+            createdAt: { $gte: new Date(Date.now() - PEER_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+        };
+        let region: string | null = null;
+        if (state) {
+            filter.companyId = { $in: await Company.find({ 'location.state': state }).distinct('_id') };
+            region = state;
+        } else if (lng || lat) {
+            filter.location = { $geoWithin: { $centerSphere: [[lng, lat], PEER_RADIUS_KM / EARTH_RADIUS_KM] } };
+            region = `within ${PEER_RADIUS_KM} km`;
+        }
+
+        const peers = await WasteListing.find(filter)
+            .select('viewCount inquiryCount matchCount createdAt')
+            .sort({ createdAt: -1 })
+            .limit(MAX_PEERS)
+            .lean();
+
+        const completedByListing = new Map<string, number>();
+        const completions = await Match.aggregate([
+            { $match: { wasteListingId: { $in: [listing._id, ...peers.map((p) => p._id)] }, 'execution.status': 'completed' } },
+            { $group: { _id: '$wasteListingId', count: { $sum: 1 } } },
+        ]);
+        for (const row of completions) completedByListing.set(row._id.toString(), row.count);
+
+        const own = this.rates(listing, completedByListing.get(listing._id.toString()) || 0);
+        const peerRates = peers.map((p) => this.rates(p, completedByListing.get(p._id.toString()) || 0));
+        const metrics = Object.keys(own) as Array<keyof ListingRates>;
+
+        return {
+            category: listing.material.category,
+            region,
+            peerCount: peers.length,
+            listing: own,
+            peerAverage: peerRates.length
+                ? Object.fromEntries(metrics.map((m) => [m, this.round(peerRates.reduce((sum, r) => sum + r[m], 0) / peerRates.length)]))
+                : null,
+            // Share of peers this listing does at least as well as, 0–100
+            percentile: peerRates.length
+                ? Object.fromEntries(metrics.map((m) => [m, Math.round(peerRates.filter((r) => r[m] <= own[m]).length / peerRates.length * 100)]))
+                : null,
+        };
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private rates(listing: { viewCount?: number; inquiryCount?: number; matchCount?: number; createdAt?: Date }, completed: number): ListingRates {
+        const ageDays = Math.max(1, (Date.now() - new Date(listing.createdAt || Date.now()).getTime()) / (24 * 60 * 60 * 1000));
+        const views = listing.viewCount || 0;
+        const matches = listing.matchCount || 0;
+        return {
+            viewsPerDay: this.round(views / ageDays),
+            inquiriesPerDay: this.round((listing.inquiryCount || 0) / ageDays),
+            matchesPerDay: this.round(matches / ageDays),
+            inquiryRate: this.ratio(listing.inquiryCount || 0, views),
+            completionRate: this.ratio(completed, matches),
+        };
+    }
+
+    private ratio(part: number, whole: number): number {
+        return whole > 0 ? this.round(part / whole) : 0;
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 1000) / 1000;
+    }
+}
+
+export const listingAnalyticsService = new ListingAnalyticsService();
@@ -0,0 +1,458 @@
+import { WasteListing, WasteListingDocument } from '../../models/WasteListing';
+import { Bid, BidDocument } from '../../models/Bid';
+import { Company } from '../../models/Company';
+import { Match, MatchDocument } from '../../models/Match';
+import { negotiationService } from '../matching/negotiation.service';
+import { hazardousComplianceService } from '../compliance/hazardous.service';
+import { listingAnalyticsService } from '../analytics/listingAnalytics.service';
+import { impactCalculator } from '../impact/calculator';
+import { brevoService } from '../notifications/brevo.service';
+import { n8nService } from '../notifications/n8n.service';
+import { calculateDistance } from '../../utils/geospatial';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_ANTI_SNIPING_MINUTES = 5;
+const DEFAULT_EXTENSION_MINUTES = 5;
+const MIN_DURATION_MINUTES = 60;
+const MAX_DURATION_DAYS = 30;
+// A close that has not finished settling after this long is retried
+const SETTLE_RETRY_MINUTES = 10;
+
+export interface AuctionSettingsInput {
+    bidding?: 'open' | 'sealed';
+    reservePrice?: number;
+    minIncrement?: number;
+    startsAt?: string | Date;
+    endsAt: string | Date;
+    antiSnipingMinutes?: number;
+    extensionMinutes?: number;
+}
+
+interface BidActor {
+    companyId: string;
+    userId?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// AUCTIONS — waste listings priced by bidding. pricing.amount is the
+// opening price per unit and the whole quantity sells as one lot.
+// Open auctions show the leading bid and need each bid to beat it by
+// minIncrement; sealed auctions hide bids until close. A bid in the
+// last antiSnipingMinutes pushes the end back. When the scheduler
+// closes an auction the best bid at or above the reserve becomes an
+// accepted Match with the winning buyer.
+// ═══════════════════════════════════════════════════════════════
+
+export class AuctionService {
+    /**
+     * Normalise auction settings for a new or edited listing.
+     */
+    prepare(input: AuctionSettingsInput, openingPrice: number | undefined, expiresAt?: string | Date) {
+        const now = new Date();
+        const startsAt = input.startsAt ? new Date(input.startsAt) : now;
+        const endsAt = new Date(input.endsAt);
+
+        if (openingPrice === undefined) {
+            throw new HttpError(422, 'Auctions need an opening price (pricing.amount)');
+        }
+        if (endsAt <= now) {
+            throw new HttpError(422, 'Auction must end in the future');
+        }
+        if (endsAt.getTime() - startsAt.getTime() < MIN_DURATION_MINUTES * MINUTE_MS) {
+            throw new HttpError(422, `Auctions must run for at least ${MIN_DURATION_MINUTES} minutes`);
+        }
+        if (endsAt.getTime() - startsAt.getTime() > MAX_DURATION_DAYS * 24 * 60 * MINUTE_MS) {
+            throw new HttpError(422, `Auctions can run for at most ${MAX_DURATION_DAYS} days`);
+        }
+        if (input.reservePrice !== undefined && input.reservePrice < openingPrice) {
+            throw new HttpError(422, 'Reserve price cannot be below the opening price');
+        }
+        // Listings are deleted at expiresAt (TTL index) — it must outlive the auction
+        if (expiresAt && new Date(expiresAt) <= endsAt) {
+            throw new HttpError(422, 'Listing expiry must be after the auction ends');
+        }
+        const antiSnipingMinutes = input.antiSnipingMinutes ?? DEFAULT_ANTI_SNIPING_MINUTES;
+        const extensionMinutes = input.extensionMinutes ?? DEFAULT_EXTENSION_MINUTES;
+        if (extensionMinutes < antiSnipingMinutes) {
+            throw new HttpError(422, 'Extension must be at least as long as the anti-sniping window');
+        }
+
+        return {
+            bidding: input.bidding || 'open',
+            reservePrice: input.reservePrice,
+            minIncrement: input.minIncrement ?? Math.max(1, Math.round(openingPrice * 0.02)),
+            startsAt,
+            endsAt,
+            originalEndsAt: endsAt,
+            antiSnipingMinutes,
+            extensionMinutes,
+            status: startsAt <= now ? 'open' : 'scheduled',
+            bidCount: 0,
+            extensions: 0,
+        };
+    }
+
+    /**
+     * Place a bid (price per unit). Open auctions must beat the leading bid
+     * by the minimum increment; in sealed auctions a company can only raise
+     * its own bid.
+     */
+    async placeBid(listingId: string, actor: BidActor, amount: number): Promise<{ bid: BidDocument; listing: WasteListingDocument }> {
+        const listing = await WasteListing.findById(listingId).select('+pricing.auction.reservePrice');
+        if (!listing) {
+            throw new HttpError(404, 'Listing not found');
+        }
+        const auction = listing.pricing?.auction;
+        if (listing.pricing?.type !== 'auction' || !auction) {
+            throw new HttpError(409, 'This listing is not an auction');
+        }
+        if (listing.companyId.toString() === actor.companyId) {
+            throw new HttpError(403, 'You cannot bid on your own listing');
+        }
+        if (listing.status !== 'active') {
+            throw new HttpError(409, `Listing is ${listing.status}`);
+        }
+        await hazardousComplianceService.assertAuthorized(listing, actor.companyId);
+
+        const now = new Date();
+        if (auction.status === 'scheduled' && new Date(auction.startsAt) > now) {
+            throw new HttpError(409, `Bidding opens ${new Date(auction.startsAt).toISOString()}`);
+        }
+        if (!['scheduled', 'open'].includes(auction.status) || new Date(auction.endsAt) <= now) {
+            throw new HttpError(409, 'Bidding has closed');
+        }
+        if (amount < (listing.pricing.amount || 0)) {
+            throw new HttpError(422, `Bids start at ${listing.pricing.amount}/${listing.quantity.unit}`);
+        }
+
+        const previous = await Bid.findOne({ listingId: listing._id, bidderId: actor.companyId, status: 'active' });
+        if (previous && amount <= previous.amount) {
+            throw new HttpError(422, `Your bid must be higher than your current ${previous.amount}/${listing.quantity.unit}`);
+        }
+
+        // Anti-sniping: a late bid pushes the close back, never forward
+        const endsAt = new Date(auction.endsAt);
+        const extendedEndsAt = now.getTime() + auction.extensionMinutes * MINUTE_MS;
+        const extend = endsAt.getTime() - now.getTime() < auction.antiSnipingMinutes * MINUTE_MS && extendedEndsAt > endsAt.getTime();
+        const newEndsAt = extend ? new Date(extendedEndsAt) : endsAt;
+
+        const update: any = {
+            $set: { 'pricing.auction.status': 'open', 'pricing.auction.endsAt': newEndsAt },
+            $inc: { 'pricing.auction.bidCount': 1, ...(extend ? { 'pricing.auction.extensions': 1 } : {}) },
+        };
+        const guard: any = {
+            _id: listing._id,
+            status: 'active',
+            'pricing.auction.status': { $in: ['scheduled', 'open'] },
+            'pricing.auction.endsAt': { $gt: now },
+        };
+
+        const sealed = auction.bidding === 'sealed';
+        const outbidCompanyId = sealed ? undefined : auction.highBidderId?.toString();
+        if (!sealed) {
+            const minimum = auction.highBid !== undefined && auction.highBid !== null
+                ? auction.highBid + auction.minIncrement
+                : listing.pricing.amount || 0;
+            if (amount < minimum) {
+                throw new HttpError(422, `Bid at least ${minimum}/${listing.quantity.unit}`);
+            }
+            // Atomic against a concurrent bid landing first
+            guard.$or = [
+                { 'pricing.auction.highBid': { $exists: false } },
+                { 'pricing.auction.highBid': null },
+                { 'pricing.auction.highBid': { $lte: amount - auction.minIncrement } },
+            ];
+            update.$set['pricing.auction.highBid'] = amount;
+            update.$set['pricing.auction.highBidderId'] = actor.companyId;
+        }
+
+        const updated = await WasteListing.findOneAndUpdate(guard, update, { new: true });
+        if (!updated) {
+            throw new HttpError(409, 'Another bid landed first or bidding has closed — refresh and try again');
+        }
+
+        if (previous) {
+            previous.status = 'superseded';
+            await previous.save();
+        }
+        const bid = await Bid.create({
+            listingId: listing._id,
+            sellerId: listing.companyId,
+            bidderId: actor.companyId,
+            bidderUser: actor.userId,
+            amount,
+            quantity: listing.quantity.value,
+            unit: listing.quantity.unit,
+            extendedAuction: extend,
+        });
+        listingAnalyticsService.record('bid', listing, { actorCompanyId: actor.companyId });
+
+        if (outbidCompanyId && outbidCompanyId !== actor.companyId) {
+            await Bid.updateMany({ listingId: listing._id, bidderId: outbidCompanyId, status: 'active' }, { $set: { status: 'outbid' } });
+            this.notifyOutbid(updated, outbidCompanyId, bid).catch(() => { });
+        }
+
+        return { bid, listing: updated };
+    }
+
+    /**
+     * Bid history for a listing. The seller sees every bid and bidder;
+     * others see anonymised amounts in open auctions and only their own
+     * bids in sealed ones.
+     */
+    async history(listingId: string, viewerCompanyId?: string) {
+        const listing = await WasteListing.findById(listingId).select('+pricing.auction.reservePrice companyId pricing quantity status');
+        if (!listing || listing.pricing?.type !== 'auction') {
+            throw new HttpError(404, 'Auction not found');
+        }
+        const auction = listing.pricing.auction;
+        const isSeller = !!viewerCompanyId && listing.companyId.toString() === viewerCompanyId;
+        const settled = ['closed', 'unsold'].includes(auction.status);
+
+        const bids = await Bid.find({ listingId: listing._id })
+            .populate('bidderId', 'name')
+            .sort({ createdAt: -1 })
+            .lean();
+
+        // Stable pseudonyms in order of first bid
+        const aliases = new Map<string, string>();
+        for (const bid of [...bids].reverse()) {
+            const id = (bid.bidderId?._id || bid.bidderId).toString();
+            if (!aliases.has(id)) aliases.set(id, `Bidder ${aliases.size + 1}`);
+        }
+
+        const visible = isSeller || auction.bidding === 'open' || settled
+            ? bids
+            : bids.filter((bid: any) => (bid.bidderId?._id || bid.bidderId).toString() === viewerCompanyId);
+
+        const items = visible.map((bid: any) => {
+            const bidderId = (bid.bidderId?._id || bid.bidderId).toString();
+            const mine = bidderId === viewerCompanyId;
+            return {
+                _id: bid._id,
+                amount: bid.amount,
+                unit: bid.unit,
+                status: bid.status,
+                extendedAuction: bid.extendedAuction,
+                createdAt: bid.createdAt,
+                mine,
+                bidder: isSeller || mine ? { _id: bidderId, name: bid.bidderId?.name } : { name: aliases.get(bidderId) },
+            };
+        });
+
+        const topBid = bids.filter((b: any) => ['active', 'won'].includes(b.status)).sort((a: any, b: any) => b.amount - a.amount)[0];
+        return {
+            auction: {
+                bidding: auction.bidding,
+                status: auction.status,
+                startsAt: auction.startsAt,
+                endsAt: auction.endsAt,
+                originalEndsAt: auction.originalEndsAt,
+                extensions: auction.extensions,
+                minIncrement: auction.minIncrement,
+                openingPrice: listing.pricing.amount,
+                bidCount: auction.bidCount,
+                highBid: auction.bidding === 'open' || isSeller || settled ? topBid?.amount ?? null : null,
+                reservePrice: isSeller ? auction.reservePrice ?? null : undefined,
+                reserveMet: auction.reservePrice === undefined || auction.reservePrice === null
+                    ? true
+                    : auction.bidding === 'open' || isSeller || settled ? (topBid?.amount ?? 0) >= auction.reservePrice : null,
+                matchId: auction.matchId,
+            },
+            bids: items,
+        };
+    }
+
+    /**
+     * Open scheduled auctions whose start has passed and close the ones
+     * whose end has passed. Called by the scheduler.
+     */
+    async processDue(): Promise<{ opened: number; closed: number; sold: number }> {
+        const now = new Date();
+        const opened = await WasteListing.updateMany(
+            { 'pricing.type': 'auction', 'pricing.auction.status': 'scheduled', 'pricing.auction.startsAt': { $lte: now } },
+            { $set: { 'pricing.auction.status': 'open' } }
+        );
+
+        const due = await WasteListing.find({
+            'pricing.type': 'auction',
+            $or: [
+                { 'pricing.auction.status': { $in: ['scheduled', 'open'] }, 'pricing.auction.endsAt': { $lte: now } },
+                { 'pricing.auction.status': 'settling', 'pricing.auction.settlingAt': { $lte: this.settleRetryBefore(now) } },
+            ],
+        }).select('+pricing.auction.reservePrice').limit(50);
+
+        let sold = 0;
+        for (const listing of due) {
+            try {
+                if (await this.close(listing)) sold++;
+            } catch (error) {
+                logger.error(`Auction close failed for listing ${listing._id}:`, error);
+            }
+        }
+
+        if (opened.modifiedCount || due.length) {
+            logger.info(`🔨 Auctions: ${opened.modifiedCount} opened, ${due.length} closed (${sold} sold)`);
+        }
+        return { opened: opened.modifiedCount, closed: due.length, sold };
+    }
+
+    /**
+     * Settle one auction. Returns true when it sold.
+     *
+     * The listing sits in 'settling' until the winning match exists; if
+     * anything fails before that, processDue picks it up again and the
+     * retry reuses the bid and match a previous attempt got to.
+     */
+    async close(listing: WasteListingDocument): Promise<boolean> {
+        const auction = listing.pricing.auction;
+        const now = new Date();
+
+        // Claim the listing so two scheduler runs cannot both settle it
+        const claimed = await WasteListing.findOneAndUpdate(
+            {
+                _id: listing._id,
+                $or: [
+                    { 'pricing.auction.status': { $in: ['scheduled', 'open'] } },
+                    { 'pricing.auction.status': 'settling', 'pricing.auction.settlingAt': { $lte: this.settleRetryBefore(now) } },
+                ],
+            },
+            { $set: { 'pricing.auction.status': 'settling', 'pricing.auction.settlingAt': now } },
+            { new: true }
+        );
+        if (!claimed) return false;
+
+        const winner = await Bid.findOne({ listingId: listing._id, status: { $in: ['won', 'active', 'outbid'] } })
+            .sort({ amount: -1, createdAt: 1 });
+
+        const reserve = auction.reservePrice;
+        if (!winner || (reserve !== undefined && reserve !== null && winner.amount < reserve)) {
+            await WasteListing.updateOne({ _id: listing._id }, {
+                $set: { 'pricing.auction.status': 'unsold', 'pricing.auction.closedAt': now, status: 'expired' },
+            });
+            await Bid.updateMany({ listingId: listing._id, status: { $in: ['active', 'outbid'] } }, { $set: { status: 'lost' } });
+            logger.info(`🔨 Auction ${listing._id} closed unsold${winner ? ' (reserve not met)' : ''}`);
+            return false;
+        }
+
+        winner.status = 'won';
+        await winner.save();
+        await Bid.updateMany({ listingId: listing._id, _id: { $ne: winner._id }, status: { $in: ['active', 'outbid'] } }, { $set: { status: 'lost' } });
+
+        const match = await Match.findOne({ auctionBidId: winner._id }) || await this.createMatch(listing, winner);
+        await WasteListing.updateOne({ _id: listing._id }, {
+            $set: {
+                status: 'reserved',
+                'pricing.auction.status': 'closed',
+                'pricing.auction.closedAt': now,
+                'pricing.auction.winningBidId': winner._id,
+                'pricing.auction.matchId': match._id,
+            },
+            $inc: { matchCount: 1 },
+        });
+
+        this.notifyResult(listing, winner, match).catch(() => { });
+        n8nService.triggerMatchFound(match).catch(() => { });
+        return true;
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private settleRetryBefore(now: Date): Date {
+        return new Date(now.getTime() - SETTLE_RETRY_MINUTES * MINUTE_MS);
+    }
+
+    private async createMatch(listing: WasteListingDocument, bid: BidDocument): Promise<MatchDocument> {
+        const [seller, buyer] = await Promise.all([
+            Company.findById(listing.companyId).select('location'),
+            Company.findById(bid.bidderId).select('location'),
+        ]);
+        const origin = listing.location?.coordinates || seller?.location?.coordinates || [0, 0];
+        const destination = buyer?.location?.coordinates || [0, 0];
+        const distance = calculateDistance(origin, destination);
+        const impact = impactCalculator.calculateExchangeImpact(
+            listing.material.category,
+            impactCalculator.normalizeToKg(bid.quantity, bid.unit, listing.material.category),
+            distance
+        );
+
+        const match = new Match({
+            wasteListingId: listing._id,
+            sellerId: listing.companyId,
+            buyerId: bid.bidderId,
+            origin: 'auction',
+            auctionBidId: bid._id,
+            // The buyer picked this lot themselves — compatibility is a given
+            matchScore: 100,
+            predictedImpact: {
+                co2SavedKg: impact.netCo2Saved,
+                waterSavedLiters: impact.waterSavedLiters,
+                landfillAvoidedM3: impact.landfillAvoidedM3,
+                energySavedKwh: impact.energySavedKwh,
+                economicValue: bid.amount * bid.quantity,
+                methodology: 'EPA WARM + IPCC India Grid Factors',
+            },
+            negotiation: { status: 'pending', messages: [] },
+            execution: { status: 'not_started' },
+            financials: { paymentStatus: 'pending' },
+            statusHistory: [{
+                track: 'negotiation',
+                status: 'pending',
+                changedAt: new Date(),
+                actorRole: 'system',
+                reason: `Auction won with bid ${bid.amount}/${bid.unit}`,
+            }],
+        });
+
+        await negotiationService.acceptAuctionWin(match, {
+            pricePerUnit: bid.amount,
+            quantity: bid.quantity,
+            unit: bid.unit,
+            currency: listing.pricing.currency,
+        });
+
+        listingAnalyticsService.record('match', listing, { matchId: match._id, actorCompanyId: match.buyerId });
+        return match;
+    }
+
+    private async notifyOutbid(listing: WasteListingDocument, companyId: string, newBid: BidDocument): Promise<void> {
+        const company = await Company.findById(companyId).select('email');
+        if (!company?.email) return;
+
+        const auction = listing.pricing.auction;
+        const previous = await Bid.findOne({ listingId: listing._id, bidderId: companyId }).sort({ amount: -1 });
+        await brevoService.sendOutbidNotification(company.email, {
+            bidId: newBid._id.toString(),
+            materialName: listing.material.category.replace(/_/g, ' '),
+            yourBid: previous?.amount,
+            highBid: newBid.amount,
+            minimumBid: newBid.amount + auction.minIncrement,
+            unit: listing.quantity.unit,
+            endsAt: auction.endsAt,
+        });
+    }
+
+    private async notifyResult(listing: WasteListingDocument, winner: BidDocument, match: MatchDocument): Promise<void> {
+        const [seller, buyer] = await Promise.all([
+            Company.findById(listing.companyId).select('email name'),
+            Company.findById(winner.bidderId).select('email name'),
+        ]);
+        const data = {
+            listingId: listing._id.toString(),
+            matchId: match._id,
+            materialName: listing.material.category.replace(/_/g, ' '),
+            amount: winner.amount,
+            quantity: winner.quantity,
+            unit: winner.unit,
+            buyerName: buyer?.name,
+        };
+        if (buyer?.email) await brevoService.sendAuctionResult(buyer.email, { ...data, won: true });
+        if (seller?.email) await brevoService.sendAuctionResult(seller.email, { ...data, won: false });
+    }
+}
+
+export const auctionService = new AuctionService();
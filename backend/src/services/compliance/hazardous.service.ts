@@ -0,0 +1,273 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Company } from '../../models/Company';
+import { HazardousManifest, HazardousManifestDocument } from '../../models/HazardousManifest';
+import { MatchDocument } from '../../models/Match';
+import { ProductPassportDocument } from '../../models/ProductPassport';
+import { WasteListing } from '../../models/WasteListing';
+import { toKg } from '../../utils/units';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export interface HazardousAuthorizationInput {
+    authorizationNumber: string;
+    issuedBy?: string;
+    validFrom?: string | Date;
+    validUntil: string | Date;
+    categories?: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HAZARDOUS WASTE COMPLIANCE — a hazardous listing may only go to a
+// buyer holding a current authorization that covers its Hazardous Waste
+// Rules category. Matching, bids, pickup and completion all check it,
+// and every hazardous match moves on a manifest (Form 10) that ends up
+// linked to the exchange's passport.
+// ═══════════════════════════════════════════════════════════════
+
+export class HazardousComplianceService {
+    async setAuthorization(companyId: string, input: HazardousAuthorizationInput) {
+        const company = await Company.findByIdAndUpdate(
+            companyId,
+            {
+                $set: {
+                    hazardousAuthorization: {
+                        authorizationNumber: input.authorizationNumber,
+                        issuedBy: input.issuedBy,
+                        validFrom: input.validFrom ? new Date(input.validFrom) : undefined,
+                        validUntil: new Date(input.validUntil),
+                        categories: input.categories || [],
+                        updatedAt: new Date(),
+                    },
+                },
+            },
+            { new: true }
+        );
+        if (!company) {
+            throw new HttpError(404, 'Company not found');
+        }
+        return company;
+    }
+
+    /**
+     * Why the buyer may not receive this listing — null when it is clean or
+     * the buyer's authorization covers it on the given date.
+     */
+    authorizationGap(listing: any, buyer: any, at: Date = new Date()): string | null {
+        if (!listing?.material?.hazardous) return null;
+
+        const category = listing.material.hazardousCategory;
+        if (!category) {
+            return 'The listing has no Hazardous Waste Rules category';
+        }
+
+        const authorization = buyer?.hazardousAuthorization;
+        const buyerName = buyer?.name || 'The buyer';
+        if (!authorization?.authorizationNumber || !authorization.validUntil) {
+            return `${buyerName} has no hazardous waste authorization on file`;
+        }
+        if (new Date(authorization.validUntil) < at) {
+            return `${buyerName}'s authorization ${authorization.authorizationNumber} expired on ${new Date(authorization.validUntil).toISOString().slice(0, 10)}`;
+        }
+        if (authorization.validFrom && new Date(authorization.validFrom) > at) {
+            return `${buyerName}'s authorization ${authorization.authorizationNumber} is not valid yet`;
+        }
+        const covered: string[] = authorization.categories || [];
+        if (covered.length > 0 && !covered.some((c) => c.trim().toLowerCase() === category.trim().toLowerCase())) {
+            return `${buyerName}'s authorization does not cover category ${category}`;
+        }
+        return null;
+    }
+
+    /**
+     * Throws 422 when the buyer may not receive the listing.
+     */
+    async assertAuthorized(listing: any, buyerId: any): Promise<void> {
+        if (!listing?.material?.hazardous) return;
+        const buyer = await Company.findById(buyerId?._id || buyerId).select('name hazardousAuthorization');
+        const gap = this.authorizationGap(listing, buyer);
+        if (gap) {
+            throw new HttpError(422, `Hazardous waste: ${gap}`);
+        }
+    }
+
+    /**
+     * The manifest for a hazardous match, generated on first call. Returns
+     * null for non-hazardous matches.
+     */
+    async issueManifest(match: MatchDocument): Promise<HazardousManifestDocument | null> {
+        const existing = await HazardousManifest.findOne({ matchId: match._id });
+        if (existing) return existing;
+
+        const listing = await WasteListing.findById(match.wasteListingId._id || match.wasteListingId);
+        if (!listing?.material?.hazardous) return null;
+
+        if (match.negotiation?.status !== 'accepted') {
+            throw new HttpError(409, 'A manifest can only be issued once terms are agreed');
+        }
+
+        const [seller, buyer] = await Promise.all([
+            Company.findById(match.sellerId._id || match.sellerId).select('name email location'),
+            Company.findById(match.buyerId._id || match.buyerId).select('name email location hazardousAuthorization'),
+        ]);
+        const gap = this.authorizationGap(listing, buyer);
+        if (gap) {
+            throw new HttpError(422, `Hazardous waste: ${gap}`);
+        }
+
+        const terms = match.financials?.agreedTerms;
+        const quantity = terms?.quantity ?? listing.quantity.value;
+        const unit = terms?.unit || listing.quantity.unit;
+        const authorization = buyer!.hazardousAuthorization!;
+
+        const manifest = await HazardousManifest.create({
+            manifestNumber: `HWM-${new Date().getFullYear()}-${uuidv4().slice(0, 8).toUpperCase()}`,
+            matchId: match._id,
+            wasteListingId: listing._id,
+            sender: {
+                companyId: seller?._id || match.sellerId,
+                name: seller?.name || 'Sender',
+                address: seller?.location?.address,
+                contactEmail: seller?.email,
+            },
+            receiver: {
+                companyId: buyer!._id,
+                name: buyer!.name,
+                address: buyer!.location?.address,
+                contactEmail: buyer!.email,
+                authorizationNumber: authorization.authorizationNumber,
+                authorizationIssuedBy: authorization.issuedBy,
+                authorizationValidUntil: authorization.validUntil,
+            },
+            waste: {
+                category: listing.material.category,
+                hazardousCategory: listing.material.hazardousCategory,
+                description: listing.material.subType || listing.material.chemicalComposition,
+                quantity,
+                unit,
+                quantityKg: Math.round(toKg(quantity, unit, listing.material.category) * 100) / 100,
+                msdsAvailable: !!listing.material.msdsAvailable,
+            },
+        });
+
+        logger.info(`☣️ Manifest ${manifest.manifestNumber} issued for match ${match._id}`);
+        return manifest;
+    }
+
+    /**
+     * Pickup — the load leaves on its manifest. The buyer's authorization is
+     * checked again as it may have lapsed since the terms were agreed.
+     */
+    async dispatch(match: MatchDocument, transporter: { name?: string; trackingCode?: string }): Promise<HazardousManifestDocument | null> {
+        const manifest = await this.issueManifest(match);
+        if (!manifest) return null;
+
+        const listing = await WasteListing.findById(manifest.wasteListingId);
+        await this.assertAuthorized(listing, manifest.receiver.companyId);
+
+        manifest.status = 'in_transit';
+        manifest.dispatchedAt = new Date();
+        manifest.set('transporter', {
+            name: transporter.name,
+            vehicleType: match.transport?.actual?.vehicleType || match.transport?.estimate?.vehicleType,
+            trackingCode: transporter.trackingCode,
+        });
+        await manifest.save();
+        return manifest;
+    }
+
+    async markDelivered(match: MatchDocument): Promise<void> {
+        await HazardousManifest.updateOne(
+            { matchId: match._id, status: { $in: ['issued', 'in_transit'] } },
+            { $set: { status: 'delivered', deliveredAt: new Date() } }
+        );
+    }
+
+    /**
+     * Completion — close the manifest and cross-link it with the passport.
+     */
+    async linkPassport(match: MatchDocument, passport: ProductPassportDocument): Promise<HazardousManifestDocument | null> {
+        const manifest = await this.issueManifest(match);
+        if (!manifest) return null;
+
+        manifest.passportId = passport._id;
+        manifest.status = 'closed';
+        manifest.closedAt = new Date();
+        await manifest.save();
+
+        passport.set('hazardous', {
+            category: manifest.waste.hazardousCategory,
+            manifestId: manifest._id,
+            manifestNumber: manifest.manifestNumber,
+            receiverAuthorization: manifest.receiver.authorizationNumber,
+        });
+        await passport.save();
+        return manifest;
+    }
+
+    /**
+     * Printable manifest — what travels with the load.
+     */
+    render(manifest: HazardousManifestDocument): string {
+        const row = (label: string, value: unknown) =>
+            `<tr><th style="text-align:left;padding:6px 12px;border:1px solid #ccc;background:#f5f5f5;width:40%">${label}</th><td style="padding:6px 12px;border:1px solid #ccc">${this.escape(value ?? '—')}</td></tr>`;
+        const date = (value?: Date) => (value ? new Date(value).toISOString().slice(0, 16).replace('T', ' ') : undefined);
+
+        return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Manifest ${this.escape(manifest.manifestNumber)}</title></head>
+<body style="font-family:Arial,sans-serif;max-width:760px;margin:24px auto;color:#111">
+  <h2 style="margin-bottom:4px">Hazardous Waste Movement Manifest</h2>
+  <p style="margin-top:0;color:#555">Form 10 — Hazardous and Other Wastes (Management and Transboundary Movement) Rules, 2016</p>
+  <table style="border-collapse:collapse;width:100%;margin-bottom:16px">
+    ${row('Manifest number', manifest.manifestNumber)}
+    ${row('Status', manifest.status)}
+    ${row('Issued', date(manifest.issuedAt))}
+  </table>
+  <h3>1. Sender</h3>
+  <table style="border-collapse:collapse;width:100%">
+    ${row('Name', manifest.sender?.name)}
+    ${row('Address', manifest.sender?.address)}
+    ${row('Email', manifest.sender?.contactEmail)}
+  </table>
+  <h3>2. Transporter</h3>
+  <table style="border-collapse:collapse;width:100%">
+    ${row('Name', manifest.transporter?.name)}
+    ${row('Vehicle type', manifest.transporter?.vehicleType)}
+    ${row('Tracking code', manifest.transporter?.trackingCode)}
+    ${row('Dispatched', date(manifest.dispatchedAt))}
+  </table>
+  <h3>3. Receiver</h3>
+  <table style="border-collapse:collapse;width:100%">
+    ${row('Name', manifest.receiver?.name)}
+    ${row('Address', manifest.receiver?.address)}
+    ${row('Authorization number', manifest.receiver?.authorizationNumber)}
+    ${row('Issued by', manifest.receiver?.authorizationIssuedBy)}
+    ${row('Valid until', date(manifest.receiver?.authorizationValidUntil)?.slice(0, 10))}
+    ${row('Received', date(manifest.deliveredAt))}
+  </table>
+  <h3>4. Waste</h3>
+  <table style="border-collapse:collapse;width:100%">
+    ${row('Hazardous Waste Rules category', manifest.waste?.hazardousCategory)}
+    ${row('Material', String(manifest.waste?.category || '').replace(/_/g, ' '))}
+    ${row('Description', manifest.waste?.description)}
+    ${row('Quantity', `${manifest.waste?.quantity} ${manifest.waste?.unit} (${manifest.waste?.quantityKg} kg)`)}
+    ${row('MSDS available', manifest.waste?.msdsAvailable ? 'Yes' : 'No')}
+  </table>
+</body>
+</html>`;
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private escape(value: unknown): string {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
+
+export const hazardousComplianceService = new HazardousComplianceService();
@@ -0,0 +1,361 @@
+import { Dispute, DisputeDocument, DisputeCategory, DisputeOutcome, DisputeStatus } from '../../models/Dispute';
+import { MatchDocument } from '../../models/Match';
+import { ProductPassport } from '../../models/ProductPassport';
+import { matchStateMachine } from '../matching/stateMachine';
+import { n8nService } from '../notifications/n8n.service';
+import { ledgerService } from '../payments/ledger.service';
+import { passportLedgerService } from '../passports/passportLedger.service';
+import { passportAuditService } from '../passports/passportAudit.service';
+import { HttpError } from '../../utils/errors';
+import { toKg } from '../../utils/units';
+import { logger } from '../../utils/logger';
+
+const RESPONSE_WINDOW_DAYS = 7;
+const ACTIVE_STATUSES: DisputeStatus[] = ['open', 'responded'];
+
+// Impact figures scaled with the quantity when a passport is amended
+const SCALED_IMPACT_FIELDS = ['co2SavedVsVirgin', 'waterSavedLiters', 'energySavedKwh', 'landfillAvoidedM3'];
+
+interface DisputeActor {
+    companyId: string;
+    userId?: string;
+}
+
+export interface DisputeRuling {
+    decision: 'upheld' | 'partially_upheld' | 'dismissed';
+    paymentAction: 'release' | 'refund' | 'partial_refund';
+    refundAmount?: number;
+    passportAction: 'none' | 'revoke' | 'amend';
+    passportAmendment?: { quantity?: number; unit?: string; notes?: string };
+    faultParty?: 'seller' | 'buyer' | 'none';
+    notes?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// DISPUTES — filed by either party on an accepted match, answered by
+// the counterparty and ruled on by a platform admin. Filing freezes the
+// deal (execution → disputed, payment held, passport flagged); the ruling
+// settles payment, fixes or revokes the passport and records who was at
+// fault for the reliability score.
+// ═══════════════════════════════════════════════════════════════
+
+export class DisputeService {
+    async file(match: MatchDocument, actor: DisputeActor, input: {
+        category: DisputeCategory;
+        description: string;
+        attachments?: string[];
+        desiredOutcome: DisputeOutcome;
+        requestedAmount?: number;
+    }): Promise<DisputeDocument> {
+        const role = matchStateMachine.partyOf(match, actor.companyId);
+
+        const active = await Dispute.exists({ matchId: match._id, status: { $in: ACTIVE_STATUSES } });
+        if (active) {
+            throw new HttpError(409, 'This match already has an open dispute');
+        }
+
+        const executionStatusBefore = match.execution.status;
+        const paymentStatusBefore = match.financials?.paymentStatus || 'pending';
+
+        matchStateMachine.transition(match, 'execution', 'disputed', {
+            actor: role,
+            ...actor,
+            reason: `Dispute filed by ${role}: ${input.category}`,
+        });
+        if (['pending', 'held'].includes(paymentStatusBefore)) {
+            match.set('financials.paymentStatus', 'held');
+        }
+
+        const dispute = await Dispute.create({
+            matchId: match._id,
+            passportId: match.passportId,
+            filedBy: actor.companyId,
+            filedByUser: actor.userId,
+            filedByRole: role,
+            againstCompanyId: role === 'seller' ? match.buyerId : match.sellerId,
+            category: input.category,
+            description: input.description,
+            attachments: input.attachments || [],
+            desiredOutcome: input.desiredOutcome,
+            requestedAmount: input.requestedAmount,
+            executionStatusBefore,
+            paymentStatusBefore,
+            respondBy: new Date(Date.now() + RESPONSE_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+        });
+
+        await match.save();
+        await this.setPassportStatus(match, 'disputed');
+
+        n8nService.triggerDisputeRaised(match._id.toString(), `${input.category}: ${input.description}`).catch(() => { });
+        logger.info(`⚖️ Dispute ${dispute._id} filed on match ${match._id} by ${role} (${input.category})`);
+
+        return dispute;
+    }
+
+    async respond(dispute: DisputeDocument, match: MatchDocument, actor: DisputeActor, input: {
+        statement: string;
+        attachments?: string[];
+        acceptsOutcome?: boolean;
+    }): Promise<DisputeDocument> {
+        if (dispute.againstCompanyId.toString() !== actor.companyId) {
+            throw new HttpError(403, 'Only the other party can respond to this dispute');
+        }
+        if (dispute.status !== 'open') {
+            throw new HttpError(409, `Dispute is already ${dispute.status}`);
+        }
+
+        dispute.response = {
+            by: actor.companyId,
+            byUser: actor.userId,
+            statement: input.statement,
+            attachments: input.attachments || [],
+            acceptsOutcome: input.acceptsOutcome,
+            respondedAt: new Date(),
+        };
+        dispute.status = 'responded';
+        await dispute.save();
+
+        matchStateMachine.record(match, 'execution', 'disputed', 'dispute_responded', {
+            actor: matchStateMachine.partyOf(match, actor.companyId),
+            ...actor,
+            reason: input.acceptsOutcome ? 'Counterparty accepts the requested outcome' : 'Counterparty contests the dispute',
+        });
+        await match.save();
+
+        return dispute;
+    }
+
+    async addEvidence(dispute: DisputeDocument, match: MatchDocument, actor: DisputeActor, input: {
+        note?: string;
+        attachments?: string[];
+    }): Promise<DisputeDocument> {
+        const role = matchStateMachine.partyOf(match, actor.companyId);
+        this.assertActive(dispute);
+
+        dispute.evidence.push({
+            submittedBy: actor.companyId,
+            submittedByUser: actor.userId,
+            role,
+            note: input.note,
+            attachments: input.attachments || [],
+            submittedAt: new Date(),
+        });
+        await dispute.save();
+
+        return dispute;
+    }
+
+    async withdraw(dispute: DisputeDocument, match: MatchDocument, actor: DisputeActor, reason?: string): Promise<DisputeDocument> {
+        if (dispute.filedBy.toString() !== actor.companyId) {
+            throw new HttpError(403, 'Only the party that filed the dispute can withdraw it');
+        }
+        this.assertActive(dispute);
+
+        dispute.status = 'withdrawn';
+        dispute.withdrawnAt = new Date();
+
+        this.restoreMatch(match, dispute, reason || 'Dispute withdrawn');
+        match.set('financials.paymentStatus', dispute.paymentStatusBefore);
+        await this.setPassportStatus(match, 'settled');
+
+        await dispute.save();
+        await match.save();
+        return dispute;
+    }
+
+    /**
+     * Platform admin ruling — the only way a contested dispute ends.
+     */
+    async rule(dispute: DisputeDocument, match: MatchDocument, admin: { userId?: string; email?: string }, ruling: DisputeRuling): Promise<DisputeDocument> {
+        this.assertActive(dispute);
+
+        if (ruling.passportAction !== 'none' && !match.passportId) {
+            throw new HttpError(422, 'This match has no passport to revoke or amend');
+        }
+
+        const total = match.financials?.agreedTerms?.totalPrice ?? match.actualImpact?.economicValueRealized ?? 0;
+        if (ruling.paymentAction === 'partial_refund' && total && (ruling.refundAmount || 0) > total) {
+            throw new HttpError(422, `Refund cannot exceed the deal value of ${total}`);
+        }
+
+        // ─── Payment ───
+        if (ruling.paymentAction === 'release') {
+            await ledgerService.release(match);
+        } else if (ruling.paymentAction === 'refund') {
+            await ledgerService.refund(match, undefined, `Refunded by dispute ${dispute._id}`);
+        } else {
+            await ledgerService.refund(match, ruling.refundAmount, `Partial refund by dispute ${dispute._id}`);
+        }
+
+        // ─── Passport ───
+        if (ruling.passportAction === 'revoke') {
+            const passport = await ProductPassport.findById(match.passportId).select('verification.status');
+            if (passport && passport.verification?.status !== 'revoked') {
+                await passportAuditService.revoke(match.passportId, ruling.notes || `Revoked by dispute ${dispute._id}`, admin.email);
+            }
+        } else if (ruling.passportAction === 'amend') {
+            await this.amendPassport(match, dispute, ruling.passportAmendment || {});
+        } else {
+            await this.setPassportStatus(match, 'settled');
+        }
+
+        // ─── Fault (feeds reliability) ───
+        const faultParty = ruling.faultParty ?? (ruling.decision === 'dismissed' ? 'none' : dispute.filedByRole === 'seller' ? 'buyer' : 'seller');
+        const faultCompanyId = faultParty === 'seller' ? match.sellerId : faultParty === 'buyer' ? match.buyerId : undefined;
+
+        dispute.ruling = {
+            decision: ruling.decision,
+            paymentAction: ruling.paymentAction,
+            // What the ledger actually returned to the buyer
+            refundAmount: ruling.paymentAction === 'release' ? 0 : match.financials?.refundedAmount ?? 0,
+            passportAction: ruling.passportAction,
+            passportAmendment: ruling.passportAmendment,
+            faultCompanyId,
+            notes: ruling.notes,
+            ruledBy: admin.userId,
+            ruledByEmail: admin.email,
+            ruledAt: new Date(),
+        };
+        dispute.status = 'resolved';
+
+        // The buyer got everything back, so the deal cannot go on to completion
+        const reason = `Dispute ${ruling.decision}${ruling.notes ? `: ${ruling.notes}` : ''}`;
+        if (ruling.paymentAction === 'refund') {
+            matchStateMachine.transition(match, 'execution', 'cancelled', { actor: 'system', reason });
+        } else {
+            this.restoreMatch(match, dispute, reason);
+        }
+
+        await dispute.save();
+        await match.save();
+
+        logger.info(`⚖️ Dispute ${dispute._id} resolved (${ruling.decision}, payment: ${ruling.paymentAction}, passport: ${ruling.passportAction})`);
+        return dispute;
+    }
+
+    async listForMatch(matchId: string): Promise<DisputeDocument[]> {
+        return Dispute.find({ matchId }).sort({ createdAt: -1 });
+    }
+
+    async list(filter: { status?: DisputeStatus; page?: number; limit?: number }) {
+        const query: any = {};
+        if (filter.status) query.status = filter.status;
+
+        const page = filter.page || 1;
+        const limit = Math.min(filter.limit || 25, 100);
+
+        const [items, total] = await Promise.all([
+            Dispute.find(query)
+                .populate('filedBy', 'name')
+                .populate('againstCompanyId', 'name')
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            Dispute.countDocuments(query),
+        ]);
+
+        return { items, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+    }
+
+    /**
+     * Disputes a company was found at fault for since `since`.
+     */
+    async faultCount(companyId: string, since: Date): Promise<number> {
+        return Dispute.countDocuments({
+            status: 'resolved',
+            'ruling.faultCompanyId': companyId,
+            'ruling.ruledAt': { $gte: since },
+        });
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private assertActive(dispute: DisputeDocument): void {
+        if (!ACTIVE_STATUSES.includes(dispute.status)) {
+            throw new HttpError(409, `Dispute is already ${dispute.status}`);
+        }
+    }
+
+    /**
+     * Put execution back where it was when the dispute was filed.
+     */
+    private restoreMatch(match: MatchDocument, dispute: DisputeDocument, reason: string): void {
+        if (match.execution.status !== 'disputed') return;
+        matchStateMachine.transition(match, 'execution', dispute.executionStatusBefore, { actor: 'system', reason });
+    }
+
+    /**
+     * Flag the passport while a dispute runs; once it ends the passport
+     * goes back to what its audits say ('settled').
+     */
+    private async setPassportStatus(match: MatchDocument, status: 'settled' | 'disputed'): Promise<void> {
+        if (!match.passportId) return;
+        const passport = await ProductPassport.findById(match.passportId);
+        if (!passport || passport.verification?.status === 'revoked') return;
+
+        passport.set('verification.status', status === 'settled' ? passportAuditService.settledStatus(passport) : 'disputed');
+        await passport.save();
+        await passportLedgerService.record(passport, 'status');
+    }
+
+    private async amendPassport(
+        match: MatchDocument,
+        dispute: DisputeDocument,
+        amendment: { quantity?: number; unit?: string; notes?: string }
+    ): Promise<void> {
+        const passport = await ProductPassport.findById(match.passportId);
+        if (!passport) {
+            throw new HttpError(404, 'Passport not found');
+        }
+
+        const reason = amendment.notes || `Amended by dispute ${dispute._id}`;
+        const amendments: any[] = [];
+
+        const quantity = amendment.quantity ?? passport.origin.quantity;
+        const unit = amendment.unit || passport.origin.unit;
+        const material = passport.origin.materialType;
+
+        if (quantity !== passport.origin.quantity || unit !== passport.origin.unit) {
+            // Impact figures scale with the mass moved, so compare in kg
+            const kgBefore = toKg(passport.origin.quantity, passport.origin.unit, material);
+            const kgAfter = toKg(quantity, unit, material);
+            const ratio = kgBefore ? kgAfter / kgBefore : 1;
+
+            if (quantity !== passport.origin.quantity) {
+                amendments.push({ field: 'origin.quantity', from: passport.origin.quantity, to: quantity });
+                passport.origin.quantity = quantity;
+            }
+            if (unit !== passport.origin.unit) {
+                amendments.push({ field: 'origin.unit', from: passport.origin.unit, to: unit });
+                passport.origin.unit = unit;
+            }
+            passport.origin.quantityKg = Math.round(kgAfter * 100) / 100;
+
+            if (ratio !== 1) {
+                for (const field of SCALED_IMPACT_FIELDS) {
+                    const before = passport.impact?.[field];
+                    if (typeof before !== 'number') continue;
+                    const after = Math.round(before * ratio * 100) / 100;
+                    amendments.push({ field: `impact.${field}`, from: before, to: after });
+                    passport.impact[field] = after;
+                }
+            }
+        }
+
+        passport.verification.amendments = [
+            ...(passport.verification.amendments || []),
+            ...amendments.map((a) => ({ ...a, reason, disputeId: dispute._id, at: new Date() })),
+        ];
+        if (passport.verification.status === 'disputed') {
+            passport.verification.status = passportAuditService.settledStatus(passport);
+        }
+        passport.markModified('impact');
+        await passport.save();
+        await passportLedgerService.record(passport, 'amend');
+    }
+}
+
+export const disputeService = new DisputeService();
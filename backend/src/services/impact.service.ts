@@ -19,7 +19,9 @@ export class ImpactService {
                         { sellerId: new mongoose.Types.ObjectId(companyId) },
                         { buyerId: new mongoose.Types.ObjectId(companyId) }
                     ],
-                    'execution.status': 'completed'
+                    'execution.status': 'completed',
+                    // Revoked passports no longer count towards impact
+                    'actualImpact.revokedAt': { $exists: false }
                 }
             },
             {
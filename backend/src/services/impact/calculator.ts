@@ -8,6 +8,7 @@ import {
     WATER_EMISSION_FACTOR,
     TRANSPORT_EMISSION_FACTORS,
 } from '../../utils/constants';
+import { toKg } from '../../utils/units';
 import { logger } from '../../utils/logger';
 
 type MaterialType = keyof typeof RECYCLING_SAVINGS;
@@ -101,16 +102,10 @@ export class ImpactCalculator {
     }
 
     /**
-     * Normalize quantity to kg
+     * Normalize quantity to kg — volumes through the material's bulk density
      */
-    normalizeToKg(value: number, unit: string): number {
-        const conversions: Record<string, number> = {
-            kg: 1,
-            ton: 1000,
-            liter: 1,
-            cubic_meter: 1000,
-        };
-        return value * (conversions[unit] || 1);
+    normalizeToKg(value: number, unit: string, materialCategory?: string): number {
+        return toKg(value, unit, materialCategory);
     }
 
     /**
@@ -0,0 +1,341 @@
+import crypto from 'crypto';
+import { Match, MatchDocument } from '../../models/Match';
+import { matchStateMachine, TransitionContext } from '../matching/stateMachine';
+import { hazardousComplianceService } from '../compliance/hazardous.service';
+import { ledgerService } from '../payments/ledger.service';
+import { env } from '../../config/env';
+import { sha256 } from '../../utils/canonical';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export type ShipmentEventType = 'picked_up' | 'in_transit' | 'delivered';
+
+export interface ShipmentEventInput {
+    type: ShipmentEventType;
+    at?: string;
+    location?: number[];
+    note?: string;
+    proof?: string;
+}
+
+export interface Transporter {
+    name: string;
+    vehicleNumber?: string;
+    driverName?: string;
+    driverPhone?: string;
+}
+
+// A transporter's link stops working this long after it is issued
+const TRACKING_TOKEN_DAYS = 30;
+// Device clocks drift — events stamped a little ahead are accepted
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+const MAX_SLOTS = 5;
+
+// ═══════════════════════════════════════════════════════════════
+// SHIPMENTS — the seller proposes pickup slots and the buyer confirms
+// one. The seller then hands the transporter a tracking link; the
+// driver reports pickup, GPS points in transit and delivery against a
+// token rather than an account. Pickup and delivery move execution just
+// as the seller's own buttons do, and every event ends up on the
+// passport journey when the exchange completes.
+// ═══════════════════════════════════════════════════════════════
+
+export class ShipmentService {
+    /**
+     * Seller offers pickup slots. A new proposal replaces any slots still
+     * open, and withdraws a confirmed one (a reschedule).
+     */
+    proposeSlots(match: MatchDocument, ctx: TransitionContext, slots: Array<{ start: string; end: string }>): void {
+        this.assertRole(ctx, 'seller', 'Only the seller can propose pickup slots');
+        this.assertStatus(match, ['pickup_scheduled'], 'Pickup slots can only be proposed before the load leaves');
+
+        const now = new Date();
+        const window = match.financials?.agreedTerms?.pickupWindow;
+        const parsed = slots.map((s) => ({ start: new Date(s.start), end: new Date(s.end) }));
+        for (const slot of parsed) {
+            if (slot.end <= slot.start) {
+                throw new HttpError(422, 'Each pickup slot must end after it starts');
+            }
+            if (slot.start <= now) {
+                throw new HttpError(422, 'Pickup slots must be in the future');
+            }
+            if (window?.start && window?.end && (slot.start < new Date(window.start) || slot.end > new Date(window.end))) {
+                throw new HttpError(422, `Pickup slots must fall inside the agreed window ${new Date(window.start).toISOString()} – ${new Date(window.end).toISOString()}`);
+            }
+        }
+        if (parsed.length > MAX_SLOTS) {
+            throw new HttpError(422, `Propose at most ${MAX_SLOTS} slots`);
+        }
+
+        for (const slot of match.shipment?.slots || []) {
+            if (slot.status === 'proposed' || slot.status === 'confirmed') {
+                slot.status = 'withdrawn';
+                slot.respondedAt = now;
+            }
+        }
+        for (const slot of parsed) {
+            match.shipment.slots.push({ ...slot, status: 'proposed', proposedAt: now });
+        }
+
+        matchStateMachine.record(match, 'execution', 'pickup_scheduled', 'pickup_scheduled', {
+            ...ctx,
+            reason: `${parsed.length} pickup slot(s) proposed`,
+        }, now);
+    }
+
+    /**
+     * Buyer confirms one proposed slot; the others are declined.
+     */
+    confirmSlot(match: MatchDocument, ctx: TransitionContext, slotId: string): void {
+        this.assertRole(ctx, 'buyer', 'Only the buyer can confirm a pickup slot');
+        this.assertStatus(match, ['pickup_scheduled'], 'The load has already left');
+
+        const slot = match.shipment?.slots?.id(slotId);
+        if (!slot) {
+            throw new HttpError(404, 'Pickup slot not found');
+        }
+        if (slot.status !== 'proposed') {
+            throw new HttpError(409, `This slot is ${slot.status}`);
+        }
+        if (slot.start <= new Date()) {
+            throw new HttpError(409, 'This slot has already started — ask the seller for new slots');
+        }
+
+        const now = new Date();
+        for (const other of match.shipment.slots) {
+            if (other.status === 'proposed') {
+                other.status = other._id.equals(slot._id) ? 'confirmed' : 'declined';
+                other.respondedAt = now;
+            }
+        }
+        match.execution.pickupScheduledAt = slot.start;
+
+        matchStateMachine.record(match, 'execution', 'pickup_scheduled', 'pickup_scheduled', {
+            ...ctx,
+            reason: `Pickup confirmed for ${slot.start.toISOString()} – ${slot.end.toISOString()}`,
+        }, now);
+    }
+
+    /**
+     * Issue a tracking link for the transporter. Any earlier link stops
+     * working. The token is only returned here.
+     */
+    issueTrackingToken(match: MatchDocument, ctx: TransitionContext, transporter: Transporter) {
+        this.assertRole(ctx, 'seller', 'Only the seller can hand out a tracking link');
+        this.assertStatus(match, ['pickup_scheduled', 'in_transit'], 'Tracking links are for shipments that have not been delivered');
+
+        const token = crypto.randomBytes(24).toString('base64url');
+        const expiresAt = new Date(Date.now() + TRACKING_TOKEN_DAYS * 24 * 60 * 60 * 1000);
+
+        match.set('shipment.transporter', transporter);
+        match.set('shipment.trackingTokenHash', sha256(token));
+        match.set('shipment.trackingTokenExpiresAt', expiresAt);
+        if (!match.execution.logisticsProvider) match.execution.logisticsProvider = transporter.name;
+
+        return { token, url: `${env.FRONTEND_URL}/track/${token}`, expiresAt };
+    }
+
+    /**
+     * The match a transporter's token belongs to. Unknown and expired
+     * links are both 404 — a 401 would read as a lapsed user session.
+     */
+    async authenticate(token: string | undefined): Promise<MatchDocument> {
+        const match = token
+            ? await Match.findOne({ 'shipment.trackingTokenHash': sha256(token) }).populate('wasteListingId', 'material quantity')
+            : null;
+        if (!match || !match.shipment?.trackingTokenExpiresAt || match.shipment.trackingTokenExpiresAt < new Date()) {
+            throw new HttpError(404, 'Tracking link is invalid or has expired');
+        }
+        return match;
+    }
+
+    /**
+     * What a driver needs on the road — no prices or company contacts.
+     */
+    async driverView(match: MatchDocument) {
+        await match.populate([
+            { path: 'sellerId', select: 'name location.address location.city location.coordinates' },
+            { path: 'buyerId', select: 'name location.address location.city location.coordinates' },
+        ]);
+        const listing = match.wasteListingId as any;
+        const stop = (company: any) => ({
+            name: company?.name,
+            address: company?.location?.address || company?.location?.city,
+            coordinates: company?.location?.coordinates,
+        });
+
+        return {
+            material: listing?.material?.category,
+            quantity: match.financials?.agreedTerms?.quantity ?? listing?.quantity?.value,
+            unit: match.financials?.agreedTerms?.unit || listing?.quantity?.unit,
+            pickup: stop(match.sellerId),
+            dropoff: stop(match.buyerId),
+            slot: (match.shipment?.slots || []).find((s: any) => s.status === 'confirmed') || null,
+            transporter: match.shipment?.transporter,
+            status: match.execution.status,
+            nextEvents: this.nextEvents(match),
+            events: this.timeline(match),
+        };
+    }
+
+    /**
+     * A transporter's report. Pickup and delivery advance execution on the
+     * seller's behalf; in-transit points need a location and change nothing.
+     */
+    async report(match: MatchDocument, input: ShipmentEventInput) {
+        const at = input.at ? new Date(input.at) : new Date();
+        if (at.getTime() > Date.now() + CLOCK_SKEW_MS) {
+            throw new HttpError(422, 'Event time is in the future');
+        }
+        if (!this.nextEvents(match).includes(input.type)) {
+            throw new HttpError(409, `Cannot report ${input.type.replace('_', ' ')} while the shipment is ${match.execution.status.replace('_', ' ')}`);
+        }
+
+        const driver = match.shipment?.transporter?.driverName || match.shipment?.transporter?.name || 'transporter';
+        const ctx: TransitionContext = {
+            actor: 'seller',
+            companyId: (match.sellerId?._id || match.sellerId).toString(),
+            reason: `${input.type === 'delivered' ? 'Delivered' : 'Picked up'} — reported by ${driver}`,
+        };
+        const event = { ...input, at, source: 'transporter' as const };
+
+        if (input.type === 'picked_up') {
+            await this.pickedUp(match, ctx, { logisticsProvider: match.shipment?.transporter?.name }, event);
+        } else if (input.type === 'delivered') {
+            this.delivered(match, ctx, { proofOfDelivery: input.proof ? [input.proof] : [], notes: input.note }, event);
+        } else {
+            if (!input.location) {
+                throw new HttpError(422, 'In-transit updates need a GPS location');
+            }
+            match.shipment.events.push(event);
+        }
+
+        await match.save();
+        if (input.type === 'picked_up') {
+            await this.chargeEscrow(match);
+        } else if (input.type === 'delivered') {
+            await hazardousComplianceService.markDelivered(match);
+        }
+
+        logger.info(`🚚 Match ${match._id}: ${input.type} reported by ${driver}`);
+        return this.timeline(match);
+    }
+
+    /**
+     * Load collected — shared by the seller's button and the transporter
+     * link. Hazardous loads leave on a manifest. The caller saves the match
+     * and then charges the buyer with chargeEscrow().
+     */
+    async pickedUp(
+        match: MatchDocument,
+        ctx: TransitionContext,
+        carrier: { trackingCode?: string; logisticsProvider?: string },
+        event: Omit<ShipmentEventInput, 'at'> & { at?: Date; source: 'transporter' | 'seller' } = { type: 'picked_up', source: 'seller' }
+    ): Promise<void> {
+        const slots = match.shipment?.slots || [];
+        if (slots.length > 0 && !slots.some((s: any) => s.status === 'confirmed')) {
+            throw new HttpError(409, 'The buyer has not confirmed a pickup slot yet');
+        }
+
+        matchStateMachine.transition(match, 'execution', 'in_transit', ctx);
+        if (carrier.trackingCode) match.execution.trackingCode = carrier.trackingCode;
+        if (carrier.logisticsProvider) match.execution.logisticsProvider = carrier.logisticsProvider;
+        match.shipment.events.push({ ...event, type: 'picked_up', at: event.at || new Date() });
+
+        await hazardousComplianceService.dispatch(match, {
+            name: match.execution.logisticsProvider,
+            trackingCode: match.execution.trackingCode,
+        });
+    }
+
+    /**
+     * Charge the buyer into escrow for a saved pickup. A failure is logged and
+     * leaves the payment pending — release charges whatever is still owed.
+     */
+    async chargeEscrow(match: MatchDocument): Promise<void> {
+        try {
+            await ledgerService.hold(match);
+            await match.save();
+        } catch (error) {
+            logger.error(`Escrow hold failed for match ${match._id}:`, error);
+        }
+    }
+
+    /**
+     * Load handed over — the buyer verifies next. The caller saves the
+     * match and closes any hazardous manifest.
+     */
+    delivered(
+        match: MatchDocument,
+        ctx: TransitionContext,
+        proof: { proofOfDelivery?: string[]; notes?: string },
+        event: Omit<ShipmentEventInput, 'at'> & { at?: Date; source: 'transporter' | 'seller' } = { type: 'delivered', source: 'seller' }
+    ): void {
+        matchStateMachine.transition(match, 'execution', 'delivered', ctx);
+        if (proof.proofOfDelivery?.length) {
+            match.execution.proofOfDelivery = [...(match.execution.proofOfDelivery || []), ...proof.proofOfDelivery];
+        }
+        match.execution.sellerVerification = { approved: true, notes: proof.notes, at: new Date() };
+        match.shipment.events.push({ ...event, type: 'delivered', at: event.at || new Date() });
+        // The link has done its job
+        match.set('shipment.trackingTokenExpiresAt', new Date());
+    }
+
+    /**
+     * Slots, transporter and events for the match's parties.
+     */
+    forParties(match: MatchDocument) {
+        return {
+            status: match.execution.status,
+            pickupScheduledAt: match.execution.pickupScheduledAt,
+            slots: match.shipment?.slots || [],
+            transporter: match.shipment?.transporter,
+            trackingLinkActive: !!match.shipment?.trackingTokenExpiresAt && match.shipment.trackingTokenExpiresAt > new Date(),
+            trackingLinkExpiresAt: match.shipment?.trackingTokenExpiresAt,
+            events: this.timeline(match),
+        };
+    }
+
+    /**
+     * Events in the form the passport journey keeps them.
+     */
+    passportEvents(match: MatchDocument) {
+        return this.timeline(match).map((e: any) => ({
+            timestamp: e.at,
+            location: e.location,
+            status: e.type,
+            proof: e.proof,
+        }));
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    /** Events by when they happened — drivers may send buffered points late */
+    private timeline(match: MatchDocument) {
+        return [...(match.shipment?.events || [])].sort((a: any, b: any) => +new Date(a.at) - +new Date(b.at));
+    }
+
+    private nextEvents(match: MatchDocument): ShipmentEventType[] {
+        switch (match.execution.status) {
+            case 'pickup_scheduled': return ['picked_up'];
+            case 'in_transit': return ['in_transit', 'delivered'];
+            default: return [];
+        }
+    }
+
+    private assertRole(ctx: TransitionContext, role: 'seller' | 'buyer', message: string): void {
+        if (ctx.actor !== role) {
+            throw new HttpError(403, message);
+        }
+    }
+
+    private assertStatus(match: MatchDocument, statuses: string[], message: string): void {
+        if (!statuses.includes(match.execution.status)) {
+            throw new HttpError(409, message);
+        }
+    }
+}
+
+export const shipmentService = new ShipmentService();
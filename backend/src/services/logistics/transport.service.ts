@@ -0,0 +1,194 @@
+import { estimateTransport, calculateVehicleEmissions } from '../../engine/transport';
+import { ROAD_ROUTE_FACTOR, TRANSPORT_FACTORS } from '../../engine/constants';
+import { HttpError } from '../../utils/errors';
+
+export type DistanceSource = 'estimated' | 'recorded' | 'client';
+
+export interface RouteStop {
+    label?: string;
+    coordinates: number[]; // GeoJSON order: [lng, lat]
+}
+
+export interface TransportAssessment {
+    source: DistanceSource;
+    distanceKm: number;
+    vehicleType: string;
+    loadFactor: number;
+    emissionFactor: number;
+    co2Kg: number;
+    estimatedCostINR?: number;
+    routeFactor?: number;
+    legs: Array<{ from: RouteStop; to: RouteStop; distanceKm: number; measured: boolean }>;
+    formula: string;
+    assessedAt: Date;
+}
+
+type PassportMode = 'truck' | 'rail' | 'ship' | 'pipeline' | 'air';
+
+// Passport journeys record the mode; road vehicle classes collapse to truck
+const PASSPORT_MODES: Record<string, PassportMode> = {
+    light_truck: 'truck',
+    heavy_truck: 'truck',
+    truck: 'truck',
+    rail: 'rail',
+    ship: 'ship',
+    pipeline: 'pipeline',
+    air: 'air',
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ═══════════════════════════════════════════════════════════════
+// TRANSPORT — distance and emissions for moving a match's material,
+// either estimated from company locations (road ≈ 1.3× great circle)
+// or from a route the parties recorded. Every figure keeps the
+// assumptions it was computed with so passports can be audited.
+// ═══════════════════════════════════════════════════════════════
+
+export class TransportService {
+    /**
+     * Seller → buyer estimate from company coordinates, or null when
+     * either location is missing.
+     */
+    estimate(origin: RouteStop, destination: RouteStop, vehicleType: string = 'truck', loadFactor: number = 1.0): TransportAssessment | null {
+        if (!this.hasLocation(origin.coordinates) || !this.hasLocation(destination.coordinates)) {
+            return null;
+        }
+        this.assertVehicle(vehicleType);
+
+        const leg = this.legDistance(origin, destination, vehicleType, loadFactor);
+        const emissions = this.emissions(leg.distanceKm, vehicleType, loadFactor);
+
+        return {
+            source: 'estimated',
+            distanceKm: leg.distanceKm,
+            vehicleType,
+            loadFactor,
+            emissionFactor: TRANSPORT_FACTORS[vehicleType],
+            co2Kg: emissions.co2Kg,
+            estimatedCostINR: leg.costINR,
+            routeFactor: ROAD_ROUTE_FACTOR,
+            legs: [{ from: origin, to: destination, distanceKm: leg.distanceKm, measured: false }],
+            formula: leg.formula,
+            assessedAt: new Date(),
+        };
+    }
+
+    /**
+     * A route the parties actually drove: two or more stops, with measured
+     * leg distances where known and road estimates for the rest.
+     */
+    fromRoute(stops: RouteStop[], options: { legDistancesKm?: number[]; vehicleType?: string; loadFactor?: number } = {}): TransportAssessment {
+        const vehicleType = options.vehicleType || 'truck';
+        const loadFactor = options.loadFactor ?? 1.0;
+        this.assertVehicle(vehicleType);
+
+        if (stops.length < 2) {
+            throw new HttpError(422, 'A route needs at least an origin and a destination');
+        }
+        if (options.legDistancesKm && options.legDistancesKm.length !== stops.length - 1) {
+            throw new HttpError(422, `Expected ${stops.length - 1} leg distances for ${stops.length} stops`);
+        }
+
+        const legs: TransportAssessment['legs'] = [];
+        let costINR = 0;
+        for (let i = 1; i < stops.length; i++) {
+            const measured = options.legDistancesKm?.[i - 1];
+            if (measured !== undefined) {
+                legs.push({ from: stops[i - 1], to: stops[i], distanceKm: round2(measured), measured: true });
+                continue;
+            }
+            if (!this.hasLocation(stops[i - 1].coordinates) || !this.hasLocation(stops[i].coordinates)) {
+                throw new HttpError(422, `Leg ${i} needs coordinates or a measured distance`);
+            }
+            const leg = this.legDistance(stops[i - 1], stops[i], vehicleType, loadFactor);
+            costINR += leg.costINR;
+            legs.push({ from: stops[i - 1], to: stops[i], distanceKm: leg.distanceKm, measured: false });
+        }
+
+        const distanceKm = round2(legs.reduce((sum, leg) => sum + leg.distanceKm, 0));
+        const emissions = this.emissions(distanceKm, vehicleType, loadFactor);
+
+        return {
+            source: 'recorded',
+            distanceKm,
+            vehicleType,
+            loadFactor,
+            emissionFactor: TRANSPORT_FACTORS[vehicleType],
+            co2Kg: emissions.co2Kg,
+            estimatedCostINR: costINR ? round2(costINR) : undefined,
+            routeFactor: legs.some((leg) => !leg.measured) ? ROAD_ROUTE_FACTOR : undefined,
+            legs,
+            formula: `${legs.map((leg) => `${leg.distanceKm} km${leg.measured ? '' : ' (est.)'}`).join(' + ')} = ${distanceKm} km | ${emissions.formula}`,
+            assessedAt: new Date(),
+        };
+    }
+
+    /**
+     * A distance the client supplied without a route.
+     */
+    fromDistance(distanceKm: number, vehicleType: string = 'truck', loadFactor: number = 1.0): TransportAssessment {
+        this.assertVehicle(vehicleType);
+        const emissions = this.emissions(distanceKm, vehicleType, loadFactor);
+
+        return {
+            source: 'client',
+            distanceKm: round2(distanceKm),
+            vehicleType,
+            loadFactor,
+            emissionFactor: TRANSPORT_FACTORS[vehicleType],
+            co2Kg: emissions.co2Kg,
+            legs: [],
+            formula: emissions.formula,
+            assessedAt: new Date(),
+        };
+    }
+
+    passportMode(vehicleType: string): PassportMode {
+        return PASSPORT_MODES[vehicleType] || 'truck';
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private legDistance(from: RouteStop, to: RouteStop, vehicleType: string, loadFactor: number) {
+        const [lng1, lat1] = from.coordinates;
+        const [lng2, lat2] = to.coordinates;
+
+        // Same site — nothing to move
+        if (lng1 === lng2 && lat1 === lat2) {
+            return { distanceKm: 0, costINR: 0, formula: 'Origin and destination coincide: 0 km' };
+        }
+
+        try {
+            const result = estimateTransport(lat1, lng1, lat2, lng2, vehicleType, loadFactor);
+            return { distanceKm: result.distanceKm, costINR: result.estimatedCostINR, formula: result.formula };
+        } catch (error) {
+            throw new HttpError(422, (error as Error).message);
+        }
+    }
+
+    private emissions(distanceKm: number, vehicleType: string, loadFactor: number) {
+        if (distanceKm <= 0) {
+            return { co2Kg: 0, formula: 'CO2 = 0 km → 0 kg' };
+        }
+        try {
+            return calculateVehicleEmissions({ distanceKm, vehicleType, loadFactor });
+        } catch (error) {
+            throw new HttpError(422, (error as Error).message);
+        }
+    }
+
+    private assertVehicle(vehicleType: string): void {
+        if (TRANSPORT_FACTORS[vehicleType] === undefined) {
+            throw new HttpError(422, `Unknown vehicle type ${vehicleType}. Valid: ${Object.keys(TRANSPORT_FACTORS).join(', ')}`);
+        }
+    }
+
+    private hasLocation(coordinates?: number[]): boolean {
+        return Array.isArray(coordinates) && coordinates.length === 2 && !(coordinates[0] === 0 && coordinates[1] === 0);
+    }
+}
+
+export const transportService = new TransportService();
@@ -1,133 +1,565 @@
 import { WasteListing } from '../../models/WasteListing';
 import { NeedListing, NeedListingDocument } from '../../models/NeedListing';
 import { Match } from '../../models/Match';
+import { MatchBundle, MatchBundleDocument, BundleStrategy } from '../../models/MatchBundle';
 import { Company } from '../../models/Company';
 import { calculateDistance } from '../../utils/geospatial';
+import { convertQuantity, isConvertible, toKg } from '../../utils/units';
 import { impactCalculator } from '../impact/calculator';
 import { groqService } from '../ai/groq.service';
+import { reputationService } from '../reputation/reputation.service';
+import { negotiationService, NegotiationActor } from './negotiation.service';
+import { hazardousComplianceService } from '../compliance/hazardous.service';
+import { listingAnalyticsService } from '../analytics/listingAnalytics.service';
+import { calculateWeightedMatchScore, weightsFromPreferences } from '../../engine/matching';
+import { estimateTransport } from '../../engine/transport';
+import { HttpError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
 
+// Listings in one of the buyer's preferred regions get this much on the distance factor
+const PREFERRED_REGION_BONUS = 15;
+const MIN_MATCH_SCORE = 70;
+const MAX_RESULTS = 10;
+
+// Split fulfilment
+const BUNDLE_MAX_SELLERS = 5;
+const BUNDLE_SELLER_PENALTY = 5; // quantity-fit points lost per extra seller
+const BUNDLE_TTL_HOURS = 72;
+const BUNDLE_STRATEGIES: BundleStrategy[] = ['lowest_cost', 'nearest', 'fewest_sellers'];
+
+type ScoredNeed = { needListing: any; score: number; factors: any; distance: number };
+type ScoredWaste = { wasteListing: any; score: number; factors: any; distance: number };
+type BundleCandidate = ScoredWaste & {
+    kgPerUnit: number;
+    availableKg: number;
+    minimumOrderKg: number;
+    pricePerKg: number;
+    transportCost: number;
+};
+type BundlePlan = { strategy: BundleStrategy; items: { candidate: BundleCandidate; quantityKg: number }[] };
+
 export class MatchingEngine {
     /**
      * Find best matches for a waste listing
      */
-    async findMatches(wasteListingId: string): Promise<Array<{
-        needListing: any;
-        score: number;
-        factors: any;
-        distance: number;
-    }>> {
+    async findMatches(wasteListingId: string): Promise<ScoredNeed[]> {
         const wasteListing = await WasteListing.findById(wasteListingId).populate('companyId');
         if (!wasteListing || wasteListing.status !== 'active') {
             throw new Error('Invalid or inactive listing');
         }
+        if (wasteListing.pricing?.type === 'auction') {
+            throw new HttpError(409, 'Auction listings are sold by bidding, not matched');
+        }
 
         // Query potential matching needs
-        const potentialMatches = await NeedListing.find({
-            status: 'active',
-            'requirements.material.category': wasteListing.material.category,
-            companyId: { $ne: wasteListing.companyId },
-        }).populate('companyId');
+        const [potentialMatches, alreadyMatched] = await Promise.all([
+            NeedListing.find({
+                status: 'active',
+                'requirements.material.category': wasteListing.material.category,
+                companyId: { $ne: wasteListing.companyId },
+            }).populate('companyId'),
+            Match.distinct('needListingId', { wasteListingId: wasteListing._id }),
+        ]);
+        const matched = new Set(alreadyMatched.map((id: any) => id?.toString()));
 
         const scoredMatches = await Promise.all(
-            potentialMatches.map(async (need) => {
-                const score = await this.calculateMatchScore(wasteListing, need);
-                return {
-                    needListing: need,
-                    ...score,
-                };
-            })
+            potentialMatches
+                .filter((need) => !matched.has(need._id.toString()) && this.isEligible(wasteListing, need))
+                .map(async (need) => {
+                    const score = await this.calculateMatchScore(wasteListing, need);
+                    return {
+                        needListing: need,
+                        ...score,
+                    };
+                })
         );
 
         // Filter >70% matches, sort by score, top 10
         return scoredMatches
-            .filter((m) => m.score >= 70)
+            .filter((m) => m.score >= MIN_MATCH_SCORE)
             .sort((a, b) => b.score - a.score)
-            .slice(0, 10);
+            .slice(0, MAX_RESULTS);
+    }
+
+    /**
+     * Reverse matching — find the best active waste listings for a need
+     */
+    async findMatchesForNeed(needListingId: string): Promise<ScoredWaste[]> {
+        const need = await NeedListing.findById(needListingId).populate('companyId');
+        if (!need || need.status !== 'active') {
+            throw new HttpError(409, 'Need listing is not active');
+        }
+
+        const scored = await this.scoreNeedCandidates(need);
+        return scored
+            .filter((m) => m.score >= MIN_MATCH_SCORE)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_RESULTS);
+    }
+
+    /**
+     * Split fulfilment — propose bundles of several waste listings that
+     * together cover the need's min..max quantity. Each strategy orders
+     * the candidates its own way and fills greedily; bundles are costed on
+     * material plus the haul from every origin and replace any earlier
+     * proposals for the need.
+     */
+    async proposeBundles(needListingId: string): Promise<MatchBundleDocument[]> {
+        const need = await NeedListing.findById(needListingId).populate('companyId');
+        if (!need || need.status !== 'active') {
+            throw new HttpError(409, 'Need listing is not active');
+        }
+
+        const { material, quantity, budget } = need.requirements;
+        const minKg = toKg(quantity.min, quantity.unit, material.category);
+        const maxKg = toKg(quantity.max, quantity.unit, material.category);
+        // Per-kg ceiling, stretched by the room the buyer left for negotiation
+        const maxPricePerKg = (budget.maxPricePerUnit * (1 + (budget.negotiationRoom || 0) / 100))
+            / toKg(1, quantity.unit, material.category);
+
+        const candidates = (await this.scoreNeedCandidates(need))
+            .filter((c) => c.factors.materialCompatibility > 0 && c.distance <= need.logistics.maxDistanceKm)
+            .map((c) => this.bundleCandidate(c, need))
+            .filter((c) => c.pricePerKg <= maxPricePerKg && c.availableKg > 0);
+
+        const plans: BundlePlan[] = [];
+        const seen = new Set<string>();
+        for (const strategy of BUNDLE_STRATEGIES) {
+            const plan = this.composeBundle(strategy, this.orderCandidates(strategy, candidates, maxKg), minKg, maxKg, budget.totalBudget);
+            if (!plan) continue;
+            // Strategies often converge on the same sellers
+            const key = plan.items.map((item) => item.candidate.wasteListing._id.toString()).sort().join(',');
+            if (seen.has(key)) continue;
+            seen.add(key);
+            plans.push(plan);
+        }
+
+        await MatchBundle.updateMany({ needListingId: need._id, status: 'proposed' }, { $set: { status: 'superseded' } });
+        if (plans.length === 0) return [];
+
+        const expiresAt = new Date(Date.now() + BUNDLE_TTL_HOURS * 60 * 60 * 1000);
+        const bundles = await MatchBundle.create(plans.map((plan) => this.priceBundle(plan, need, expiresAt)));
+        return bundles.sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * The buyer takes a proposed bundle: one match per item, linked by the
+     * bundle id, each opened with the buyer's offer on the bundled terms.
+     */
+    async acceptBundle(bundle: MatchBundleDocument, actor: NegotiationActor): Promise<{ bundle: MatchBundleDocument; matches: any[] }> {
+        if (bundle.status !== 'proposed') {
+            throw new HttpError(409, `Bundle is already ${bundle.status}`);
+        }
+        if (bundle.expiresAt <= new Date()) {
+            bundle.status = 'expired';
+            await bundle.save();
+            throw new HttpError(409, 'Bundle proposal has expired — propose bundles again');
+        }
+
+        const need = await NeedListing.findById(bundle.needListingId);
+        if (!need || need.status !== 'active') {
+            throw new HttpError(409, 'Need listing is not active');
+        }
+
+        const listingIds = bundle.items.map((item) => item.wasteListingId);
+        const [listings, alreadyMatched] = await Promise.all([
+            WasteListing.find({ _id: { $in: listingIds } }).populate('companyId'),
+            Match.distinct('wasteListingId', { needListingId: need._id, wasteListingId: { $in: listingIds } }),
+        ]);
+        const byId = new Map(listings.map((listing) => [listing._id.toString(), listing]));
+        const matched = new Set(alreadyMatched.map((id: any) => id?.toString()));
+        for (const item of bundle.items) {
+            const listing = byId.get(item.wasteListingId.toString());
+            if (!listing || listing.status !== 'active' || listing.quantity.value < item.quantity || matched.has(listing._id.toString())) {
+                throw new HttpError(409, 'A bundled listing is no longer available — propose bundles again');
+            }
+            await hazardousComplianceService.assertAuthorized(listing, need.companyId);
+        }
+
+        // Claim the proposal so a double submit cannot create the matches twice
+        const claimed = await MatchBundle.findOneAndUpdate(
+            { _id: bundle._id, status: 'proposed' },
+            { $set: { status: 'accepted', acceptedAt: new Date(), acceptedBy: actor.userId } },
+            { new: true }
+        );
+        if (!claimed) {
+            throw new HttpError(409, 'Bundle was accepted in the meantime');
+        }
+
+        // All or nothing — a failure part-way removes the matches made so far
+        // and hands the proposal back so it can be accepted again
+        const matches: any[] = [];
+        try {
+            for (const [index, item] of claimed.items.entries()) {
+                const listing = byId.get(item.wasteListingId.toString());
+                const match = await this.buildMatch(listing, need, {
+                    score: claimed.score,
+                    factors: { ...item.factors, quantityFit: claimed.factors.quantityFit },
+                    distance: item.distanceKm,
+                }, { bundleId: claimed._id, quantity: item.quantity });
+                matches.push(match);
+
+                await negotiationService.makeOffer(match, actor, {
+                    pricePerUnit: item.pricePerUnit,
+                    quantity: item.quantity,
+                    message: `Part ${index + 1} of ${claimed.items.length} of a bundled order`,
+                });
+            }
+
+            claimed.matchIds = matches.map((match) => match._id);
+            await claimed.save();
+        } catch (error) {
+            await Match.deleteMany({ _id: { $in: matches.map((match) => match._id) } });
+            await MatchBundle.updateOne(
+                { _id: claimed._id },
+                { $set: { status: 'proposed', matchIds: [] }, $unset: { acceptedAt: 1, acceptedBy: 1 } }
+            );
+            throw error;
+        }
+
+        await MatchBundle.updateMany(
+            { needListingId: need._id, status: 'proposed', _id: { $ne: claimed._id } },
+            { $set: { status: 'superseded' } }
+        );
+        await NeedListing.findByIdAndUpdate(need._id, { $inc: { matchCount: matches.length } });
+        await WasteListing.updateMany({ _id: { $in: listingIds } }, { $inc: { matchCount: 1 } });
+
+        logger.info(`📦 Bundle ${claimed._id} accepted: ${matches.length} matches for need ${need._id}`);
+        return { bundle: claimed, matches };
     }
 
     /**
      * Create match records from scored results
      */
-    async createMatches(wasteListingId: string, results: Array<{
-        needListing: any;
-        score: number;
-        factors: any;
-        distance: number;
-    }>): Promise<any[]> {
+    async createMatches(wasteListingId: string, results: ScoredNeed[]): Promise<any[]> {
         const wasteListing = await WasteListing.findById(wasteListingId);
         if (!wasteListing) throw new Error('Listing not found');
 
         const matches = await Promise.all(
-            results.map(async (result) => {
-                // Calculate predicted impact
-                const quantityKg = impactCalculator.normalizeToKg(
-                    wasteListing.quantity.value,
-                    wasteListing.quantity.unit
-                );
-                const impact = impactCalculator.calculateExchangeImpact(
-                    wasteListing.material.category,
-                    quantityKg,
-                    result.distance
-                );
-
-                // Generate AI explanation
-                let explanation = '';
-                try {
-                    explanation = await groqService.explainMatch(
-                        wasteListing.toObject(),
-                        result.needListing,
-                        result.score,
-                        result.distance
-                    );
-                } catch (err) {
-                    logger.warn('AI match explanation failed, using default');
-                    explanation = `Strong ${result.score}% match based on material compatibility and proximity (${result.distance}km).`;
-                }
-
-                const match = await Match.create({
-                    wasteListingId: wasteListing._id,
-                    needListingId: result.needListing._id,
-                    sellerId: wasteListing.companyId,
-                    buyerId: result.needListing.companyId._id || result.needListing.companyId,
-                    matchScore: result.score,
-                    matchFactors: result.factors,
-                    aiAnalysis: {
-                        explanation,
-                        confidence: result.score,
-                        riskFactors: [],
-                        opportunities: [],
-                    },
-                    predictedImpact: {
-                        co2SavedKg: impact.netCo2Saved,
-                        waterSavedLiters: impact.waterSavedLiters,
-                        landfillAvoidedM3: impact.landfillAvoidedM3,
-                        energySavedKwh: impact.energySavedKwh,
-                        economicValue: (wasteListing.pricing?.amount || 0) * wasteListing.quantity.value,
-                        methodology: 'EPA WARM + IPCC India Grid Factors',
-                    },
-                    negotiation: { status: 'pending', messages: [] },
-                    execution: { status: 'not_started' },
-                    financials: { paymentStatus: 'pending' },
-                    statusHistory: [{
-                        status: 'pending',
-                        changedAt: new Date(),
-                        reason: 'Auto-generated match',
-                    }],
-                });
-
-                return match;
-            })
+            results.map((result) => this.buildMatch(wasteListing, result.needListing, result))
         );
 
-        // Update listing match count
+        // Update listing match counts
         await WasteListing.findByIdAndUpdate(wasteListingId, {
             $inc: { matchCount: matches.length },
         });
+        await NeedListing.updateMany(
+            { _id: { $in: results.map((r) => r.needListing._id) } },
+            { $inc: { matchCount: 1 } }
+        );
+
+        return matches;
+    }
+
+    /**
+     * Create match records for a need from reverse-matching results
+     */
+    async createMatchesForNeed(needListingId: string, results: ScoredWaste[]): Promise<any[]> {
+        const need = await NeedListing.findById(needListingId);
+        if (!need) throw new Error('Need listing not found');
+
+        const matches = await Promise.all(
+            results.map((result) => this.buildMatch(result.wasteListing, need, result))
+        );
+
+        await NeedListing.findByIdAndUpdate(needListingId, {
+            $inc: { matchCount: matches.length },
+        });
+        await WasteListing.updateMany(
+            { _id: { $in: results.map((r) => r.wasteListing._id) } },
+            { $inc: { matchCount: 1 } }
+        );
 
         return matches;
     }
 
+    /**
+     * Find and create matches for a need in one go — used when a need is
+     * posted and by the scheduler.
+     */
+    async matchNeed(needListingId: string): Promise<any[]> {
+        const results = await this.findMatchesForNeed(needListingId);
+        if (results.length === 0) return [];
+        return this.createMatchesForNeed(needListingId, results);
+    }
+
+    private async buildMatch(
+        wasteListing: any,
+        need: any,
+        result: { score: number; factors: any; distance: number },
+        bundle?: { bundleId: any; quantity: number }
+    ) {
+        // Bundled matches cover only the allocated share of the listing
+        const quantity = bundle?.quantity ?? wasteListing.quantity.value;
+
+        // Calculate predicted impact
+        const quantityKg = impactCalculator.normalizeToKg(
+            quantity,
+            wasteListing.quantity.unit,
+            wasteListing.material.category
+        );
+        const impact = impactCalculator.calculateExchangeImpact(
+            wasteListing.material.category,
+            quantityKg,
+            result.distance
+        );
+
+        // Generate AI explanation
+        let explanation = '';
+        try {
+            explanation = await groqService.explainMatch(
+                wasteListing.toObject(),
+                need,
+                result.score,
+                result.distance
+            );
+        } catch (err) {
+            logger.warn('AI match explanation failed, using default');
+            explanation = `Strong ${result.score}% match based on material compatibility and proximity (${result.distance}km).`;
+        }
+
+        const match = await Match.create({
+            wasteListingId: wasteListing._id,
+            needListingId: need._id,
+            sellerId: wasteListing.companyId._id || wasteListing.companyId,
+            buyerId: need.companyId._id || need.companyId,
+            ...(bundle ? { origin: 'bundle', bundleId: bundle.bundleId } : {}),
+            matchScore: result.score,
+            matchFactors: result.factors,
+            aiAnalysis: {
+                explanation,
+                confidence: result.score,
+                riskFactors: [],
+                opportunities: [],
+            },
+            predictedImpact: {
+                co2SavedKg: impact.netCo2Saved,
+                waterSavedLiters: impact.waterSavedLiters,
+                landfillAvoidedM3: impact.landfillAvoidedM3,
+                energySavedKwh: impact.energySavedKwh,
+                economicValue: (wasteListing.pricing?.amount || 0) * quantity,
+                methodology: 'EPA WARM + IPCC India Grid Factors',
+            },
+            negotiation: { status: 'pending', messages: [] },
+            execution: { status: 'not_started' },
+            financials: { paymentStatus: 'pending' },
+            statusHistory: [{
+                track: 'negotiation',
+                status: 'pending',
+                changedAt: new Date(),
+                actorRole: 'system',
+                reason: bundle ? 'Bundle accepted by buyer' : 'Auto-generated match',
+            }],
+        });
+
+        listingAnalyticsService.record('match', wasteListing, { matchId: match._id, actorCompanyId: match.buyerId });
+        return match;
+    }
+
+    /**
+     * Every eligible, not yet matched waste listing scored against the need
+     */
+    private async scoreNeedCandidates(need: NeedListingDocument): Promise<ScoredWaste[]> {
+        const material = need.requirements.material;
+        const [candidates, alreadyMatched] = await Promise.all([
+            WasteListing.find({
+                status: 'active',
+                'material.category': material.category,
+                companyId: { $ne: need.companyId._id || need.companyId },
+                // Auctions find their buyer through bidding
+                'pricing.type': { $ne: 'auction' },
+                ...(material.hazardousAcceptable ? {} : { 'material.hazardous': { $ne: true } }),
+                ...(material.excludedTypes?.length ? { 'material.subType': { $nin: material.excludedTypes } } : {}),
+            }).populate('companyId'),
+            Match.distinct('wasteListingId', { needListingId: need._id }),
+        ]);
+        const matched = new Set(alreadyMatched.map((id: any) => id?.toString()));
+
+        return Promise.all(
+            candidates
+                .filter((waste) => !matched.has(waste._id.toString()) && this.isEligible(waste, need))
+                .map(async (waste) => ({
+                    wasteListing: waste,
+                    ...(await this.calculateMatchScore(waste, need)),
+                }))
+        );
+    }
+
+    /**
+     * Hard filters from the need: hazardous material (accepted and covered
+     * by the buyer's authorization), excluded sub-types, excluded regions
+     * and quantities that cannot be compared rule a listing out whatever
+     * its score.
+     */
+    private isEligible(waste: any, need: any): boolean {
+        const material = need.requirements?.material || {};
+        if (waste.material?.hazardous && !material.hazardousAcceptable) return false;
+        if (hazardousComplianceService.authorizationGap(waste, need.companyId)) return false;
+        if (waste.material?.subType && material.excludedTypes?.includes(waste.material.subType)) return false;
+        if (!isConvertible(waste.quantity?.unit, need.requirements?.quantity?.unit, waste.material?.category)) return false;
+        return !this.inRegions(waste, need.logistics?.excludedRegions);
+    }
+
+    /**
+     * True when the listing (or its seller's site) lies in one of the
+     * regions — matched case-insensitively against city, state and address.
+     */
+    private inRegions(waste: any, regions?: string[]): boolean {
+        if (!regions?.length) return false;
+        const site = waste.companyId?.location || {};
+        const labels = [site.city, site.state, site.address, waste.location?.address]
+            .filter(Boolean)
+            .map((label: string) => label.toLowerCase());
+        return regions
+            .map((region) => region.trim().toLowerCase())
+            .filter(Boolean)
+            .some((region) => labels.some((label) => label === region || label.includes(region)));
+    }
+
+    /**
+     * Per-kg view of a scored listing for bundling: what can be taken, at
+     * what price, and the road haul from its site to the buyer.
+     */
+    private bundleCandidate(scored: ScoredWaste, need: any): BundleCandidate {
+        const waste = scored.wasteListing;
+        const kgPerUnit = toKg(1, waste.quantity.unit, waste.material.category);
+        const pricePerKg = waste.pricing?.type === 'free' ? 0 : (waste.pricing?.amount || 0) / kgPerUnit;
+
+        const [fromLng, fromLat] = waste.location?.coordinates || waste.companyId?.location?.coordinates || [0, 0];
+        const [toLng, toLat] = need.companyId?.location?.coordinates || [0, 0];
+        const transportCost = fromLng === toLng && fromLat === toLat
+            ? 0
+            : estimateTransport(fromLat, fromLng, toLat, toLng).estimatedCostINR;
+
+        return {
+            ...scored,
+            kgPerUnit,
+            availableKg: waste.quantity.value * kgPerUnit,
+            minimumOrderKg: (waste.pricing?.minimumOrder || 0) * kgPerUnit,
+            pricePerKg,
+            transportCost,
+        };
+    }
+
+    private orderCandidates(strategy: BundleStrategy, candidates: BundleCandidate[], maxKg: number): BundleCandidate[] {
+        // Landed cost per kg if the listing were taken up to the need's maximum
+        const landed = (c: BundleCandidate) => {
+            const kg = Math.min(c.availableKg, maxKg);
+            return (c.pricePerKg * kg + c.transportCost) / kg;
+        };
+        const ordered = [...candidates];
+        if (strategy === 'lowest_cost') ordered.sort((a, b) => landed(a) - landed(b));
+        if (strategy === 'nearest') ordered.sort((a, b) => a.distance - b.distance || landed(a) - landed(b));
+        if (strategy === 'fewest_sellers') ordered.sort((a, b) => b.availableKg - a.availableKg || landed(a) - landed(b));
+        return ordered;
+    }
+
+    /**
+     * Greedy fill up to the need's maximum, skipping listings whose share
+     * would fall under their minimum order or break the total budget. Only
+     * combinations of two or more listings reaching the minimum count —
+     * a single listing that covers the need is an ordinary match.
+     */
+    private composeBundle(
+        strategy: BundleStrategy,
+        candidates: BundleCandidate[],
+        minKg: number,
+        maxKg: number,
+        totalBudget?: number
+    ): BundlePlan | null {
+        const items: BundlePlan['items'] = [];
+        let totalKg = 0;
+        let totalCost = 0;
+
+        for (const candidate of candidates) {
+            if (totalKg >= maxKg || items.length >= BUNDLE_MAX_SELLERS) break;
+
+            let quantityKg = Math.min(candidate.availableKg, maxKg - totalKg);
+            if (totalBudget) {
+                const remaining = totalBudget - totalCost - candidate.transportCost;
+                if (remaining <= 0) continue;
+                if (candidate.pricePerKg > 0) quantityKg = Math.min(quantityKg, remaining / candidate.pricePerKg);
+            }
+            // Whole hundredths of the listing's unit, never more than listed
+            quantityKg = (Math.floor((quantityKg / candidate.kgPerUnit) * 100) / 100) * candidate.kgPerUnit;
+            if (quantityKg <= 0 || quantityKg < candidate.minimumOrderKg) continue;
+
+            items.push({ candidate, quantityKg });
+            totalKg += quantityKg;
+            totalCost += quantityKg * candidate.pricePerKg + candidate.transportCost;
+        }
+
+        if (items.length < 2 || totalKg < minKg) return null;
+        return { strategy, items };
+    }
+
+    /**
+     * Cost and score a bundle. Factors are the quantity-weighted averages of
+     * its listings; price is judged on the landed cost (material plus every
+     * haul) and quantity fit loses a little for each extra seller to manage.
+     */
+    private priceBundle(plan: BundlePlan, need: any, expiresAt: Date) {
+        const quantityKg = plan.items.reduce((sum, item) => sum + item.quantityKg, 0);
+        const average = (factor: string) => Math.round(
+            plan.items.reduce((sum, item) => sum + item.candidate.factors[factor] * item.quantityKg, 0) / quantityKg
+        );
+
+        const items = plan.items.map(({ candidate, quantityKg: kg }) => ({
+            wasteListingId: candidate.wasteListing._id,
+            sellerId: candidate.wasteListing.companyId._id || candidate.wasteListing.companyId,
+            quantity: Math.round((kg / candidate.kgPerUnit) * 100) / 100,
+            unit: candidate.wasteListing.quantity.unit,
+            quantityKg: Math.round(kg),
+            pricePerUnit: candidate.wasteListing.pricing?.type === 'free' ? 0 : candidate.wasteListing.pricing?.amount || 0,
+            materialCost: Math.round(kg * candidate.pricePerKg * 100) / 100,
+            distanceKm: candidate.distance,
+            transportCost: candidate.transportCost,
+            factors: {
+                materialCompatibility: candidate.factors.materialCompatibility,
+                priceCompatibility: candidate.factors.priceCompatibility,
+                distanceScore: candidate.factors.distanceScore,
+                reliabilityScore: candidate.factors.reliabilityScore,
+                preferredRegion: candidate.factors.preferredRegion,
+            },
+        }));
+
+        const materialCost = items.reduce((sum, item) => sum + item.materialCost, 0);
+        const transportCost = items.reduce((sum, item) => sum + item.transportCost, 0);
+        const totalCost = materialCost + transportCost;
+        const costPerKg = totalCost / quantityKg;
+
+        const { material, quantity, budget } = need.requirements;
+        const factors = {
+            materialCompatibility: average('materialCompatibility'),
+            quantityFit: 100 - BUNDLE_SELLER_PENALTY * (items.length - 1),
+            priceCompatibility: this.calculatePriceCompatibility(
+                { amount: costPerKg * toKg(1, quantity.unit, material.category) },
+                budget
+            ),
+            distanceScore: average('distanceScore'),
+            reliabilityScore: average('reliabilityScore'),
+        };
+        const score = Math.round(calculateWeightedMatchScore(factors, weightsFromPreferences(need.matchingPreferences)).score);
+
+        return {
+            needListingId: need._id,
+            buyerId: need.companyId._id || need.companyId,
+            strategy: plan.strategy,
+            items,
+            totals: {
+                quantityKg: Math.round(quantityKg),
+                materialCost: Math.round(materialCost * 100) / 100,
+                transportCost: Math.round(transportCost * 100) / 100,
+                totalCost: Math.round(totalCost * 100) / 100,
+                costPerKg: Math.round(costPerKg * 100) / 100,
+                currency: budget.currency || 'INR',
+            },
+            score: Math.min(100, Math.max(0, score)),
+            factors,
+            expiresAt,
+        };
+    }
+
     private async calculateMatchScore(waste: any, need: NeedListingDocument): Promise<{
         score: number;
         factors: any;
@@ -141,32 +573,45 @@ export class MatchingEngine {
         const needCoords = needCompany?.location?.coordinates || [0, 0];
         const distance = calculateDistance(wasteCoords, needCoords);
 
-        // Factor 1: Material Compatibility (40% weight)
+        // Factor 1: Material Compatibility
         const materialScore = this.calculateMaterialCompatibility(waste.material, need.requirements.material);
 
-        // Factor 2: Quantity Fit (20% weight)
-        const quantityScore = this.calculateQuantityFit(waste.quantity, need.requirements.quantity);
-
-        // Factor 3: Price Compatibility (20% weight)
-        const priceScore = this.calculatePriceCompatibility(waste.pricing, need.requirements.budget);
+        // Factor 2: Quantity Fit
+        const quantityScore = this.calculateQuantityFit(waste.quantity, need.requirements.quantity, waste.material.category);
 
-        // Factor 4: Distance Score (10% weight)
-        const distanceScore = this.calculateDistanceScore(distance, need.logistics.maxDistanceKm);
-
-        // Factor 5: Reliability Score (10% weight)
-        const reliabilityScore = await this.calculateReliabilityScore(
-            wasteCompany?._id?.toString(),
-            needCompany?._id?.toString()
+        // Factor 3: Price Compatibility — the seller's price restated per unit the buyer budgets in
+        const sellerUnitsPerNeedUnit = convertQuantity(1, need.requirements.quantity.unit, waste.quantity.unit, waste.material.category);
+        const priceScore = this.calculatePriceCompatibility(
+            {
+                type: waste.pricing?.type,
+                amount: waste.pricing?.amount !== undefined ? waste.pricing.amount * sellerUnitsPerNeedUnit : undefined,
+            },
+            need.requirements.budget
         );
 
-        const score = Math.round(
-            materialScore * 0.4 +
-            quantityScore * 0.2 +
-            priceScore * 0.2 +
-            distanceScore * 0.1 +
-            reliabilityScore * 0.1
+        // Factor 4: Distance Score — boosted inside the buyer's preferred regions
+        const preferredRegion = this.inRegions(waste, need.logistics?.preferredRegions);
+        const distanceScore = Math.min(
+            100,
+            this.calculateDistanceScore(distance, need.logistics.maxDistanceKm) + (preferredRegion ? PREFERRED_REGION_BONUS : 0)
         );
 
+        // Factor 5: Reliability Score — both parties' reputation
+        const [sellerReputation, buyerReputation] = await Promise.all([
+            reputationService.score(wasteCompany?._id?.toString()),
+            reputationService.score(needCompany?._id?.toString()),
+        ]);
+        const reliabilityScore = Math.round((sellerReputation + buyerReputation) / 2);
+
+        // Weighted by the buyer's matching preferences
+        const score = Math.round(calculateWeightedMatchScore({
+            materialCompatibility: materialScore,
+            quantityFit: quantityScore,
+            priceCompatibility: priceScore,
+            distanceScore,
+            reliabilityScore,
+        }, weightsFromPreferences(need.matchingPreferences)).score);
+
         return {
             score: Math.min(100, Math.max(0, score)),
             factors: {
@@ -175,6 +620,7 @@ export class MatchingEngine {
                 priceCompatibility: priceScore,
                 distanceScore,
                 reliabilityScore,
+                preferredRegion,
             },
             distance: Math.round(distance),
         };
@@ -201,10 +647,10 @@ export class MatchingEngine {
         return Math.min(100, score);
     }
 
-    private calculateQuantityFit(wasteQty: any, needQty: any): number {
-        const wasteKg = impactCalculator.normalizeToKg(wasteQty.value, wasteQty.unit);
-        const needMin = impactCalculator.normalizeToKg(needQty.min, needQty.unit);
-        const needMax = impactCalculator.normalizeToKg(needQty.max, needQty.unit);
+    private calculateQuantityFit(wasteQty: any, needQty: any, materialCategory: string): number {
+        const wasteKg = toKg(wasteQty.value, wasteQty.unit, materialCategory);
+        const needMin = toKg(needQty.min, needQty.unit, materialCategory);
+        const needMax = toKg(needQty.max, needQty.unit, materialCategory);
 
         if (wasteKg < needMin * 0.5) return 30; // Way too small
         if (wasteKg < needMin) return 50; // Partial fill
@@ -234,29 +680,6 @@ export class MatchingEngine {
         if (distance <= maxDistance * 1.2) return 40;
         return 20;
     }
-
-    private async calculateReliabilityScore(sellerId?: string, buyerId?: string): Promise<number> {
-        if (!sellerId || !buyerId) return 50;
-
-        try {
-            const sellerStats = await Match.aggregate([
-                { $match: { sellerId, 'execution.status': 'completed' } },
-                { $group: { _id: null, avgRating: { $avg: '$ratings.sellerRating' }, count: { $sum: 1 } } },
-            ]);
-
-            const buyerStats = await Match.aggregate([
-                { $match: { buyerId, 'execution.status': 'completed' } },
-                { $group: { _id: null, avgRating: { $avg: '$ratings.buyerRating' }, count: { $sum: 1 } } },
-            ]);
-
-            const sellerScore = sellerStats[0] ? sellerStats[0].avgRating * 20 : 50;
-            const buyerScore = buyerStats[0] ? buyerStats[0].avgRating * 20 : 50;
-
-            return Math.round((sellerScore + buyerScore) / 2);
-        } catch {
-            return 50;
-        }
-    }
 }
 
 export const matchingEngine = new MatchingEngine();
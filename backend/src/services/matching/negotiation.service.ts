@@ -0,0 +1,373 @@
+import { Match, MatchDocument } from '../../models/Match';
+import { WasteListing } from '../../models/WasteListing';
+import { MatchParty } from '../../types';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { ledgerService } from '../payments/ledger.service';
+import { listingAnalyticsService } from '../analytics/listingAnalytics.service';
+import { matchStateMachine } from './stateMachine';
+
+const DEFAULT_OFFER_TTL_HOURS = 72;
+
+export interface OfferTerms {
+    pricePerUnit: number;
+    quantity: number;
+    pickupWindow?: { start: string | Date; end: string | Date };
+    expiresAt?: string | Date;
+    expiresInHours?: number;
+    message?: string;
+}
+
+export interface NegotiationActor {
+    companyId: string;
+    userId?: string;
+}
+
+export type OfferResponse = 'accept' | 'reject' | 'counter';
+
+// ═══════════════════════════════════════════════════════════════
+// NEGOTIATION — turn-based offer/counter-offer protocol on a match.
+// Only one offer is open at a time and only the other party may answer it;
+// accepting locks the terms into financials.agreedTerms.
+// ═══════════════════════════════════════════════════════════════
+
+export class NegotiationService {
+    /**
+     * The offer currently waiting for an answer, if any.
+     */
+    openOffer(match: MatchDocument): any | undefined {
+        const offers = match.negotiation?.offers || [];
+        return offers.find((o: any) => o.status === 'open');
+    }
+
+    /**
+     * Put a new offer on the table. If the other party has an open offer it
+     * is marked as countered; an open offer of our own must be answered first.
+     */
+    async makeOffer(match: MatchDocument, actor: NegotiationActor, terms: OfferTerms): Promise<MatchDocument> {
+        const role = matchStateMachine.partyOf(match, actor.companyId);
+        this.assertNegotiable(match, role);
+        const now = new Date();
+
+        let current = this.openOffer(match);
+        if (current && this.expireIfStale(match, current, now)) {
+            current = undefined;
+        }
+        if (current) {
+            if (current.fromRole === role) {
+                throw new HttpError(409, `Offer v${current.version} is still awaiting a response from the ${this.otherParty(role)}`);
+            }
+            current.status = 'countered';
+            current.respondedAt = now;
+            current.respondedBy = actor.userId;
+        }
+
+        const listing = await WasteListing.findById(match.wasteListingId).select('quantity pricing');
+        if (listing && terms.quantity > listing.quantity.value) {
+            throw new HttpError(422, `Quantity exceeds the ${listing.quantity.value} ${listing.quantity.unit} listed`);
+        }
+
+        const expiresAt = terms.expiresAt
+            ? new Date(terms.expiresAt)
+            : new Date(now.getTime() + (terms.expiresInHours || DEFAULT_OFFER_TTL_HOURS) * 60 * 60 * 1000);
+        if (expiresAt <= now) {
+            throw new HttpError(422, 'Offer expiry must be in the future');
+        }
+
+        let pickupWindow: { start: Date; end: Date } | undefined;
+        if (terms.pickupWindow) {
+            pickupWindow = { start: new Date(terms.pickupWindow.start), end: new Date(terms.pickupWindow.end) };
+            if (pickupWindow.start >= pickupWindow.end) {
+                throw new HttpError(422, 'Pickup window must end after it starts');
+            }
+        }
+
+        const version = (match.negotiation.currentOfferVersion || 0) + 1;
+        match.negotiation.offers.push({
+            version,
+            fromCompanyId: actor.companyId,
+            fromRole: role,
+            proposedBy: actor.userId,
+            pricePerUnit: terms.pricePerUnit,
+            quantity: terms.quantity,
+            unit: listing?.quantity?.unit,
+            pickupWindow,
+            expiresAt,
+            message: terms.message,
+            status: 'open',
+            createdAt: now,
+        });
+        match.negotiation.currentOfferVersion = version;
+        match.negotiation.awaitingResponseFrom = this.otherParty(role);
+
+        // Mirror onto the legacy fields read by existing clients
+        match.negotiation.proposedPrice = terms.pricePerUnit;
+        match.negotiation.proposedQuantity = terms.quantity;
+        if (pickupWindow) match.negotiation.proposedPickupDate = pickupWindow.start;
+
+        if (terms.message) {
+            match.negotiation.messages.push({
+                from: actor.companyId,
+                message: terms.message,
+                timestamp: now,
+                attachments: [],
+            });
+        }
+
+        matchStateMachine.transition(match, 'negotiation', 'in_progress', {
+            actor: role,
+            ...actor,
+            reason: current?.status === 'countered'
+                ? `Counter offer v${version} to v${current.version}`
+                : `Offer v${version} by ${role}`,
+        });
+
+        await match.save();
+        return match;
+    }
+
+    /**
+     * Answer an open offer. Only the party the offer was sent to can respond,
+     * and only to the current version.
+     */
+    async respond(
+        match: MatchDocument,
+        actor: NegotiationActor,
+        version: number,
+        action: OfferResponse,
+        options: { reason?: string; terms?: OfferTerms } = {}
+    ): Promise<MatchDocument> {
+        const role = matchStateMachine.partyOf(match, actor.companyId);
+        this.assertNegotiable(match, role);
+        const now = new Date();
+
+        const offer = (match.negotiation.offers || []).find((o: any) => o.version === version);
+        if (!offer) {
+            throw new HttpError(404, `Offer v${version} not found`);
+        }
+        if (version !== match.negotiation.currentOfferVersion) {
+            throw new HttpError(409, `Offer v${version} has been superseded by v${match.negotiation.currentOfferVersion}`);
+        }
+        if (offer.status !== 'open') {
+            throw new HttpError(409, `Offer v${version} is already ${offer.status}`);
+        }
+        if (offer.fromRole === role) {
+            throw new HttpError(403, 'You cannot respond to your own offer');
+        }
+        if (this.expireIfStale(match, offer, now)) {
+            await match.save();
+            throw new HttpError(410, `Offer v${version} expired at ${offer.expiresAt.toISOString()}`);
+        }
+
+        if (action === 'counter') {
+            if (!options.terms) {
+                throw new HttpError(400, 'Counter offer terms are required');
+            }
+            return this.makeOffer(match, actor, options.terms);
+        }
+
+        offer.status = action === 'accept' ? 'accepted' : 'rejected';
+        offer.respondedAt = now;
+        offer.respondedBy = actor.userId;
+        match.negotiation.awaitingResponseFrom = undefined;
+
+        if (action === 'accept') {
+            await this.lockTerms(match, { ...actor, role }, {
+                source: 'offer',
+                offerVersion: offer.version,
+                pricePerUnit: offer.pricePerUnit,
+                quantity: offer.quantity,
+                unit: offer.unit,
+                pickupWindow: offer.pickupWindow?.start ? offer.pickupWindow : undefined,
+            }, options.reason || `Accepted offer v${offer.version}`);
+        } else {
+            matchStateMachine.transition(match, 'negotiation', 'rejected', {
+                actor: role,
+                ...actor,
+                reason: options.reason || `Rejected offer v${offer.version}`,
+            });
+        }
+
+        await match.save();
+
+        if (action === 'accept') {
+            await this.bookAgreement(match);
+            await WasteListing.findByIdAndUpdate(match.wasteListingId, { status: 'reserved' });
+        }
+
+        return match;
+    }
+
+    /**
+     * Accept a match outright. With an open offer this is the same as
+     * accepting it; otherwise the listing's own price and quantity are locked.
+     */
+    async acceptMatch(match: MatchDocument, actor: NegotiationActor, reason?: string): Promise<MatchDocument> {
+        const offer = this.openOffer(match);
+        if (offer) {
+            return this.respond(match, actor, offer.version, 'accept', { reason });
+        }
+
+        const role = matchStateMachine.partyOf(match, actor.companyId);
+        this.assertNegotiable(match, role);
+
+        const listing = await WasteListing.findById(match.wasteListingId).select('quantity pricing');
+        if (!listing) {
+            throw new HttpError(404, 'Waste listing for this match no longer exists');
+        }
+
+        await this.lockTerms(match, { ...actor, role }, {
+            source: 'listing',
+            pricePerUnit: listing.pricing?.amount || 0,
+            quantity: listing.quantity.value,
+            unit: listing.quantity.unit,
+            currency: listing.pricing?.currency,
+        }, reason || 'Match accepted at listing terms');
+
+        await match.save();
+        await this.bookAgreement(match);
+        await WasteListing.findByIdAndUpdate(match.wasteListingId, { status: 'reserved' });
+        return match;
+    }
+
+    /**
+     * Accept a match created by a closing auction at the winning bid. The
+     * seller set the auction's terms, so they are recorded as accepting.
+     * Saves the match.
+     */
+    async acceptAuctionWin(match: MatchDocument, terms: { pricePerUnit: number; quantity: number; unit: string; currency?: string }): Promise<void> {
+        await this.lockTerms(match, { companyId: match.sellerId.toString(), role: 'seller' }, {
+            source: 'auction',
+            ...terms,
+        }, `Auction closed — winning bid ${terms.pricePerUnit}/${terms.unit}`);
+        await match.save();
+        await this.bookAgreement(match);
+    }
+
+    /**
+     * Mark every open offer past its expiry as expired. Called by the scheduler.
+     */
+    async expireStaleOffers(): Promise<number> {
+        const now = new Date();
+        const matches = await Match.find({
+            'negotiation.offers': { $elemMatch: { status: 'open', expiresAt: { $lte: now } } },
+        });
+
+        let expired = 0;
+        for (const match of matches) {
+            for (const offer of match.negotiation.offers) {
+                if (this.expireIfStale(match, offer, now)) expired++;
+            }
+            await match.save();
+        }
+
+        if (expired > 0) {
+            logger.info(`⌛ Expired ${expired} negotiation offer(s)`);
+        }
+        return expired;
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private async lockTerms(
+        match: MatchDocument,
+        actor: NegotiationActor & { role: MatchParty },
+        terms: {
+            source: 'offer' | 'listing' | 'auction';
+            offerVersion?: number;
+            pricePerUnit: number;
+            quantity: number;
+            unit?: string;
+            currency?: string;
+            pickupWindow?: { start: Date; end: Date };
+        },
+        reason: string
+    ): Promise<void> {
+        const now = new Date();
+        let { unit, currency } = terms;
+        if (!unit || !currency) {
+            const listing = await WasteListing.findById(match.wasteListingId).select('quantity pricing');
+            unit = unit || listing?.quantity?.unit;
+            currency = currency || listing?.pricing?.currency;
+        }
+
+        match.financials = match.financials || {};
+        match.financials.agreedTerms = {
+            source: terms.source,
+            offerVersion: terms.offerVersion,
+            pricePerUnit: terms.pricePerUnit,
+            quantity: terms.quantity,
+            unit,
+            totalPrice: Math.round(terms.pricePerUnit * terms.quantity * 100) / 100,
+            currency: currency || 'INR',
+            pickupWindow: terms.pickupWindow,
+            lockedAt: now,
+        };
+
+        matchStateMachine.transition(match, 'negotiation', 'accepted', {
+            actor: actor.role,
+            companyId: actor.companyId,
+            userId: actor.userId,
+            reason,
+        });
+        match.negotiation.acceptedAt = now;
+        match.negotiation.acceptedBy = actor.companyId;
+
+        matchStateMachine.transition(match, 'execution', 'pickup_scheduled', {
+            actor: 'system',
+            companyId: actor.companyId,
+            reason: terms.pickupWindow
+                ? `Pickup window ${terms.pickupWindow.start.toISOString()} – ${terms.pickupWindow.end.toISOString()}`
+                : 'Terms locked — awaiting pickup',
+        });
+        if (terms.pickupWindow) match.execution.pickupScheduledAt = terms.pickupWindow.start;
+
+        await ledgerService.priceAgreement(match);
+        listingAnalyticsService.record('accepted', match.wasteListingId, { matchId: match._id, actorCompanyId: actor.companyId });
+    }
+
+    /**
+     * Post the agreement to the ledger once the accepted match is saved.
+     * A failure is logged rather than thrown — the acceptance stands, and
+     * the ledger books the agreement before the first charge at pickup.
+     */
+    private async bookAgreement(match: MatchDocument): Promise<void> {
+        try {
+            await ledgerService.recordAgreement(match);
+        } catch (error) {
+            logger.error(`Failed to book agreement for match ${match._id}:`, error);
+        }
+    }
+
+    /**
+     * Flip an open offer to expired when its time is up. Returns true if it did.
+     */
+    private expireIfStale(match: MatchDocument, offer: any, now: Date): boolean {
+        if (offer.status !== 'open' || new Date(offer.expiresAt) > now) return false;
+
+        offer.status = 'expired';
+        offer.respondedAt = now;
+        if (offer.version === match.negotiation.currentOfferVersion) {
+            match.negotiation.awaitingResponseFrom = undefined;
+        }
+        matchStateMachine.record(match, 'negotiation', match.negotiation.status, 'offer_expired', {
+            actor: 'system',
+            reason: `Offer v${offer.version} from ${offer.fromRole} expired`,
+        }, now);
+        return true;
+    }
+
+    private assertNegotiable(match: MatchDocument, role: MatchParty): void {
+        if (!matchStateMachine.canTransition(match, 'negotiation', 'accepted', role)) {
+            throw new HttpError(409, `Negotiation is already ${match.negotiation.status}`);
+        }
+    }
+
+    private otherParty(role: MatchParty): MatchParty {
+        return role === 'seller' ? 'buyer' : 'seller';
+    }
+}
+
+export const negotiationService = new NegotiationService();
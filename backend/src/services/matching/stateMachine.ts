@@ -0,0 +1,184 @@
+import { MatchDocument } from '../../models/Match';
+import { MatchParty } from '../../types';
+import { HttpError } from '../../utils/errors';
+
+export type NegotiationStatus = 'pending' | 'in_progress' | 'accepted' | 'rejected' | 'expired';
+export type ExecutionStatus = 'not_started' | 'pickup_scheduled' | 'in_transit' | 'delivered' | 'verified' | 'disputed' | 'completed' | 'cancelled';
+export type MatchTrack = 'negotiation' | 'execution';
+
+// 'system' covers the scheduler and platform admins acting on a match
+export type TransitionActor = MatchParty | 'system';
+
+export interface TransitionContext {
+    actor: TransitionActor;
+    companyId?: string;
+    userId?: string;
+    reason: string;
+}
+
+/**
+ * Legal moves on each track and who may make them.
+ *
+ * Negotiation: pending → in_progress (stays there across counter offers), and from
+ *              either: → accepted | rejected | expired
+ * Execution:   not_started → pickup_scheduled → in_transit → delivered → verified → completed,
+ *              with any step after acceptance able to go to disputed. A dispute ruling
+ *              returns execution to where it was when the dispute was filed, except a
+ *              full refund, which cancels the deal.
+ */
+export const NEGOTIATION_TRANSITIONS: Record<NegotiationStatus, Partial<Record<NegotiationStatus, TransitionActor[]>>> = {
+    pending: {
+        in_progress: ['seller', 'buyer'],
+        accepted: ['seller', 'buyer'],
+        rejected: ['seller', 'buyer'],
+        expired: ['system'],
+    },
+    in_progress: {
+        in_progress: ['seller', 'buyer'],
+        accepted: ['seller', 'buyer'],
+        rejected: ['seller', 'buyer'],
+        expired: ['system'],
+    },
+    accepted: {},
+    rejected: {},
+    expired: {},
+};
+
+export const EXECUTION_TRANSITIONS: Record<ExecutionStatus, Partial<Record<ExecutionStatus, TransitionActor[]>>> = {
+    not_started: {
+        pickup_scheduled: ['system'],
+    },
+    pickup_scheduled: {
+        in_transit: ['seller'],
+        disputed: ['seller', 'buyer'],
+    },
+    in_transit: {
+        delivered: ['seller'],
+        disputed: ['seller', 'buyer'],
+    },
+    delivered: {
+        verified: ['buyer'],
+        disputed: ['seller', 'buyer'],
+    },
+    verified: {
+        completed: ['seller', 'buyer'],
+        disputed: ['seller', 'buyer'],
+    },
+    disputed: {
+        pickup_scheduled: ['system'],
+        in_transit: ['system'],
+        delivered: ['system'],
+        verified: ['system'],
+        completed: ['system'],
+        cancelled: ['system'],
+    },
+    completed: {
+        disputed: ['seller', 'buyer'],
+    },
+    cancelled: {},
+};
+
+const TABLES: Record<MatchTrack, Record<string, Partial<Record<string, TransitionActor[]>>>> = {
+    negotiation: NEGOTIATION_TRANSITIONS,
+    execution: EXECUTION_TRANSITIONS,
+};
+
+// Timestamp recorded on the match when execution reaches a state
+const EXECUTION_TIMESTAMPS: Partial<Record<ExecutionStatus, string>> = {
+    in_transit: 'execution.actualPickupAt',
+    delivered: 'execution.deliveredAt',
+    verified: 'execution.verifiedAt',
+    completed: 'completedAt',
+};
+
+// ═══════════════════════════════════════════════════════════════
+// MATCH STATE MACHINE — the only place match statuses change.
+// Every transition is checked against the tables above and leaves
+// a statusHistory entry with the track, previous state and reason.
+// ═══════════════════════════════════════════════════════════════
+
+export class MatchStateMachine {
+    /**
+     * Which side of the match a company is on.
+     */
+    partyOf(match: MatchDocument, companyId: string): MatchParty {
+        if (this.idOf(match.sellerId) === companyId) return 'seller';
+        if (this.idOf(match.buyerId) === companyId) return 'buyer';
+        throw new HttpError(403, 'Only the buyer or seller can act on this match');
+    }
+
+    current(match: MatchDocument, track: MatchTrack): string {
+        return match[track]?.status || (track === 'negotiation' ? 'pending' : 'not_started');
+    }
+
+    canTransition(match: MatchDocument, track: MatchTrack, to: string, actor: TransitionActor): boolean {
+        const allowed = TABLES[track][this.current(match, track)]?.[to];
+        if (!allowed?.includes(actor)) return false;
+        return track === 'negotiation' || match.negotiation?.status === 'accepted';
+    }
+
+    /**
+     * Transitions the actor could make from the match's current state.
+     */
+    availableTransitions(match: MatchDocument, actor: TransitionActor): Array<{ track: MatchTrack; to: string }> {
+        const result: Array<{ track: MatchTrack; to: string }> = [];
+        for (const track of ['negotiation', 'execution'] as MatchTrack[]) {
+            const from = this.current(match, track);
+            for (const to of Object.keys(TABLES[track][from] || {})) {
+                if (to !== from && this.canTransition(match, track, to, actor)) result.push({ track, to });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Move one track to a new state, or throw 409 (illegal move) / 403 (wrong party).
+     * The caller saves the match.
+     */
+    transition(match: MatchDocument, track: MatchTrack, to: string, ctx: TransitionContext): void {
+        const from = this.current(match, track);
+        const allowed = TABLES[track][from]?.[to];
+
+        if (!allowed) {
+            throw new HttpError(409, `Cannot move ${track} from ${from} to ${to}`);
+        }
+        if (!allowed.includes(ctx.actor)) {
+            throw new HttpError(403, `Only the ${allowed.join(' or ')} can move ${track} from ${from} to ${to}`);
+        }
+        if (track === 'execution' && match.negotiation?.status !== 'accepted') {
+            throw new HttpError(409, 'Execution cannot start before the negotiation is accepted');
+        }
+
+        const now = new Date();
+        match.set(`${track}.status`, to);
+        // Returning from a dispute keeps the original milestone timestamps
+        if (track === 'execution' && from !== 'disputed' && EXECUTION_TIMESTAMPS[to as ExecutionStatus]) {
+            match.set(EXECUTION_TIMESTAMPS[to as ExecutionStatus]!, now);
+        }
+
+        this.record(match, track, from, to, ctx, now);
+    }
+
+    /**
+     * Append a history entry for an event that does not change state
+     * (e.g. an offer expiring, dispute evidence being added).
+     */
+    record(match: MatchDocument, track: MatchTrack, from: string, status: string, ctx: TransitionContext, at: Date = new Date()): void {
+        match.statusHistory.push({
+            track,
+            from,
+            status,
+            changedAt: at,
+            changedBy: ctx.companyId,
+            changedByUser: ctx.userId,
+            actorRole: ctx.actor,
+            reason: ctx.reason,
+        });
+    }
+
+    private idOf(ref: any): string {
+        return (ref?._id || ref)?.toString();
+    }
+}
+
+export const matchStateMachine = new MatchStateMachine();
@@ -0,0 +1,381 @@
+import crypto from 'crypto';
+import { User, UserDocument } from '../../models/User';
+import { Membership, MembershipDocument, MembershipRole } from '../../models/Membership';
+import { Company, CompanyDocument } from '../../models/Company';
+import { brevoService } from '../notifications/brevo.service';
+import { canAssignRole } from '../../utils/permissions';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const INVITE_TTL_DAYS = 7;
+
+export interface UserProfile {
+    clerkUserId?: string;
+    email?: string;
+    /** Confirmed by a signature-verified identity token — only then may it match an existing user */
+    emailVerified?: boolean;
+    firstName?: string;
+    lastName?: string;
+    fullName?: string;
+}
+
+export interface ResolvedActor {
+    user: UserDocument | null;
+    membership: MembershipDocument | null;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// MEMBERSHIP SERVICE — users, roles and invitations per company
+// ═══════════════════════════════════════════════════════════════
+
+export class MembershipService {
+    /**
+     * Resolve the acting user and their membership for a request.
+     *
+     * Tokens issued before memberships existed carry the company id as
+     * `userId`; those companies get an owner user created on the fly so
+     * existing sessions keep working.
+     */
+    async resolveActor(params: {
+        userId?: string;
+        clerkUserId?: string;
+        companyId?: string;
+        legacyCompanyId?: string;
+        profile?: UserProfile;
+    }): Promise<ResolvedActor> {
+        let user: UserDocument | null = null;
+
+        if (params.clerkUserId) {
+            user = await User.findOne({ clerkUserId: params.clerkUserId });
+            if (!user) {
+                const legacyCompany = await Company.findOne({ clerkUserId: params.clerkUserId });
+                if (legacyCompany) {
+                    user = await this.ensureOwner(legacyCompany, {
+                        ...params.profile,
+                        email: params.profile?.emailVerified ? params.profile.email : undefined,
+                        clerkUserId: params.clerkUserId,
+                    });
+                }
+            }
+        } else if (params.userId) {
+            user = await User.findById(params.userId).catch(() => null);
+            if (!user && params.legacyCompanyId) {
+                const legacyCompany = await Company.findById(params.legacyCompanyId).catch(() => null);
+                if (legacyCompany) {
+                    user = await this.ensureOwner(legacyCompany, params.profile);
+                }
+            }
+        }
+
+        if (!user || user.status === 'disabled') {
+            return { user, membership: null };
+        }
+
+        const membership = await this.getActiveMembership(user._id.toString(), params.companyId);
+        return { user, membership };
+    }
+
+    /**
+     * Active membership of a user — for the requested company when given,
+     * otherwise the oldest one (the account they signed up with).
+     */
+    async getActiveMembership(userId: string, companyId?: string): Promise<MembershipDocument | null> {
+        if (companyId) {
+            const scoped = await Membership.findOne({ userId, companyId, status: 'active' }).catch(() => null);
+            if (scoped) return scoped;
+        }
+        return Membership.findOne({ userId, status: 'active' }).sort({ createdAt: 1 });
+    }
+
+    /**
+     * Make sure a company has an owner user + membership.
+     * Used on registration and when migrating pre-membership accounts.
+     */
+    async ensureOwner(company: CompanyDocument, profile: UserProfile = {}): Promise<UserDocument> {
+        const existingOwner = await Membership.findOne({ companyId: company._id, role: 'owner', status: 'active' });
+        if (existingOwner?.userId) {
+            const owner = await User.findById(existingOwner.userId);
+            if (owner) return owner;
+        }
+
+        const email = (profile.email || company.email || `${company._id}@users.ecoexchange.local`).toLowerCase();
+        let user = profile.clerkUserId
+            ? await User.findOne({ clerkUserId: profile.clerkUserId })
+            : null;
+        if (!user) user = await User.findOne({ email });
+        if (!user) {
+            user = await User.create({
+                clerkUserId: profile.clerkUserId || company.clerkUserId,
+                email,
+                firstName: profile.firstName,
+                lastName: profile.lastName,
+                fullName: profile.fullName,
+            });
+        }
+
+        await Membership.create({
+            companyId: company._id,
+            userId: user._id,
+            email: user.email,
+            role: 'owner',
+            status: 'active',
+            acceptedAt: new Date(),
+        });
+
+        logger.info(`Owner membership created for company ${company._id} → user ${user._id}`);
+        return user;
+    }
+
+    /**
+     * Move a password hash kept on a pre-membership company onto its owner
+     * user. Companies without one stay without one — the owner has to set a
+     * password before the email + password login accepts them.
+     */
+    async migrateLegacyPassword(user: UserDocument, company: CompanyDocument): Promise<void> {
+        if (!company.password || user.password) return;
+        if (user.email !== company.email?.toLowerCase()) return;
+
+        // Conditional so a hash that was not selected on `user` is never overwritten
+        const { modifiedCount } = await User.updateOne(
+            { _id: user._id, password: { $exists: false } },
+            { $set: { password: company.password } }
+        );
+        if (!modifiedCount) return;
+
+        user.password = company.password;
+        await Company.updateOne({ _id: company._id }, { $unset: { password: 1 } });
+        logger.info(`Migrated legacy company password for company ${company._id} → user ${user._id}`);
+    }
+
+    /**
+     * Find or create the User behind a Clerk session.
+     *
+     * An existing account is only linked by email when the email is verified
+     * (see UserProfile.emailVerified), and never when it already belongs to
+     * another Clerk user. Unverified emails are not stored at all.
+     */
+    async upsertClerkUser(clerkUserId: string, profile: UserProfile): Promise<UserDocument> {
+        const email = profile.emailVerified ? profile.email?.toLowerCase() : undefined;
+
+        let user = await User.findOne({ clerkUserId });
+        if (!user && email) {
+            user = await User.findOne({ email });
+            if (user?.clerkUserId) {
+                throw new HttpError(409, 'This email is already linked to another sign-in');
+            }
+        }
+
+        const emailHolder = email ? await User.findOne({ email }).select('_id') : null;
+        const emailFree = !!email && (!emailHolder || emailHolder._id.equals(user?._id));
+
+        if (!user) {
+            return User.create({
+                clerkUserId,
+                email: emailFree ? email : `${clerkUserId}@users.ecoexchange.local`,
+                firstName: profile.firstName,
+                lastName: profile.lastName,
+                fullName: profile.fullName,
+                lastLoginAt: new Date(),
+            });
+        }
+
+        user.clerkUserId = clerkUserId;
+        if (emailFree) user.email = email!;
+        if (profile.firstName) user.firstName = profile.firstName;
+        if (profile.lastName) user.lastName = profile.lastName;
+        if (profile.fullName) user.fullName = profile.fullName;
+        user.lastLoginAt = new Date();
+        await user.save();
+        return user;
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // INVITATIONS
+    // ═══════════════════════════════════════════════════════════════
+
+    async invite(params: {
+        companyId: string;
+        email: string;
+        role: MembershipRole;
+        invitedBy: string;
+        actorRole?: MembershipRole;
+    }): Promise<MembershipDocument> {
+        if (!canAssignRole(params.actorRole, params.role)) {
+            throw new HttpError(403, `Your role cannot invite members as ${params.role}`);
+        }
+
+        const email = params.email.toLowerCase();
+        const existing = await Membership.findOne({
+            companyId: params.companyId,
+            email,
+            status: { $in: ['invited', 'active'] },
+        });
+        if (existing?.status === 'active') {
+            throw new HttpError(409, 'This person is already a member of the company');
+        }
+
+        const inviteToken = crypto.randomBytes(24).toString('hex');
+        const inviteExpiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+        let invitation: MembershipDocument;
+        if (existing) {
+            // Re-inviting refreshes the token and role of the pending invite
+            existing.role = params.role;
+            existing.inviteToken = inviteToken;
+            existing.inviteExpiresAt = inviteExpiresAt;
+            existing.invitedBy = params.invitedBy as any;
+            invitation = await existing.save();
+        } else {
+            invitation = await Membership.create({
+                companyId: params.companyId,
+                email,
+                role: params.role,
+                status: 'invited',
+                invitedBy: params.invitedBy,
+                inviteToken,
+                inviteExpiresAt,
+            });
+        }
+
+        const [company, inviter] = await Promise.all([
+            Company.findById(params.companyId).select('name'),
+            User.findById(params.invitedBy).select('email fullName firstName lastName'),
+        ]);
+
+        await brevoService.sendTeamInvitation(email, {
+            companyName: company?.name || 'an EcoExchange company',
+            inviterName: inviter?.fullName || [inviter?.firstName, inviter?.lastName].filter(Boolean).join(' ') || inviter?.email || 'A teammate',
+            role: params.role,
+            token: inviteToken,
+            expiresAt: inviteExpiresAt,
+        });
+
+        return invitation;
+    }
+
+    async acceptInvitation(token: string, user: UserDocument): Promise<MembershipDocument> {
+        const invitation = await Membership.findOne({ inviteToken: token, status: 'invited' }).select('+inviteToken');
+        if (!invitation) {
+            throw new HttpError(404, 'Invitation not found or already used');
+        }
+        if (invitation.inviteExpiresAt && invitation.inviteExpiresAt < new Date()) {
+            throw new HttpError(410, 'Invitation has expired');
+        }
+        if (invitation.email !== user.email.toLowerCase()) {
+            throw new HttpError(403, 'This invitation was sent to a different email address');
+        }
+
+        return this.activate(invitation, user);
+    }
+
+    /**
+     * Accept the newest pending invitation addressed to the user's email.
+     * New sign-ups who were invited join that company instead of getting
+     * an empty one of their own.
+     */
+    async acceptPendingInvitationByEmail(user: UserDocument): Promise<MembershipDocument | null> {
+        const invitation = await Membership.findOne({
+            email: user.email.toLowerCase(),
+            status: 'invited',
+            inviteExpiresAt: { $gt: new Date() },
+        }).sort({ createdAt: -1 });
+
+        if (!invitation) return null;
+        return this.activate(invitation, user);
+    }
+
+    private async activate(invitation: MembershipDocument, user: UserDocument): Promise<MembershipDocument> {
+        invitation.userId = user._id as any;
+        invitation.status = 'active';
+        invitation.acceptedAt = new Date();
+        invitation.inviteToken = undefined;
+        invitation.inviteExpiresAt = undefined;
+        await invitation.save();
+
+        logger.info(`User ${user._id} joined company ${invitation.companyId} as ${invitation.role}`);
+        return invitation;
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // MEMBER MANAGEMENT
+    // ═══════════════════════════════════════════════════════════════
+
+    async listMembers(companyId: string): Promise<MembershipDocument[]> {
+        return Membership.find({ companyId, status: { $in: ['invited', 'active'] } })
+            .populate('userId', 'email firstName lastName fullName lastLoginAt')
+            .sort({ createdAt: 1 });
+    }
+
+    async changeRole(params: {
+        companyId: string;
+        membershipId: string;
+        role: MembershipRole;
+        actorUserId: string;
+        actorRole?: MembershipRole;
+    }): Promise<MembershipDocument> {
+        const membership = await this.getManageable(params.companyId, params.membershipId, params.actorRole);
+
+        if (!canAssignRole(params.actorRole, params.role)) {
+            throw new HttpError(403, `Your role cannot assign ${params.role}`);
+        }
+        if (membership.userId?.toString() === params.actorUserId) {
+            throw new HttpError(400, 'You cannot change your own role');
+        }
+        if (membership.role === 'owner' && params.role !== 'owner') {
+            await this.assertAnotherOwner(params.companyId, membership._id.toString());
+        }
+
+        membership.role = params.role;
+        return membership.save();
+    }
+
+    async removeMember(params: {
+        companyId: string;
+        membershipId: string;
+        actorUserId: string;
+        actorRole?: MembershipRole;
+    }): Promise<MembershipDocument> {
+        const membership = await this.getManageable(params.companyId, params.membershipId, params.actorRole);
+
+        if (membership.userId?.toString() === params.actorUserId) {
+            throw new HttpError(400, 'You cannot remove yourself');
+        }
+        if (membership.role === 'owner') {
+            await this.assertAnotherOwner(params.companyId, membership._id.toString());
+        }
+
+        membership.status = 'revoked';
+        membership.revokedAt = new Date();
+        membership.inviteToken = undefined;
+        return membership.save();
+    }
+
+    private async getManageable(companyId: string, membershipId: string, actorRole?: MembershipRole): Promise<MembershipDocument> {
+        const membership = await Membership.findOne({
+            _id: membershipId,
+            companyId,
+            status: { $in: ['invited', 'active'] },
+        });
+        if (!membership) {
+            throw new HttpError(404, 'Member not found');
+        }
+        if (!canAssignRole(actorRole, membership.role)) {
+            throw new HttpError(403, `Your role cannot manage ${membership.role} members`);
+        }
+        return membership;
+    }
+
+    private async assertAnotherOwner(companyId: string, excludeMembershipId: string): Promise<void> {
+        const otherOwners = await Membership.countDocuments({
+            companyId,
+            role: 'owner',
+            status: 'active',
+            _id: { $ne: excludeMembershipId },
+        });
+        if (otherOwners === 0) {
+            throw new HttpError(400, 'A company must keep at least one owner');
+        }
+    }
+}
+
+export const membershipService = new MembershipService();
@@ -1,68 +1,27 @@
 import { env } from '../../config/env';
 import { logger } from '../../utils/logger';
-import { EmailLog } from '../../models/EmailLog';
+import { EmailLogDocument } from '../../models/EmailLog';
+import { emailOutbox } from './emailOutbox.service';
+import { OutboundEmail } from './transports';
 
 // ═══════════════════════════════════════════════════════════════
-// BREVO EMAIL SERVICE — HTTP API (works on Render, no SMTP needed)
+// EMAIL SERVICE — renders templates and queues them in the outbox.
+// Delivery goes through the transport picked by EMAIL_TRANSPORT
+// (Brevo HTTP API by default, see ./transports).
 // ═══════════════════════════════════════════════════════════════
 
 export class BrevoService {
-  private apiKey: string | null;
-  private senderEmail: string;
-  private senderName: string = 'EcoExchange';
-  private apiUrl = 'https://api.brevo.com/v3/smtp/email';
-
-  constructor() {
-    this.senderEmail = env.BREVO_SENDER_EMAIL || 'noreply@ecoexchange.ai';
-    this.apiKey = env.BREVO_API_KEY || null;
-
-    if (this.apiKey) {
-      if (this.apiKey.startsWith('xsmtpsib-')) {
-        logger.warn('⚠️ BREVO_API_KEY looks like an SMTP key (xsmtpsib-...). The HTTP API needs a v3 API key (xkeysib-...). Get it from: Brevo Dashboard → Settings → SMTP & API → API Keys');
-      }
-      // Verify API key on startup with a lightweight call
-      this.verifyApiKey();
-    } else {
-      logger.warn('⚠️ Brevo API key NOT configured. Emails will be skipped. Set BREVO_API_KEY in environment variables.');
-    }
-  }
-
-  private async verifyApiKey(): Promise<void> {
-    try {
-      const res = await fetch('https://api.brevo.com/v3/account', {
-        method: 'GET',
-        headers: {
-          'api-key': this.apiKey!,
-          'Accept': 'application/json',
-        },
-      });
-
-      if (res.ok) {
-        const account: any = await res.json();
-        logger.info(`✅ Brevo HTTP API Ready — Account: ${account.email || 'verified'}, Plan: ${account.plan?.[0]?.type || 'active'}`);
-      } else if (res.status === 401) {
-        logger.error('❌ Brevo API key is INVALID or UNAUTHORIZED. Make sure you\'re using a v3 API key (starts with xkeysib-), not an SMTP key (xsmtpsib-). Get it from: Brevo Dashboard → Settings → SMTP & API → API Keys');
-      } else {
-        const errBody = await res.text();
-        logger.error(`❌ Brevo API key verification failed (HTTP ${res.status}): ${errBody}`);
-      }
-    } catch (error: any) {
-      logger.error(`❌ Brevo API connectivity check failed: ${error.message}`);
-    }
-  }
-
   // ═══════════════════════════════════════════════════════════════
-  // PUBLIC EMAIL METHODS
+  // PUBLIC EMAIL METHODS — all go through the outbox (EmailLog)
   // ═══════════════════════════════════════════════════════════════
 
   async sendMatchNotification(buyerEmail: string, matchData: any): Promise<void> {
     try {
-      await this.sendEmail({
+      await this.dispatch('match_notification', {
         to: [{ email: buyerEmail }],
         subject: `🔄 New Match Found — ${matchData.material} (${matchData.score}% compatibility)`,
         htmlContent: this.matchNotificationTemplate(matchData),
-      });
-      await this.logEmail(matchData.matchId, 'match_notification', buyerEmail);
+      }, `match_notification:${matchData.matchId}:${buyerEmail}`, matchData.matchId?.toString());
     } catch (error: any) {
       logger.error('Failed to send match notification:', {
         message: error.message,
@@ -71,14 +30,18 @@ export class BrevoService {
     }
   }
 
+  /**
+   * Attaches the certificate PDF when the passport has one on disk.
+   */
   async sendImpactCertificate(userEmail: string, passportData: any): Promise<void> {
     try {
-      await this.sendEmail({
+      const certificate = passportData.certificate?.filePath;
+      await this.dispatch('impact_certificate', {
         to: [{ email: userEmail }],
         subject: `🌍 Impact Certificate — ${passportData.passportNumber}`,
         htmlContent: this.impactCertificateTemplate(passportData),
-      });
-      await this.logEmail(undefined, 'impact_certificate', userEmail);
+        attachments: certificate ? [{ name: `${passportData.passportNumber}.pdf`, path: certificate }] : undefined,
+      }, `impact_certificate:${passportData.passportNumber}:${userEmail}`);
     } catch (error: any) {
       logger.error('Failed to send impact certificate:', {
         message: error.message,
@@ -89,12 +52,11 @@ export class BrevoService {
 
   async sendWeeklyDigest(userEmail: string, summary: any): Promise<void> {
     try {
-      await this.sendEmail({
+      await this.dispatch('weekly_digest', {
         to: [{ email: userEmail }],
         subject: `📊 Weekly EcoExchange Digest — ${summary.weekRange}`,
         htmlContent: this.weeklyDigestTemplate(summary),
-      });
-      await this.logEmail(undefined, 'weekly_digest', userEmail);
+      }, `weekly_digest:${userEmail}:${summary.weekRange}`);
     } catch (error: any) {
       logger.error('Failed to send weekly digest:', {
         message: error.message,
@@ -103,96 +65,106 @@ export class BrevoService {
     }
   }
 
-  async sendContactSellerEmail(sellerEmail: string, data: any): Promise<void> {
+  /**
+   * Returns true when the seller was emailed right away, false when the
+   * message is waiting in the outbox for a retry.
+   */
+  async sendContactSellerEmail(sellerEmail: string, data: any): Promise<boolean> {
+    const day = new Date().toISOString().slice(0, 10);
+    const log = await this.dispatch('contact_seller', {
+      to: [{ email: sellerEmail }],
+      subject: `🛒 New Buyer Interest — ${data.buyerName} wants your ${data.materialName}`,
+      htmlContent: this.contactSellerTemplate(data),
+    }, `contact_seller:${data.listingId}:${data.buyerEmail || data.buyerName}:${day}`);
+
+    return log.status === 'sent' || log.status === 'delivered';
+  }
+
+  async sendTeamInvitation(inviteeEmail: string, data: any): Promise<void> {
     try {
-      await this.sendEmail({
-        to: [{ email: sellerEmail }],
-        subject: `🛒 New Buyer Interest — ${data.buyerName} wants your ${data.materialName}`,
-        htmlContent: this.contactSellerTemplate(data),
-      });
-      await this.logEmail(undefined, 'contact_seller', sellerEmail);
+      await this.dispatch('team_invitation', {
+        to: [{ email: inviteeEmail }],
+        subject: `👥 ${data.inviterName} invited you to join ${data.companyName} on EcoExchange`,
+        htmlContent: this.teamInvitationTemplate(data),
+      }, `team_invitation:${data.token}`);
     } catch (error: any) {
-      logger.error('Failed to send contact seller email:', {
+      logger.error('Failed to send team invitation:', {
         message: error.message,
-        recipient: sellerEmail,
-        code: error.code,
+        recipient: inviteeEmail
       });
-      throw error;
     }
   }
 
-  async sendAlertEmail(recipientEmail: string, subject: string, htmlBody: string): Promise<string | null> {
-    const messageId = await this.sendEmail({
-      to: [{ email: recipientEmail }],
-      subject,
-      htmlContent: htmlBody,
-    });
-    await this.logEmail(undefined, 'alert', recipientEmail);
-    return messageId;
-  }
-
-  // ═══════════════════════════════════════════════════════════════
-  // CORE — Brevo HTTP API (replaces SMTP)
-  // ═══════════════════════════════════════════════════════════════
-
-  private async sendEmail(payload: {
-    to: Array<{ email: string; name?: string }>;
-    subject: string;
-    htmlContent: string;
-  }): Promise<string | null> {
-    if (!this.apiKey) {
-      const errorMsg = 'Brevo API key not configured — skipping email. Set BREVO_API_KEY in environment variables.';
-      logger.error(errorMsg);
-      throw new Error(errorMsg);
+  async sendOutbidNotification(bidderEmail: string, data: any): Promise<void> {
+    try {
+      await this.dispatch('auction_outbid', {
+        to: [{ email: bidderEmail }],
+        subject: `⚡ You've been outbid — ${data.materialName}`,
+        htmlContent: this.outbidTemplate(data),
+      }, `auction_outbid:${data.bidId}:${bidderEmail}`);
+    } catch (error: any) {
+      logger.error('Failed to send outbid notification:', {
+        message: error.message,
+        recipient: bidderEmail
+      });
     }
+  }
 
-    const body = {
-      sender: { name: this.senderName, email: this.senderEmail },
-      to: payload.to.map(r => ({ email: r.email, name: r.name || r.email })),
-      subject: payload.subject,
-      htmlContent: payload.htmlContent,
-    };
-
+  async sendAuctionResult(recipientEmail: string, data: any): Promise<void> {
     try {
-      const res = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'api-key': this.apiKey,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-        body: JSON.stringify(body),
-        signal: AbortSignal.timeout(15000), // 15s hard timeout
+      await this.dispatch('auction_result', {
+        to: [{ email: recipientEmail }],
+        subject: data.won
+          ? `🏆 You won the auction — ${data.materialName}`
+          : `🔨 Auction closed — ${data.materialName}`,
+        htmlContent: this.auctionResultTemplate(data),
+      }, `auction_result:${data.listingId}:${recipientEmail}`, data.matchId?.toString());
+    } catch (error: any) {
+      logger.error('Failed to send auction result:', {
+        message: error.message,
+        recipient: recipientEmail
       });
+    }
+  }
 
-      if (res.ok) {
-        const result: any = await res.json();
-        const messageId = result.messageId || null;
-        logger.info(`📧 Email sent via Brevo HTTP API to ${payload.to.map(r => r.email).join(', ')} (ID: ${messageId})`);
-        return messageId;
-      } else {
-        const errBody = await res.text();
-        logger.error(`❌ Brevo HTTP API Error (${res.status}): ${errBody}`, {
-          recipient: payload.to[0]?.email,
-          status: res.status,
-        });
-        throw new Error(`Brevo API error (${res.status}): ${errBody}`);
-      }
+  /**
+   * Never throws — a failed send stays queued and the outbox retries it.
+   */
+  async sendSavedSearchAlert(recipientEmail: string, data: any): Promise<void> {
+    try {
+      const key = data.cadence === 'daily'
+        ? `saved_search_digest:${data.searchId}:${new Date().toISOString().slice(0, 10)}`
+        : `saved_search:${data.searchId}:${data.listings[0]?.id}`;
+      await this.dispatch('saved_search', {
+        to: [{ email: recipientEmail }],
+        subject: data.cadence === 'daily'
+          ? `🔎 ${data.total} new listing${data.total === 1 ? '' : 's'} for "${data.searchName}"`
+          : `🔎 New listing for "${data.searchName}" — ${data.listings[0]?.material}`,
+        htmlContent: this.savedSearchTemplate(data),
+      }, key);
     } catch (error: any) {
-      if (error.name === 'TimeoutError' || error.name === 'AbortError') {
-        logger.error(`❌ Brevo HTTP API Timeout after 15s`, { recipient: payload.to[0]?.email });
-        throw new Error('Email service timed out. Please try again later.');
-      }
-      throw error;
+      logger.error('Failed to send saved-search alert:', {
+        message: error.message,
+        recipient: recipientEmail
+      });
     }
   }
 
-  private async logEmail(matchId: string | undefined, type: string, recipient: string): Promise<void> {
-    try {
-      await EmailLog.create({ matchId, type, recipient, sentAt: new Date(), status: 'sent' });
-    } catch (error) {
-      logger.error('Failed to log email to DB:', error);
+  async sendAlertEmail(recipientEmail: string, subject: string, htmlBody: string, idempotencyKey?: string): Promise<string | null> {
+    const log = await this.dispatch('alert', {
+      to: [{ email: recipientEmail }],
+      subject,
+      htmlContent: htmlBody,
+    }, idempotencyKey);
+
+    if (log.status !== 'sent' && log.status !== 'delivered') {
+      throw new Error(`Alert email not delivered yet (${log.status}): ${log.error || 'queued for retry'}`);
     }
+    return log.messageId || null;
+  }
+
+  private dispatch(type: string, message: OutboundEmail, idempotencyKey?: string, matchId?: string): Promise<EmailLogDocument> {
+    return emailOutbox.enqueue({ type, message, idempotencyKey, matchId });
   }
 
   // ═══════════════════════════════════════════════════════════════
@@ -242,6 +214,7 @@ export class BrevoService {
       <p>Water Saved: <strong>${data.impact?.waterSavedLiters?.toLocaleString() || 0} L</strong></p>
       <p>Energy Saved: <strong>${data.impact?.energySavedKwh || 0} kWh</strong></p>
     </div>
+    <a href="${env.FRONTEND_URL}${data.publicUrl || `/verify/${data.passportNumber}`}" style="display: block; background: linear-gradient(135deg, #059669, #0284c7); color: white; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 16px;">Verify Passport →</a>
   </div>
 </div>`;
   }
@@ -297,6 +270,86 @@ export class BrevoService {
 
     <p style="margin: 20px 0 0; color: #525252; font-size: 12px; text-align: center;">This is an automated notification from EcoExchange. Please do not reply directly to this email.</p>
   </div>
+</div>`;
+  }
+  private outbidTemplate(data: any): string {
+    return `
+<div style="font-family: 'Inter', Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #0a0a0a; color: #e5e5e5; border-radius: 12px; overflow: hidden;">
+  <div style="background: linear-gradient(135deg, #f59e0b, #dc2626); padding: 32px; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">⚡ You've Been Outbid</h1>
+    <p style="color: rgba(255,255,255,0.9); margin: 8px 0 0; text-transform: capitalize;">${data.materialName}</p>
+  </div>
+  <div style="padding: 24px;">
+    <div style="background: #1a1a1a; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
+      <p style="margin: 0;">Your bid: <strong>₹${data.yourBid}/${data.unit}</strong></p>
+      <p style="margin: 4px 0 0;">Leading bid: <strong>₹${data.highBid}/${data.unit}</strong></p>
+      <p style="margin: 4px 0 0; color: #a3a3a3;">Next bid must be at least ₹${data.minimumBid}/${data.unit}</p>
+    </div>
+    <p style="margin: 0 0 16px; color: #a3a3a3;">Bidding closes ${new Date(data.endsAt).toUTCString()}.</p>
+    <a href="${env.FRONTEND_URL || 'http://localhost:5173'}/marketplace" style="display: block; background: linear-gradient(135deg, #059669, #0284c7); color: white; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 16px;">Place a Higher Bid →</a>
+  </div>
+</div>`;
+  }
+
+  private auctionResultTemplate(data: any): string {
+    return `
+<div style="font-family: 'Inter', Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #0a0a0a; color: #e5e5e5; border-radius: 12px; overflow: hidden;">
+  <div style="background: linear-gradient(135deg, #059669, #0284c7); padding: 32px; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">${data.won ? '🏆 You Won!' : '🔨 Auction Closed'}</h1>
+    <p style="color: rgba(255,255,255,0.9); margin: 8px 0 0; text-transform: capitalize;">${data.materialName}</p>
+  </div>
+  <div style="padding: 24px;">
+    <div style="background: #1a1a1a; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
+      <p style="margin: 0;">Winning bid: <strong>₹${data.amount}/${data.unit}</strong> × ${data.quantity} ${data.unit}</p>
+      <p style="margin: 4px 0 0;">Total: <strong>₹${Math.round(data.amount * data.quantity).toLocaleString()}</strong></p>
+    </div>
+    <p style="margin: 0 0 16px; color: #a3a3a3;">${data.won
+      ? 'A match has been created with these terms locked. Arrange pickup with the seller from your Matches page.'
+      : `Your listing sold to ${data.buyerName}. The match is ready on your Matches page.`}</p>
+    <a href="${env.FRONTEND_URL || 'http://localhost:5173'}/matches" style="display: block; background: linear-gradient(135deg, #059669, #0284c7); color: white; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 16px;">View Match →</a>
+  </div>
+</div>`;
+  }
+
+  private savedSearchTemplate(data: any): string {
+    const rows = data.listings.map((listing: any) => `
+      <tr>
+        <td style="padding: 8px 0; text-transform: capitalize;">${listing.material}${listing.auction ? ' <span style="color: #f59e0b;">(auction)</span>' : ''}</td>
+        <td style="padding: 8px 0; text-align: right;">${listing.quantity} ${listing.unit}</td>
+        <td style="padding: 8px 0; text-align: right;">${listing.price !== undefined ? `₹${listing.price}/${listing.unit}` : '—'}</td>
+      </tr>`).join('');
+    return `
+<div style="font-family: 'Inter', Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #0a0a0a; color: #e5e5e5; border-radius: 12px; overflow: hidden;">
+  <div style="background: linear-gradient(135deg, #059669, #0284c7); padding: 32px; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">🔎 ${data.cadence === 'daily' ? 'Your Daily Listings' : 'New Listing Match'}</h1>
+    <p style="color: rgba(255,255,255,0.9); margin: 8px 0 0;">Saved search: ${data.searchName}</p>
+  </div>
+  <div style="padding: 24px;">
+    <div style="background: #1a1a1a; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px;">${rows}</table>
+      ${data.total > data.listings.length ? `<p style="margin: 8px 0 0; color: #a3a3a3;">…and ${data.total - data.listings.length} more</p>` : ''}
+    </div>
+    <a href="${env.FRONTEND_URL || 'http://localhost:5173'}/marketplace" style="display: block; background: linear-gradient(135deg, #059669, #0284c7); color: white; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 16px;">View on Marketplace →</a>
+  </div>
+</div>`;
+  }
+
+  private teamInvitationTemplate(data: any): string {
+    return `
+<div style="font-family: 'Inter', Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #0a0a0a; color: #e5e5e5; border-radius: 12px; overflow: hidden;">
+  <div style="background: linear-gradient(135deg, #059669, #7c3aed); padding: 32px; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">👥 You're Invited!</h1>
+    <p style="color: rgba(255,255,255,0.9); margin: 8px 0 0;">Join ${data.companyName} on EcoExchange</p>
+  </div>
+  <div style="padding: 24px;">
+    <p style="margin: 0 0 16px; font-size: 15px;"><strong>${data.inviterName}</strong> has invited you to join their company account.</p>
+    <div style="background: #1a1a1a; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
+      <h3 style="color: #10b981; margin: 0 0 8px; font-size: 13px; text-transform: uppercase; letter-spacing: 1px;">Your Role</h3>
+      <p style="margin: 0; text-transform: capitalize;">${data.role}</p>
+    </div>
+    <p style="margin: 0 0 16px; color: #a3a3a3;">Sign up or log in with this email address to accept. The invitation expires on ${new Date(data.expiresAt).toDateString()}.</p>
+    <a href="${env.FRONTEND_URL || 'http://localhost:5173'}/sign-up?invitation=${data.token}" style="display: block; background: linear-gradient(135deg, #059669, #0284c7); color: white; text-align: center; padding: 14px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 16px;">Accept Invitation →</a>
+  </div>
 </div>`;
   }
 }
@@ -0,0 +1,222 @@
+import { EmailLog, EmailLogDocument, EmailStatus } from '../../models/EmailLog';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { emailTransport, EmailTransport, OutboundEmail } from './transports';
+
+const BASE_BACKOFF_MS = 60 * 1000;            // 1 min after the first failure
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;    // never wait more than 6 h
+const STALE_LOCK_MS = 10 * 60 * 1000;         // reclaim messages stuck in `sending`
+
+// ═══════════════════════════════════════════════════════════════
+// EMAIL OUTBOX — every outbound email is persisted in EmailLog first,
+// then delivered with exponential backoff until sent or dead-lettered.
+// ═══════════════════════════════════════════════════════════════
+
+export class EmailOutboxService {
+    constructor(private transport: EmailTransport) { }
+
+    /**
+     * Persist a message and make the first delivery attempt right away.
+     * With an idempotency key, a message that was already enqueued is
+     * returned as-is instead of being sent twice.
+     */
+    async enqueue(params: {
+        type: string;
+        message: OutboundEmail;
+        matchId?: string;
+        idempotencyKey?: string;
+        maxAttempts?: number;
+    }): Promise<EmailLogDocument> {
+        if (params.idempotencyKey) {
+            const existing = await EmailLog.findOne({ idempotencyKey: params.idempotencyKey });
+            if (existing) {
+                logger.info(`📭 Email already queued for key ${params.idempotencyKey} (status: ${existing.status})`);
+                return existing;
+            }
+        }
+
+        let log: EmailLogDocument;
+        try {
+            log = await EmailLog.create({
+                matchId: params.matchId,
+                type: params.type,
+                recipient: params.message.to.map((r) => r.email).join(', '),
+                to: params.message.to,
+                subject: params.message.subject,
+                htmlContent: params.message.htmlContent,
+                attachments: params.message.attachments,
+                idempotencyKey: params.idempotencyKey,
+                status: 'queued',
+                nextAttemptAt: new Date(),
+                ...(params.maxAttempts ? { maxAttempts: params.maxAttempts } : {}),
+            });
+        } catch (error: any) {
+            // Lost a race with a concurrent enqueue for the same key
+            if (error.code === 11000 && params.idempotencyKey) {
+                const existing = await EmailLog.findOne({ idempotencyKey: params.idempotencyKey });
+                if (existing) return existing;
+            }
+            throw error;
+        }
+
+        return this.attempt(log._id.toString());
+    }
+
+    /**
+     * Deliver everything that is due. Called by the scheduler.
+     */
+    async drain(batchSize: number = 25): Promise<{ processed: number; sent: number; failed: number; dead: number }> {
+        const now = new Date();
+        const due = await EmailLog.find({
+            $or: [
+                { status: { $in: ['queued', 'failed'] }, nextAttemptAt: { $lte: now } },
+                { status: 'sending', lockedAt: { $lte: new Date(now.getTime() - STALE_LOCK_MS) } },
+            ],
+        })
+            .sort({ nextAttemptAt: 1 })
+            .limit(batchSize)
+            .select('_id');
+
+        const summary = { processed: 0, sent: 0, failed: 0, dead: 0 };
+        for (const { _id } of due) {
+            const log = await this.attempt(_id.toString(), true);
+            summary.processed++;
+            if (log.status === 'sent') summary.sent++;
+            else if (log.status === 'dead') summary.dead++;
+            else if (log.status === 'failed') summary.failed++;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Put a failed or dead-lettered message back in the queue and try it now.
+     */
+    async replay(id: string): Promise<EmailLogDocument> {
+        const existing = await EmailLog.findById(id).select('status htmlContent');
+        if (!existing) {
+            throw new HttpError(404, 'Email not found');
+        }
+        if (!['failed', 'dead', 'bounced'].includes(existing.status)) {
+            throw new HttpError(409, 'Only failed, dead or bounced messages can be replayed');
+        }
+        if (!existing.htmlContent) {
+            throw new HttpError(422, 'This message predates the outbox and has no stored content to replay');
+        }
+
+        const log = await EmailLog.findOneAndUpdate(
+            { _id: id, status: existing.status },
+            {
+                $set: { status: 'queued', attempts: 0, nextAttemptAt: new Date() },
+                $unset: { deadLetteredAt: 1, lockedAt: 1 },
+                $inc: { replayCount: 1 },
+            },
+            { new: true }
+        );
+        if (!log) {
+            throw new HttpError(409, 'Message changed while replaying — try again');
+        }
+
+        logger.info(`🔁 Replaying email ${id} (${log.type} → ${log.recipient})`);
+        return this.attempt(id);
+    }
+
+    async list(filter: { status?: EmailStatus; type?: string; page?: number; limit?: number }) {
+        const query: any = {};
+        if (filter.status) query.status = filter.status;
+        if (filter.type) query.type = filter.type;
+
+        const page = filter.page || 1;
+        const limit = Math.min(filter.limit || 25, 100);
+
+        const [items, total] = await Promise.all([
+            EmailLog.find(query)
+                .select('-htmlContent')
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            EmailLog.countDocuments(query),
+        ]);
+
+        return { items, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+    }
+
+    async stats(): Promise<Record<string, number>> {
+        const rows = await EmailLog.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]);
+        return rows.reduce((acc: Record<string, number>, row: any) => {
+            acc[row._id] = row.count;
+            return acc;
+        }, {});
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // DELIVERY
+    // ═══════════════════════════════════════════════════════════════
+
+    /**
+     * Claim a message and try to deliver it once. Returns the updated log;
+     * messages claimed by someone else are returned untouched.
+     */
+    private async attempt(id: string, reclaimStale: boolean = false): Promise<EmailLogDocument> {
+        const now = new Date();
+        const claimable: any[] = [{ status: { $in: ['queued', 'failed'] } }];
+        if (reclaimStale) {
+            claimable.push({ status: 'sending', lockedAt: { $lte: new Date(now.getTime() - STALE_LOCK_MS) } });
+        }
+
+        const log = await EmailLog.findOneAndUpdate(
+            { _id: id, $or: claimable },
+            { $set: { status: 'sending', lockedAt: now, lastAttemptAt: now }, $inc: { attempts: 1 } },
+            { new: true }
+        );
+        if (!log) {
+            return (await EmailLog.findById(id))!;
+        }
+
+        try {
+            const messageId = await this.transport.send({
+                to: log.to?.length ? log.to : [{ email: log.recipient }],
+                subject: log.subject || '',
+                htmlContent: log.htmlContent || '',
+                attachments: log.attachments?.length ? log.attachments : undefined,
+            });
+
+            log.status = 'sent';
+            log.sentAt = new Date();
+            log.messageId = messageId || undefined;
+            log.error = undefined;
+            log.nextAttemptAt = undefined;
+        } catch (error: any) {
+            log.error = error.message;
+
+            if (log.attempts >= log.maxAttempts) {
+                log.status = 'dead';
+                log.deadLetteredAt = new Date();
+                log.nextAttemptAt = undefined;
+                logger.error(`☠️ Email ${log._id} (${log.type} → ${log.recipient}) dead-lettered after ${log.attempts} attempts: ${error.message}`);
+            } else {
+                const delay = this.backoffMs(log.attempts);
+                log.status = 'failed';
+                log.nextAttemptAt = new Date(Date.now() + delay);
+                logger.warn(`📪 Email ${log._id} (${log.type}) attempt ${log.attempts}/${log.maxAttempts} failed — retrying in ${Math.round(delay / 1000)}s`);
+            }
+        }
+
+        log.lockedAt = undefined;
+        await log.save();
+        return log;
+    }
+
+    /**
+     * 1 min, 2 min, 4 min, … capped at 6 h, with ±10% jitter so a provider
+     * outage does not produce synchronized retry storms.
+     */
+    private backoffMs(attempts: number): number {
+        const base = Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts - 1), MAX_BACKOFF_MS);
+        const jitter = base * 0.1 * (Math.random() * 2 - 1);
+        return Math.round(base + jitter);
+    }
+}
+
+export const emailOutbox = new EmailOutboxService(emailTransport);
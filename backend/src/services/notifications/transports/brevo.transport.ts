@@ -0,0 +1,101 @@
+import fs from 'fs/promises';
+import { logger } from '../../../utils/logger';
+import { EmailSenderIdentity, EmailTransport, OutboundEmail } from './emailTransport';
+
+// ═══════════════════════════════════════════════════════════════
+// BREVO TRANSPORT — HTTP API (works on Render, no SMTP needed)
+// ═══════════════════════════════════════════════════════════════
+
+export class BrevoTransport implements EmailTransport {
+    readonly name = 'brevo';
+    private apiUrl = 'https://api.brevo.com/v3/smtp/email';
+
+    constructor(private apiKey: string | null, private sender: EmailSenderIdentity) {
+        if (this.apiKey?.startsWith('xsmtpsib-')) {
+            logger.warn('⚠️ BREVO_API_KEY looks like an SMTP key (xsmtpsib-...). The HTTP API needs a v3 API key (xkeysib-...). Get it from: Brevo Dashboard → Settings → SMTP & API → API Keys');
+        }
+        if (!this.apiKey) {
+            logger.warn('⚠️ Brevo API key NOT configured. Emails will fail and end up dead-lettered in the outbox. Set BREVO_API_KEY or choose another EMAIL_TRANSPORT.');
+        }
+    }
+
+    async verify(): Promise<void> {
+        if (!this.apiKey) return;
+
+        try {
+            const res = await fetch('https://api.brevo.com/v3/account', {
+                method: 'GET',
+                headers: {
+                    'api-key': this.apiKey,
+                    'Accept': 'application/json',
+                },
+            });
+
+            if (res.ok) {
+                const account: any = await res.json();
+                logger.info(`✅ Brevo HTTP API Ready — Account: ${account.email || 'verified'}, Plan: ${account.plan?.[0]?.type || 'active'}`);
+            } else if (res.status === 401) {
+                logger.error('❌ Brevo API key is INVALID or UNAUTHORIZED. Make sure you\'re using a v3 API key (starts with xkeysib-), not an SMTP key (xsmtpsib-). Get it from: Brevo Dashboard → Settings → SMTP & API → API Keys');
+            } else {
+                const errBody = await res.text();
+                logger.error(`❌ Brevo API key verification failed (HTTP ${res.status}): ${errBody}`);
+            }
+        } catch (error: any) {
+            logger.error(`❌ Brevo API connectivity check failed: ${error.message}`);
+        }
+    }
+
+    async send(payload: OutboundEmail): Promise<string | null> {
+        if (!this.apiKey) {
+            const errorMsg = 'Brevo API key not configured — skipping email. Set BREVO_API_KEY in environment variables.';
+            logger.error(errorMsg);
+            throw new Error(errorMsg);
+        }
+
+        const body = {
+            sender: { name: this.sender.name, email: this.sender.email },
+            to: payload.to.map(r => ({ email: r.email, name: r.name || r.email })),
+            subject: payload.subject,
+            htmlContent: payload.htmlContent,
+            attachment: payload.attachments?.length
+                ? await Promise.all(payload.attachments.map(async (a) => ({
+                    name: a.name,
+                    content: (await fs.readFile(a.path)).toString('base64'),
+                })))
+                : undefined,
+        };
+
+        try {
+            const res = await fetch(this.apiUrl, {
+                method: 'POST',
+                headers: {
+                    'api-key': this.apiKey,
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/json',
+                },
+                body: JSON.stringify(body),
+                signal: AbortSignal.timeout(15000), // 15s hard timeout
+            });
+
+            if (res.ok) {
+                const result: any = await res.json();
+                const messageId = result.messageId || null;
+                logger.info(`📧 Email sent via Brevo HTTP API to ${payload.to.map(r => r.email).join(', ')} (ID: ${messageId})`);
+                return messageId;
+            } else {
+                const errBody = await res.text();
+                logger.error(`❌ Brevo HTTP API Error (${res.status}): ${errBody}`, {
+                    recipient: payload.to[0]?.email,
+                    status: res.status,
+                });
+                throw new Error(`Brevo API error (${res.status}): ${errBody}`);
+            }
+        } catch (error: any) {
+            if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+                logger.error(`❌ Brevo HTTP API Timeout after 15s`, { recipient: payload.to[0]?.email });
+                throw new Error('Email service timed out. Please try again later.');
+            }
+            throw error;
+        }
+    }
+}
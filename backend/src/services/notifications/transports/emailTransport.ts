@@ -0,0 +1,29 @@
+export interface EmailAttachment {
+    name: string;
+    /** File on disk, read when the message is sent */
+    path: string;
+}
+
+export interface OutboundEmail {
+    to: Array<{ email: string; name?: string }>;
+    subject: string;
+    htmlContent: string;
+    attachments?: EmailAttachment[];
+}
+
+export interface EmailSenderIdentity {
+    email: string;
+    name: string;
+}
+
+/**
+ * A delivery backend for outbound email.
+ * `send` resolves with the provider message id and throws on failure,
+ * which the outbox turns into a retry.
+ */
+export interface EmailTransport {
+    readonly name: string;
+    send(message: OutboundEmail): Promise<string | null>;
+    /** Optional startup check (credentials, connectivity). Must not throw. */
+    verify?(): Promise<void>;
+}
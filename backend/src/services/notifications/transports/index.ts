@@ -0,0 +1,43 @@
+import { env } from '../../../config/env';
+import { logger } from '../../../utils/logger';
+import { EmailTransport } from './emailTransport';
+import { BrevoTransport } from './brevo.transport';
+import { SmtpTransport } from './smtp.transport';
+import { SinkTransport } from './sink.transport';
+
+export * from './emailTransport';
+
+/**
+ * Build the transport selected by EMAIL_TRANSPORT (brevo | smtp | file | console).
+ */
+export function createEmailTransport(): EmailTransport {
+    const sender = {
+        email: env.EMAIL_FROM || env.BREVO_SENDER_EMAIL || 'noreply@ecoexchange.ai',
+        name: env.EMAIL_FROM_NAME,
+    };
+
+    switch (env.EMAIL_TRANSPORT) {
+        case 'smtp':
+            if (!env.SMTP_HOST) {
+                throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+            }
+            return new SmtpTransport({
+                host: env.SMTP_HOST,
+                port: parseInt(env.SMTP_PORT, 10),
+                secure: env.SMTP_SECURE === 'true',
+                user: env.SMTP_USER,
+                pass: env.SMTP_PASS,
+            }, sender);
+        case 'file':
+            return new SinkTransport(sender, env.EMAIL_SINK_DIR);
+        case 'console':
+            return new SinkTransport(sender, null);
+        case 'brevo':
+        default:
+            return new BrevoTransport(env.BREVO_API_KEY || null, sender);
+    }
+}
+
+export const emailTransport = createEmailTransport();
+logger.info(`📮 Email transport: ${emailTransport.name}`);
+emailTransport.verify?.();
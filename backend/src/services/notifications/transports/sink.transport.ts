@@ -0,0 +1,62 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../utils/logger';
+import { EmailSenderIdentity, EmailTransport, OutboundEmail } from './emailTransport';
+
+// ═══════════════════════════════════════════════════════════════
+// SINK TRANSPORT — nothing leaves the machine.
+// `file` writes each message as <stamp>-<subject>.html + .json into a
+// directory for inspection; `console` only logs a summary line.
+// ═══════════════════════════════════════════════════════════════
+
+export class SinkTransport implements EmailTransport {
+    readonly name: 'file' | 'console';
+
+    constructor(private sender: EmailSenderIdentity, private directory: string | null) {
+        this.name = directory ? 'file' : 'console';
+    }
+
+    async verify(): Promise<void> {
+        if (this.directory) {
+            await fs.mkdir(this.directory, { recursive: true }).catch((error) => {
+                logger.error(`❌ Email sink directory not writable (${this.directory}): ${error.message}`);
+            });
+            logger.info(`📂 Email sink active — messages are written to ${path.resolve(this.directory)}`);
+        } else {
+            logger.info('🖨️ Email console sink active — messages are logged, not delivered');
+        }
+    }
+
+    async send(payload: OutboundEmail): Promise<string | null> {
+        const messageId = `<sink-${uuidv4()}@ecoexchange.local>`;
+        const recipients = payload.to.map(r => r.email).join(', ');
+
+        if (this.directory) {
+            const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+            const slug = payload.subject
+                .toLowerCase()
+                .replace(/[^a-z0-9]+/g, '-')
+                .replace(/^-|-$/g, '')
+                .slice(0, 60) || 'message';
+            const base = path.join(this.directory, `${stamp}-${slug}`);
+
+            await fs.mkdir(this.directory, { recursive: true });
+            await fs.writeFile(`${base}.html`, payload.htmlContent, 'utf8');
+            await fs.writeFile(`${base}.json`, JSON.stringify({
+                messageId,
+                from: this.sender,
+                to: payload.to,
+                subject: payload.subject,
+                attachments: payload.attachments,
+                createdAt: new Date().toISOString(),
+            }, null, 2), 'utf8');
+
+            logger.info(`📂 Email written to sink: ${base}.html (to: ${recipients})`);
+        } else {
+            logger.info(`🖨️ [email sink] to: ${recipients} | subject: ${payload.subject}`);
+        }
+
+        return messageId;
+    }
+}
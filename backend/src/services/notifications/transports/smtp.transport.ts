@@ -0,0 +1,52 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { logger } from '../../../utils/logger';
+import { EmailSenderIdentity, EmailTransport, OutboundEmail } from './emailTransport';
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SMTP TRANSPORT — any SMTP relay (Mailpit, MailHog, SES, Brevo SMTP…)
+// ═══════════════════════════════════════════════════════════════
+
+export class SmtpTransport implements EmailTransport {
+    readonly name = 'smtp';
+    private transporter: Transporter;
+
+    constructor(private options: SmtpOptions, private sender: EmailSenderIdentity) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+            connectionTimeout: 15000,
+        });
+    }
+
+    async verify(): Promise<void> {
+        try {
+            await this.transporter.verify();
+            logger.info(`✅ SMTP transport ready — ${this.options.host}:${this.options.port}`);
+        } catch (error: any) {
+            logger.error(`❌ SMTP connectivity check failed (${this.options.host}:${this.options.port}): ${error.message}`);
+        }
+    }
+
+    async send(payload: OutboundEmail): Promise<string | null> {
+        const info = await this.transporter.sendMail({
+            from: { name: this.sender.name, address: this.sender.email },
+            to: payload.to.map(r => (r.name ? { name: r.name, address: r.email } : r.email)),
+            subject: payload.subject,
+            html: payload.htmlContent,
+            attachments: payload.attachments?.map((a) => ({ filename: a.name, path: a.path })),
+        });
+
+        logger.info(`📧 Email sent via SMTP to ${payload.to.map(r => r.email).join(', ')} (ID: ${info.messageId})`);
+        return info.messageId || null;
+    }
+}
@@ -0,0 +1,215 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '../../config/env';
+import { PassportLedgerEntry } from '../../models/PassportLedger';
+import { ProductPassport, ProductPassportDocument } from '../../models/ProductPassport';
+import { PdfDocument, A4 } from '../../utils/pdf';
+import { QrMatrix, encodeQr, qrToDataUrl } from '../../utils/qr';
+import { logger } from '../../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════
+// PASSPORT CERTIFICATES — a QR code linking to the public verify page
+// and a one-page PDF with origin, destination, transport and impact.
+// The PDF is kept under CERTIFICATE_DIR and rebuilt whenever the
+// passport has changed since it was drawn (amendment, revocation).
+// ═══════════════════════════════════════════════════════════════
+
+export class CertificateService {
+    verifyUrl(passport: ProductPassportDocument): string {
+        return `${env.FRONTEND_URL.replace(/\/$/, '')}${passport.publicUrl || `/verify/${passport.passportNumber}`}`;
+    }
+
+    /**
+     * Generate the QR code and certificate for a newly issued passport.
+     */
+    async issue(passport: ProductPassportDocument): Promise<Buffer> {
+        passport.set('verification.qrCode', qrToDataUrl(encodeQr(this.verifyUrl(passport))));
+        await passport.save();
+        return this.write(passport);
+    }
+
+    /**
+     * The stored PDF, redrawn if it is missing or older than the passport.
+     */
+    async file(passport: ProductPassportDocument): Promise<Buffer> {
+        const { filePath, generatedAt } = passport.certificate || {};
+        if (filePath && generatedAt && generatedAt >= passport.updatedAt) {
+            try {
+                return await fs.readFile(filePath);
+            } catch {
+                logger.warn(`⚠️ Certificate file ${filePath} missing — regenerating`);
+            }
+        }
+        return this.write(passport);
+    }
+
+    async render(passport: ProductPassportDocument): Promise<Buffer> {
+        const pdf = new PdfDocument();
+        const left = 48;
+        const right = A4.width - 48;
+        const number = (value: number | undefined, digits = 0) =>
+            (value ?? 0).toLocaleString('en-IN', { maximumFractionDigits: digits });
+        const day = (value?: Date) => (value ? new Date(value).toISOString().slice(0, 10) : '-');
+        const { origin, destination, impact, verification } = passport;
+        const transport = passport.journey?.transport || {};
+
+        // Header band
+        pdf.box(0, 0, A4.width, 120, 0.16);
+        pdf.text('EcoExchange', left, 44, { size: 12, bold: true, gray: 1 });
+        pdf.text('CIRCULAR ECONOMY IMPACT CERTIFICATE', left, 74, { size: 17, bold: true, gray: 1 });
+        pdf.text(`Passport ${passport.passportNumber}`, left, 96, { size: 11, gray: 0.85 });
+        this.drawQr(pdf, encodeQr(this.verifyUrl(passport)), right - 96, 12, 96);
+
+        const status = verification?.status || 'pending';
+        pdf.text(`Status: ${status.toUpperCase()}`, left, 148, { size: 11, bold: true });
+        pdf.text(`Issued ${day(passport.createdAt)}`, right, 148, { size: 9, align: 'right', gray: 0.3 });
+        if (status === 'revoked') {
+            pdf.text(`Revoked ${day(verification.revokedAt)} - ${verification.revocationReason || 'no reason given'}`, left, 164, { size: 9, gray: 0.3 });
+        }
+
+        // Origin → destination
+        const party = (title: string, x: number, lines: string[]) => {
+            let y = 192;
+            pdf.text(title, x, y, { size: 8, bold: true, gray: 0.45 });
+            lines.filter(Boolean).forEach((line, i) => pdf.text(line, x, (y += 15), { size: i === 0 ? 11 : 9, bold: i === 0 }));
+        };
+        party('ORIGIN', left, [
+            origin?.companyName,
+            `${number(origin?.quantity, 2)} ${origin?.unit} of ${String(origin?.materialType || '').replace(/_/g, ' ')}`,
+            origin?.quantityKg && origin.unit !== 'kg' ? `= ${number(origin.quantityKg)} kg` : '',
+            `Dispatched ${day(origin?.date)}`,
+        ]);
+        party('DESTINATION', A4.width / 2 + 10, [
+            destination?.companyName,
+            destination?.application ? `Use: ${destination.application}` : '',
+            `Received ${day(destination?.date)}`,
+        ]);
+        pdf.line(left, 268, right, 268);
+
+        // Transport
+        pdf.text('TRANSPORT', left, 290, { size: 8, bold: true, gray: 0.45 });
+        pdf.text(
+            `${number(transport.distanceKm, 1)} km by ${transport.mode || 'truck'}${transport.vehicleType ? ` (${transport.vehicleType.replace(/_/g, ' ')})` : ''}` +
+            ` - ${number(transport.emissionsKg, 1)} kg CO2e in transit` +
+            (transport.distanceSource ? `, distance ${transport.distanceSource}` : ''),
+            left, 306, { size: 10 }
+        );
+        if (transport.carrier) pdf.text(`Carrier: ${transport.carrier}`, left, 320, { size: 9, gray: 0.3 });
+
+        // Impact tiles
+        const tiles: Array<[string, string]> = [
+            ['CO2 saved vs virgin', `${number(impact?.co2SavedVsVirgin)} kg`],
+            ['Net of transport', `${number((impact?.co2SavedVsVirgin || 0) - (transport.emissionsKg || 0))} kg`],
+            ['Water saved', `${number(impact?.waterSavedLiters)} L`],
+            ['Energy saved', `${number(impact?.energySavedKwh)} kWh`],
+            ['Landfill avoided', `${number(impact?.landfillAvoidedM3, 2)} m3`],
+        ];
+        pdf.text('ENVIRONMENTAL IMPACT', left, 350, { size: 8, bold: true, gray: 0.45 });
+        const tileWidth = (right - left - 4 * 8) / tiles.length;
+        tiles.forEach(([label, value], i) => {
+            const x = left + i * (tileWidth + 8);
+            pdf.box(x, 360, tileWidth, 58);
+            pdf.text(value, x + tileWidth / 2, 388, { size: 12, bold: true, align: 'center' });
+            pdf.text(label, x + tileWidth / 2, 406, { size: 7, align: 'center', gray: 0.35 });
+        });
+
+        // Methodology
+        let y = 448;
+        pdf.text('METHODOLOGY', left, y, { size: 8, bold: true, gray: 0.45 });
+        for (const line of pdf.wrap(impact?.methodology || '-', right - left, 9)) {
+            pdf.text(line, left, (y += 13), { size: 9 });
+        }
+        if (transport.formula) {
+            for (const line of pdf.wrap(`Transport: ${transport.formula}`, right - left, 8).slice(0, 3)) {
+                pdf.text(line, left, (y += 12), { size: 8, gray: 0.3 });
+            }
+        }
+
+        // Chain of custody for relisted material
+        const parents: string[] = passport.lineage?.parentPassportNumbers || [];
+        const processing = passport.journey?.processing || [];
+        if (parents.length > 0 || processing.length > 0) {
+            pdf.text('CHAIN OF CUSTODY', left, (y += 28), { size: 8, bold: true, gray: 0.45 });
+            if (parents.length > 0) {
+                pdf.text(`Made from ${parents.slice(0, 4).join(', ')}${parents.length > 4 ? ` +${parents.length - 4} more` : ''}`, left, (y += 13), { size: 9 });
+            }
+            for (const step of processing.slice(0, 4)) {
+                const detail = [step.yieldPct ? `${number(step.yieldPct, 1)}% yield` : '', step.emissionsKg ? `${number(step.emissionsKg)} kg CO2` : ''].filter(Boolean).join(', ');
+                pdf.text(`${step.process} at ${step.facility}${detail ? ` (${detail})` : ''}`, left, (y += 12), { size: 8 });
+            }
+        }
+
+        const audits = (verification?.auditors || []).filter((a: any) => a.status === 'completed');
+        if (audits.length > 0) {
+            pdf.text('THIRD-PARTY AUDITS', left, (y += 28), { size: 8, bold: true, gray: 0.45 });
+            for (const a of audits.slice(-3)) {
+                pdf.text(`${day(a.date)}  ${a.organization} (${a.accreditation}): ${a.result === 'pass' ? 'PASSED' : 'FAILED'}`, left, (y += 13), { size: 8 });
+            }
+        }
+
+        const amendments = verification?.amendments || [];
+        if (amendments.length > 0) {
+            pdf.text('AMENDMENTS', left, (y += 28), { size: 8, bold: true, gray: 0.45 });
+            for (const a of amendments.slice(-6)) {
+                pdf.text(`${day(a.at)}  ${a.field}: ${a.from} -> ${a.to}${a.reason ? ` (${a.reason})` : ''}`, left, (y += 13), { size: 8 });
+            }
+        }
+
+        if (passport.hazardous?.manifestNumber) {
+            pdf.text(`Hazardous waste (${passport.hazardous.category}) moved on manifest ${passport.hazardous.manifestNumber}`, left, (y += 26), { size: 9 });
+        }
+
+        // Footer: where and how to verify
+        const footer = A4.height - 90;
+        pdf.line(left, footer, right, footer);
+        pdf.text(`Verify online: ${this.verifyUrl(passport)}`, left, footer + 18, { size: 9, bold: true });
+        const entry = await PassportLedgerEntry.findOne({ passportId: passport._id }).sort({ sequence: -1 }).select('sequence entryHash');
+        if (entry) {
+            pdf.text(`Ledger entry #${entry.sequence}  ${entry.entryHash}`, left, footer + 32, { size: 7, gray: 0.4 });
+        }
+        if (passport.blockchain?.merkleRoot) {
+            pdf.text(`Anchor #${passport.blockchain.blockNumber}  root ${passport.blockchain.merkleRoot}`, left, footer + 43, { size: 7, gray: 0.4 });
+        }
+        pdf.text('Issued by EcoExchange from the recorded exchange. Figures follow the methodology above.', left, footer + 60, { size: 7, gray: 0.4 });
+
+        return pdf.toBuffer();
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private async write(passport: ProductPassportDocument): Promise<Buffer> {
+        const buffer = await this.render(passport);
+        const filePath = passport.certificate?.filePath
+            || path.join(env.CERTIFICATE_DIR, passport.createdAt.toISOString().slice(0, 7), `${passport.passportNumber}.pdf`);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, buffer);
+
+        // Without touching updatedAt, which is what staleness is measured against
+        const certificate = { filePath, generatedAt: new Date() };
+        await ProductPassport.updateOne({ _id: passport._id }, { $set: { certificate } }, { timestamps: false });
+        passport.set('certificate', certificate);
+        return buffer;
+    }
+
+    /**
+     * QR code on a white square, one box per horizontal run of dark modules.
+     */
+    private drawQr(pdf: PdfDocument, matrix: QrMatrix, x: number, y: number, size: number): void {
+        const quiet = 2;
+        const module = size / (matrix.length + quiet * 2);
+        pdf.box(x, y, size, size, 1);
+        matrix.forEach((row, r) => {
+            for (let c = 0; c < row.length; c++) {
+                if (!row[c]) continue;
+                let end = c;
+                while (end + 1 < row.length && row[end + 1]) end++;
+                pdf.box(x + (c + quiet) * module, y + (r + quiet) * module, (end - c + 1) * module, module, 0);
+                c = end;
+            }
+        });
+    }
+}
+
+export const certificateService = new CertificateService();
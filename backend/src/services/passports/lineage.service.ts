@@ -0,0 +1,287 @@
+import { ProductPassport, ProductPassportDocument } from '../../models/ProductPassport';
+import { WasteListingDocument } from '../../models/WasteListing';
+import { impactCalculator } from '../impact/calculator';
+import { HttpError } from '../../utils/errors';
+
+// Largest connected lineage returned by one graph request
+const MAX_NODES = 200;
+
+const NODE_FIELDS = 'passportNumber origin destination journey impact verification.status lineage';
+
+export interface ProcessingStep {
+    facility: string;
+    process: string;
+    date?: Date | string;
+    inputQuantity?: number;
+    outputQuantity?: number;
+    yieldPct?: number;
+    emissionsKg?: number;
+}
+
+interface LineageNode {
+    id: string;
+    passportNumber: string;
+    status: string;
+    generation: number;
+    material: string;
+    quantityKg: number;
+    origin: string;
+    destination: string;
+    date: Date;
+    transportEmissionsKg: number;
+    processingEmissionsKg: number;
+    processing: ProcessingStep[];
+    impact: { co2SavedKg: number; waterSavedLiters: number; energySavedKwh: number; landfillAvoidedM3: number };
+    retainedKg: number;
+    creditedShare: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LINEAGE — material passes seller → aggregator → recycler → maker.
+// A buyer relisting received material names the passports it arrived
+// under; the next passport points back at them and carries the
+// processing done in between. Cumulative impact credits each lot only
+// for the material that did not flow on into a later passport, so the
+// same tonne is never counted twice.
+// ═══════════════════════════════════════════════════════════════
+
+export class LineageService {
+    /**
+     * Check that a company may relist under these passports and fill in
+     * each processing step's yield. Throws when a passport is unknown,
+     * was received by someone else, or has been revoked.
+     */
+    async prepareProvenance(companyId: string, provenance: { parentPassportIds: string[]; processing?: ProcessingStep[] }) {
+        const ids = [...new Set(provenance.parentPassportIds.map(String))];
+        const parents = await ProductPassport.find({ _id: { $in: ids } }).select('passportNumber destination.companyId verification.status');
+
+        for (const id of ids) {
+            const parent = parents.find((p) => p._id.toString() === id);
+            if (!parent) {
+                throw new HttpError(404, `Source passport ${id} not found`);
+            }
+            if (parent.destination?.companyId?.toString() !== companyId.toString()) {
+                throw new HttpError(403, `Passport ${parent.passportNumber} was not issued to your company`);
+            }
+            if (parent.verification?.status === 'revoked') {
+                throw new HttpError(409, `Passport ${parent.passportNumber} has been revoked`);
+            }
+        }
+
+        const processing = (provenance.processing || []).map((step) => {
+            if (step.inputQuantity && step.outputQuantity && step.outputQuantity > step.inputQuantity) {
+                throw new HttpError(400, `Processing step "${step.process}" yields more than its input`);
+            }
+            return {
+                ...step,
+                yieldPct: step.yieldPct ?? (step.inputQuantity && step.outputQuantity
+                    ? this.round(step.outputQuantity / step.inputQuantity * 100)
+                    : undefined),
+            };
+        });
+
+        return { parentPassportIds: ids, processing };
+    }
+
+    /**
+     * Lineage and processing for the passport issued when a relisted
+     * listing completes — null for virgin waste.
+     */
+    async forListing(listing: WasteListingDocument) {
+        const ids = listing.provenance?.parentPassportIds || [];
+        if (ids.length === 0) return null;
+
+        const parents = await ProductPassport.find({ _id: { $in: ids } }).select('passportNumber lineage.depth');
+        return {
+            lineage: {
+                parentPassportIds: parents.map((p) => p._id),
+                parentPassportNumbers: parents.map((p) => p.passportNumber),
+                depth: 1 + Math.max(0, ...parents.map((p) => p.lineage?.depth || 0)),
+            },
+            processing: (listing.provenance.processing || []).map((step: any) => step.toObject?.() || step),
+        };
+    }
+
+    /**
+     * Every passport connected to this one through relisting — ancestors,
+     * descendants and their other branches — with the cumulative impact
+     * of the whole chain.
+     */
+    async graph(passport: ProductPassportDocument) {
+        const docs = new Map<string, any>([[passport._id.toString(), passport]]);
+        let frontier = [passport];
+        let truncated = false;
+
+        while (frontier.length > 0) {
+            const parentIds = frontier
+                .flatMap((p) => (p.lineage?.parentPassportIds || []).map(String))
+                .filter((id) => !docs.has(id));
+            const [parents, children] = await Promise.all([
+                parentIds.length ? ProductPassport.find({ _id: { $in: parentIds } }).select(NODE_FIELDS) : [],
+                ProductPassport.find({
+                    'lineage.parentPassportIds': { $in: frontier.map((p) => p._id) },
+                    _id: { $nin: [...docs.keys()] },
+                }).select(NODE_FIELDS),
+            ]);
+
+            frontier = [];
+            for (const doc of [...parents, ...children]) {
+                const id = doc._id.toString();
+                if (docs.has(id)) continue;
+                if (docs.size >= MAX_NODES) {
+                    truncated = true;
+                    break;
+                }
+                docs.set(id, doc);
+                frontier.push(doc);
+            }
+        }
+
+        const edges = [...docs.values()].flatMap((child) => (child.lineage?.parentPassportIds || [])
+            .map(String)
+            .filter((parentId: string) => docs.has(parentId))
+            .map((parentId: string) => ({ from: parentId, to: child._id.toString(), quantityKg: 0 })));
+
+        const nodes = new Map<string, LineageNode>();
+        for (const [id, doc] of docs) nodes.set(id, this.node(doc));
+        this.layer(nodes, edges);
+        this.allocate(nodes, edges);
+
+        return {
+            passportId: passport._id,
+            nodes: [...nodes.values()].sort((a, b) => a.generation - b.generation || +new Date(a.date) - +new Date(b.date)),
+            edges,
+            cumulative: this.cumulative([...nodes.values()]),
+            truncated,
+        };
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private node(doc: any): LineageNode {
+        const processing: ProcessingStep[] = (doc.journey?.processing || []).map((step: any) => ({
+            facility: step.facility,
+            process: step.process,
+            date: step.date,
+            inputQuantity: step.inputQuantity,
+            outputQuantity: step.outputQuantity,
+            yieldPct: step.yieldPct,
+            emissionsKg: step.emissionsKg || 0,
+        }));
+        const quantityKg = doc.origin?.quantityKg
+            ?? impactCalculator.normalizeToKg(doc.origin?.quantity || 0, doc.origin?.unit || 'kg', doc.origin?.materialType);
+
+        return {
+            id: doc._id.toString(),
+            passportNumber: doc.passportNumber,
+            status: doc.verification?.status || 'pending',
+            generation: 0,
+            material: doc.origin?.materialType,
+            quantityKg,
+            origin: doc.origin?.companyName,
+            destination: doc.destination?.companyName,
+            date: doc.destination?.date || doc.origin?.date,
+            transportEmissionsKg: doc.journey?.transport?.emissionsKg || 0,
+            processingEmissionsKg: this.round(processing.reduce((sum, s) => sum + (s.emissionsKg || 0), 0)),
+            processing,
+            impact: {
+                co2SavedKg: doc.impact?.co2SavedVsVirgin || 0,
+                waterSavedLiters: doc.impact?.waterSavedLiters || 0,
+                energySavedKwh: doc.impact?.energySavedKwh || 0,
+                landfillAvoidedM3: doc.impact?.landfillAvoidedM3 || 0,
+            },
+            retainedKg: quantityKg,
+            creditedShare: 1,
+        };
+    }
+
+    /**
+     * Generation of each node — 0 for the earliest lots in the graph, one
+     * past its latest parent otherwise — so the lineage draws left to right.
+     */
+    private layer(nodes: Map<string, LineageNode>, edges: Array<{ from: string; to: string }>) {
+        const pending = new Map([...nodes.keys()].map((id) => [id, edges.filter((e) => e.to === id).length]));
+        let ready = [...pending.entries()].filter(([, count]) => count === 0).map(([id]) => id);
+
+        while (ready.length > 0) {
+            const next: string[] = [];
+            for (const id of ready) {
+                for (const edge of edges.filter((e) => e.from === id)) {
+                    const child = nodes.get(edge.to)!;
+                    child.generation = Math.max(child.generation, nodes.get(id)!.generation + 1);
+                    pending.set(edge.to, pending.get(edge.to)! - 1);
+                    if (pending.get(edge.to) === 0) next.push(edge.to);
+                }
+            }
+            ready = next;
+        }
+    }
+
+    /**
+     * A relisted lot drew its output ÷ yield from its parents, split by
+     * their size and capped at what each one had. Whatever a lot kept is
+     * the share of its own impact it is credited with.
+     */
+    private allocate(nodes: Map<string, LineageNode>, edges: Array<{ from: string; to: string; quantityKg: number }>) {
+        for (const child of nodes.values()) {
+            const incoming = edges.filter((e) => e.to === child.id);
+            if (incoming.length === 0) continue;
+
+            const yieldFactor = child.processing.reduce((factor, step) => (step.yieldPct && step.yieldPct > 0 ? factor * step.yieldPct / 100 : factor), 1);
+            const inputKg = child.quantityKg / yieldFactor;
+            const parentKg = incoming.reduce((sum, e) => sum + nodes.get(e.from)!.quantityKg, 0);
+
+            for (const edge of incoming) {
+                const parent = nodes.get(edge.from)!;
+                const drawn = parentKg > 0 ? inputKg * parent.quantityKg / parentKg : 0;
+                edge.quantityKg = this.round(Math.min(drawn, parent.quantityKg));
+            }
+        }
+
+        for (const node of nodes.values()) {
+            const outflow = edges.filter((e) => e.from === node.id).reduce((sum, e) => sum + e.quantityKg, 0);
+            node.retainedKg = this.round(Math.max(0, node.quantityKg - outflow));
+            node.creditedShare = node.status === 'revoked'
+                ? 0
+                : node.quantityKg > 0 ? this.round(node.retainedKg / node.quantityKg, 4) : 1;
+        }
+    }
+
+    /**
+     * Savings credited per retained share, less every transport leg and
+     * processing step in the chain. The naive sum of each passport's own
+     * figure is returned alongside to show what was not double counted.
+     */
+    private cumulative(nodes: LineageNode[]) {
+        const credited = (metric: keyof LineageNode['impact']) =>
+            this.round(nodes.reduce((sum, n) => sum + n.impact[metric] * n.creditedShare, 0));
+        const live = nodes.filter((n) => n.status !== 'revoked');
+
+        const co2SavedKg = credited('co2SavedKg');
+        const transportEmissionsKg = this.round(live.reduce((sum, n) => sum + n.transportEmissionsKg, 0));
+        const processingEmissionsKg = this.round(live.reduce((sum, n) => sum + n.processingEmissionsKg, 0));
+        const naiveCo2SavedKg = this.round(live.reduce((sum, n) => sum + n.impact.co2SavedKg, 0));
+
+        return {
+            passports: nodes.length,
+            co2SavedKg,
+            waterSavedLiters: credited('waterSavedLiters'),
+            energySavedKwh: credited('energySavedKwh'),
+            landfillAvoidedM3: credited('landfillAvoidedM3'),
+            transportEmissionsKg,
+            processingEmissionsKg,
+            netCo2SavedKg: this.round(co2SavedKg - transportEmissionsKg - processingEmissionsKg),
+            naiveCo2SavedKg,
+            doubleCountAvoidedKg: this.round(naiveCo2SavedKg - co2SavedKg),
+        };
+    }
+
+    private round(value: number, places = 2): number {
+        const factor = 10 ** places;
+        return Math.round(value * factor) / factor;
+    }
+}
+
+export const lineageService = new LineageService();
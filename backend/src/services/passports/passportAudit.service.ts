@@ -0,0 +1,251 @@
+import mongoose from 'mongoose';
+import { Auditor, AuditorDocument } from '../../models/Auditor';
+import { Dispute } from '../../models/Dispute';
+import { Match } from '../../models/Match';
+import { Membership } from '../../models/Membership';
+import { User } from '../../models/User';
+import { ProductPassport, ProductPassportDocument } from '../../models/ProductPassport';
+import { passportLedgerService } from './passportLedger.service';
+import { AuthUser } from '../../types';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export type AuditResult = 'pass' | 'fail';
+
+// The signed-in person reviewing, resolved from the stored user
+export interface AuditReviewer {
+    auditor: AuditorDocument;
+    email: string;
+    companyIds: string[];   // companies the reviewer is a member of
+}
+
+export interface AuditEvidence {
+    type: string;
+    name: string;
+    url: string;
+    sha256: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PASSPORT AUDITS — passports are issued pending. An accredited
+// auditor opens a review, attaches evidence (by SHA-256, so the public
+// record proves which documents were relied on) and records a verdict:
+// pass verifies the passport, fail flags it as disputed. Platform admins
+// can revoke a passport outright; its exchange then stops counting
+// towards either company's impact totals. Every step is sealed into the
+// passport ledger.
+// ═══════════════════════════════════════════════════════════════
+
+export class PassportAuditService {
+    /**
+     * The active, accredited auditor a signed-in user reviews for. Matched on
+     * the email stored on the user, and only for signature-verified sessions.
+     */
+    async auditorFor(user?: AuthUser): Promise<AuditReviewer> {
+        const stored = user?.verified && mongoose.isValidObjectId(user.userId)
+            ? await User.findById(user.userId).select('email status')
+            : null;
+        const auditor = stored && stored.status !== 'disabled'
+            ? await Auditor.findOne({ emails: stored.email.toLowerCase(), active: true })
+            : null;
+        if (!stored || !auditor) {
+            throw new HttpError(403, 'Accredited auditor access required');
+        }
+        if (auditor.accreditation?.validUntil && auditor.accreditation.validUntil < new Date()) {
+            throw new HttpError(403, `${auditor.organization}'s accreditation expired on ${auditor.accreditation.validUntil.toISOString().slice(0, 10)}`);
+        }
+
+        const memberships = await Membership.find({ userId: stored._id, status: 'active' }).select('companyId').lean();
+        return {
+            auditor,
+            email: stored.email,
+            companyIds: memberships.map((m) => m.companyId.toString()),
+        };
+    }
+
+    /**
+     * Passports awaiting an audit verdict, oldest first.
+     */
+    async queue(reviewer: AuditReviewer, page = 1, limit = 25) {
+        const { auditor } = reviewer;
+        const filter = {
+            'verification.status': { $in: ['pending', 'disputed'] },
+            // Never the reviewer's own deals
+            'origin.companyId': { $nin: reviewer.companyIds },
+            'destination.companyId': { $nin: reviewer.companyIds },
+            // Unclaimed, or under review by this auditor
+            $or: [
+                { 'verification.auditors': { $not: { $elemMatch: { status: 'in_review' } } } },
+                { 'verification.auditors': { $elemMatch: { auditorId: auditor._id, status: 'in_review' } } },
+            ],
+        };
+        const pageLimit = Math.min(limit, 100);
+
+        const [items, total] = await Promise.all([
+            ProductPassport.find(filter)
+                .select('passportNumber origin destination impact verification.status verification.auditors createdAt')
+                .sort({ createdAt: 1 })
+                .skip((page - 1) * pageLimit)
+                .limit(pageLimit)
+                .lean(),
+            ProductPassport.countDocuments(filter),
+        ]);
+
+        return { items, pagination: { page, limit: pageLimit, total, pages: Math.ceil(total / pageLimit) } };
+    }
+
+    async open(passport: ProductPassportDocument, reviewer: AuditReviewer, scope?: string) {
+        const { auditor } = reviewer;
+        this.assertIndependent(passport, reviewer);
+        if (passport.verification?.status === 'revoked') {
+            throw new HttpError(409, 'A revoked passport cannot be audited');
+        }
+        const current = (passport.verification.auditors || []).find((a: any) => a.status === 'in_review');
+        if (current) {
+            throw new HttpError(409, current.auditorId?.toString() === auditor._id.toString()
+                ? 'Your organisation already has this passport under review'
+                : `This passport is under review by ${current.organization}`);
+        }
+
+        passport.verification.auditors.push({
+            auditorId: auditor._id,
+            organization: auditor.organization,
+            accreditation: `${auditor.accreditation.body} ${auditor.accreditation.number}`,
+            reviewerEmail: reviewer.email,
+            status: 'in_review',
+            startedAt: new Date(),
+            scope,
+        });
+        await passport.save();
+        await passportLedgerService.record(passport, 'audit');
+
+        logger.info(`🔎 Audit of passport ${passport.passportNumber} opened by ${auditor.organization}`);
+        return passport.verification.auditors[passport.verification.auditors.length - 1];
+    }
+
+    async attachEvidence(passport: ProductPassportDocument, auditId: string, reviewer: AuditReviewer, evidence: AuditEvidence) {
+        const audit = this.ownOpenAudit(passport, auditId, reviewer);
+
+        const hash = evidence.sha256.toLowerCase();
+        if ((passport.verification.documents || []).some((d: any) => d.auditId?.toString() === audit._id.toString() && d.hash === hash)) {
+            throw new HttpError(409, 'This document is already attached to the audit');
+        }
+
+        passport.verification.documents.push({
+            type: evidence.type,
+            name: evidence.name,
+            url: evidence.url,
+            hash,
+            auditId: audit._id,
+            addedBy: reviewer.email,
+            addedAt: new Date(),
+        });
+        await passport.save();
+        await passportLedgerService.record(passport, 'audit');
+        return passport.verification.documents[passport.verification.documents.length - 1];
+    }
+
+    /**
+     * Close an audit. The passport follows the verdict unless it is
+     * frozen by an open dispute, in which case the ruling settles it.
+     */
+    async verdict(passport: ProductPassportDocument, auditId: string, reviewer: AuditReviewer, result: AuditResult, findings: string) {
+        const { auditor } = reviewer;
+        const audit = this.ownOpenAudit(passport, auditId, reviewer);
+
+        const evidence = (passport.verification.documents || []).filter((d: any) => d.auditId?.toString() === audit._id.toString());
+        if (evidence.length === 0) {
+            throw new HttpError(422, 'Attach at least one evidence document before recording a verdict');
+        }
+
+        audit.status = 'completed';
+        audit.result = result;
+        audit.findings = findings;
+        audit.date = new Date();
+
+        const disputed = await Dispute.exists({ matchId: passport.matchId, status: { $in: ['open', 'responded'] } });
+        if (!disputed) {
+            passport.verification.status = result === 'pass' ? 'verified' : 'disputed';
+        }
+        await passport.save();
+        await passportLedgerService.record(passport, 'status');
+
+        logger.info(`🔎 Audit of passport ${passport.passportNumber} by ${auditor.organization}: ${result}`);
+        return audit;
+    }
+
+    /**
+     * Platform admin revocation. The exchange's impact is excluded from
+     * both companies' totals from here on.
+     */
+    async revoke(passportId: any, reason: string, revokedBy?: string): Promise<ProductPassportDocument> {
+        const passport = await ProductPassport.findById(passportId);
+        if (!passport) {
+            throw new HttpError(404, 'Product passport not found');
+        }
+        if (passport.verification?.status === 'revoked') {
+            throw new HttpError(409, `Passport ${passport.passportNumber} is already revoked`);
+        }
+
+        const revokedAt = new Date();
+        passport.set('verification.status', 'revoked');
+        passport.set('verification.revokedAt', revokedAt);
+        passport.set('verification.revocationReason', reason);
+        passport.set('verification.revokedBy', revokedBy);
+        await passport.save();
+
+        await Match.updateOne({ _id: passport.matchId }, { $set: { 'actualImpact.revokedAt': revokedAt } });
+        await passportLedgerService.record(passport, 'status');
+
+        logger.info(`⛔ Passport ${passport.passportNumber} revoked: ${reason}`);
+        return passport;
+    }
+
+    /**
+     * Status a passport returns to once nothing else holds it — the latest
+     * audit verdict, or pending when it has never been audited.
+     */
+    settledStatus(passport: ProductPassportDocument): 'pending' | 'verified' | 'disputed' {
+        const completed = (passport.verification?.auditors || []).filter((a: any) => a.status === 'completed');
+        const latest = completed[completed.length - 1];
+        if (!latest) return 'pending';
+        return latest.result === 'pass' ? 'verified' : 'disputed';
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    /**
+     * Members of the selling or buying company cannot audit their own deal.
+     */
+    private assertIndependent(passport: ProductPassportDocument, reviewer: AuditReviewer): void {
+        const parties = [passport.origin?.companyId, passport.destination?.companyId]
+            .filter(Boolean)
+            .map((id: any) => (id._id || id).toString());
+        if (parties.some((id) => reviewer.companyIds.includes(id))) {
+            throw new HttpError(403, 'You cannot audit a passport for a deal your own company is part of');
+        }
+    }
+
+    private ownOpenAudit(passport: ProductPassportDocument, auditId: string, reviewer: AuditReviewer): any {
+        const { auditor } = reviewer;
+        this.assertIndependent(passport, reviewer);
+        const audit = passport.verification?.auditors?.id(auditId);
+        if (!audit) {
+            throw new HttpError(404, 'Audit not found');
+        }
+        if (audit.auditorId?.toString() !== auditor._id.toString()) {
+            throw new HttpError(403, `This audit belongs to ${audit.organization}`);
+        }
+        if (audit.status !== 'in_review') {
+            throw new HttpError(409, 'This audit already has a verdict');
+        }
+        if (passport.verification.status === 'revoked') {
+            throw new HttpError(409, 'This passport has been revoked');
+        }
+        return audit;
+    }
+}
+
+export const passportAuditService = new PassportAuditService();
@@ -0,0 +1,330 @@
+import {
+    PassportAnchor,
+    PassportAnchorDocument,
+    PassportLedgerEntry,
+    PassportLedgerEntryDocument,
+    PassportLedgerEntryType,
+} from '../../models/PassportLedger';
+import { ProductPassport, ProductPassportDocument } from '../../models/ProductPassport';
+import { canonicalize, sha256 } from '../../utils/canonical';
+import { merkleProof, merkleRoot } from '../../utils/merkle';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { passportSigner } from './signer';
+
+const GENESIS_HASH = '0'.repeat(64);
+// Retries when another request appends the same sequence number first
+const MAX_APPEND_ATTEMPTS = 5;
+const MAX_ANCHOR_LEAVES = 1000;
+const BACKFILL_BATCH = 200;
+
+// How a third party checks a proof, returned with every proof
+const PROOF_ALGORITHM = {
+    canonicalization: 'JSON with object keys sorted, no whitespace, undefined omitted, dates as ISO-8601',
+    recordHash: 'sha256(canonical(record)), hex',
+    entryHash: 'sha256(canonical({ sequence, type, passportNumber, recordHash, previousHash, recordedAt })), hex',
+    merkle: 'parent = sha256(leftHex + rightHex); a node without a sibling is carried up unchanged; leaves are entryHash',
+    anchorHash: 'sha256(canonical({ number, fromSequence, toSequence, leafCount, merkleRoot, previousAnchorHash, anchoredAt })), hex',
+    signature: 'Ed25519 over the UTF-8 bytes of the hex hash, base64',
+};
+
+// ═══════════════════════════════════════════════════════════════
+// PASSPORT LEDGER — every issued or amended passport is canonicalised,
+// hashed and appended to a single hash chain, each entry signed with the
+// platform key. Runs of entries are sealed into signed Merkle roots that
+// are themselves chained, and the passports point at their latest root.
+// A proof carries everything needed to check a passport offline.
+// ═══════════════════════════════════════════════════════════════
+
+export class PassportLedgerService {
+    /**
+     * Append the passport's current public record to the chain. A no-op
+     * when the record is unchanged since its last entry.
+     */
+    async record(passportOrId: ProductPassportDocument | any, type: PassportLedgerEntryType): Promise<PassportLedgerEntryDocument> {
+        const passport: ProductPassportDocument | null = passportOrId?.passportNumber
+            ? passportOrId
+            : await ProductPassport.findById(passportOrId);
+        if (!passport) {
+            throw new HttpError(404, 'Passport not found');
+        }
+
+        const recordHash = sha256(canonicalize(this.publicRecord(passport)));
+        const latest = await PassportLedgerEntry.findOne({ passportId: passport._id }).sort({ sequence: -1 });
+        if (latest?.recordHash === recordHash) return latest;
+
+        for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+            const head = await PassportLedgerEntry.findOne().sort({ sequence: -1 }).select('sequence entryHash');
+            const body = {
+                sequence: (head?.sequence || 0) + 1,
+                type,
+                passportNumber: passport.passportNumber,
+                recordHash,
+                previousHash: head?.entryHash || GENESIS_HASH,
+                recordedAt: new Date(),
+            };
+            const entryHash = sha256(canonicalize(body));
+
+            try {
+                const entry = await PassportLedgerEntry.create({
+                    ...body,
+                    passportId: passport._id,
+                    entryHash,
+                    signature: passportSigner.sign(entryHash),
+                    keyId: passportSigner.keyId,
+                });
+                await ProductPassport.updateOne({ _id: passport._id }, { $set: { 'blockchain.ledgerSequence': entry.sequence } });
+                passport.set('blockchain.ledgerSequence', entry.sequence);
+
+                logger.info(`🔗 Passport ledger #${entry.sequence}: ${type} ${passport.passportNumber}`);
+                return entry;
+            } catch (error: any) {
+                if (error?.code !== 11000) throw error;
+            }
+        }
+        throw new Error(`Passport ledger busy — ${type} entry for ${passport.passportNumber} not appended`);
+    }
+
+    /**
+     * Seal every entry not yet anchored under one signed Merkle root and
+     * point the passports involved at it. Passports that never made it
+     * onto the chain are recorded first.
+     */
+    async anchor(): Promise<PassportAnchorDocument | null> {
+        await this.backfill();
+
+        const entries = await PassportLedgerEntry.find({ anchorId: { $exists: false } })
+            .sort({ sequence: 1 })
+            .limit(MAX_ANCHOR_LEAVES);
+        if (entries.length === 0) return null;
+
+        const lastAnchored = await PassportLedgerEntry.findOne({ sequence: entries[0].sequence - 1 }).select('entryHash');
+        this.assertChain(entries, lastAnchored?.entryHash || GENESIS_HASH);
+
+        const previous = await PassportAnchor.findOne().sort({ number: -1 }).select('number anchorHash');
+        const header = {
+            number: (previous?.number || 0) + 1,
+            fromSequence: entries[0].sequence,
+            toSequence: entries[entries.length - 1].sequence,
+            leafCount: entries.length,
+            merkleRoot: merkleRoot(entries.map((e) => e.entryHash)),
+            previousAnchorHash: previous?.anchorHash || GENESIS_HASH,
+            anchoredAt: new Date(),
+        };
+        const anchorHash = sha256(canonicalize(header));
+        const anchor = await PassportAnchor.create({
+            ...header,
+            anchorHash,
+            signature: passportSigner.sign(anchorHash),
+            keyId: passportSigner.keyId,
+        });
+
+        await PassportLedgerEntry.bulkWrite(entries.map((entry, leafIndex) => ({
+            updateOne: { filter: { _id: entry._id }, update: { $set: { anchorId: anchor._id, leafIndex } } },
+        })));
+        await ProductPassport.updateMany(
+            { _id: { $in: [...new Set(entries.map((e) => e.passportId.toString()))] } },
+            {
+                $set: {
+                    'blockchain.network': 'local',
+                    'blockchain.transactionHash': anchorHash,
+                    'blockchain.blockNumber': anchor.number,
+                    'blockchain.merkleRoot': anchor.merkleRoot,
+                    'blockchain.anchorTimestamp': anchor.anchoredAt,
+                },
+            }
+        );
+
+        logger.info(`🌳 Passport ledger anchor #${anchor.number}: entries ${anchor.fromSequence}–${anchor.toSequence}, root ${anchor.merkleRoot.slice(0, 12)}…`);
+        return anchor;
+    }
+
+    /**
+     * Everything a third party needs to check the passport offline: the
+     * record that was hashed, its signed chain entry, the Merkle path to
+     * the signed anchor and the public key. `intact` is false when the
+     * stored passport no longer matches its latest entry.
+     */
+    async proof(passport: ProductPassportDocument) {
+        const entries = await PassportLedgerEntry.find({ passportId: passport._id }).sort({ sequence: 1 });
+        const entry = entries[entries.length - 1];
+        if (!entry) return null;
+
+        const record = JSON.parse(canonicalize(this.publicRecord(passport)));
+        const recordHash = sha256(canonicalize(record));
+
+        let anchor = null;
+        if (entry.anchorId) {
+            const [sealed, leaves] = await Promise.all([
+                PassportAnchor.findById(entry.anchorId),
+                PassportLedgerEntry.find({ anchorId: entry.anchorId }).sort({ sequence: 1 }).select('entryHash'),
+            ]);
+            if (sealed) {
+                anchor = {
+                    number: sealed.number,
+                    fromSequence: sealed.fromSequence,
+                    toSequence: sealed.toSequence,
+                    leafCount: sealed.leafCount,
+                    merkleRoot: sealed.merkleRoot,
+                    previousAnchorHash: sealed.previousAnchorHash,
+                    anchoredAt: sealed.anchoredAt.toISOString(),
+                    anchorHash: sealed.anchorHash,
+                    signature: sealed.signature,
+                    keyId: sealed.keyId,
+                    leafIndex: entry.leafIndex,
+                    merklePath: merkleProof(leaves.map((l) => l.entryHash), entry.leafIndex ?? 0),
+                };
+            }
+        }
+
+        return {
+            algorithm: PROOF_ALGORITHM,
+            publicKey: { keyId: passportSigner.keyId, type: 'Ed25519', pem: passportSigner.publicKeyPem },
+            intact: recordHash === entry.recordHash,
+            record,
+            recordHash,
+            entry: {
+                sequence: entry.sequence,
+                type: entry.type,
+                passportNumber: entry.passportNumber,
+                recordHash: entry.recordHash,
+                previousHash: entry.previousHash,
+                recordedAt: entry.recordedAt.toISOString(),
+                entryHash: entry.entryHash,
+                signature: entry.signature,
+                keyId: entry.keyId,
+            },
+            anchor,
+            history: entries.map((e) => ({ sequence: e.sequence, type: e.type, recordedAt: e.recordedAt, entryHash: e.entryHash })),
+        };
+    }
+
+    /**
+     * The passport fields covered by the ledger — what public verification
+     * shows. Internal IDs and links to private documents stay out.
+     */
+    publicRecord(passport: ProductPassportDocument) {
+        return {
+            passportNumber: passport.passportNumber,
+            status: passport.verification?.status,
+            origin: {
+                company: passport.origin?.companyName,
+                material: passport.origin?.materialType,
+                quantity: passport.origin?.quantity,
+                unit: passport.origin?.unit,
+                quantityKg: passport.origin?.quantityKg,
+                date: passport.origin?.date,
+            },
+            destination: {
+                company: passport.destination?.companyName,
+                application: passport.destination?.application,
+                date: passport.destination?.date,
+            },
+            journey: {
+                transportMode: passport.journey?.transport?.mode,
+                distanceKm: passport.journey?.transport?.distanceKm,
+                emissionsKg: passport.journey?.transport?.emissionsKg,
+                tracking: passport.journey?.transport?.trackingEvents?.length
+                    ? passport.journey.transport.trackingEvents.map((event: any) => ({
+                        status: event.status,
+                        timestamp: event.timestamp,
+                        location: event.location?.length ? event.location : undefined,
+                    }))
+                    : undefined,
+            },
+            // Left out for first-hand material so earlier records hash as before
+            lineage: passport.lineage?.parentPassportNumbers?.length
+                ? { parents: passport.lineage.parentPassportNumbers, depth: passport.lineage.depth }
+                : undefined,
+            processing: passport.journey?.processing?.length
+                ? passport.journey.processing.map((step: any) => ({
+                    facility: step.facility,
+                    process: step.process,
+                    date: step.date,
+                    inputQuantity: step.inputQuantity,
+                    outputQuantity: step.outputQuantity,
+                    yieldPct: step.yieldPct,
+                    emissionsKg: step.emissionsKg,
+                }))
+                : undefined,
+            // Audit trail — evidence by name and hash only, the documents may be private
+            audits: passport.verification?.auditors?.length
+                ? passport.verification.auditors.map((a: any) => ({
+                    organization: a.organization,
+                    accreditation: a.accreditation,
+                    status: a.status,
+                    scope: a.scope,
+                    startedAt: a.startedAt,
+                    result: a.result,
+                    findings: a.findings,
+                    concludedAt: a.date,
+                    evidence: (passport.verification.documents || [])
+                        .filter((d: any) => d.auditId?.toString() === a._id?.toString())
+                        .map((d: any) => ({ type: d.type, name: d.name, sha256: d.hash, addedAt: d.addedAt })),
+                }))
+                : undefined,
+            hazardous: passport.hazardous?.manifestNumber
+                ? { category: passport.hazardous.category, manifestNumber: passport.hazardous.manifestNumber }
+                : undefined,
+            impact: {
+                co2SavedKg: passport.impact?.co2SavedVsVirgin,
+                waterSavedLiters: passport.impact?.waterSavedLiters,
+                energySavedKwh: passport.impact?.energySavedKwh,
+                landfillAvoidedM3: passport.impact?.landfillAvoidedM3,
+                methodology: passport.impact?.methodology,
+            },
+            amendments: (passport.verification?.amendments || []).map((a: any) => ({
+                field: a.field,
+                from: a.from,
+                to: a.to,
+                reason: a.reason,
+                at: a.at,
+            })),
+            revokedAt: passport.verification?.revokedAt,
+        };
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    /**
+     * Issue entries for passports with none — issued before the ledger
+     * existed, or whose entry failed at completion.
+     */
+    private async backfill(): Promise<void> {
+        const passports = await ProductPassport.find({ 'blockchain.ledgerSequence': { $exists: false } })
+            .sort({ createdAt: 1 })
+            .limit(BACKFILL_BATCH);
+        for (const passport of passports) {
+            await this.record(passport, 'issue');
+        }
+    }
+
+    /**
+     * Refuse to seal a run of entries that has been edited since it was
+     * appended: each must hash to itself, carry a valid signature and link
+     * to the one before.
+     */
+    private assertChain(entries: PassportLedgerEntryDocument[], previousHash: string): void {
+        let expected = previousHash;
+        for (const entry of entries) {
+            const entryHash = sha256(canonicalize({
+                sequence: entry.sequence,
+                type: entry.type,
+                passportNumber: entry.passportNumber,
+                recordHash: entry.recordHash,
+                previousHash: entry.previousHash,
+                recordedAt: entry.recordedAt,
+            }));
+            // Entries signed with a retired key are checked by hash and link only
+            const badSignature = entry.keyId === passportSigner.keyId && !passportSigner.verify(entryHash, entry.signature);
+            if (entry.previousHash !== expected || entry.entryHash !== entryHash || badSignature) {
+                throw new Error(`Passport ledger broken at entry #${entry.sequence}`);
+            }
+            expected = entry.entryHash;
+        }
+    }
+}
+
+export const passportLedgerService = new PassportLedgerService();
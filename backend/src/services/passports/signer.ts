@@ -0,0 +1,66 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { env } from '../../config/env';
+import { sha256 } from '../../utils/canonical';
+import { logger } from '../../utils/logger';
+
+/**
+ * Platform signing key for the passport ledger. Loaded from
+ * PASSPORT_SIGNING_KEY, else from PASSPORT_KEY_FILE, else generated into
+ * that file on first use.
+ */
+export class PassportSigner {
+    private privateKey?: KeyObject;
+    private publicKey?: KeyObject;
+
+    get keyId(): string {
+        return sha256(this.publicKeyDer()).slice(0, 16);
+    }
+
+    get publicKeyPem(): string {
+        this.load();
+        return this.publicKey!.export({ type: 'spki', format: 'pem' }).toString();
+    }
+
+    /**
+     * Ed25519 signature over the UTF-8 bytes of `message`, base64.
+     */
+    sign(message: string): string {
+        this.load();
+        return crypto.sign(null, Buffer.from(message, 'utf8'), this.privateKey!).toString('base64');
+    }
+
+    verify(message: string, signature: string): boolean {
+        this.load();
+        return crypto.verify(null, Buffer.from(message, 'utf8'), this.publicKey!, Buffer.from(signature, 'base64'));
+    }
+
+    private publicKeyDer(): Buffer {
+        this.load();
+        return this.publicKey!.export({ type: 'spki', format: 'der' });
+    }
+
+    private load(): void {
+        if (this.privateKey) return;
+
+        if (env.PASSPORT_SIGNING_KEY) {
+            this.privateKey = crypto.createPrivateKey(env.PASSPORT_SIGNING_KEY.replace(/\\n/g, '\n'));
+        } else if (fs.existsSync(env.PASSPORT_KEY_FILE)) {
+            this.privateKey = crypto.createPrivateKey(fs.readFileSync(env.PASSPORT_KEY_FILE));
+        } else {
+            const { privateKey } = crypto.generateKeyPairSync('ed25519');
+            fs.mkdirSync(path.dirname(env.PASSPORT_KEY_FILE), { recursive: true });
+            fs.writeFileSync(env.PASSPORT_KEY_FILE, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+            this.privateKey = privateKey;
+            logger.warn(`🔑 Generated a new passport signing key in ${env.PASSPORT_KEY_FILE} — back it up`);
+        }
+
+        if (this.privateKey.asymmetricKeyType !== 'ed25519') {
+            throw new Error(`Passport signing key must be Ed25519, got ${this.privateKey.asymmetricKeyType}`);
+        }
+        this.publicKey = crypto.createPublicKey(this.privateKey);
+    }
+}
+
+export const passportSigner = new PassportSigner();
@@ -0,0 +1,52 @@
+import { env } from '../../config/env';
+
+export interface FeeTier {
+    /** Deal value (inclusive) from which this rate applies */
+    from: number;
+    percent: number;
+}
+
+export interface FeeQuote {
+    fee: number;
+    percent: number;
+    minimumApplied: boolean;
+}
+
+/**
+ * Parse a schedule like `0:3,100000:2.5` into tiers sorted by threshold.
+ * Throws on malformed input so a bad setting fails at startup.
+ */
+export function parseFeeSchedule(raw: string): FeeTier[] {
+    const tiers = raw.split(',').map((part) => {
+        const [from, percent] = part.split(':').map((v) => Number(v.trim()));
+        if (!Number.isFinite(from) || !Number.isFinite(percent) || from < 0 || percent < 0 || percent > 100) {
+            throw new Error(`Invalid PLATFORM_FEE_SCHEDULE entry "${part}"`);
+        }
+        return { from, percent };
+    });
+    if (tiers.length === 0) {
+        throw new Error('PLATFORM_FEE_SCHEDULE has no tiers');
+    }
+    return tiers.sort((a, b) => a.from - b.from);
+}
+
+export const FEE_SCHEDULE = parseFeeSchedule(env.PLATFORM_FEE_SCHEDULE);
+export const FEE_MINIMUM = Number(env.PLATFORM_FEE_MIN) || 0;
+
+/**
+ * Platform fee on a deal — the rate of the highest tier the deal reaches,
+ * never below the minimum and never more than the deal itself.
+ */
+export function quoteFee(dealValue: number, schedule: FeeTier[] = FEE_SCHEDULE, minimum: number = FEE_MINIMUM): FeeQuote {
+    if (dealValue <= 0) return { fee: 0, percent: 0, minimumApplied: false };
+
+    const tier = [...schedule].reverse().find((t) => dealValue >= t.from) || schedule[0];
+    const computed = Math.round(dealValue * tier.percent) / 100;
+    const fee = Math.min(dealValue, Math.max(computed, minimum));
+
+    return {
+        fee: Math.round(fee * 100) / 100,
+        percent: tier.percent,
+        minimumApplied: computed < minimum,
+    };
+}
@@ -0,0 +1,265 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '../../config/env';
+import { Company } from '../../models/Company';
+import { Invoice, InvoiceDocument, InvoiceSequence } from '../../models/Invoice';
+import { MatchDocument } from '../../models/Match';
+import { ProductPassport, ProductPassportDocument } from '../../models/ProductPassport';
+import { WasteListing } from '../../models/WasteListing';
+import { HSN_BY_CATEGORY, financialYearOf, isValidGstin, stateCodeOf } from '../../utils/gst';
+import { PdfDocument, A4 } from '../../utils/pdf';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════
+// GST INVOICING — each completed exchange gets a tax invoice from the
+// seller to the buyer, numbered per seller and financial year. Supply
+// within one state is taxed as CGST + SGST, across states as IGST.
+// The PDF is kept under INVOICE_DIR and rebuilt if the file goes missing.
+// ═══════════════════════════════════════════════════════════════
+
+export class InvoiceService {
+    /**
+     * The invoice for a completed match, issued on first call and linked
+     * from the match and its passport. The caller saves the match.
+     */
+    async issue(match: MatchDocument, passport?: ProductPassportDocument | null): Promise<InvoiceDocument> {
+        const existing = await Invoice.findOne({ matchId: match._id });
+        if (existing) return existing;
+
+        if (match.execution?.status !== 'completed') {
+            throw new HttpError(409, 'An invoice can only be issued for a completed exchange');
+        }
+        const terms = match.financials?.agreedTerms;
+        if (!terms?.totalPrice) {
+            throw new HttpError(422, 'This exchange has no invoiceable value');
+        }
+
+        const [seller, buyer, listing] = await Promise.all([
+            Company.findById(match.sellerId._id || match.sellerId).select('name gstin registrationNumber location'),
+            Company.findById(match.buyerId._id || match.buyerId).select('name gstin registrationNumber location'),
+            WasteListing.findById(match.wasteListingId._id || match.wasteListingId).select('material'),
+        ]);
+        if (!seller || !buyer) {
+            throw new HttpError(404, 'Seller or buyer no longer exists');
+        }
+
+        const sellerGstin = this.gstinOf(seller);
+        if (!sellerGstin) {
+            throw new HttpError(422, `${seller.name} has no GSTIN on file`);
+        }
+        const buyerGstin = this.gstinOf(buyer);
+        const sellerStateCode = stateCodeOf(sellerGstin, seller.location?.state);
+        const buyerStateCode = stateCodeOf(buyerGstin, buyer.location?.state);
+        if (!buyerStateCode) {
+            throw new HttpError(422, `Place of supply unknown — ${buyer.name} has no GSTIN or state on file`);
+        }
+
+        const category = listing?.material?.category || 'mixed';
+        const hsn = HSN_BY_CATEGORY[category] || HSN_BY_CATEGORY.mixed;
+        const taxableValue = this.round(terms.totalPrice);
+        const intraState = sellerStateCode === buyerStateCode;
+        const tax = this.round(taxableValue * hsn.gstRate / 100);
+        const cgst = intraState ? this.round(tax / 2) : 0;
+        const sgst = intraState ? this.round(tax - cgst) : 0;
+        const igst = intraState ? 0 : tax;
+
+        const issuedAt = new Date();
+        const financialYear = financialYearOf(issuedAt);
+        const sequence = await this.nextSequence(seller._id, financialYear);
+        const invoiceNumber = `INV/${financialYear.slice(2)}/${String(sequence).padStart(5, '0')}`;
+
+        const invoice = new Invoice({
+            invoiceNumber,
+            financialYear,
+            sequence,
+            matchId: match._id,
+            passportId: passport?._id || match.passportId,
+            seller: {
+                companyId: seller._id,
+                name: seller.name,
+                gstin: sellerGstin,
+                address: seller.location?.address,
+                state: seller.location?.state,
+                stateCode: sellerStateCode,
+            },
+            buyer: {
+                companyId: buyer._id,
+                name: buyer.name,
+                gstin: buyerGstin,
+                address: buyer.location?.address,
+                state: buyer.location?.state,
+                stateCode: buyerStateCode,
+            },
+            placeOfSupply: buyerStateCode,
+            intraState,
+            lines: [{
+                description: [hsn.description, listing?.material?.subType].filter(Boolean).join(' — '),
+                hsnCode: hsn.hsnCode,
+                quantity: terms.quantity,
+                unit: terms.unit,
+                rate: terms.pricePerUnit,
+                taxableValue,
+                gstRate: hsn.gstRate,
+            }],
+            taxableValue,
+            cgst,
+            sgst,
+            igst,
+            totalTax: tax,
+            grandTotal: this.round(taxableValue + tax),
+            currency: terms.currency || 'INR',
+            filePath: path.join(env.INVOICE_DIR, seller._id.toString(), financialYear, `${String(sequence).padStart(5, '0')}.pdf`),
+            issuedAt,
+        });
+
+        const passportNumber = passport?.passportNumber
+            || (await ProductPassport.findById(match.passportId).select('passportNumber'))?.passportNumber;
+        await this.write(invoice, passportNumber);
+        await invoice.save();
+
+        match.set('financials.invoiceUrl', `/api/matches/${match._id}/invoice`);
+        if (invoice.passportId) {
+            await ProductPassport.updateOne(
+                { _id: invoice.passportId },
+                { $set: { invoice: { invoiceId: invoice._id, invoiceNumber } } }
+            );
+            if (passport) passport.set('invoice', { invoiceId: invoice._id, invoiceNumber });
+        }
+
+        logger.info(`🧾 Invoice ${invoiceNumber} issued by ${seller.name} for match ${match._id}`);
+        return invoice;
+    }
+
+    /**
+     * The stored PDF, rebuilt from the invoice record if the file is gone.
+     */
+    async file(invoice: InvoiceDocument): Promise<Buffer> {
+        try {
+            return await fs.readFile(invoice.filePath);
+        } catch {
+            logger.warn(`⚠️ Invoice file ${invoice.filePath} missing — regenerating`);
+            const passport = invoice.passportId ? await ProductPassport.findById(invoice.passportId).select('passportNumber') : null;
+            return this.write(invoice, passport?.passportNumber);
+        }
+    }
+
+    render(invoice: InvoiceDocument, passportNumber?: string): Buffer {
+        const pdf = new PdfDocument();
+        const left = 40;
+        const right = A4.width - 40;
+        const money = (value: number) => value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+        pdf.text('TAX INVOICE', left, 60, { size: 18, bold: true });
+        pdf.text(`Invoice No. ${invoice.invoiceNumber}`, right, 52, { size: 10, bold: true, align: 'right' });
+        pdf.text(`Date ${invoice.issuedAt.toISOString().slice(0, 10)}`, right, 66, { size: 9, align: 'right' });
+        pdf.text(`Financial year ${invoice.financialYear}`, right, 78, { size: 9, align: 'right' });
+        pdf.line(left, 90, right, 90, 1);
+
+        const party = (title: string, p: InvoiceDocument['seller'], x: number) => {
+            let y = 110;
+            pdf.text(title, x, y, { size: 8, bold: true, gray: 0.4 });
+            pdf.text(p.name, x, (y += 14), { size: 11, bold: true });
+            pdf.text(`GSTIN: ${p.gstin || 'Unregistered'}`, x, (y += 14), { size: 9 });
+            for (const line of pdf.wrap(p.address || '', 240, 9).slice(0, 3)) {
+                pdf.text(line, x, (y += 12), { size: 9 });
+            }
+            pdf.text(`State: ${p.state || '-'}${p.stateCode ? ` (${p.stateCode})` : ''}`, x, (y += 12), { size: 9 });
+        };
+        party('SUPPLIER', invoice.seller, left);
+        party('RECIPIENT', invoice.buyer, A4.width / 2 + 10);
+
+        pdf.text(`Place of supply: ${invoice.buyer.state || invoice.placeOfSupply} (${invoice.placeOfSupply})`, left, 215, { size: 9 });
+        pdf.text('Reverse charge: No', right, 215, { size: 9, align: 'right' });
+
+        // Line items
+        const columns = [
+            { title: 'Description', x: left + 4, align: 'left' as const },
+            { title: 'HSN', x: 280, align: 'left' as const },
+            { title: 'Qty', x: 360, align: 'right' as const },
+            { title: 'Rate', x: 420, align: 'right' as const },
+            { title: 'GST %', x: 465, align: 'right' as const },
+            { title: 'Taxable value', x: right - 4, align: 'right' as const },
+        ];
+        pdf.box(left, 230, right - left, 20);
+        for (const c of columns) pdf.text(c.title, c.x, 244, { size: 9, bold: true, align: c.align });
+
+        let y = 250;
+        for (const item of invoice.lines) {
+            const description = pdf.wrap(item.description, 220, 9);
+            pdf.text(description[0], columns[0].x, y + 14, { size: 9 });
+            pdf.text(item.hsnCode, columns[1].x, y + 14, { size: 9 });
+            pdf.text(`${item.quantity} ${item.unit}`, columns[2].x, y + 14, { size: 9, align: 'right' });
+            pdf.text(money(item.rate), columns[3].x, y + 14, { size: 9, align: 'right' });
+            pdf.text(String(item.gstRate), columns[4].x, y + 14, { size: 9, align: 'right' });
+            pdf.text(money(item.taxableValue), columns[5].x, y + 14, { size: 9, align: 'right' });
+            for (const more of description.slice(1)) {
+                pdf.text(more, columns[0].x, (y += 12) + 14, { size: 9 });
+            }
+            y += 22;
+        }
+        pdf.line(left, y, right, y);
+
+        // Totals
+        const rate = invoice.lines[0]?.gstRate || 0;
+        const totals: Array<[string, number]> = [['Taxable value', invoice.taxableValue]];
+        if (invoice.intraState) {
+            totals.push([`CGST @ ${rate / 2}%`, invoice.cgst], [`SGST @ ${rate / 2}%`, invoice.sgst]);
+        } else {
+            totals.push([`IGST @ ${rate}%`, invoice.igst]);
+        }
+        totals.push(['Total tax', invoice.totalTax]);
+
+        y += 8;
+        for (const [label, value] of totals) {
+            pdf.text(label, 400, (y += 14), { size: 9, align: 'right' });
+            pdf.text(money(value), right - 4, y, { size: 9, align: 'right' });
+        }
+        pdf.box(300, y + 6, right - 300, 22);
+        pdf.text(`Invoice total (${invoice.currency})`, 400, y + 21, { size: 10, bold: true, align: 'right' });
+        pdf.text(money(invoice.grandTotal), right - 4, y + 21, { size: 10, bold: true, align: 'right' });
+
+        const footer = A4.height - 60;
+        if (passportNumber) {
+            pdf.text(`Circularity passport: ${passportNumber}`, left, footer - 14, { size: 8, gray: 0.4 });
+        }
+        pdf.text('Computer-generated invoice issued through EcoExchange on behalf of the supplier.', left, footer, { size: 8, gray: 0.4 });
+
+        return pdf.toBuffer();
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private async write(invoice: InvoiceDocument, passportNumber?: string): Promise<Buffer> {
+        const buffer = this.render(invoice, passportNumber);
+        await fs.mkdir(path.dirname(invoice.filePath), { recursive: true });
+        await fs.writeFile(invoice.filePath, buffer);
+        return buffer;
+    }
+
+    private async nextSequence(sellerId: any, financialYear: string): Promise<number> {
+        const counter = await InvoiceSequence.findOneAndUpdate(
+            { sellerId, financialYear },
+            { $inc: { last: 1 } },
+            { upsert: true, new: true }
+        );
+        return counter.last;
+    }
+
+    /**
+     * GSTIN on file, or a registration number that is one.
+     */
+    private gstinOf(company: any): string | undefined {
+        if (isValidGstin(company.gstin)) return company.gstin.trim().toUpperCase();
+        if (isValidGstin(company.registrationNumber)) return company.registrationNumber.trim().toUpperCase();
+        return undefined;
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
+
+export const invoiceService = new InvoiceService();
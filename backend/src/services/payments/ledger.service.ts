@@ -0,0 +1,409 @@
+import { MatchDocument } from '../../models/Match';
+import { WasteListing } from '../../models/WasteListing';
+import {
+    LedgerLine,
+    LedgerTransaction,
+    LedgerTransactionDocument,
+    LedgerTransactionType,
+} from '../../models/LedgerTransaction';
+import { convertQuantity, isConvertible } from '../../utils/units';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { paymentProvider } from './providers';
+import { quoteFee } from './feeSchedule';
+
+export interface StatementSummary {
+    currency: string;
+    // As buyer
+    committed: number;
+    charged: number;
+    refunded: number;
+    cancelled: number;
+    outstanding: number;
+    inEscrow: number;
+    // As seller
+    earned: number;
+    feesPaid: number;
+    paidOut: number;
+    pendingPayout: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ESCROW LEDGER — double-entry journal behind Match.financials.
+// Agreement books the deal value into escrow, pickup charges the buyer,
+// buyer verification releases escrow to the seller less the platform
+// fee, and a dispute ruling refunds all or part of it. Every step is
+// keyed per match so a retried request never posts or charges twice.
+// ═══════════════════════════════════════════════════════════════
+
+export class LedgerService {
+    /**
+     * Terms locked — work out fee, seller earnings and buyer savings. Sets
+     * the figures on the match; the caller saves it, then records the
+     * agreement.
+     */
+    async priceAgreement(match: MatchDocument): Promise<void> {
+        const total = match.financials?.agreedTerms?.totalPrice || 0;
+        const { fee } = quoteFee(total);
+
+        match.set('financials.platformFee', fee);
+        match.set('financials.sellerEarnings', this.round(total - fee));
+        match.set('financials.buyerSavings', await this.buyerSavings(match));
+        match.set('financials.paymentStatus', 'pending');
+    }
+
+    /**
+     * Book the deal value into escrow for a saved, accepted match. Safe to
+     * repeat; if it never ran, the next money step books it first.
+     */
+    async recordAgreement(match: MatchDocument): Promise<void> {
+        const terms = match.financials?.agreedTerms;
+        const total = terms?.totalPrice || 0;
+        if (total <= 0) return;
+
+        await this.post(match, 'agreement', total, [
+            { account: 'buyer_receivable', companyId: this.buyerOf(match), debit: total, credit: 0 },
+            { account: 'escrow', companyId: this.buyerOf(match), debit: 0, credit: total },
+        ], `Agreed ${terms.quantity} ${terms.unit} at ${terms.pricePerUnit}/${terms.unit}`);
+    }
+
+    /**
+     * Pickup — charge the buyer what they still owe and hold it.
+     */
+    async hold(match: MatchDocument): Promise<void> {
+        if (!(await this.ensureAgreement(match))) {
+            match.set('financials.paymentStatus', 'held');
+            return;
+        }
+
+        const outstanding = await this.balance(match, 'buyer_receivable');
+        if (outstanding > 0) {
+            const currency = this.currencyOf(match);
+            const reference = await paymentProvider.charge({
+                idempotencyKey: `${match._id}:hold`,
+                companyId: this.buyerOf(match).toString(),
+                amount: outstanding,
+                currency,
+                description: `Escrow for match ${match._id}`,
+            });
+            await this.post(match, 'hold', outstanding, [
+                { account: 'cash', debit: outstanding, credit: 0 },
+                { account: 'buyer_receivable', companyId: this.buyerOf(match), debit: 0, credit: outstanding },
+            ], 'Charged at pickup and held in escrow', reference);
+        }
+
+        match.set('financials.paymentStatus', 'held');
+    }
+
+    /**
+     * Buyer verification or a ruling for the seller — release whatever is in
+     * escrow to the seller, less the platform fee, and pay it out. Refused
+     * once the buyer has been refunded or when escrow holds nothing; a retry
+     * after a failed payout only finishes the payout.
+     */
+    async release(match: MatchDocument): Promise<void> {
+        if (['refunded', 'partially_refunded'].includes(match.financials?.paymentStatus)) {
+            throw new HttpError(409, 'This match has been refunded — there is nothing to release');
+        }
+        if (!(await this.ensureAgreement(match))) {
+            match.set('financials.paymentStatus', 'released');
+            return;
+        }
+
+        await this.hold(match);
+
+        const sellerId = this.sellerOf(match);
+        const amount = -(await this.balance(match, 'escrow'));
+        if (amount > 0) {
+            const { fee } = quoteFee(amount);
+            const earnings = this.round(amount - fee);
+
+            await this.post(match, 'release', amount, [
+                { account: 'escrow', companyId: this.buyerOf(match), debit: amount, credit: 0 },
+                { account: 'seller_payable', companyId: sellerId, debit: 0, credit: earnings },
+                { account: 'platform_revenue', companyId: sellerId, debit: 0, credit: fee },
+            ], `Released to seller less ${fee} platform fee`);
+
+            match.set('financials.platformFee', fee);
+            match.set('financials.sellerEarnings', earnings);
+        } else if (!(await LedgerTransaction.exists({ matchId: match._id, type: 'release' }))) {
+            throw new HttpError(409, 'Escrow for this match is empty — there is nothing to release');
+        }
+
+        const payable = -(await this.balance(match, 'seller_payable'));
+        if (payable > 0) {
+            const reference = await paymentProvider.payout({
+                idempotencyKey: `${match._id}:payout`,
+                companyId: sellerId.toString(),
+                amount: payable,
+                currency: this.currencyOf(match),
+                description: `Earnings for match ${match._id}`,
+            });
+            await this.post(match, 'payout', payable, [
+                { account: 'seller_payable', companyId: sellerId, debit: payable, credit: 0 },
+                { account: 'cash', debit: 0, credit: payable },
+            ], 'Paid out to seller', reference);
+        }
+
+        match.set('financials.paymentStatus', 'released');
+    }
+
+    /**
+     * Dispute ruling — return `amount` to the buyer (the whole escrow when
+     * omitted) and release any remainder to the seller. Only money still in
+     * escrow can be refunded; once it has been released there is nothing to
+     * return, and the refund is refused rather than recorded.
+     */
+    async refund(match: MatchDocument, amount?: number, reason = 'Dispute ruling'): Promise<void> {
+        if (!(await this.ensureAgreement(match))) {
+            match.set('financials.paymentStatus', amount === undefined ? 'refunded' : 'partially_refunded');
+            match.set('financials.refundedAmount', amount ?? 0);
+            return;
+        }
+
+        if (amount !== undefined && amount < 0) {
+            throw new HttpError(422, 'Refund amount must be positive');
+        }
+        const inEscrow = -(await this.balance(match, 'escrow'));
+        if (inEscrow <= 0) {
+            throw new HttpError(409, 'Escrow for this match has already been paid out or refunded — there is nothing left to refund');
+        }
+        if (amount !== undefined && amount > inEscrow) {
+            throw new HttpError(409, `Only ${inEscrow} ${this.currencyOf(match)} is still in escrow`);
+        }
+        const refundAmount = this.round(amount ?? inEscrow);
+
+        if (refundAmount > 0) {
+            const hold = await LedgerTransaction.findOne({ matchId: match._id, type: 'hold' });
+            const buyerId = this.buyerOf(match);
+
+            if (hold) {
+                const reference = await paymentProvider.refund({
+                    idempotencyKey: `${match._id}:refund`,
+                    chargeReference: hold.providerReference || '',
+                    amount: refundAmount,
+                    currency: this.currencyOf(match),
+                    reason,
+                });
+                await this.post(match, 'refund', refundAmount, [
+                    { account: 'escrow', companyId: buyerId, debit: refundAmount, credit: 0 },
+                    { account: 'cash', debit: 0, credit: refundAmount },
+                ], reason, reference);
+            } else {
+                // Nothing was charged yet — cancel the buyer's obligation instead
+                await this.post(match, 'void', refundAmount, [
+                    { account: 'escrow', companyId: buyerId, debit: refundAmount, credit: 0 },
+                    { account: 'buyer_receivable', companyId: buyerId, debit: 0, credit: refundAmount },
+                ], reason);
+            }
+        }
+
+        const remainder = this.round(inEscrow - refundAmount);
+        match.set('financials.refundedAmount', refundAmount);
+        if (remainder > 0) {
+            await this.release(match);
+            match.set('financials.paymentStatus', 'partially_refunded');
+        } else {
+            match.set('financials.paymentStatus', 'refunded');
+            match.set('financials.platformFee', 0);
+            match.set('financials.sellerEarnings', 0);
+        }
+    }
+
+    /**
+     * Journal of one match, oldest first.
+     */
+    async forMatch(matchId: string): Promise<LedgerTransactionDocument[]> {
+        return LedgerTransaction.find({ matchId }).sort({ postedAt: 1 });
+    }
+
+    /**
+     * A company's statement — its own journal lines in the period and
+     * running totals as buyer and as seller, per currency.
+     */
+    async statement(companyId: string, range: { from?: Date; to?: Date } = {}) {
+        const filter: Record<string, unknown> = { 'lines.companyId': companyId };
+        if (range.from || range.to) {
+            filter.postedAt = {
+                ...(range.from && { $gte: range.from }),
+                ...(range.to && { $lte: range.to }),
+            };
+        }
+
+        const transactions = await LedgerTransaction.find(filter).sort({ postedAt: 1 }).lean();
+        const summaries = new Map<string, StatementSummary>();
+
+        const entries = transactions.map((tx) => {
+            const own = tx.lines.filter((l) => l.companyId?.toString() === companyId);
+            const summary = summaries.get(tx.currency) || this.emptySummary(tx.currency);
+            summaries.set(tx.currency, summary);
+
+            for (const line of own) {
+                const net = this.round(line.debit - line.credit);
+                if (line.account === 'buyer_receivable') {
+                    summary.outstanding = this.round(summary.outstanding + net);
+                    if (tx.type === 'hold') summary.charged = this.round(summary.charged - net);
+                } else if (line.account === 'escrow') {
+                    summary.inEscrow = this.round(summary.inEscrow - net);
+                    if (tx.type === 'agreement') summary.committed = this.round(summary.committed - net);
+                    if (tx.type === 'refund') summary.refunded = this.round(summary.refunded + net);
+                    if (tx.type === 'void') summary.cancelled = this.round(summary.cancelled + net);
+                } else if (line.account === 'seller_payable') {
+                    summary.pendingPayout = this.round(summary.pendingPayout - net);
+                    if (tx.type === 'release') summary.earned = this.round(summary.earned - net);
+                    if (tx.type === 'payout') summary.paidOut = this.round(summary.paidOut + net);
+                } else if (line.account === 'platform_revenue') {
+                    summary.feesPaid = this.round(summary.feesPaid - net);
+                }
+            }
+
+            return {
+                transactionId: tx._id,
+                matchId: tx.matchId,
+                type: tx.type,
+                postedAt: tx.postedAt,
+                currency: tx.currency,
+                memo: tx.memo,
+                providerReference: tx.providerReference,
+                lines: own.map(({ account, debit, credit }) => ({ account, debit, credit })),
+            };
+        });
+
+        return {
+            companyId,
+            from: range.from,
+            to: range.to,
+            summary: [...summaries.values()],
+            entries,
+        };
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    /**
+     * Book the agreement if it is missing (matches accepted before the
+     * ledger existed). False when there is no money to move — free
+     * listings, or no agreed terms at all.
+     */
+    private async ensureAgreement(match: MatchDocument): Promise<boolean> {
+        if (!match.financials?.agreedTerms?.totalPrice) return false;
+
+        const booked = await LedgerTransaction.exists({ matchId: match._id, type: 'agreement' });
+        if (!booked) {
+            await this.priceAgreement(match);
+            await this.recordAgreement(match);
+        }
+        return true;
+    }
+
+    /**
+     * Debit-minus-credit balance of one account for a match.
+     */
+    private async balance(match: MatchDocument, account: LedgerLine['account']): Promise<number> {
+        const transactions = await LedgerTransaction.find({ matchId: match._id, 'lines.account': account }).select('lines').lean();
+        let balance = 0;
+        for (const tx of transactions) {
+            for (const line of tx.lines) {
+                if (line.account === account) balance += line.debit - line.credit;
+            }
+        }
+        return this.round(balance);
+    }
+
+    /**
+     * Post a balanced journal entry once per match and step. A repeat with
+     * the same key returns the entry already posted.
+     */
+    private async post(
+        match: MatchDocument,
+        type: LedgerTransactionType,
+        amount: number,
+        lines: LedgerLine[],
+        memo: string,
+        providerReference?: string
+    ): Promise<LedgerTransactionDocument> {
+        const debits = this.round(lines.reduce((sum, l) => sum + l.debit, 0));
+        const credits = this.round(lines.reduce((sum, l) => sum + l.credit, 0));
+        if (debits !== credits) {
+            throw new Error(`Unbalanced ${type} entry for match ${match._id}: ${debits} ≠ ${credits}`);
+        }
+
+        const idempotencyKey = `${match._id}:${type}`;
+        const existing = await LedgerTransaction.findOne({ idempotencyKey });
+        if (existing) return existing;
+
+        try {
+            const tx = await LedgerTransaction.create({
+                idempotencyKey,
+                matchId: match._id,
+                type,
+                lines: lines.filter((l) => l.debit || l.credit),
+                amount: this.round(amount),
+                currency: this.currencyOf(match),
+                providerReference,
+                memo,
+            });
+            logger.info(`📒 Ledger ${type} ${tx.amount} ${tx.currency} on match ${match._id}`);
+            return tx;
+        } catch (error: any) {
+            if (error?.code === 11000) {
+                return (await LedgerTransaction.findOne({ idempotencyKey }))!;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * What the buyer saved against the listing's asking price, restated in
+     * the agreed unit.
+     */
+    private async buyerSavings(match: MatchDocument): Promise<number> {
+        const terms = match.financials?.agreedTerms;
+        if (!terms?.quantity || !terms.unit) return 0;
+
+        const listing = await WasteListing.findById(match.wasteListingId._id || match.wasteListingId).select('pricing quantity material.category');
+        const asking = listing?.pricing?.amount;
+        const listingUnit = listing?.quantity?.unit;
+        const category = listing?.material?.category;
+        if (!asking || !listingUnit || !isConvertible(terms.unit, listingUnit, category)) return 0;
+
+        const askingPerAgreedUnit = asking * convertQuantity(1, terms.unit, listingUnit, category);
+        return this.round(Math.max(0, (askingPerAgreedUnit - terms.pricePerUnit) * terms.quantity));
+    }
+
+    private emptySummary(currency: string): StatementSummary {
+        return {
+            currency,
+            committed: 0,
+            charged: 0,
+            refunded: 0,
+            cancelled: 0,
+            outstanding: 0,
+            inEscrow: 0,
+            earned: 0,
+            feesPaid: 0,
+            paidOut: 0,
+            pendingPayout: 0,
+        };
+    }
+
+    private buyerOf(match: MatchDocument): any {
+        return match.buyerId._id || match.buyerId;
+    }
+
+    private sellerOf(match: MatchDocument): any {
+        return match.sellerId._id || match.sellerId;
+    }
+
+    private currencyOf(match: MatchDocument): string {
+        return match.financials?.agreedTerms?.currency || 'INR';
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
+
+export const ledgerService = new LedgerService();
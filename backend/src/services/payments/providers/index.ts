@@ -0,0 +1,20 @@
+import { env } from '../../../config/env';
+import { logger } from '../../../utils/logger';
+import { PaymentProvider } from './paymentProvider';
+import { MockPaymentProvider } from './mock.provider';
+
+export * from './paymentProvider';
+
+/**
+ * Build the provider selected by PAYMENT_PROVIDER (mock).
+ */
+export function createPaymentProvider(): PaymentProvider {
+    switch (env.PAYMENT_PROVIDER) {
+        case 'mock':
+        default:
+            return new MockPaymentProvider();
+    }
+}
+
+export const paymentProvider = createPaymentProvider();
+logger.info(`💳 Payment provider: ${paymentProvider.name}`);
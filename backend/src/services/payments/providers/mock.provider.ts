@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+import { logger } from '../../../utils/logger';
+import { ChargeRequest, PaymentProvider, PayoutRequest, RefundRequest } from './paymentProvider';
+
+// ═══════════════════════════════════════════════════════════════
+// MOCK PROVIDER — no money moves. Every call succeeds and returns a
+// reference derived from its idempotency key, so a retry gets the same
+// reference back just like a real gateway would.
+// ═══════════════════════════════════════════════════════════════
+
+export class MockPaymentProvider implements PaymentProvider {
+    readonly name = 'mock';
+
+    async charge(request: ChargeRequest): Promise<string> {
+        const reference = this.reference('ch', request.idempotencyKey);
+        logger.info(`💳 [mock] charged ${request.amount} ${request.currency} from ${request.companyId} (${reference})`);
+        return reference;
+    }
+
+    async payout(request: PayoutRequest): Promise<string> {
+        const reference = this.reference('po', request.idempotencyKey);
+        logger.info(`💳 [mock] paid out ${request.amount} ${request.currency} to ${request.companyId} (${reference})`);
+        return reference;
+    }
+
+    async refund(request: RefundRequest): Promise<string> {
+        const reference = this.reference('rf', request.idempotencyKey);
+        logger.info(`💳 [mock] refunded ${request.amount} ${request.currency} against ${request.chargeReference} (${reference})`);
+        return reference;
+    }
+
+    private reference(prefix: string, key: string): string {
+        return `mock_${prefix}_${createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+    }
+}
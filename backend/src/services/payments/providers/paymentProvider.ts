@@ -0,0 +1,37 @@
+export interface ChargeRequest {
+    /** Stable per match and step — a retried call must not charge twice */
+    idempotencyKey: string;
+    companyId: string;
+    amount: number;
+    currency: string;
+    description: string;
+}
+
+export interface PayoutRequest {
+    idempotencyKey: string;
+    companyId: string;
+    amount: number;
+    currency: string;
+    description: string;
+}
+
+export interface RefundRequest {
+    idempotencyKey: string;
+    /** Reference of the charge being refunded */
+    chargeReference: string;
+    amount: number;
+    currency: string;
+    reason: string;
+}
+
+/**
+ * A gateway that moves the money behind the escrow ledger.
+ * Each call resolves with the provider's reference and throws on failure,
+ * in which case nothing is posted to the ledger.
+ */
+export interface PaymentProvider {
+    readonly name: string;
+    charge(request: ChargeRequest): Promise<string>;
+    payout(request: PayoutRequest): Promise<string>;
+    refund(request: RefundRequest): Promise<string>;
+}
@@ -0,0 +1,345 @@
+import { Company } from '../../models/Company';
+import { Match } from '../../models/Match';
+import { NATIONAL, PriceDistribution, PriceIndex, PriceIndexDocument } from '../../models/PriceIndex';
+import { WasteListing, WasteListingDocument } from '../../models/WasteListing';
+import { isConvertible, toKg } from '../../utils/units';
+import { logger } from '../../utils/logger';
+
+// A state needs this many samples before its own index is used
+const MIN_SAMPLES = 5;
+// How far back a lookup goes for a usable index
+const LOOKUP_MONTHS = 3;
+// Tukey fences — prices beyond 1.5 × IQR from the quartiles are outliers
+const OUTLIER_IQR_MULTIPLIER = 1.5;
+
+interface PriceSample {
+    category: string;
+    state: string | null;
+    period: string;
+    pricePerKg: number;
+    kind: 'deal' | 'ask';
+}
+
+export interface PriceBenchmark {
+    category: string;
+    scope: string;
+    period: string;
+    unit: string;
+    sampleCount: number;
+    median: number;
+    low: number;
+    high: number;
+}
+
+export interface PriceAssessment extends PriceBenchmark {
+    price: number;
+    deviationPct: number;
+    flag: 'low' | 'high' | null;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PRICE INDEX — monthly distribution of INR/kg prices per material and
+// state, built from completed exchanges (agreed price) and listings
+// (asking price). Listings are priced against it on creation: the
+// median is the suggestion and prices past the Tukey fences are flagged.
+// ═══════════════════════════════════════════════════════════════
+
+export class PriceIndexService {
+    /**
+     * Recompute the index for the last `months` calendar months.
+     */
+    async rebuild(months = 12): Promise<number> {
+        const since = this.monthStart(months - 1);
+
+        const samples = [...await this.dealSamples(since), ...await this.askSamples(since)];
+
+        const buckets = new Map<string, PriceSample[]>();
+        for (const sample of samples) {
+            for (const state of sample.state ? [sample.state, NATIONAL] : [NATIONAL]) {
+                const key = `${sample.category}|${state}|${sample.period}`;
+                buckets.set(key, [...(buckets.get(key) || []), sample]);
+            }
+        }
+
+        const now = new Date();
+        const operations = [...buckets.entries()].map(([key, bucket]) => {
+            const [category, state, period] = key.split('|');
+            return {
+                updateOne: {
+                    filter: { category, state, period },
+                    update: {
+                        $set: {
+                            sampleCount: bucket.length,
+                            dealCount: bucket.filter((s) => s.kind === 'deal').length,
+                            askCount: bucket.filter((s) => s.kind === 'ask').length,
+                            pricePerKg: this.distribution(bucket.map((s) => s.pricePerKg)),
+                            currency: 'INR',
+                            computedAt: now,
+                        },
+                    },
+                    upsert: true,
+                },
+            };
+        });
+        if (operations.length > 0) {
+            await PriceIndex.bulkWrite(operations);
+        }
+
+        logger.info(`💹 Price index rebuilt: ${operations.length} buckets from ${samples.length} prices`);
+        return operations.length;
+    }
+
+    /**
+     * Monthly trend for a material — the state's own series when given,
+     * plus the states that have data for the regional picker.
+     */
+    async series(category: string, state?: string, months = 12) {
+        const since = this.periodOf(this.monthStart(months - 1));
+        const scope = state || NATIONAL;
+
+        const [points, regions] = await Promise.all([
+            PriceIndex.find({ category, state: scope, period: { $gte: since } }).sort({ period: 1 }).lean(),
+            PriceIndex.distinct('state', { category, state: { $ne: NATIONAL }, period: { $gte: since } }),
+        ]);
+
+        return {
+            category,
+            state: scope,
+            unit: 'kg',
+            currency: 'INR',
+            regions: (regions as string[]).sort(),
+            latest: points[points.length - 1] || null,
+            series: points.map((p) => ({
+                period: p.period,
+                sampleCount: p.sampleCount,
+                dealCount: p.dealCount,
+                askCount: p.askCount,
+                ...p.pricePerKg,
+            })),
+        };
+    }
+
+    /**
+     * Suggested price per `unit` — the index median with the interquartile
+     * range. Falls back to the national index when the state is thin.
+     */
+    async suggest(category: string, unit: string, state?: string | null): Promise<PriceBenchmark | null> {
+        if (!isConvertible(unit, 'kg', category)) return null;
+
+        const index = await this.lookup(category, state);
+        if (!index) return null;
+
+        const kgPerUnit = toKg(1, unit, category);
+        const perUnit = (perKg: number) => this.money(perKg * kgPerUnit);
+        return {
+            category,
+            scope: index.state,
+            period: index.period,
+            unit,
+            sampleCount: index.sampleCount,
+            median: perUnit(index.pricePerKg.median),
+            low: perUnit(index.pricePerKg.p25),
+            high: perUnit(index.pricePerKg.p75),
+        };
+    }
+
+    /**
+     * How a price compares with the index, flagged when it is an outlier.
+     */
+    async assess(price: number, unit: string, category: string, state?: string | null): Promise<PriceAssessment | null> {
+        if (!(price > 0) || !isConvertible(unit, 'kg', category)) return null;
+
+        const index = await this.lookup(category, state);
+        if (!index) return null;
+
+        const { p25, p75, median } = index.pricePerKg;
+        const pricePerKg = price / toKg(1, unit, category);
+        const iqr = p75 - p25;
+        const flag = pricePerKg < p25 - OUTLIER_IQR_MULTIPLIER * iqr
+            ? 'low'
+            : pricePerKg > p75 + OUTLIER_IQR_MULTIPLIER * iqr ? 'high' : null;
+
+        const kgPerUnit = toKg(1, unit, category);
+        return {
+            category,
+            scope: index.state,
+            period: index.period,
+            unit,
+            sampleCount: index.sampleCount,
+            median: this.money(median * kgPerUnit),
+            low: this.money(p25 * kgPerUnit),
+            high: this.money(p75 * kgPerUnit),
+            price,
+            deviationPct: median > 0 ? Math.round((pricePerKg / median - 1) * 1000) / 10 : 0,
+            flag,
+        };
+    }
+
+    /**
+     * Price a listing against its seller's regional index and keep the
+     * result on the listing. Free listings and thin indexes clear it.
+     */
+    async benchmarkListing(listing: WasteListingDocument): Promise<PriceAssessment | null> {
+        const seller = await Company.findById(listing.companyId?._id || listing.companyId).select('location.state');
+        const assessment = listing.pricing?.type === 'free'
+            ? null
+            : await this.assess(listing.pricing?.amount, listing.quantity?.unit, listing.material?.category, seller?.location?.state?.trim());
+
+        listing.set('pricing.benchmark', assessment
+            ? {
+                median: assessment.median,
+                low: assessment.low,
+                high: assessment.high,
+                deviationPct: assessment.deviationPct,
+                flag: assessment.flag,
+                scope: assessment.scope,
+                period: assessment.period,
+                assessedAt: new Date(),
+            }
+            : undefined);
+        await listing.save();
+        return assessment;
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    /**
+     * Most recent usable index — the state's if it has enough samples,
+     * otherwise the national one.
+     */
+    private async lookup(category: string, state?: string | null): Promise<PriceIndexDocument | null> {
+        const since = this.periodOf(this.monthStart(LOOKUP_MONTHS - 1));
+        for (const scope of state ? [state, NATIONAL] : [NATIONAL]) {
+            const index = await PriceIndex.findOne({
+                category,
+                state: scope,
+                period: { $gte: since },
+                sampleCount: { $gte: MIN_SAMPLES },
+            }).sort({ period: -1 });
+            if (index) return index;
+        }
+        return null;
+    }
+
+    private async dealSamples(since: Date): Promise<PriceSample[]> {
+        const matches = await Match.find({
+            'execution.status': 'completed',
+            completedAt: { $gte: since },
+            'financials.agreedTerms.pricePerUnit': { $gt: 0 },
+        }).select('wasteListingId sellerId completedAt financials.agreedTerms').lean();
+
+        const [listings, states] = await Promise.all([
+            this.categoriesOf(matches.map((m) => m.wasteListingId)),
+            this.statesOf(matches.map((m) => m.sellerId)),
+        ]);
+
+        return matches.flatMap((m) => {
+            const terms = m.financials?.agreedTerms;
+            const category = listings.get(m.wasteListingId?.toString());
+            if (!category || (terms.currency && terms.currency !== 'INR')) return [];
+            const pricePerKg = this.perKg(terms.pricePerUnit, terms.unit, category);
+            if (pricePerKg === null) return [];
+            return [{
+                category,
+                state: states.get(m.sellerId?.toString()) || null,
+                period: this.periodOf(m.completedAt || new Date()),
+                pricePerKg,
+                kind: 'deal' as const,
+            }];
+        });
+    }
+
+    /**
+     * Asking prices — in the month they were listed, except that listings
+     * still active count as asks this month.
+     */
+    private async askSamples(since: Date): Promise<PriceSample[]> {
+        const listings = await WasteListing.find({
+            status: { $nin: ['draft', 'withdrawn'] },
+            'pricing.type': { $ne: 'free' },
+            'pricing.amount': { $gt: 0 },
+            $or: [{ createdAt: { $gte: since } }, { status: 'active' }],
+        }).select('companyId material.category quantity.unit pricing.amount pricing.currency status createdAt').lean();
+
+        const states = await this.statesOf(listings.map((l) => l.companyId));
+        const current = this.periodOf(new Date());
+
+        return listings.flatMap((l) => {
+            if (l.pricing?.currency && l.pricing.currency !== 'INR') return [];
+            const pricePerKg = this.perKg(l.pricing.amount, l.quantity?.unit, l.material?.category);
+            if (pricePerKg === null) return [];
+            return [{
+                category: l.material.category,
+                state: states.get(l.companyId?.toString()) || null,
+                period: l.status === 'active' ? current : this.periodOf(l.createdAt),
+                pricePerKg,
+                kind: 'ask' as const,
+            }];
+        });
+    }
+
+    private async categoriesOf(listingIds: any[]): Promise<Map<string, string>> {
+        const listings = await WasteListing.find({ _id: { $in: listingIds } }).select('material.category').lean();
+        return new Map(listings.map((l) => [l._id.toString(), l.material?.category]));
+    }
+
+    private async statesOf(companyIds: any[]): Promise<Map<string, string>> {
+        const companies = await Company.find({ _id: { $in: companyIds } }).select('location.state').lean();
+        return new Map(companies
+            .filter((c) => c.location?.state?.trim())
+            .map((c) => [c._id.toString(), c.location.state!.trim()]));
+    }
+
+    private perKg(price: number, unit: string | undefined, category: string | undefined): number | null {
+        if (!unit || !category || !isConvertible(unit, 'kg', category)) return null;
+        return price / toKg(1, unit, category);
+    }
+
+    private distribution(values: number[]): PriceDistribution {
+        const sorted = [...values].sort((a, b) => a - b);
+        const at = (q: number) => {
+            const position = (sorted.length - 1) * q;
+            const lower = Math.floor(position);
+            const upper = Math.ceil(position);
+            return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+        };
+        return {
+            min: this.round(sorted[0]),
+            p10: this.round(at(0.1)),
+            p25: this.round(at(0.25)),
+            median: this.round(at(0.5)),
+            p75: this.round(at(0.75)),
+            p90: this.round(at(0.9)),
+            max: this.round(sorted[sorted.length - 1]),
+            mean: this.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+        };
+    }
+
+    /**
+     * First day (UTC) of the month `monthsBack` months before this one.
+     */
+    private monthStart(monthsBack: number): Date {
+        const date = new Date();
+        date.setUTCDate(1);
+        date.setUTCHours(0, 0, 0, 0);
+        date.setUTCMonth(date.getUTCMonth() - monthsBack);
+        return date;
+    }
+
+    private periodOf(date: Date): string {
+        return new Date(date).toISOString().slice(0, 7);
+    }
+
+    /** INR/kg figures — scrap often trades below a rupee per kg */
+    private round(value: number): number {
+        return Math.round(value * 10000) / 10000;
+    }
+
+    private money(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
+
+export const priceIndexService = new PriceIndexService();
@@ -0,0 +1,175 @@
+import { Match } from '../../models/Match';
+import { Company } from '../../models/Company';
+import { Dispute } from '../../models/Dispute';
+import {
+    calculateReliabilityScore,
+    ratingToScore,
+    responseLatencyScore,
+    ReputationSignals,
+    ReputationComponent,
+} from '../../engine/matching';
+import { REPUTATION_HALF_LIFE_DAYS, REPUTATION_NEUTRAL_SCORE } from '../../engine/constants';
+import { MatchParty } from '../../types';
+import { logger } from '../../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Events older than four half-lives weigh < 7% — not worth loading
+const LOOKBACK_DAYS = REPUTATION_HALF_LIFE_DAYS * 4;
+const CACHE_HOURS = 6;
+const PICKUP_GRACE_DAYS = 7;    // after the scheduled pickup when no window was agreed
+const VERIFY_GRACE_DAYS = 3;    // for the buyer to verify a delivery
+const STALLED_MATCH_DAYS = 30;  // accepted deals untouched this long count as not completed
+
+const IN_FLIGHT = ['pickup_scheduled', 'in_transit', 'delivered', 'verified'];
+
+export interface ReputationSnapshot {
+    score: number;
+    components: Record<ReputationComponent, { score: number; weight: number; observations: number }>;
+    formula: string;
+    computedAt: Date;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// REPUTATION — per-company reliability from the company's own match
+// history: completion rate, disputes lost, on-time pickups (seller) or
+// verifications (buyer), ratings received and how fast offers are
+// answered. Each event decays with age; the engine blends them into a
+// 0-100 score. Snapshots are cached on the company for CACHE_HOURS.
+// ═══════════════════════════════════════════════════════════════
+
+export class ReputationService {
+    /**
+     * Cached snapshot, recomputed when missing or stale.
+     */
+    async get(companyId: string): Promise<ReputationSnapshot> {
+        const company = await Company.findById(companyId).select('reputation').lean();
+        const cached = company?.reputation as ReputationSnapshot | undefined;
+        const age = cached?.computedAt ? Date.now() - new Date(cached.computedAt).getTime() : -1;
+        if (cached && age >= 0 && age < CACHE_HOURS * HOUR_MS) {
+            return cached;
+        }
+        return this.refresh(companyId);
+    }
+
+    /**
+     * Reliability score for matching; neutral when the company is unknown
+     * or the history cannot be loaded.
+     */
+    async score(companyId?: string): Promise<number> {
+        if (!companyId) return REPUTATION_NEUTRAL_SCORE;
+        try {
+            return (await this.get(companyId)).score;
+        } catch (error) {
+            logger.warn(`Reputation lookup failed for ${companyId}: ${(error as Error).message}`);
+            return REPUTATION_NEUTRAL_SCORE;
+        }
+    }
+
+    async refresh(companyId: string): Promise<ReputationSnapshot> {
+        const snapshot = await this.compute(companyId);
+        await Company.updateOne({ _id: companyId }, { $set: { reputation: snapshot } });
+        return snapshot;
+    }
+
+    async compute(companyId: string, now: Date = new Date()): Promise<ReputationSnapshot> {
+        const since = new Date(now.getTime() - LOOKBACK_DAYS * DAY_MS);
+
+        const [matches, lostDisputes] = await Promise.all([
+            Match.find({ $or: [{ sellerId: companyId }, { buyerId: companyId }], updatedAt: { $gte: since } })
+                .select('sellerId buyerId negotiation.status negotiation.acceptedAt negotiation.offers execution financials.agreedTerms.pickupWindow ratings completedAt updatedAt')
+                .lean(),
+            Dispute.find({ status: 'resolved', 'ruling.faultCompanyId': companyId, 'ruling.ruledAt': { $gte: since } })
+                .select('matchId ruling.ruledAt')
+                .lean(),
+        ]);
+
+        const age = (at?: Date | string) => (at ? Math.max(0, (now.getTime() - new Date(at).getTime()) / DAY_MS) : 0);
+        const lostMatchIds = new Set(lostDisputes.map((d: any) => d.matchId.toString()));
+
+        const signals: ReputationSignals = {
+            completion: [],
+            disputes: lostDisputes.map((d: any) => ({ ageDays: age(d.ruling.ruledAt), value: 0 })),
+            onTime: [],
+            ratings: [],
+            responsiveness: [],
+        };
+
+        for (const match of matches as any[]) {
+            const role: MatchParty = match.sellerId.toString() === companyId.toString() ? 'seller' : 'buyer';
+            const execution = match.execution || {};
+
+            // ─── Responsiveness: offers the other side sent us ───
+            for (const offer of match.negotiation?.offers || []) {
+                if (offer.fromRole === role) continue;
+                if (offer.respondedAt) {
+                    const hours = (new Date(offer.respondedAt).getTime() - new Date(offer.createdAt).getTime()) / HOUR_MS;
+                    signals.responsiveness.push({ ageDays: age(offer.respondedAt), value: responseLatencyScore(Math.max(0, hours)) });
+                } else if (offer.status === 'expired') {
+                    signals.responsiveness.push({ ageDays: age(offer.expiresAt), value: 0 });
+                }
+            }
+
+            if (match.negotiation?.status !== 'accepted') continue;
+
+            // ─── Completion and disputes ───
+            if (execution.status === 'completed') {
+                signals.completion.push({ ageDays: age(match.completedAt), value: 100 });
+                if (!lostMatchIds.has(match._id.toString())) {
+                    signals.disputes.push({ ageDays: age(match.completedAt), value: 100 });
+                }
+            } else if (IN_FLIGHT.includes(execution.status) && age(match.updatedAt) > STALLED_MATCH_DAYS) {
+                signals.completion.push({ ageDays: age(match.updatedAt), value: 0 });
+            }
+
+            // ─── Punctuality: sellers hand over, buyers verify ───
+            const punctuality = role === 'seller'
+                ? this.punctuality(execution.actualPickupAt, this.pickupDeadline(match), execution.status === 'pickup_scheduled', now)
+                : this.punctuality(
+                    execution.verifiedAt,
+                    execution.deliveredAt ? new Date(new Date(execution.deliveredAt).getTime() + VERIFY_GRACE_DAYS * DAY_MS) : undefined,
+                    execution.status === 'delivered',
+                    now
+                );
+            if (punctuality) {
+                signals.onTime.push({ ageDays: age(punctuality.at), value: punctuality.value });
+            }
+
+            // ─── Ratings received (held or hidden reviews don't count) ───
+            const stars = role === 'seller' ? match.ratings?.sellerRating : match.ratings?.buyerRating;
+            const moderation = match.ratings?.moderation?.[role]?.status;
+            if (stars && moderation !== 'held' && moderation !== 'hidden') {
+                signals.ratings.push({ ageDays: age(match.completedAt || match.updatedAt), value: ratingToScore(stars) });
+            }
+        }
+
+        const result = calculateReliabilityScore(signals);
+        return { ...result, computedAt: now };
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private pickupDeadline(match: any): Date | undefined {
+        const windowEnd = match.financials?.agreedTerms?.pickupWindow?.end;
+        if (windowEnd) return new Date(windowEnd);
+
+        const scheduled = match.execution?.pickupScheduledAt || match.negotiation?.acceptedAt;
+        return scheduled ? new Date(new Date(scheduled).getTime() + PICKUP_GRACE_DAYS * DAY_MS) : undefined;
+    }
+
+    /**
+     * 100 if done by the deadline, 0 if done late or still waiting on it
+     * past the deadline; nothing to say before the deadline.
+     */
+    private punctuality(doneAt: Date | undefined, deadline: Date | undefined, waiting: boolean, now: Date): { at: Date; value: number } | null {
+        if (!deadline) return null;
+        if (doneAt) return { at: new Date(doneAt), value: new Date(doneAt) <= deadline ? 100 : 0 };
+        if (waiting && now > deadline) return { at: deadline, value: 0 };
+        return null;
+    }
+}
+
+export const reputationService = new ReputationService();
@@ -0,0 +1,227 @@
+import { Types } from 'mongoose';
+import { Match, MatchDocument } from '../../models/Match';
+import { matchStateMachine } from '../matching/stateMachine';
+import { reputationService } from '../reputation/reputation.service';
+import { MatchParty } from '../../types';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+// Profanity and slurs (English + common Hindi) — a hit holds the review for a moderator
+const ABUSIVE_TERMS = [
+    'idiot', 'stupid', 'moron', 'bastard', 'bitch', 'asshole', 'fuck', 'shit', 'dumbass',
+    'chutiya', 'harami', 'kamina', 'kutta', 'saala', 'bhenchod', 'madarchod',
+];
+// Phone numbers and e-mail addresses — deals must stay on the platform
+const CONTACT_PATTERNS = [/\b(?:\+?91[\s-]?)?[6-9]\d{9}\b/, /[\w.+-]+@[\w-]+\.[\w.]+/];
+
+interface ReviewActor {
+    companyId: string;
+    userId?: string;
+}
+
+export interface ReviewInput {
+    rating: number;
+    review?: string;
+    wouldRecommend?: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// REVIEWS — once a match is completed each party rates the other once.
+// The buyer's review of the seller lives in ratings.seller*, the
+// seller's review of the buyer in ratings.buyer*. Reviews that trip
+// the abuse screen are held; reviewed companies can report a review;
+// platform admins publish or hide anything in the queue.
+// ═══════════════════════════════════════════════════════════════
+
+export class ReviewService {
+    async submit(match: MatchDocument, actor: ReviewActor, input: ReviewInput): Promise<{ side: MatchParty; held: boolean }> {
+        const role = matchStateMachine.partyOf(match, actor.companyId);
+        if (match.execution?.status !== 'completed') {
+            throw new HttpError(409, 'Reviews open once the match is completed');
+        }
+
+        // The reviewer writes about the other party
+        const side: MatchParty = role === 'seller' ? 'buyer' : 'seller';
+        if (match.ratings?.[`${side}Rating`]) {
+            throw new HttpError(409, 'You have already reviewed this match');
+        }
+
+        const review = input.review?.trim();
+        const reasons = review ? this.screen(review) : [];
+        const now = new Date();
+
+        match.set(`ratings.${side}Rating`, input.rating);
+        match.set(`ratings.${side}Review`, review || undefined);
+        match.set(`ratings.${side}WouldRecommend`, input.wouldRecommend);
+        match.set(`ratings.${side}ReviewedAt`, now);
+        match.set(`ratings.${side}ReviewedBy`, actor.userId);
+        match.set(`ratings.moderation.${side}`, {
+            status: reasons.length ? 'held' : 'published',
+            flags: reasons.map((reason) => ({ source: 'auto', reason, at: now })),
+            needsReview: reasons.length > 0,
+        });
+        await match.save();
+
+        this.refreshReputation(side === 'seller' ? match.sellerId : match.buyerId);
+        return { side, held: reasons.length > 0 };
+    }
+
+    /**
+     * The reviewed company reports a review it received; it stays up
+     * until a moderator looks at it.
+     */
+    async report(match: MatchDocument, actor: ReviewActor, reason: string): Promise<void> {
+        const side = matchStateMachine.partyOf(match, actor.companyId);
+        if (!match.ratings?.[`${side}Rating`]) {
+            throw new HttpError(404, 'There is no review of you on this match');
+        }
+
+        const moderation = match.ratings.moderation?.[side];
+        if (moderation?.status === 'hidden') {
+            throw new HttpError(409, 'This review has already been hidden');
+        }
+        if (moderation?.flags?.some((flag: any) => flag.source === 'report' && flag.by?.toString() === actor.companyId)) {
+            throw new HttpError(409, 'You have already reported this review');
+        }
+
+        match.set(`ratings.moderation.${side}.status`, moderation?.status || 'published');
+        match.set(`ratings.moderation.${side}.needsReview`, true);
+        match.set(`ratings.moderation.${side}.flags`, [
+            ...(moderation?.flags || []),
+            { source: 'report', reason, by: actor.companyId, byUser: actor.userId, at: new Date() },
+        ]);
+        await match.save();
+    }
+
+    async moderate(match: MatchDocument, side: MatchParty, admin: { userId?: string }, action: 'publish' | 'hide', notes?: string): Promise<void> {
+        if (!match.ratings?.[`${side}Rating`]) {
+            throw new HttpError(404, `No ${side} review on this match`);
+        }
+
+        match.set(`ratings.moderation.${side}.status`, action === 'publish' ? 'published' : 'hidden');
+        match.set(`ratings.moderation.${side}.needsReview`, false);
+        match.set(`ratings.moderation.${side}.moderatedBy`, admin.userId);
+        match.set(`ratings.moderation.${side}.moderatedAt`, new Date());
+        match.set(`ratings.moderation.${side}.notes`, notes);
+        await match.save();
+
+        this.refreshReputation(side === 'seller' ? match.sellerId : match.buyerId);
+    }
+
+    /**
+     * Published reviews a company has received, newest first, with the
+     * average rating across all of them.
+     */
+    async listForCompany(companyId: string, options: { page?: number; limit?: number } = {}) {
+        if (!Types.ObjectId.isValid(companyId)) {
+            throw new HttpError(404, 'Company not found');
+        }
+        const id = new Types.ObjectId(companyId);
+        const page = options.page || 1;
+        const limit = Math.min(options.limit || 20, 100);
+
+        const visible = (side: MatchParty) => ({ [`ratings.moderation.${side}.status`]: { $nin: ['held', 'hidden'] } });
+        const about = (field: string) => ({ $cond: [{ $eq: ['$sellerId', id] }, `$ratings.seller${field}`, `$ratings.buyer${field}`] });
+
+        const [result] = await Match.aggregate([
+            {
+                $match: {
+                    $or: [
+                        { sellerId: id, 'ratings.sellerRating': { $exists: true }, ...visible('seller') },
+                        { buyerId: id, 'ratings.buyerRating': { $exists: true }, ...visible('buyer') },
+                    ],
+                },
+            },
+            {
+                $project: {
+                    matchId: '$_id',
+                    role: { $cond: [{ $eq: ['$sellerId', id] }, 'seller', 'buyer'] },
+                    reviewerId: { $cond: [{ $eq: ['$sellerId', id] }, '$buyerId', '$sellerId'] },
+                    rating: about('Rating'),
+                    review: about('Review'),
+                    wouldRecommend: about('WouldRecommend'),
+                    reviewedAt: { $ifNull: [about('ReviewedAt'), '$completedAt'] },
+                },
+            },
+            { $sort: { reviewedAt: -1 } },
+            {
+                $facet: {
+                    items: [
+                        { $skip: (page - 1) * limit },
+                        { $limit: limit },
+                        { $lookup: { from: 'companies', localField: 'reviewerId', foreignField: '_id', as: 'reviewer', pipeline: [{ $project: { name: 1 } }] } },
+                        { $unwind: { path: '$reviewer', preserveNullAndEmptyArrays: true } },
+                        { $project: { _id: 0, reviewerId: 0 } },
+                    ],
+                    summary: [
+                        {
+                            $group: {
+                                _id: null,
+                                total: { $sum: 1 },
+                                averageRating: { $avg: '$rating' },
+                                recommended: { $sum: { $cond: ['$wouldRecommend', 1, 0] } },
+                            },
+                        },
+                    ],
+                },
+            },
+        ]);
+
+        const summary = result.summary[0] || { total: 0, averageRating: null, recommended: 0 };
+        return {
+            items: result.items,
+            summary: {
+                total: summary.total,
+                averageRating: summary.averageRating === null ? null : Math.round(summary.averageRating * 10) / 10,
+                recommended: summary.recommended,
+            },
+            pagination: { page, limit, total: summary.total, pages: Math.ceil(summary.total / limit) },
+        };
+    }
+
+    /**
+     * Moderation queue — held and reported reviews not yet handled.
+     */
+    async listQueue(options: { page?: number; limit?: number } = {}) {
+        const page = options.page || 1;
+        const limit = Math.min(options.limit || 25, 100);
+        const query = { $or: [{ 'ratings.moderation.seller.needsReview': true }, { 'ratings.moderation.buyer.needsReview': true }] };
+
+        const [items, total] = await Promise.all([
+            Match.find(query)
+                .select('sellerId buyerId ratings completedAt')
+                .populate('sellerId', 'name')
+                .populate('buyerId', 'name')
+                .sort({ updatedAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            Match.countDocuments(query),
+        ]);
+
+        return { items, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    private screen(text: string): string[] {
+        const reasons: string[] = [];
+        const words = text.toLowerCase().split(/[^a-z]+/);
+        const hits = ABUSIVE_TERMS.filter((term) => words.includes(term));
+        if (hits.length) reasons.push(`Abusive language: ${hits.join(', ')}`);
+        if (CONTACT_PATTERNS.some((pattern) => pattern.test(text))) reasons.push('Contains contact details');
+        return reasons;
+    }
+
+    // Ratings feed reliability — don't make the reviewer wait for it
+    private refreshReputation(companyRef: any): void {
+        const companyId = (companyRef?._id || companyRef)?.toString();
+        reputationService.refresh(companyId).catch((error) => {
+            logger.warn(`Reputation refresh failed for ${companyId}: ${(error as Error).message}`);
+        });
+    }
+}
+
+export const reviewService = new ReviewService();
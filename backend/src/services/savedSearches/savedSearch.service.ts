@@ -0,0 +1,255 @@
+import { Types } from 'mongoose';
+import { SavedSearch, SavedSearchDocument, SavedSearchFilters, SavedSearchHit, SearchCadence } from '../../models/SavedSearch';
+import { WasteListingDocument } from '../../models/WasteListing';
+import { Company } from '../../models/Company';
+import { User } from '../../models/User';
+import { brevoService } from '../notifications/brevo.service';
+import { calculateDistance } from '../../utils/geospatial';
+import { HttpError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const MAX_SEARCHES_PER_COMPANY = 20;
+const DIGEST_MAX_LISTINGS = 25;
+
+interface SearchActor {
+    companyId: string;
+    userId?: string;
+}
+
+export interface SavedSearchInput {
+    name: string;
+    filters: SavedSearchFilters;
+    cadence?: SearchCadence;
+    channels?: { email?: boolean; inApp?: boolean };
+    active?: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SAVED SEARCHES — a company stores the waste-listing filters it runs
+// every day. Each listing that goes active is checked against every
+// active search of other companies; a match becomes a hit, shown in
+// app until seen and e-mailed right away (instant) or in the next
+// morning's digest (daily).
+// ═══════════════════════════════════════════════════════════════
+
+export class SavedSearchService {
+    async list(companyId: string) {
+        const [searches, unseen] = await Promise.all([
+            SavedSearch.find({ companyId }).sort({ createdAt: -1 }).lean(),
+            SavedSearchHit.aggregate([
+                { $match: { companyId: new Types.ObjectId(companyId), seenAt: { $exists: false } } },
+                { $group: { _id: '$savedSearchId', count: { $sum: 1 } } },
+            ]),
+        ]);
+        const counts = new Map(unseen.map((row: any) => [row._id.toString(), row.count]));
+        return searches.map((search: any) => ({ ...search, unseenCount: counts.get(search._id.toString()) || 0 }));
+    }
+
+    async create(actor: SearchActor, input: SavedSearchInput): Promise<SavedSearchDocument> {
+        const existing = await SavedSearch.countDocuments({ companyId: actor.companyId });
+        if (existing >= MAX_SEARCHES_PER_COMPANY) {
+            throw new HttpError(409, `A company can keep at most ${MAX_SEARCHES_PER_COMPANY} saved searches`);
+        }
+
+        return SavedSearch.create({
+            ...input,
+            companyId: actor.companyId,
+            createdBy: actor.userId,
+        });
+    }
+
+    async update(search: SavedSearchDocument, input: Partial<SavedSearchInput>): Promise<SavedSearchDocument> {
+        if (input.name !== undefined) search.name = input.name;
+        if (input.filters !== undefined) search.filters = input.filters;
+        if (input.cadence !== undefined) search.cadence = input.cadence;
+        if (input.active !== undefined) search.active = input.active;
+        if (input.channels?.email !== undefined) search.set('channels.email', input.channels.email);
+        if (input.channels?.inApp !== undefined) search.set('channels.inApp', input.channels.inApp);
+        await search.save();
+        return search;
+    }
+
+    async remove(search: SavedSearchDocument): Promise<void> {
+        await SavedSearchHit.deleteMany({ savedSearchId: search._id });
+        await search.deleteOne();
+    }
+
+    /**
+     * In-app feed — newest hits first, unseen ones flagged.
+     */
+    async hits(companyId: string, options: { savedSearchId?: string; unseenOnly?: boolean; page?: number; limit?: number } = {}) {
+        const page = options.page || 1;
+        const limit = Math.min(options.limit || 20, 100);
+        const query: any = { companyId };
+        if (options.savedSearchId) query.savedSearchId = options.savedSearchId;
+        if (options.unseenOnly) query.seenAt = { $exists: false };
+
+        const [items, total, unseen] = await Promise.all([
+            SavedSearchHit.find(query)
+                .populate('savedSearchId', 'name')
+                .populate({
+                    path: 'listingId',
+                    select: 'material quantity pricing status companyId createdAt',
+                    populate: { path: 'companyId', select: 'name' },
+                })
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            SavedSearchHit.countDocuments(query),
+            SavedSearchHit.countDocuments({ companyId, seenAt: { $exists: false } }),
+        ]);
+
+        return { items, unseen, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+    }
+
+    async markSeen(companyId: string, savedSearchId?: string): Promise<number> {
+        const query: any = { companyId, seenAt: { $exists: false } };
+        if (savedSearchId) query.savedSearchId = savedSearchId;
+        const result = await SavedSearchHit.updateMany(query, { $set: { seenAt: new Date() } });
+        return result.modifiedCount;
+    }
+
+    /**
+     * Record hits for a listing that has just gone active and send the
+     * instant notifications. Safe to call again for the same listing.
+     */
+    async onListingActivated(listing: WasteListingDocument): Promise<number> {
+        if (listing.status !== 'active') return 0;
+
+        const candidates = await SavedSearch.find({
+            active: true,
+            companyId: { $ne: listing.companyId },
+            $or: [
+                { 'filters.category': { $exists: false } },
+                { 'filters.category': null },
+                { 'filters.category': listing.material.category },
+            ],
+        });
+
+        let recorded = 0;
+        for (const search of candidates) {
+            if (!this.matches(search.filters, listing)) continue;
+
+            const hit = await SavedSearchHit.findOneAndUpdate(
+                { savedSearchId: search._id, listingId: listing._id },
+                {
+                    $setOnInsert: {
+                        companyId: search.companyId,
+                        // Email-only searches have nothing to show in app
+                        ...(search.channels?.inApp === false ? { seenAt: new Date() } : {}),
+                    },
+                },
+                { upsert: true, new: true, includeResultMetadata: true }
+            );
+            if (hit.lastErrorObject?.updatedExisting) continue;
+
+            recorded++;
+            await SavedSearch.updateOne({ _id: search._id }, { $inc: { hitCount: 1 }, $set: { lastHitAt: new Date() } });
+
+            if (search.cadence === 'instant' && search.channels?.email !== false) {
+                await this.email(search, [listing], 'instant');
+                await SavedSearchHit.updateOne({ _id: hit.value?._id }, { $set: { emailedAt: new Date() } });
+            }
+        }
+
+        if (recorded > 0) {
+            logger.info(`🔔 Listing ${listing._id} matched ${recorded} saved search(es)`);
+        }
+        return recorded;
+    }
+
+    /**
+     * Daily digest — one e-mail per search with the hits not yet sent.
+     * Called by the scheduler.
+     */
+    async sendDigests(): Promise<{ searches: number; listings: number }> {
+        const searches = await SavedSearch.find({ active: true, cadence: 'daily', 'channels.email': { $ne: false } });
+
+        let sent = 0;
+        let listings = 0;
+        for (const search of searches) {
+            try {
+                const hits = await SavedSearchHit.find({ savedSearchId: search._id, emailedAt: { $exists: false } })
+                    .populate('listingId')
+                    .sort({ createdAt: -1 });
+                const live = hits.filter((hit: any) => hit.listingId?.status === 'active');
+                if (live.length > 0) {
+                    await this.email(search, live.slice(0, DIGEST_MAX_LISTINGS).map((hit: any) => hit.listingId), 'daily', live.length);
+                    sent++;
+                    listings += live.length;
+                }
+                // Listings that went inactive since the hit are dropped from the digest too
+                await SavedSearchHit.updateMany(
+                    { _id: { $in: hits.map((hit) => hit._id) } },
+                    { $set: { emailedAt: new Date() } }
+                );
+                search.lastDigestAt = new Date();
+                await search.save();
+            } catch (error) {
+                logger.error(`Saved-search digest failed for ${search._id}:`, error);
+            }
+        }
+
+        if (sent > 0) {
+            logger.info(`📧 Saved-search digests: ${sent} sent covering ${listings} listing(s)`);
+        }
+        return { searches: sent, listings };
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // HELPERS
+    // ═══════════════════════════════════════════════════════════════
+
+    /**
+     * Same semantics as the searchWasteListings filters.
+     */
+    private matches(filters: SavedSearchFilters, listing: WasteListingDocument): boolean {
+        if (filters.category && filters.category !== listing.material.category) return false;
+        if (filters.hazardous !== undefined && filters.hazardous !== null && filters.hazardous !== !!listing.material.hazardous) return false;
+
+        const price = listing.pricing?.amount;
+        if (filters.minPrice !== undefined && filters.minPrice !== null && (price === undefined || price < filters.minPrice)) return false;
+        if (filters.maxPrice !== undefined && filters.maxPrice !== null && (price === undefined || price > filters.maxPrice)) return false;
+
+        if (filters.radiusKm && filters.lng !== undefined && filters.lat !== undefined) {
+            const coords = listing.location?.coordinates;
+            // [0, 0] is the "no location" placeholder
+            if (!coords || (coords[0] === 0 && coords[1] === 0)) return false;
+            if (calculateDistance([filters.lng, filters.lat], coords) > filters.radiusKm) return false;
+        }
+        return true;
+    }
+
+    private async email(search: SavedSearchDocument, listings: WasteListingDocument[], cadence: SearchCadence, total = listings.length): Promise<void> {
+        const recipient = await this.recipient(search);
+        if (!recipient) return;
+
+        await brevoService.sendSavedSearchAlert(recipient, {
+            searchId: search._id.toString(),
+            searchName: search.name,
+            cadence,
+            total,
+            listings: listings.map((listing) => ({
+                id: listing._id.toString(),
+                material: listing.material.category.replace(/_/g, ' '),
+                quantity: listing.quantity.value,
+                unit: listing.quantity.unit,
+                price: listing.pricing?.amount,
+                auction: listing.pricing?.type === 'auction',
+            })),
+        });
+    }
+
+    // The member who saved the search, else the company inbox
+    private async recipient(search: SavedSearchDocument): Promise<string | undefined> {
+        if (search.createdBy) {
+            const user = await User.findById(search.createdBy).select('email');
+            if (user?.email) return user.email;
+        }
+        const company = await Company.findById(search.companyId).select('email');
+        return company?.email || undefined;
+    }
+}
+
+export const savedSearchService = new SavedSearchService();
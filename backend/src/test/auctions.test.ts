@@ -0,0 +1,210 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { WasteListing } from '../models/WasteListing';
+import { Bid } from '../models/Bid';
+import { Match } from '../models/Match';
+import { auctionService } from '../services/auctions/auction.service';
+import { n8nService } from '../services/notifications/n8n.service';
+import { hazardousComplianceService } from '../services/compliance/hazardous.service';
+import { listingAnalyticsService } from '../services/analytics/listingAnalytics.service';
+
+const sellerId = new mongoose.Types.ObjectId();
+
+const MINUTE_MS = 60 * 1000;
+const bidderId = new mongoose.Types.ObjectId().toString();
+
+function liveAuction(settings: { endsInMs: number; highBid?: number; antiSnipingMinutes?: number; extensionMinutes?: number }) {
+    return new WasteListing({
+        companyId: sellerId,
+        status: 'active',
+        material: { category: 'plastic_pet' },
+        quantity: { value: 100, unit: 'kg' },
+        pricing: {
+            type: 'auction',
+            amount: 10,
+            currency: 'INR',
+            auction: {
+                bidding: 'open',
+                minIncrement: 2,
+                startsAt: new Date(Date.now() - 60 * MINUTE_MS),
+                endsAt: new Date(Date.now() + settings.endsInMs),
+                status: 'open',
+                highBid: settings.highBid,
+                antiSnipingMinutes: settings.antiSnipingMinutes ?? 5,
+                extensionMinutes: settings.extensionMinutes ?? 5,
+                bidCount: 0,
+                extensions: 0,
+            },
+        },
+    });
+}
+
+/** Stub everything placeBid touches; returns the guarded listing update */
+function stubBidding(listing: InstanceType<typeof WasteListing>) {
+    mock.method(WasteListing, 'findById', () => ({ select: async () => listing }));
+    mock.method(hazardousComplianceService, 'assertAuthorized', async () => undefined);
+    mock.method(Bid, 'findOne', async () => null);
+    mock.method(Bid, 'create', async (doc: object) => doc);
+    mock.method(Bid, 'updateMany', async () => ({ modifiedCount: 0 }));
+    mock.method(listingAnalyticsService, 'record', () => undefined);
+    mock.method(auctionService as any, 'notifyOutbid', async () => undefined);
+    return mock.method(WasteListing, 'findOneAndUpdate', async () => listing);
+}
+
+describe('AuctionService.placeBid', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('rejects a bid that does not beat the leader by the minimum increment', async () => {
+        const listing = liveAuction({ endsInMs: 60 * MINUTE_MS, highBid: 20 });
+        const update = stubBidding(listing);
+
+        await assert.rejects(
+            auctionService.placeBid(listing._id.toString(), { companyId: bidderId }, 21),
+            (error: any) => error.statusCode === 422 && /at least 22/.test(error.message),
+        );
+        assert.equal(update.mock.callCount(), 0);
+    });
+
+    it('accepts a bid at the increment and guards against a concurrent higher bid', async () => {
+        const listing = liveAuction({ endsInMs: 60 * MINUTE_MS, highBid: 20 });
+        const update = stubBidding(listing);
+
+        await auctionService.placeBid(listing._id.toString(), { companyId: bidderId }, 22);
+
+        const [guard, change] = update.mock.calls[0].arguments as any[];
+        assert.ok(guard.$or.some((c: any) => c['pricing.auction.highBid']?.$lte === 20));
+        assert.equal(change.$set['pricing.auction.highBid'], 22);
+    });
+
+    it('pushes the end back for a bid inside the anti-sniping window', async () => {
+        const listing = liveAuction({ endsInMs: 2 * MINUTE_MS });
+        const update = stubBidding(listing);
+        const before = Date.now();
+
+        const { bid: placed } = await auctionService.placeBid(listing._id.toString(), { companyId: bidderId }, 10);
+
+        const change = (update.mock.calls[0].arguments as any[])[1];
+        assert.ok(change.$set['pricing.auction.endsAt'].getTime() >= before + 5 * MINUTE_MS);
+        assert.equal(change.$inc['pricing.auction.extensions'], 1);
+        assert.equal(placed.extendedAuction, true);
+    });
+
+    it('never moves the end earlier when the extension is shorter than the time left', async () => {
+        const listing = liveAuction({ endsInMs: 30 * MINUTE_MS, antiSnipingMinutes: 60, extensionMinutes: 1 });
+        const endsAt = listing.pricing.auction.endsAt;
+        const update = stubBidding(listing);
+
+        await auctionService.placeBid(listing._id.toString(), { companyId: bidderId }, 10);
+
+        const change = (update.mock.calls[0].arguments as any[])[1];
+        assert.equal(change.$set['pricing.auction.endsAt'].getTime(), new Date(endsAt).getTime());
+        assert.equal(change.$inc['pricing.auction.extensions'], undefined);
+    });
+});
+
+function endedAuction(reservePrice?: number) {
+    return new WasteListing({
+        companyId: sellerId,
+        status: 'active',
+        material: { category: 'plastic_pet' },
+        quantity: { value: 100, unit: 'kg' },
+        pricing: {
+            type: 'auction',
+            amount: 10,
+            currency: 'INR',
+            auction: { bidding: 'open', reservePrice, minIncrement: 1, endsAt: new Date(Date.now() - 1000), status: 'open', antiSnipingMinutes: 5, extensionMinutes: 5 },
+        },
+    });
+}
+
+function bid(listingId: unknown, amount: number) {
+    const doc = new Bid({ listingId, sellerId, bidderId: new mongoose.Types.ObjectId(), amount, quantity: 100, unit: 'kg' });
+    mock.method(doc, 'save', async () => doc);
+    return doc;
+}
+
+/** Stub the listing claim and record every later listing update */
+function stubSettlement(listing: InstanceType<typeof WasteListing>, winner: ReturnType<typeof bid> | null) {
+    const claim = mock.method(WasteListing, 'findOneAndUpdate', async () => listing);
+    const updates = mock.method(WasteListing, 'updateOne', async () => ({ modifiedCount: 1 }));
+    mock.method(Bid, 'findOne', () => ({ sort: async () => winner }));
+    mock.method(Bid, 'updateMany', async () => ({ modifiedCount: 0 }));
+    mock.method(Match, 'findOne', async () => null);
+    mock.method(n8nService, 'triggerMatchFound', async () => undefined);
+    mock.method(auctionService as any, 'notifyResult', async () => undefined);
+    return { claim, updates };
+}
+
+describe('AuctionService.close', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('sells to the best bid at or above the reserve', async () => {
+        const listing = endedAuction(11);
+        const winner = bid(listing._id, 12);
+        const { updates } = stubSettlement(listing, winner);
+        const match = new Match({ _id: new mongoose.Types.ObjectId() });
+        const createMatch = mock.method(auctionService as any, 'createMatch', async () => match);
+
+        assert.equal(await auctionService.close(listing), true);
+
+        assert.equal(winner.status, 'won');
+        assert.equal(createMatch.mock.callCount(), 1);
+        const closed = (updates.mock.calls[0].arguments as any[])[1].$set;
+        assert.equal(closed.status, 'reserved');
+        assert.equal(closed['pricing.auction.status'], 'closed');
+        assert.equal(closed['pricing.auction.winningBidId'], winner._id);
+    });
+
+    it('closes unsold when no bid meets the reserve', async () => {
+        const listing = endedAuction(50);
+        const { updates } = stubSettlement(listing, bid(listing._id, 12));
+        const createMatch = mock.method(auctionService as any, 'createMatch', async () => null);
+
+        assert.equal(await auctionService.close(listing), false);
+
+        assert.equal(createMatch.mock.callCount(), 0);
+        const closed = (updates.mock.calls[0].arguments as any[])[1].$set;
+        assert.equal(closed['pricing.auction.status'], 'unsold');
+        assert.equal(closed.status, 'expired');
+    });
+
+    it('closes unsold when nobody bid', async () => {
+        const listing = endedAuction();
+        const { updates } = stubSettlement(listing, null);
+
+        assert.equal(await auctionService.close(listing), false);
+
+        assert.equal((updates.mock.calls[0].arguments as any[])[1].$set['pricing.auction.status'], 'unsold');
+    });
+
+    it('keeps the auction settling when the match cannot be created', async () => {
+        const listing = endedAuction();
+        const winner = bid(listing._id, 12);
+        const { claim, updates } = stubSettlement(listing, winner);
+        mock.method(auctionService as any, 'createMatch', async () => { throw new Error('database unavailable'); });
+
+        await assert.rejects(auctionService.close(listing), /database unavailable/);
+
+        const claimedTo = (claim.mock.calls[0].arguments as any[])[1].$set['pricing.auction.status'];
+        assert.equal(claimedTo, 'settling');
+        assert.equal(updates.mock.calls.length, 0);
+    });
+
+    it('retries a stale settling claim and reuses the winning bid', async () => {
+        const listing = endedAuction();
+        const winner = bid(listing._id, 12);
+        winner.status = 'won';
+        const { claim, updates } = stubSettlement(listing, winner);
+        const match = new Match({ _id: new mongoose.Types.ObjectId() });
+        mock.method(auctionService as any, 'createMatch', async () => match);
+
+        assert.equal(await auctionService.close(listing), true);
+
+        const claimFilter = (claim.mock.calls[0].arguments as any[])[0];
+        assert.ok(claimFilter.$or.some((c: any) => c['pricing.auction.status'] === 'settling'));
+        const closed = (updates.mock.calls[0].arguments as any[])[1].$set;
+        assert.equal(closed['pricing.auction.status'], 'closed');
+        assert.equal(closed['pricing.auction.matchId'], match._id);
+    });
+});
@@ -0,0 +1,123 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { env } from '../config/env';
+import { User } from '../models/User';
+import { Membership } from '../models/Membership';
+import { AccessAuditLog } from '../models/AccessAuditLog';
+import { membershipService } from '../services/membership/membership.service';
+import { authMiddleware, requirePlatformAdmin, signStreamToken, streamTokenAuth } from '../middleware/auth.middleware';
+
+const ADMIN_EMAIL = 'admin@ecoexchange.test';
+
+/** Stored user + membership that resolveActor and the admin guard will see */
+function stubAccount(email: string) {
+    const user = new User({ email, clerkUserId: 'user_admin' });
+    const membership = new Membership({ companyId: new mongoose.Types.ObjectId(), userId: user._id, email, role: 'owner', status: 'active' });
+    mock.method(membershipService, 'resolveActor', async () => ({ user, membership }));
+    mock.method(User, 'findById', () => ({ select: async () => user }));
+    mock.method(AccessAuditLog, 'create', async () => ({}));
+    return user;
+}
+
+function fakeResponse() {
+    return {
+        statusCode: 200,
+        body: undefined as unknown,
+        status(code: number) { this.statusCode = code; return this; },
+        json(body: unknown) { this.body = body; return this; },
+    };
+}
+
+/** Run a request through authMiddleware and requirePlatformAdmin */
+async function asAdmin(token: string) {
+    const req = {
+        headers: { authorization: `Bearer ${token}` },
+        method: 'GET',
+        originalUrl: '/api/admin/outbox',
+    } as unknown as Request;
+    const res = fakeResponse();
+
+    let authenticated = false;
+    await authMiddleware(req, res as unknown as Response, () => { authenticated = true; });
+    if (!authenticated) return { res, allowed: false };
+
+    let allowed = false;
+    await requirePlatformAdmin(req, res as unknown as Response, (err?: unknown) => { allowed = !err; });
+    return { res, allowed };
+}
+
+describe('requirePlatformAdmin', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('refuses a decode-only Clerk token even when the account is an admin', async () => {
+        stubAccount(ADMIN_EMAIL);
+        const forged = jwt.sign({ sub: 'user_admin', email: ADMIN_EMAIL, email_verified: true }, 'not-the-clerk-key');
+
+        const { res, allowed } = await asAdmin(forged);
+
+        assert.equal(allowed, false);
+        assert.equal(res.statusCode, 403);
+    });
+
+    it('ignores an admin email claimed by the token', async () => {
+        const user = stubAccount('buyer@example.com');
+        const token = jwt.sign({ userId: user._id.toString(), email: ADMIN_EMAIL }, env.JWT_SECRET);
+
+        const { res, allowed } = await asAdmin(token);
+
+        assert.equal(allowed, false);
+        assert.equal(res.statusCode, 403);
+    });
+
+    it('lets a verified session through when the stored email is an admin', async () => {
+        const user = stubAccount(ADMIN_EMAIL);
+        const token = jwt.sign({ userId: user._id.toString(), email: ADMIN_EMAIL }, env.JWT_SECRET);
+
+        const { allowed } = await asAdmin(token);
+
+        assert.equal(allowed, true);
+    });
+});
+
+describe('streamTokenAuth', () => {
+    afterEach(() => mock.restoreAll());
+
+    const companyId = new mongoose.Types.ObjectId().toString();
+    const userId = new mongoose.Types.ObjectId().toString();
+
+    function openStream(token: string) {
+        const req = { query: { stream_token: token }, headers: {} } as unknown as Request;
+        const res = fakeResponse();
+        let opened = false;
+        streamTokenAuth(req, res as unknown as Response, () => { opened = true; });
+        return { req, res, opened };
+    }
+
+    it('opens the stream for the company the token was issued for', () => {
+        const { req, opened } = openStream(signStreamToken(userId, companyId));
+
+        assert.equal(opened, true);
+        assert.equal(req.user?.companyId, companyId);
+    });
+
+    it('refuses a session token in the query string', () => {
+        const { res, opened } = openStream(jwt.sign({ userId, companyId }, env.JWT_SECRET));
+
+        assert.equal(opened, false);
+        assert.equal(res.statusCode, 401);
+    });
+
+    it('refuses a stream token used as a session', async () => {
+        const req = { headers: { authorization: `Bearer ${signStreamToken(userId, companyId)}` } } as unknown as Request;
+        const res = fakeResponse();
+        let authenticated = false;
+
+        await authMiddleware(req, res as unknown as Response, () => { authenticated = true; });
+
+        assert.equal(authenticated, false);
+        assert.equal(res.statusCode, 401);
+    });
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { Match } from '../models/Match';
+import { MatchBundle } from '../models/MatchBundle';
+import { NeedListing } from '../models/NeedListing';
+import { WasteListing } from '../models/WasteListing';
+import { matchingEngine } from '../services/matching/algorithm';
+import { negotiationService } from '../services/matching/negotiation.service';
+import { hazardousComplianceService } from '../services/compliance/hazardous.service';
+
+const buyerId = new mongoose.Types.ObjectId();
+
+/** A two-seller proposal whose listings are still available */
+function proposal() {
+    const listings = [0, 1].map(() => new WasteListing({
+        companyId: new mongoose.Types.ObjectId(),
+        status: 'active',
+        quantity: { value: 500, unit: 'kg' },
+    }));
+    const need = new NeedListing({ companyId: buyerId, status: 'active' });
+    const bundle = new MatchBundle({
+        needListingId: need._id,
+        buyerId,
+        strategy: 'lowest_cost',
+        status: 'proposed',
+        score: 80,
+        factors: { quantityFit: 1 },
+        items: listings.map((listing) => ({
+            wasteListingId: listing._id,
+            sellerId: listing.companyId,
+            quantity: 200,
+            unit: 'kg',
+            pricePerUnit: 10,
+            distanceKm: 12,
+        })),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+
+    mock.method(NeedListing, 'findById', async () => need);
+    mock.method(WasteListing, 'find', () => ({ populate: async () => listings }));
+    mock.method(Match, 'distinct', async () => []);
+    mock.method(hazardousComplianceService, 'assertAuthorized', async () => undefined);
+    mock.method(MatchBundle, 'findOneAndUpdate', async () => bundle);
+    return bundle;
+}
+
+describe('MatchingEngine.acceptBundle', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('removes the matches made so far and reopens the proposal when one fails', async () => {
+        const bundle = proposal();
+        const built = [new Match({ _id: new mongoose.Types.ObjectId() }), new Match({ _id: new mongoose.Types.ObjectId() })];
+        let next = 0;
+        mock.method(matchingEngine as any, 'buildMatch', async () => built[next++]);
+        mock.method(negotiationService, 'makeOffer', async (match: any) => {
+            if (match === built[1]) throw new Error('offer failed');
+            return match;
+        });
+        const deleted = mock.method(Match, 'deleteMany', async () => ({ deletedCount: 2 }));
+        const reopened = mock.method(MatchBundle, 'updateOne', async () => ({ modifiedCount: 1 }));
+        const superseded = mock.method(MatchBundle, 'updateMany', async () => ({ modifiedCount: 0 }));
+
+        await assert.rejects(matchingEngine.acceptBundle(bundle, { companyId: buyerId.toString() }), /offer failed/);
+
+        const removedIds = (deleted.mock.calls[0].arguments as any[])[0]._id.$in;
+        assert.deepEqual(removedIds, built.map((m) => m._id));
+        assert.equal((reopened.mock.calls[0].arguments as any[])[1].$set.status, 'proposed');
+        assert.equal(superseded.mock.callCount(), 0);
+    });
+});
@@ -0,0 +1,130 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { Match } from '../models/Match';
+import { LedgerTransaction } from '../models/LedgerTransaction';
+import { disputeService } from '../services/disputes/dispute.service';
+import { matchStateMachine } from '../services/matching/stateMachine';
+
+const buyerId = new mongoose.Types.ObjectId();
+const sellerId = new mongoose.Types.ObjectId();
+
+/** Journal lines on the escrow account, as LedgerService.balance reads them */
+function stubJournal(entries: Array<{ type: string; debit: number; credit: number }>) {
+    mock.method(LedgerTransaction, 'exists', async () => ({ _id: new mongoose.Types.ObjectId() }));
+    mock.method(LedgerTransaction, 'find', () => ({
+        select: () => ({
+            lean: async () => entries.map((e) => ({ type: e.type, lines: [{ account: 'escrow', debit: e.debit, credit: e.credit }] })),
+        }),
+    }));
+}
+
+function disputedMatch() {
+    return new Match({
+        sellerId,
+        buyerId,
+        wasteListingId: new mongoose.Types.ObjectId(),
+        needListingId: new mongoose.Types.ObjectId(),
+        matchScore: 80,
+        negotiation: { status: 'accepted' },
+        execution: { status: 'disputed' },
+        financials: {
+            agreedTerms: { pricePerUnit: 10, quantity: 100, unit: 'kg', totalPrice: 1000, currency: 'INR' },
+            paymentStatus: 'released',
+        },
+    });
+}
+
+function openDispute() {
+    return {
+        _id: new mongoose.Types.ObjectId(),
+        status: 'open',
+        filedByRole: 'buyer',
+        executionStatusBefore: 'completed',
+        save: mock.fn(async () => undefined),
+    } as any;
+}
+
+describe('dispute ruling on a completed match', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('refuses a refund once escrow has been released to the seller', async () => {
+        stubJournal([
+            { type: 'agreement', debit: 0, credit: 1000 },
+            { type: 'release', debit: 1000, credit: 0 },
+        ]);
+        const match = disputedMatch();
+        const save = mock.method(match, 'save', async () => match);
+        const dispute = openDispute();
+
+        await assert.rejects(
+            disputeService.rule(dispute, match, { email: 'admin@ecoexchange.test' }, {
+                decision: 'upheld',
+                paymentAction: 'refund',
+                passportAction: 'none',
+            }),
+            (error: any) => error.statusCode === 409,
+        );
+
+        assert.equal(save.mock.callCount(), 0);
+        assert.equal(dispute.save.mock.callCount(), 0);
+        assert.equal(match.financials.paymentStatus, 'released');
+        assert.equal(match.financials.refundedAmount, undefined);
+    });
+
+    it('refuses a partial refund larger than what is left in escrow', async () => {
+        stubJournal([
+            { type: 'agreement', debit: 0, credit: 1000 },
+            { type: 'refund', debit: 800, credit: 0 },
+        ]);
+
+        await assert.rejects(
+            disputeService.rule(openDispute(), disputedMatch(), { email: 'admin@ecoexchange.test' }, {
+                decision: 'partially_upheld',
+                paymentAction: 'partial_refund',
+                refundAmount: 500,
+                passportAction: 'none',
+            }),
+            (error: any) => error.statusCode === 409 && /200 INR/.test(error.message),
+        );
+    });
+});
+
+describe('dispute ruling before completion', () => {
+    afterEach(() => mock.restoreAll());
+
+    /** A free deal disputed on delivery — no money moves, only execution */
+    function disputedDelivery() {
+        stubJournal([]);
+        const match = disputedMatch();
+        match.set('financials', { paymentStatus: 'pending' });
+        mock.method(match, 'save', async () => match);
+        const dispute = { ...openDispute(), executionStatusBefore: 'delivered' };
+        return { match, dispute };
+    }
+
+    it('cancels the deal on a full refund so it cannot be completed', async () => {
+        const { match, dispute } = disputedDelivery();
+
+        await disputeService.rule(dispute, match, { email: 'admin@ecoexchange.test' }, {
+            decision: 'upheld',
+            paymentAction: 'refund',
+            passportAction: 'none',
+        });
+
+        assert.equal(match.execution.status, 'cancelled');
+        assert.throws(() => matchStateMachine.transition(match, 'execution', 'verified', { actor: 'buyer', reason: 'test' }));
+    });
+
+    it('returns execution to where it was for a release', async () => {
+        const { match, dispute } = disputedDelivery();
+
+        await disputeService.rule(dispute, match, { email: 'admin@ecoexchange.test' }, {
+            decision: 'dismissed',
+            paymentAction: 'release',
+            passportAction: 'none',
+        });
+
+        assert.equal(match.execution.status, 'delivered');
+    });
+});
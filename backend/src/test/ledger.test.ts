@@ -0,0 +1,121 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { Match } from '../models/Match';
+import { LedgerTransaction } from '../models/LedgerTransaction';
+import { ledgerService } from '../services/payments/ledger.service';
+import { paymentProvider } from '../services/payments/providers';
+
+type Entry = { _id: mongoose.Types.ObjectId; idempotencyKey: string; matchId: unknown; type: string; amount: number; lines: Array<{ account: string; debit: number; credit: number }> };
+
+/** In-memory journal behind the LedgerTransaction calls the service makes */
+function fakeJournal(): Entry[] {
+    const entries: Entry[] = [];
+    const matching = (filter: Record<string, unknown>) => entries.filter((e) =>
+        (!filter.matchId || String(e.matchId) === String(filter.matchId))
+        && (!filter.type || e.type === filter.type)
+        && (!filter.idempotencyKey || e.idempotencyKey === filter.idempotencyKey)
+        && (!filter['lines.account'] || e.lines.some((l) => l.account === filter['lines.account'])));
+
+    mock.method(LedgerTransaction, 'find', (filter: Record<string, unknown>) => ({
+        select: () => ({ lean: async () => matching(filter) }),
+    }));
+    mock.method(LedgerTransaction, 'exists', async (filter: Record<string, unknown>) => matching(filter)[0] ? { _id: matching(filter)[0]._id } : null);
+    mock.method(LedgerTransaction, 'findOne', async (filter: Record<string, unknown>) => matching(filter)[0] ?? null);
+    mock.method(LedgerTransaction, 'create', async (doc: Omit<Entry, '_id'>) => {
+        const entry = { ...doc, _id: new mongoose.Types.ObjectId() };
+        entries.push(entry);
+        return entry;
+    });
+    return entries;
+}
+
+/** An accepted 1000 INR deal with its agreement already booked */
+async function agreedMatch() {
+    const match = new Match({
+        sellerId: new mongoose.Types.ObjectId(),
+        buyerId: new mongoose.Types.ObjectId(),
+        wasteListingId: new mongoose.Types.ObjectId(),
+        needListingId: new mongoose.Types.ObjectId(),
+        matchScore: 80,
+        negotiation: { status: 'accepted' },
+        financials: {
+            agreedTerms: { pricePerUnit: 10, quantity: 100, unit: 'kg', totalPrice: 1000, currency: 'INR' },
+            paymentStatus: 'pending',
+        },
+    });
+    await ledgerService.recordAgreement(match);
+    return match;
+}
+
+describe('LedgerService postings', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('keeps every entry balanced from agreement to payout', async () => {
+        const journal = fakeJournal();
+        const match = await agreedMatch();
+        await ledgerService.hold(match);
+        await ledgerService.release(match);
+
+        assert.deepEqual(journal.map((e) => e.type), ['agreement', 'hold', 'release', 'payout']);
+        for (const entry of journal) {
+            const debits = entry.lines.reduce((sum, l) => sum + l.debit, 0);
+            const credits = entry.lines.reduce((sum, l) => sum + l.credit, 0);
+            assert.equal(debits, credits, `${entry.type} is unbalanced`);
+        }
+        assert.equal(match.financials.paymentStatus, 'released');
+        assert.equal(match.financials.sellerEarnings, 1000 - match.financials.platformFee);
+    });
+
+    it('replays a retried step instead of posting or charging again', async () => {
+        const journal = fakeJournal();
+        const charge = mock.method(paymentProvider, 'charge');
+        const match = await agreedMatch();
+
+        await ledgerService.recordAgreement(match);
+        await ledgerService.hold(match);
+        await ledgerService.hold(match);
+
+        assert.equal(journal.filter((e) => e.type === 'agreement').length, 1);
+        assert.equal(journal.filter((e) => e.type === 'hold').length, 1);
+        assert.equal(charge.mock.callCount(), 1);
+    });
+});
+
+describe('LedgerService.refund', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('refuses a refund once escrow has been released', async () => {
+        const journal = fakeJournal();
+        const match = await agreedMatch();
+        await ledgerService.release(match);
+
+        await assert.rejects(ledgerService.refund(match), (error: any) => error.statusCode === 409);
+        assert.equal(match.financials.paymentStatus, 'released');
+        assert.equal(journal.filter((e) => e.type === 'refund' || e.type === 'void').length, 0);
+    });
+});
+
+describe('LedgerService.release', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('refuses to release a match that has been refunded', async () => {
+        const journal = fakeJournal();
+        const match = await agreedMatch();
+        await ledgerService.refund(match);
+
+        await assert.rejects(ledgerService.release(match), (error: any) => error.statusCode === 409);
+        assert.equal(match.financials.paymentStatus, 'refunded');
+        assert.equal(journal.filter((e) => e.type === 'release').length, 0);
+    });
+
+    it('refuses when escrow is empty and nothing was ever released', async () => {
+        fakeJournal();
+        const match = await agreedMatch();
+        await ledgerService.refund(match);
+        match.set('financials.paymentStatus', 'held');
+
+        await assert.rejects(ledgerService.release(match), (error: any) => error.statusCode === 409);
+        assert.equal(match.financials.paymentStatus, 'held');
+    });
+});
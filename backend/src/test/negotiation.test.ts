@@ -0,0 +1,133 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { Match } from '../models/Match';
+import { WasteListing } from '../models/WasteListing';
+import { matchStateMachine } from '../services/matching/stateMachine';
+import { negotiationService } from '../services/matching/negotiation.service';
+
+const seller = { companyId: new mongoose.Types.ObjectId().toString() };
+const buyer = { companyId: new mongoose.Types.ObjectId().toString() };
+const terms = { pricePerUnit: 12, quantity: 200 };
+
+function openMatch(negotiation: object = { status: 'pending' }, execution: object = { status: 'not_started' }) {
+    const match = new Match({
+        sellerId: seller.companyId,
+        buyerId: buyer.companyId,
+        wasteListingId: new mongoose.Types.ObjectId(),
+        needListingId: new mongoose.Types.ObjectId(),
+        matchScore: 80,
+        negotiation,
+        execution,
+    });
+    mock.method(match, 'save', async () => match);
+    mock.method(WasteListing, 'findById', () => ({ select: async () => ({ quantity: { value: 500, unit: 'kg' } }) }));
+    return match;
+}
+
+const byStatus = (error: any, statusCode: number) => error.statusCode === statusCode;
+
+describe('MatchStateMachine', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('makes an allowed move and records it in the history', () => {
+        const match = openMatch();
+
+        matchStateMachine.transition(match, 'negotiation', 'in_progress', { actor: 'buyer', ...buyer, reason: 'Opening offer' });
+
+        assert.equal(match.negotiation.status, 'in_progress');
+        const entry = match.statusHistory[match.statusHistory.length - 1];
+        assert.equal(entry.from, 'pending');
+        assert.equal(entry.status, 'in_progress');
+        assert.equal(entry.actorRole, 'buyer');
+    });
+
+    it('rejects a move the table does not allow with 409', () => {
+        const match = openMatch({ status: 'accepted' });
+
+        assert.throws(() => matchStateMachine.transition(match, 'negotiation', 'in_progress', { actor: 'seller', reason: 'reopen' }), (e) => byStatus(e, 409));
+        assert.equal(match.negotiation.status, 'accepted');
+    });
+
+    it('rejects the wrong party with 403', () => {
+        const match = openMatch({ status: 'accepted' }, { status: 'pickup_scheduled' });
+
+        assert.throws(() => matchStateMachine.transition(match, 'execution', 'in_transit', { actor: 'buyer', reason: 'pickup' }), (e) => byStatus(e, 403));
+        assert.equal(match.execution.status, 'pickup_scheduled');
+    });
+
+    it('keeps execution closed until the negotiation is accepted', () => {
+        const match = openMatch({ status: 'in_progress' });
+
+        assert.throws(() => matchStateMachine.transition(match, 'execution', 'pickup_scheduled', { actor: 'system', reason: 'slot' }), (e) => byStatus(e, 409));
+        assert.equal(matchStateMachine.canTransition(match, 'execution', 'pickup_scheduled', 'system'), false);
+    });
+});
+
+describe('NegotiationService offers', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('makes a party wait for an answer before offering again', async () => {
+        const match = openMatch();
+        await negotiationService.makeOffer(match, seller, terms);
+
+        await assert.rejects(negotiationService.makeOffer(match, seller, { ...terms, pricePerUnit: 11 }), (e) => byStatus(e, 409));
+        assert.equal(match.negotiation.awaitingResponseFrom, 'buyer');
+        assert.equal(match.negotiation.offers.length, 1);
+    });
+
+    it('lets the other party counter, which closes the previous offer', async () => {
+        const match = openMatch();
+        await negotiationService.makeOffer(match, seller, terms);
+
+        await negotiationService.respond(match, buyer, 1, 'counter', { terms: { ...terms, pricePerUnit: 10 } });
+
+        const [first, counter] = match.negotiation.offers;
+        assert.equal(first.status, 'countered');
+        assert.equal(counter.status, 'open');
+        assert.equal(counter.fromRole, 'buyer');
+        assert.equal(match.negotiation.awaitingResponseFrom, 'seller');
+        assert.equal(match.negotiation.status, 'in_progress');
+    });
+
+    it('refuses an answer to your own offer or to a superseded version', async () => {
+        const match = openMatch();
+        await negotiationService.makeOffer(match, seller, terms);
+        await assert.rejects(negotiationService.respond(match, seller, 1, 'accept'), (e) => byStatus(e, 403));
+
+        await negotiationService.respond(match, buyer, 1, 'counter', { terms });
+        await assert.rejects(negotiationService.respond(match, seller, 1, 'reject'), (e) => byStatus(e, 409));
+    });
+
+    it('expires a stale offer instead of accepting it', async () => {
+        const match = openMatch();
+        await negotiationService.makeOffer(match, seller, terms);
+        match.negotiation.offers[0].expiresAt = new Date(Date.now() - 1000);
+
+        await assert.rejects(negotiationService.respond(match, buyer, 1, 'accept'), (e) => byStatus(e, 410));
+
+        assert.equal(match.negotiation.offers[0].status, 'expired');
+        assert.equal(match.negotiation.awaitingResponseFrom, undefined);
+        assert.notEqual(match.negotiation.status, 'accepted');
+    });
+
+    it('lets the same party offer again once their offer has expired', async () => {
+        const match = openMatch();
+        await negotiationService.makeOffer(match, seller, terms);
+        match.negotiation.offers[0].expiresAt = new Date(Date.now() - 1000);
+
+        await negotiationService.makeOffer(match, seller, { ...terms, pricePerUnit: 11 });
+
+        assert.deepEqual(match.negotiation.offers.map((o: any) => o.status), ['expired', 'open']);
+        assert.equal(match.negotiation.currentOfferVersion, 2);
+    });
+
+    it('refuses an offer that expires in the past', async () => {
+        const match = openMatch();
+
+        await assert.rejects(
+            negotiationService.makeOffer(match, buyer, { ...terms, expiresAt: new Date(Date.now() - 1000) }),
+            (e) => byStatus(e, 422),
+        );
+    });
+});
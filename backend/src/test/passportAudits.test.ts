@@ -0,0 +1,65 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import { Auditor } from '../models/Auditor';
+import { Membership } from '../models/Membership';
+import { ProductPassport } from '../models/ProductPassport';
+import { passportAuditService } from '../services/passports/passportAudit.service';
+
+const REVIEWER_EMAIL = 'reviewer@verifier.test';
+const sellerId = new mongoose.Types.ObjectId();
+const buyerId = new mongoose.Types.ObjectId();
+
+/** A stored reviewer listed on an accredited auditor, member of `companyIds` */
+function stubReviewer(companyIds: mongoose.Types.ObjectId[] = []) {
+    const user = new User({ email: REVIEWER_EMAIL });
+    const auditor = new Auditor({ organization: 'Verifier Ltd', accreditation: { body: 'NABCB', number: 'V-1' }, emails: [REVIEWER_EMAIL] });
+    mock.method(User, 'findById', () => ({ select: async () => user }));
+    const findAuditor = mock.method(Auditor, 'findOne', async () => auditor);
+    mock.method(Membership, 'find', () => ({ select: () => ({ lean: async () => companyIds.map((companyId) => ({ companyId })) }) }));
+    return { user, findAuditor };
+}
+
+function pendingPassport() {
+    const passport = new ProductPassport({
+        passportNumber: 'EP-TEST-1',
+        origin: { companyId: sellerId },
+        destination: { companyId: buyerId },
+        verification: { status: 'pending', auditors: [] },
+    });
+    mock.method(passport, 'save', async () => passport);
+    return passport;
+}
+
+describe('PassportAuditService reviewers', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('refuses a session whose token signature was never checked', async () => {
+        const { user, findAuditor } = stubReviewer();
+
+        await assert.rejects(
+            passportAuditService.auditorFor({ userId: user._id.toString(), email: REVIEWER_EMAIL, verified: false }),
+            (error: any) => error.statusCode === 403,
+        );
+        assert.equal(findAuditor.mock.callCount(), 0);
+    });
+
+    it('matches the auditor on the stored email, not the token claim', async () => {
+        const { user, findAuditor } = stubReviewer();
+
+        const reviewer = await passportAuditService.auditorFor({ userId: user._id.toString(), email: 'someone@else.test', verified: true });
+
+        assert.equal(reviewer.email, REVIEWER_EMAIL);
+        assert.equal((findAuditor.mock.calls[0].arguments as any[])[0].emails, REVIEWER_EMAIL);
+    });
+
+    it('refuses a reviewer who belongs to one of the trading companies', async () => {
+        const { user } = stubReviewer([buyerId]);
+        const reviewer = await passportAuditService.auditorFor({ userId: user._id.toString(), verified: true });
+        const passport = pendingPassport();
+
+        await assert.rejects(passportAuditService.open(passport, reviewer), (error: any) => error.statusCode === 403);
+        assert.equal(passport.verification.auditors.length, 0);
+    });
+});
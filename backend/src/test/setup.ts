@@ -0,0 +1,9 @@
+// Loaded before every test file: the config module exits on missing
+// variables, so give it harmless values. Nothing here connects to MongoDB —
+// tests stub the model calls they depend on.
+process.env.NODE_ENV = 'test';
+process.env.MONGO_URI ??= 'mongodb://127.0.0.1:27017/ecoexchange-test';
+process.env.JWT_SECRET ??= 'test-secret-not-for-production-use-000000';
+process.env.GROQ_API_KEY ??= 'test';
+process.env.GEMINI_API_KEY ??= 'test';
+process.env.PLATFORM_ADMIN_EMAILS = 'admin@ecoexchange.test';
@@ -0,0 +1,52 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { Match } from '../models/Match';
+import { shipmentService } from '../services/logistics/shipment.service';
+import { hazardousComplianceService } from '../services/compliance/hazardous.service';
+import { ledgerService } from '../services/payments/ledger.service';
+
+function scheduledPickup() {
+    const match = new Match({
+        sellerId: new mongoose.Types.ObjectId(),
+        buyerId: new mongoose.Types.ObjectId(),
+        wasteListingId: new mongoose.Types.ObjectId(),
+        needListingId: new mongoose.Types.ObjectId(),
+        matchScore: 80,
+        negotiation: { status: 'accepted' },
+        execution: { status: 'pickup_scheduled' },
+        financials: {
+            agreedTerms: { pricePerUnit: 10, quantity: 100, unit: 'kg', totalPrice: 1000, currency: 'INR' },
+            paymentStatus: 'pending',
+        },
+        shipment: { transporter: { name: 'Green Haulage' }, events: [] },
+    });
+    mock.method(hazardousComplianceService, 'dispatch', async () => undefined);
+    return match;
+}
+
+describe('ShipmentService pickup', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('does not charge the buyer when the pickup cannot be saved', async () => {
+        const match = scheduledPickup();
+        mock.method(match, 'save', async () => { throw new Error('write conflict'); });
+        const hold = mock.method(ledgerService, 'hold', async () => undefined);
+
+        await assert.rejects(shipmentService.report(match, { type: 'picked_up' }), /write conflict/);
+
+        assert.equal(hold.mock.callCount(), 0);
+    });
+
+    it('charges the buyer after the pickup is saved', async () => {
+        const match = scheduledPickup();
+        const order: string[] = [];
+        mock.method(match, 'save', async () => { order.push('save'); return match; });
+        mock.method(ledgerService, 'hold', async () => { order.push('hold'); });
+
+        await shipmentService.report(match, { type: 'picked_up' });
+
+        assert.equal(match.execution.status, 'in_transit');
+        assert.deepEqual(order, ['save', 'hold', 'save']);
+    });
+});
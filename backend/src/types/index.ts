@@ -1,4 +1,5 @@
 import { MATERIAL_CATEGORIES, INDUSTRY_TYPES, REVENUE_RANGES } from '../utils/constants';
+import { QuantityUnit } from '../utils/units';
 
 // ============ Shared Types ============
 
@@ -54,6 +55,12 @@ export interface ICompany {
     };
     onboardingComplete: boolean;
     verificationStatus: 'pending' | 'verified' | 'suspended';
+    reputation?: {
+        score: number;
+        components: Record<string, { score: number; weight: number; observations: number }>;
+        formula: string;
+        computedAt: Date;
+    };
     createdAt: Date;
     updatedAt: Date;
     lastLoginAt?: Date;
@@ -61,6 +68,28 @@ export interface ICompany {
 
 // ============ Waste Listing ============
 
+export type AuctionStatus = 'scheduled' | 'open' | 'settling' | 'closed' | 'unsold';
+
+export interface IAuctionSettings {
+    bidding: 'open' | 'sealed';
+    reservePrice?: number;
+    minIncrement: number;
+    startsAt: Date;
+    endsAt: Date;
+    originalEndsAt: Date;
+    antiSnipingMinutes: number;
+    extensionMinutes: number;
+    status: AuctionStatus;
+    highBid?: number;
+    highBidderId?: string;
+    bidCount: number;
+    extensions: number;
+    winningBidId?: string;
+    matchId?: string;
+    settlingAt?: Date;
+    closedAt?: Date;
+}
+
 export interface IWasteListing {
     companyId: string;
     listedBy?: string;
@@ -69,11 +98,12 @@ export interface IWasteListing {
         subType?: string;
         chemicalComposition?: string;
         hazardous: boolean;
+        hazardousCategory?: string;
         msdsAvailable?: boolean;
     };
     quantity: {
         value: number;
-        unit: 'kg' | 'ton' | 'liter' | 'cubic_meter';
+        unit: QuantityUnit;
         frequency: 'one_time' | 'daily' | 'weekly' | 'monthly' | 'quarterly';
         availableFrom?: Date;
         availableUntil?: Date;
@@ -91,6 +121,7 @@ export interface IWasteListing {
         currency: string;
         minimumOrder?: number;
         bulkDiscount?: { threshold: number; percentage: number };
+        auction?: IAuctionSettings;
     };
     logistics: {
         pickupAvailable: boolean;
@@ -126,7 +157,7 @@ export interface INeedListing {
         quantity: {
             min: number;
             max: number;
-            unit: string;
+            unit: QuantityUnit;
             frequency: string;
             flexibility: 'strict' | 'flexible' | 'spot_purchase';
         };
@@ -151,15 +182,75 @@ export interface INeedListing {
         prioritizeQuality: number;
         prioritizeReliability: number;
     };
+    matchCount: number;
     createdAt: Date;
     expiresAt?: Date;
 }
 
 // ============ Match ============
 
+export type MatchParty = 'seller' | 'buyer';
+
+export interface ITransportLeg {
+    from: { label?: string; coordinates: number[] };
+    to: { label?: string; coordinates: number[] };
+    distanceKm: number;
+    measured: boolean;
+}
+
+export interface ITransportAssessment {
+    source: 'estimated' | 'recorded' | 'client';
+    distanceKm: number;
+    vehicleType: string;
+    loadFactor: number;
+    emissionFactor: number;
+    co2Kg: number;
+    estimatedCostINR?: number;
+    routeFactor?: number;
+    legs: ITransportLeg[];
+    formula: string;
+    assessedAt: Date;
+    carrier?: string;
+    recordedBy?: string;
+    recordedByUser?: string;
+}
+
+export type OfferStatus = 'open' | 'accepted' | 'rejected' | 'countered' | 'expired';
+
+export interface IMatchOffer {
+    version: number;
+    fromCompanyId: string;
+    fromRole: MatchParty;
+    proposedBy?: string;
+    pricePerUnit: number;
+    quantity: number;
+    unit?: string;
+    pickupWindow?: { start: Date; end: Date };
+    expiresAt: Date;
+    message?: string;
+    status: OfferStatus;
+    respondedAt?: Date;
+    respondedBy?: string;
+    createdAt: Date;
+}
+
+export type ReviewStatus = 'published' | 'held' | 'hidden';
+
+export interface IReviewModeration {
+    status: ReviewStatus;
+    flags: Array<{ source: 'auto' | 'report'; reason: string; by?: string; byUser?: string; at: Date }>;
+    needsReview: boolean;
+    moderatedBy?: string;
+    moderatedAt?: Date;
+    notes?: string;
+}
+
 export interface IMatch {
     wasteListingId: string;
-    needListingId: string;
+    needListingId?: string;
+    origin?: 'matching' | 'auction' | 'bundle';
+    auctionBidId?: string;
+    bundleId?: string;
     sellerId: string;
     buyerId: string;
     matchScore: number;
@@ -195,11 +286,14 @@ export interface IMatch {
             timestamp: Date;
             attachments?: string[];
         }>;
+        offers: IMatchOffer[];
+        currentOfferVersion: number;
+        awaitingResponseFrom?: MatchParty;
         acceptedAt?: Date;
         acceptedBy?: string;
     };
     execution: {
-        status: 'not_started' | 'pickup_scheduled' | 'in_transit' | 'delivered' | 'verified' | 'disputed' | 'completed';
+        status: 'not_started' | 'pickup_scheduled' | 'in_transit' | 'delivered' | 'verified' | 'disputed' | 'completed' | 'cancelled';
         pickupScheduledAt?: Date;
         actualPickupAt?: Date;
         deliveredAt?: Date;
@@ -210,6 +304,10 @@ export interface IMatch {
         buyerVerification?: { approved: boolean; notes: string; at: Date };
         sellerVerification?: { approved: boolean; notes: string; at: Date };
     };
+    transport?: {
+        estimate?: ITransportAssessment;
+        actual?: ITransportAssessment;
+    };
     actualImpact?: {
         co2SavedKg: number;
         waterSavedLiters: number;
@@ -224,8 +322,20 @@ export interface IMatch {
         platformFee?: number;
         sellerEarnings?: number;
         buyerSavings?: number;
-        paymentStatus: 'pending' | 'held' | 'released' | 'refunded';
+        paymentStatus: 'pending' | 'held' | 'released' | 'refunded' | 'partially_refunded';
+        refundedAmount?: number;
         invoiceUrl?: string;
+        agreedTerms?: {
+            source: 'offer' | 'listing' | 'auction';
+            offerVersion?: number;
+            pricePerUnit: number;
+            quantity: number;
+            unit: string;
+            totalPrice: number;
+            currency: string;
+            pickupWindow?: { start: Date; end: Date };
+            lockedAt: Date;
+        };
     };
     ratings?: {
         sellerRating?: number;
@@ -234,11 +344,20 @@ export interface IMatch {
         buyerReview?: string;
         sellerWouldRecommend?: boolean;
         buyerWouldRecommend?: boolean;
+        sellerReviewedAt?: Date;
+        buyerReviewedAt?: Date;
+        sellerReviewedBy?: string;
+        buyerReviewedBy?: string;
+        moderation?: Partial<Record<MatchParty, IReviewModeration>>;
     };
     statusHistory: Array<{
+        track?: 'negotiation' | 'execution';
+        from?: string;
         status: string;
         changedAt: Date;
         changedBy?: string;
+        changedByUser?: string;
+        actorRole?: MatchParty | 'system';
         reason?: string;
     }>;
     createdAt: Date;
@@ -263,10 +382,17 @@ export interface IProductPassport {
     };
     journey: {
         transport: {
-            mode: 'truck' | 'rail' | 'ship' | 'pipeline';
+            mode: 'truck' | 'rail' | 'ship' | 'pipeline' | 'air';
             distanceKm: number;
             emissionsKg: number;
             carrier?: string;
+            distanceSource?: 'estimated' | 'recorded' | 'client';
+            vehicleType?: string;
+            loadFactor?: number;
+            emissionFactor?: number;
+            routeFactor?: number;
+            legs?: ITransportLeg[];
+            formula?: string;
             trackingEvents?: Array<{
                 timestamp: Date;
                 location: number[];
@@ -279,7 +405,9 @@ export interface IProductPassport {
             process: string;
             date: Date;
             emissionsKg: number;
-            outputQuantity: number;
+            inputQuantity?: number;
+            outputQuantity?: number;
+            yieldPct?: number;
         }>;
     };
     destination: {
@@ -308,8 +436,24 @@ export interface IProductPassport {
     verification: {
         qrCode?: string;
         status: 'pending' | 'verified' | 'disputed' | 'revoked';
-        auditors?: Array<{ organization: string; date: Date; result: string }>;
+        auditors?: Array<{
+            organization: string;
+            accreditation?: string;
+            status: 'in_review' | 'completed';
+            startedAt: Date;
+            date?: Date;
+            result?: 'pass' | 'fail';
+            findings?: string;
+        }>;
         documents?: Array<{ type: string; url: string; hash: string }>;
+        revokedAt?: Date;
+        revocationReason?: string;
+        amendments?: Array<{ field: string; from: unknown; to: unknown; reason: string; disputeId?: string; at: Date }>;
+    };
+    lineage?: {
+        parentPassportIds: string[];
+        parentPassportNumbers: string[];
+        depth: number;
     };
     publicUrl: string;
     matchId: string;
@@ -377,8 +521,15 @@ export interface IEmailLog {
     matchId?: string;
     type: string;
     recipient: string;
-    sentAt: Date;
-    status: 'sent' | 'delivered' | 'failed' | 'bounced';
+    subject?: string;
+    idempotencyKey?: string;
+    status: 'queued' | 'sending' | 'sent' | 'delivered' | 'failed' | 'dead' | 'bounced';
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt?: Date;
+    sentAt?: Date;
+    deadLetteredAt?: Date;
+    messageId?: string;
     error?: string;
 }
 
@@ -397,10 +548,17 @@ export interface ApiResponse<T = any> {
     };
 }
 
+export type MemberRole = 'owner' | 'admin' | 'procurement' | 'viewer';
+
 export interface AuthUser {
-    userId: string;
-    companyId?: string;
+    userId: string;            // acting User (person), not the company
+    companyId?: string;        // company the user is acting for
+    membershipId?: string;
+    role?: MemberRole;
+    clerkUserId?: string;
     email?: string;
+    emailVerified?: boolean;   // identity provider confirmed the email
+    verified?: boolean;        // token signature was checked
     firstName?: string;
     lastName?: string;
     fullName?: string;
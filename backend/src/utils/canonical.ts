@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+
+/**
+ * Canonical JSON — object keys sorted, no whitespace, undefined dropped,
+ * dates as ISO strings and ObjectIds as hex. The same value always
+ * serialises to the same bytes, so its hash can be recomputed anywhere.
+ */
+export function canonicalize(value: unknown): string {
+    return JSON.stringify(normalize(value));
+}
+
+export function sha256(data: string | Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function normalize(value: unknown): unknown {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return value.map((v) => (v === undefined ? null : normalize(v)));
+    if (typeof value === 'object') {
+        if (typeof (value as { toHexString?: unknown }).toHexString === 'function') {
+            return (value as { toHexString: () => string }).toHexString();
+        }
+        const out: Record<string, unknown> = {};
+        for (const key of Object.keys(value as object).sort()) {
+            const v = (value as Record<string, unknown>)[key];
+            if (v !== undefined) out[key] = normalize(v);
+        }
+        return out;
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) return null;
+    return value;
+}
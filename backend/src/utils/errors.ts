@@ -0,0 +1,14 @@
+/**
+ * Error carrying an HTTP status code.
+ * Services throw these; controllers pass them to next() and the global
+ * errorHandler turns them into `{ success: false, error }` responses.
+ */
+export class HttpError extends Error {
+    statusCode: number;
+
+    constructor(statusCode: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+        this.statusCode = statusCode;
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * GST reference data for tax invoices — HSN codes and rates per material
+ * category, state codes, and financial-year helpers.
+ */
+
+// 2-digit state code, 10-character PAN, entity number, 'Z', checksum
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// HSN heading and GST rate (%) for each material category
+export const HSN_BY_CATEGORY: Record<string, { hsnCode: string; gstRate: number; description: string }> = {
+    metal_scrap: { hsnCode: '7204', gstRate: 18, description: 'Ferrous waste and scrap' },
+    plastic: { hsnCode: '3915', gstRate: 18, description: 'Waste, parings and scrap of plastics' },
+    organic: { hsnCode: '2308', gstRate: 5, description: 'Vegetable materials and waste' },
+    fabric: { hsnCode: '6310', gstRate: 5, description: 'Used rags and textile scrap' },
+    wood: { hsnCode: '4401', gstRate: 5, description: 'Sawdust and wood waste' },
+    chemical: { hsnCode: '3825', gstRate: 18, description: 'Residual products of the chemical industries' },
+    electronic: { hsnCode: '8549', gstRate: 18, description: 'Electrical and electronic waste and scrap' },
+    construction: { hsnCode: '2517', gstRate: 5, description: 'Broken stone and construction aggregate' },
+    mixed: { hsnCode: '3825', gstRate: 18, description: 'Municipal and other waste' },
+    energy_recovery: { hsnCode: '3825', gstRate: 18, description: 'Waste for energy recovery' },
+};
+
+export const GST_STATE_CODES: Record<string, string> = {
+    'jammu and kashmir': '01',
+    'himachal pradesh': '02',
+    punjab: '03',
+    chandigarh: '04',
+    uttarakhand: '05',
+    haryana: '06',
+    delhi: '07',
+    rajasthan: '08',
+    'uttar pradesh': '09',
+    bihar: '10',
+    sikkim: '11',
+    'arunachal pradesh': '12',
+    nagaland: '13',
+    manipur: '14',
+    mizoram: '15',
+    tripura: '16',
+    meghalaya: '17',
+    assam: '18',
+    'west bengal': '19',
+    jharkhand: '20',
+    odisha: '21',
+    chhattisgarh: '22',
+    'madhya pradesh': '23',
+    gujarat: '24',
+    'dadra and nagar haveli and daman and diu': '26',
+    maharashtra: '27',
+    karnataka: '29',
+    goa: '30',
+    lakshadweep: '31',
+    kerala: '32',
+    'tamil nadu': '33',
+    puducherry: '34',
+    'andaman and nicobar islands': '35',
+    telangana: '36',
+    'andhra pradesh': '37',
+    ladakh: '38',
+};
+
+export function isValidGstin(gstin?: string | null): boolean {
+    return !!gstin && GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+/**
+ * GST state code from a GSTIN, falling back to the state name.
+ */
+export function stateCodeOf(gstin?: string | null, state?: string | null): string | undefined {
+    if (isValidGstin(gstin)) return gstin!.trim().slice(0, 2);
+    if (!state) return undefined;
+    const key = state.toLowerCase().replace(/&/g, 'and').replace(/[^a-z ]/g, '').replace(/\s+/g, ' ').trim();
+    return GST_STATE_CODES[key] || (key === 'new delhi' || key === 'nct of delhi' ? '07' : undefined);
+}
+
+/**
+ * Indian financial year (April–March) a date falls in, e.g. 2026-27.
+ */
+export function financialYearOf(date: Date = new Date()): string {
+    const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
@@ -0,0 +1,52 @@
+import { sha256 } from './canonical';
+
+export interface MerkleStep {
+    position: 'left' | 'right';
+    hash: string;
+}
+
+// Binary Merkle tree over hex leaf hashes. A parent is sha256 of its
+// children's hex strings concatenated left to right; a node without a
+// sibling is carried up to the next level unchanged.
+
+export function merkleRoot(leaves: string[]): string {
+    if (leaves.length === 0) throw new Error('Merkle tree needs at least one leaf');
+    let level = leaves;
+    while (level.length > 1) level = parentLevel(level);
+    return level[0];
+}
+
+/**
+ * Sibling hashes from the leaf at `index` up to the root.
+ */
+export function merkleProof(leaves: string[], index: number): MerkleStep[] {
+    if (index < 0 || index >= leaves.length) throw new Error(`Leaf ${index} is not in the tree`);
+    const path: MerkleStep[] = [];
+    let level = leaves;
+    let i = index;
+    while (level.length > 1) {
+        const sibling = i % 2 === 0 ? i + 1 : i - 1;
+        if (sibling < level.length) {
+            path.push({ position: i % 2 === 0 ? 'right' : 'left', hash: level[sibling] });
+        }
+        level = parentLevel(level);
+        i = Math.floor(i / 2);
+    }
+    return path;
+}
+
+export function verifyMerkleProof(leaf: string, path: MerkleStep[], root: string): boolean {
+    const computed = path.reduce(
+        (hash, step) => (step.position === 'left' ? sha256(step.hash + hash) : sha256(hash + step.hash)),
+        leaf
+    );
+    return computed === root;
+}
+
+function parentLevel(level: string[]): string[] {
+    const parents: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+        parents.push(i + 1 < level.length ? sha256(level[i] + level[i + 1]) : level[i]);
+    }
+    return parents;
+}
@@ -0,0 +1,127 @@
+// ─── Minimal PDF writer ──────────────────────────────────
+// Enough PDF 1.4 for plain business documents: A4 pages, the two
+// built-in Helvetica faces, text, rules and filled boxes. Text is
+// WinAnsi-encoded, so anything outside Latin-1 is replaced.
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+export interface TextOptions {
+    size?: number;
+    bold?: boolean;
+    align?: 'left' | 'right' | 'center';
+    /** Grey level 0 (black) – 1 (white) */
+    gray?: number;
+}
+
+// Average glyph width of Helvetica as a fraction of the font size — used to
+// right-align and centre text without font metrics
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+export class PdfDocument {
+    private pages: string[][] = [[]];
+
+    get page(): number {
+        return this.pages.length;
+    }
+
+    addPage(): void {
+        this.pages.push([]);
+    }
+
+    /**
+     * Draw text with its baseline at y, measured from the top of the page.
+     */
+    text(value: string, x: number, y: number, options: TextOptions = {}): void {
+        const size = options.size ?? 10;
+        const safe = this.encode(value);
+        const width = safe.length * size * AVERAGE_GLYPH_WIDTH;
+        const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+
+        this.current.push(
+            `${this.num(options.gray ?? 0)} g BT /${options.bold ? 'F2' : 'F1'} ${this.num(size)} Tf ` +
+            `${this.num(left)} ${this.num(A4.height - y)} Td (${safe}) Tj ET`
+        );
+    }
+
+    line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+        this.current.push(`${this.num(width)} w ${this.num(x1)} ${this.num(A4.height - y1)} m ${this.num(x2)} ${this.num(A4.height - y2)} l S`);
+    }
+
+    box(x: number, y: number, width: number, height: number, gray = 0.93): void {
+        this.current.push(`${this.num(gray)} g ${this.num(x)} ${this.num(A4.height - y - height)} ${this.num(width)} ${this.num(height)} re f 0 g`);
+    }
+
+    /**
+     * Break text into lines that fit the width at the given size.
+     */
+    wrap(value: string, width: number, size = 10): string[] {
+        const perLine = Math.max(1, Math.floor(width / (size * AVERAGE_GLYPH_WIDTH)));
+        const lines: string[] = [];
+        let line = '';
+        for (const word of value.split(/\s+/).filter(Boolean)) {
+            const next = line ? `${line} ${word}` : word;
+            if (next.length > perLine && line) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = next;
+            }
+        }
+        if (line) lines.push(line);
+        return lines;
+    }
+
+    toBuffer(): Buffer {
+        const objects: string[] = [];
+        const pageIds: number[] = [];
+
+        // 1 catalog, 2 page tree, 3–4 fonts, then a page + content pair per page
+        objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+        objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+        objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+        this.pages.forEach((operations, index) => {
+            const pageId = 5 + index * 2;
+            const contentId = pageId + 1;
+            const stream = operations.join('\n');
+            pageIds.push(pageId);
+            objects[pageId] =
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+                `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+            objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+        });
+        objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+        let body = '%PDF-1.4\n';
+        const offsets: number[] = [];
+        for (let id = 1; id < objects.length; id++) {
+            offsets[id] = Buffer.byteLength(body, 'latin1');
+            body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+        }
+
+        const xrefOffset = Buffer.byteLength(body, 'latin1');
+        body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+        for (let id = 1; id < objects.length; id++) {
+            body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+        }
+        body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        return Buffer.from(body, 'latin1');
+    }
+
+    private get current(): string[] {
+        return this.pages[this.pages.length - 1];
+    }
+
+    private encode(value: string): string {
+        return value
+            .replace(/₹/g, 'Rs.')
+            .replace(/[–—]/g, '-')
+            .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+            .replace(/([\\()])/g, '\\$1');
+    }
+
+    private num(value: number): string {
+        return (Math.round(value * 100) / 100).toString();
+    }
+}
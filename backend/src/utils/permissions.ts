@@ -0,0 +1,41 @@
+import { MembershipRole } from '../models/Membership';
+
+/**
+ * Role → permission matrix for members of a company account.
+ *
+ * owner        — everything, including handing out admin seats
+ * admin        — everything except managing other admins/owners
+ * procurement  — trades on the marketplace and runs deals
+ * viewer       — read-only dashboards
+ */
+export type Permission =
+    | 'marketplace:write'
+    | 'matches:manage'
+    | 'alerts:configure'
+    | 'members:manage'
+    | 'company:update';
+
+export const ROLE_PERMISSIONS: Record<MembershipRole, Permission[]> = {
+    owner: ['marketplace:write', 'matches:manage', 'alerts:configure', 'members:manage', 'company:update'],
+    admin: ['marketplace:write', 'matches:manage', 'alerts:configure', 'members:manage', 'company:update'],
+    procurement: ['marketplace:write', 'matches:manage'],
+    viewer: [],
+};
+
+// Roles each role may grant or revoke when managing members
+export const ASSIGNABLE_ROLES: Record<MembershipRole, MembershipRole[]> = {
+    owner: ['owner', 'admin', 'procurement', 'viewer'],
+    admin: ['procurement', 'viewer'],
+    procurement: [],
+    viewer: [],
+};
+
+export function hasPermission(role: MembershipRole | undefined, permission: Permission): boolean {
+    if (!role) return false;
+    return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export function canAssignRole(actorRole: MembershipRole | undefined, targetRole: MembershipRole): boolean {
+    if (!actorRole) return false;
+    return ASSIGNABLE_ROLES[actorRole]?.includes(targetRole) ?? false;
+}
@@ -0,0 +1,363 @@
+// ─── Minimal QR code encoder ─────────────────────────────
+// Byte mode at error correction level M, versions 1–10 (up to 213 bytes)
+// — enough for verification links. Follows ISO/IEC 18004: Reed–Solomon
+// blocks are interleaved, and of the eight masks the one with the lowest
+// penalty score is used.
+
+export type QrMatrix = boolean[][];
+
+// Level M, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = 10;
+// Format bits for level M
+const ECC_FORMAT_BITS = 0;
+
+/**
+ * Module matrix for `text`, true = dark, without the quiet zone.
+ */
+export function encodeQr(text: string): QrMatrix {
+    const data = Buffer.from(text, 'utf8');
+
+    let version = 1;
+    for (; version <= MAX_VERSION; version++) {
+        const needed = 4 + (version < 10 ? 8 : 16) + data.length * 8;
+        if (needed <= dataCodewords(version) * 8) break;
+    }
+    if (version > MAX_VERSION) {
+        throw new Error(`QR payload too long: ${data.length} bytes`);
+    }
+
+    // Mode indicator, length, payload, terminator, then pad to capacity
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    append(0b0100, 4);
+    append(data.length, version < 10 ? 8 : 16);
+    for (const byte of data) append(byte, 8);
+
+    const capacity = dataCodewords(version) * 8;
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+
+    const symbol = new QrSymbol(version);
+    symbol.drawCodewords(interleave(version, codewords));
+
+    let best = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+        symbol.applyMask(mask);
+        symbol.drawFormatBits(mask);
+        const penalty = symbol.penalty();
+        if (penalty < bestPenalty) {
+            best = mask;
+            bestPenalty = penalty;
+        }
+        symbol.applyMask(mask); // XOR again to undo
+    }
+    symbol.applyMask(best);
+    symbol.drawFormatBits(best);
+    return symbol.modules;
+}
+
+/**
+ * Standalone SVG, one path for all dark modules.
+ */
+export function qrToSvg(matrix: QrMatrix, margin = 4): string {
+    const size = matrix.length + margin * 2;
+    const path: string[] = [];
+    matrix.forEach((row, y) => row.forEach((dark, x) => {
+        if (dark) path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    }));
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+        `<rect width="100%" height="100%" fill="#fff"/><path d="${path.join('')}" fill="#000"/></svg>`;
+}
+
+export function qrToDataUrl(matrix: QrMatrix): string {
+    return `data:image/svg+xml;base64,${Buffer.from(qrToSvg(matrix)).toString('base64')}`;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+class QrSymbol {
+    readonly size: number;
+    readonly modules: QrMatrix;
+    private readonly reserved: boolean[][];
+
+    constructor(private version: number) {
+        this.size = version * 4 + 17;
+        this.modules = Array.from({ length: this.size }, () => Array(this.size).fill(false));
+        this.reserved = Array.from({ length: this.size }, () => Array(this.size).fill(false));
+        this.drawFunctionPatterns();
+    }
+
+    drawCodewords(data: number[]): void {
+        let i = 0;
+        // Two-module columns from the right, zig-zagging up and down
+        for (let right = this.size - 1; right >= 1; right -= 2) {
+            if (right === 6) right = 5;
+            for (let vert = 0; vert < this.size; vert++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const y = upward ? this.size - 1 - vert : vert;
+                    if (!this.reserved[y][x] && i < data.length * 8) {
+                        this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+                        i++;
+                    }
+                }
+            }
+        }
+    }
+
+    applyMask(mask: number): void {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.reserved[y][x] && maskBit(mask, x, y)) {
+                    this.modules[y][x] = !this.modules[y][x];
+                }
+            }
+        }
+    }
+
+    drawFormatBits(mask: number): void {
+        const data = (ECC_FORMAT_BITS << 3) | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        const bits = ((data << 10) | remainder) ^ 0x5412;
+        const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+        // Around the top-left finder
+        for (let i = 0; i <= 5; i++) this.set(8, i, bit(i));
+        this.set(8, 7, bit(6));
+        this.set(8, 8, bit(7));
+        this.set(7, 8, bit(8));
+        for (let i = 9; i < 15; i++) this.set(14 - i, 8, bit(i));
+
+        // Split between the other two finders
+        for (let i = 0; i < 8; i++) this.set(this.size - 1 - i, 8, bit(i));
+        for (let i = 8; i < 15; i++) this.set(8, this.size - 15 + i, bit(i));
+        this.set(8, this.size - 8, true);
+    }
+
+    /**
+     * ISO/IEC 18004 penalty: long runs, 2×2 blocks, finder-like
+     * patterns and dark/light imbalance.
+     */
+    penalty(): number {
+        let score = 0;
+        const lines: boolean[][] = [
+            ...this.modules,
+            ...this.modules.map((_, x) => this.modules.map((row) => row[x])),
+        ];
+
+        for (const line of lines) {
+            let run = 1;
+            for (let i = 1; i <= line.length; i++) {
+                if (i < line.length && line[i] === line[i - 1]) {
+                    run++;
+                } else {
+                    if (run >= 5) score += run - 2;
+                    run = 1;
+                }
+            }
+
+            const light = (i: number) => i < 0 || i >= line.length || !line[i];
+            for (let i = 0; i + 7 <= line.length; i++) {
+                const finderLike = line[i] && !line[i + 1] && line[i + 2] && line[i + 3] && line[i + 4] && !line[i + 5] && line[i + 6];
+                if (!finderLike) continue;
+                const before = [1, 2, 3, 4].every((d) => light(i - d));
+                const after = [7, 8, 9, 10].every((d) => light(i + d));
+                if (before || after) score += 40;
+            }
+        }
+
+        for (let y = 0; y < this.size - 1; y++) {
+            for (let x = 0; x < this.size - 1; x++) {
+                const c = this.modules[y][x];
+                if (c === this.modules[y][x + 1] && c === this.modules[y + 1][x] && c === this.modules[y + 1][x + 1]) {
+                    score += 3;
+                }
+            }
+        }
+
+        const total = this.size * this.size;
+        const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+        score += Math.max(0, Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+        return score;
+    }
+
+    private drawFunctionPatterns(): void {
+        for (let i = 0; i < this.size; i++) {
+            this.set(6, i, i % 2 === 0);
+            this.set(i, 6, i % 2 === 0);
+        }
+
+        this.drawFinder(3, 3);
+        this.drawFinder(this.size - 4, 3);
+        this.drawFinder(3, this.size - 4);
+
+        const positions = alignmentPositions(this.version);
+        const last = positions.length - 1;
+        positions.forEach((px, i) => positions.forEach((py, j) => {
+            // Skip the three corners taken by finders
+            if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) {
+                    this.set(px + dx, py + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+                }
+            }
+        }));
+
+        // Reserve the format areas; the real bits are drawn per mask
+        this.drawFormatBits(0);
+
+        if (this.version >= 7) {
+            let remainder = this.version;
+            for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+            const bits = (this.version << 12) | remainder;
+            for (let i = 0; i < 18; i++) {
+                const dark = ((bits >>> i) & 1) === 1;
+                const a = this.size - 11 + (i % 3);
+                const b = Math.floor(i / 3);
+                this.set(a, b, dark);
+                this.set(b, a, dark);
+            }
+        }
+    }
+
+    /**
+     * 7×7 finder centred on (x, y) with its light separator.
+     */
+    private drawFinder(x: number, y: number): void {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                const xx = x + dx;
+                const yy = y + dy;
+                if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+                    this.set(xx, yy, distance !== 2 && distance !== 4);
+                }
+            }
+        }
+    }
+
+    private set(x: number, y: number, dark: boolean): void {
+        this.modules[y][x] = dark;
+        this.reserved[y][x] = true;
+    }
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+    switch (mask) {
+        case 0: return (x + y) % 2 === 0;
+        case 1: return y % 2 === 0;
+        case 2: return x % 3 === 0;
+        case 3: return (x + y) % 3 === 0;
+        case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+        case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+        case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+        default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+    }
+}
+
+function alignmentPositions(version: number): number[] {
+    if (version === 1) return [];
+    const count = Math.floor(version / 7) + 2;
+    const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+    const positions = [6];
+    for (let position = version * 4 + 10; positions.length < count; position -= step) {
+        positions.splice(1, 0, position);
+    }
+    return positions;
+}
+
+function rawDataModules(version: number): number {
+    let modules = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const alignments = Math.floor(version / 7) + 2;
+        modules -= (25 * alignments - 10) * alignments - 55;
+        if (version >= 7) modules -= 36;
+    }
+    return modules;
+}
+
+function dataCodewords(version: number): number {
+    return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+}
+
+/**
+ * Split into blocks, append each block's Reed–Solomon codewords and
+ * interleave the blocks column by column.
+ */
+function interleave(version: number, data: number[]): number[] {
+    const blockCount = ERROR_CORRECTION_BLOCKS[version];
+    const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+    const rawCodewords = Math.floor(rawDataModules(version) / 8);
+    const shortBlocks = blockCount - (rawCodewords % blockCount);
+    const shortBlockLength = Math.floor(rawCodewords / blockCount);
+    const divisor = reedSolomonDivisor(eccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < blockCount; i++) {
+        const block = data.slice(k, k + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+        k += block.length;
+        const ecc = reedSolomonRemainder(block, divisor);
+        if (i < shortBlocks) block.push(0);
+        blocks.push([...block, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            // The padding byte of short blocks is not transmitted
+            if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+        });
+    }
+    return result;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+    const result = Array(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < result.length) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+    const result = Array(divisor.length).fill(0);
+    for (const byte of data) {
+        const factor = byte ^ result.shift();
+        result.push(0);
+        divisor.forEach((coefficient, i) => {
+            result[i] ^= gfMultiply(coefficient, factor);
+        });
+    }
+    return result;
+}
+
+/** Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+function gfMultiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+}
@@ -0,0 +1,101 @@
+/**
+ * Quantity and unit utilities
+ *
+ * Mass units convert directly. Volume converts to mass through the bulk
+ * density of the material category; a pair that needs a density we do
+ * not have is rejected rather than guessed.
+ */
+
+import { HttpError } from './errors';
+
+export const QUANTITY_UNITS = ['kg', 'ton', 'liter', 'cubic_meter'] as const;
+
+export type QuantityUnit = typeof QUANTITY_UNITS[number];
+export type MassUnit = Extract<QuantityUnit, 'kg' | 'ton'>;
+export type VolumeUnit = Extract<QuantityUnit, 'liter' | 'cubic_meter'>;
+
+export interface Quantity {
+    value: number;
+    unit: QuantityUnit;
+}
+
+const KG_PER_MASS_UNIT: Record<MassUnit, number> = { kg: 1, ton: 1000 };
+const M3_PER_VOLUME_UNIT: Record<VolumeUnit, number> = { liter: 0.001, cubic_meter: 1 };
+
+/** Bulk density as usually delivered (loose, baled or drummed) — kg per m³ */
+export const MATERIAL_DENSITIES: Record<string, number> = {
+    metal_scrap: 900,       // Mixed ferrous/non-ferrous turnings and offcuts
+    plastic: 350,           // Loose regrind and baled film
+    organic: 600,           // Food and agro residue
+    fabric: 250,            // Loose textile offcuts
+    wood: 450,              // Chips, pallets and offcuts
+    chemical: 1100,         // Aqueous solutions and spent solvents
+    electronic: 500,        // Boards and small appliances
+    construction: 1500,     // C&D rubble
+    mixed: 400,
+    energy_recovery: 500,   // RDF and biomass fuel
+};
+
+// Spellings found in free-text need units
+const UNIT_ALIASES: Record<string, QuantityUnit> = {
+    kg: 'kg', kgs: 'kg', kilogram: 'kg', kilograms: 'kg',
+    ton: 'ton', tons: 'ton', tonne: 'ton', tonnes: 'ton', t: 'ton', mt: 'ton', metric_ton: 'ton',
+    liter: 'liter', liters: 'liter', litre: 'liter', litres: 'liter', l: 'liter', ltr: 'liter',
+    cubic_meter: 'cubic_meter', cubic_meters: 'cubic_meter', cubic_metre: 'cubic_meter', m3: 'cubic_meter', cbm: 'cubic_meter',
+};
+
+/**
+ * Canonical unit for a unit string, or undefined when it is not a
+ * quantity unit we know.
+ */
+export function parseUnit(unit?: string | null): QuantityUnit | undefined {
+    if (!unit) return undefined;
+    const key = unit.trim().toLowerCase().replace(/³/g, '3').replace(/[\s-]+/g, '_');
+    return UNIT_ALIASES[key];
+}
+
+export function isMassUnit(unit: QuantityUnit): unit is MassUnit {
+    return unit in KG_PER_MASS_UNIT;
+}
+
+export function densityOf(material?: string | null): number | undefined {
+    return material ? MATERIAL_DENSITIES[material] : undefined;
+}
+
+/**
+ * Convert a quantity between units. Mass ↔ volume goes through the
+ * material's density. Throws 422 for unknown units or a missing density.
+ */
+export function convertQuantity(value: number, from: string, to: string, material?: string | null): number {
+    const source = parseUnit(from);
+    const target = parseUnit(to);
+    if (!source || !target) {
+        throw new HttpError(422, `Unknown unit "${source ? to : from}". Valid: ${QUANTITY_UNITS.join(', ')}`);
+    }
+    if (source === target) return value;
+
+    const scale = (unit: QuantityUnit) => (isMassUnit(unit) ? KG_PER_MASS_UNIT[unit] : M3_PER_VOLUME_UNIT[unit]);
+    if (isMassUnit(source) === isMassUnit(target)) {
+        return (value * scale(source)) / scale(target);
+    }
+
+    const density = densityOf(material);
+    if (density === undefined) {
+        throw new HttpError(422, `Cannot convert ${source} to ${target} without a density for ${material || 'the material'}`);
+    }
+    const kg = isMassUnit(source) ? value * scale(source) : value * scale(source) * density;
+    return isMassUnit(target) ? kg / scale(target) : kg / density / scale(target);
+}
+
+export function toKg(value: number, unit: string, material?: string | null): number {
+    return convertQuantity(value, unit, 'kg', material);
+}
+
+export function isConvertible(from: string, to: string, material?: string | null): boolean {
+    try {
+        convertQuantity(1, from, to, material);
+        return true;
+    } catch {
+        return false;
+    }
+}
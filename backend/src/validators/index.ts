@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { QUANTITY_UNITS, QuantityUnit, parseUnit } from '../utils/units';
+import { GSTIN_PATTERN } from '../utils/gst';
 
 // ==================== AUTH ====================
 
@@ -21,6 +23,22 @@ export const loginSchema = z.object({
     password: z.string().min(1, 'Password is required'),
 });
 
+export const setPasswordSchema = z.object({
+    currentPassword: z.string().optional(),
+    newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+// ==================== MEMBERS ====================
+
+export const inviteMemberSchema = z.object({
+    email: z.string().email('Invalid email address'),
+    role: z.enum(['owner', 'admin', 'procurement', 'viewer']).default('viewer'),
+});
+
+export const updateMemberRoleSchema = z.object({
+    role: z.enum(['owner', 'admin', 'procurement', 'viewer']),
+});
+
 // ==================== COMPANY ====================
 
 export const createCompanySchema = z.object({
@@ -34,6 +52,7 @@ export const createCompanySchema = z.object({
     ]),
     email: z.string().email().optional(),
     registrationNumber: z.string().optional(),
+    gstin: z.string().trim().toUpperCase().regex(GSTIN_PATTERN, 'Invalid GSTIN').optional(),
     yearEstablished: z.number().int().optional(),
     website: z.string().url().or(z.string().length(0)).optional(),
     subIndustry: z.string().optional(),
@@ -115,19 +134,45 @@ export const createCompanySchema = z.object({
 // For updates, be fully permissive — Mongoose runValidators handles real schema enforcement
 export const updateCompanySchema = z.record(z.any());
 
+export const hazardousAuthorizationSchema = z.object({
+    authorizationNumber: z.string().trim().min(3).max(60),
+    issuedBy: z.string().trim().max(120).optional(),
+    validFrom: z.string().datetime().optional(),
+    validUntil: z.string().datetime(),
+    categories: z.array(z.string().trim().min(1).max(20)).max(50).optional(),
+}).refine(
+    (data) => !data.validFrom || new Date(data.validFrom) < new Date(data.validUntil),
+    { message: 'validUntil must be after validFrom', path: ['validUntil'] }
+);
+
 // ==================== WASTE LISTING ====================
 
+// Quantities in kg; yield is derived from input and output when not given
+const processingStepSchema = z.object({
+    facility: z.string().trim().min(1).max(200),
+    process: z.string().trim().min(1).max(200),
+    date: z.string().datetime().optional(),
+    inputQuantity: z.number().positive().optional(),
+    outputQuantity: z.number().positive().optional(),
+    yieldPct: z.number().positive().max(100).optional(),
+    emissionsKg: z.number().nonnegative().default(0),
+});
+
 export const createWasteListingSchema = z.object({
     material: z.object({
         category: z.enum(['metal_scrap', 'plastic', 'organic', 'fabric', 'wood', 'chemical', 'electronic', 'construction', 'mixed', 'energy_recovery']),
         subType: z.string().optional(),
         chemicalComposition: z.string().optional(),
         hazardous: z.boolean().default(false),
+        hazardousCategory: z.string().trim().min(1).max(20).optional(),
         msdsAvailable: z.boolean().optional(),
+    }).refine((material) => !material.hazardous || !!material.hazardousCategory, {
+        message: 'Hazardous listings need their Hazardous Waste Rules category',
+        path: ['hazardousCategory'],
     }),
     quantity: z.object({
         value: z.number().positive('Quantity must be positive'),
-        unit: z.enum(['kg', 'ton', 'liter', 'cubic_meter']),
+        unit: z.enum(QUANTITY_UNITS),
         frequency: z.enum(['one_time', 'daily', 'weekly', 'monthly', 'quarterly']).default('monthly'),
         availableFrom: z.string().datetime().optional(),
         availableUntil: z.string().datetime().optional(),
@@ -147,6 +192,22 @@ export const createWasteListingSchema = z.object({
             threshold: z.number().positive(),
             percentage: z.number().min(0).max(100),
         }).optional(),
+        auction: z.object({
+            bidding: z.enum(['open', 'sealed']).default('open'),
+            reservePrice: z.number().nonnegative().optional(),
+            minIncrement: z.number().positive().optional(),
+            startsAt: z.string().datetime().optional(),
+            endsAt: z.string().datetime(),
+            antiSnipingMinutes: z.number().int().min(0).max(60).optional(),
+            extensionMinutes: z.number().int().min(1).max(60).optional(),
+        }).refine((auction) => auction.extensionMinutes === undefined || auction.antiSnipingMinutes === undefined
+            || auction.extensionMinutes >= auction.antiSnipingMinutes, {
+            message: 'Extension must be at least as long as the anti-sniping window',
+            path: ['extensionMinutes'],
+        }).optional(),
+    }).refine((pricing) => pricing.type !== 'auction' || (pricing.auction && pricing.amount !== undefined), {
+        message: 'Auctions need an opening price (amount) and auction settings',
+        path: ['auction'],
     }).optional(),
     logistics: z.object({
         pickupAvailable: z.boolean().default(false),
@@ -160,12 +221,20 @@ export const createWasteListingSchema = z.object({
         coordinates: z.array(z.number()).length(2),
         address: z.string().optional(),
     }).optional(),
+    provenance: z.object({
+        parentPassportIds: z.array(z.string().regex(/^[0-9a-f]{24}$/i, 'Invalid passport id')).min(1).max(20),
+        processing: z.array(processingStepSchema).max(20).default([]),
+    }).optional(),
     status: z.enum(['draft', 'active']).default('draft'),
     autoRelist: z.boolean().default(false),
 });
 
 export const updateWasteListingSchema = createWasteListingSchema.partial();
 
+export const placeBidSchema = z.object({
+    amount: z.number().positive(),
+});
+
 // ==================== NEED LISTING ====================
 
 export const createNeedListingSchema = z.object({
@@ -180,7 +249,10 @@ export const createNeedListingSchema = z.object({
         quantity: z.object({
             min: z.number().positive(),
             max: z.number().positive(),
-            unit: z.string(),
+            // Common spellings (tonnes, litres, m3…) are stored as the canonical unit
+            unit: z.string()
+                .refine((unit) => !!parseUnit(unit), { message: `Unit must be one of ${QUANTITY_UNITS.join(', ')}` })
+                .transform((unit) => parseUnit(unit) as QuantityUnit),
             frequency: z.string().optional(),
             flexibility: z.enum(['strict', 'flexible', 'spot_purchase']).default('flexible'),
         }),
@@ -206,6 +278,37 @@ export const createNeedListingSchema = z.object({
     }).optional(),
 });
 
+// ==================== SAVED SEARCHES ====================
+
+const savedSearchFiltersSchema = z.object({
+    category: z.enum(['metal_scrap', 'plastic', 'organic', 'fabric', 'wood', 'chemical', 'electronic', 'construction', 'mixed', 'energy_recovery']).optional(),
+    hazardous: z.boolean().optional(),
+    minPrice: z.number().nonnegative().optional(),
+    maxPrice: z.number().nonnegative().optional(),
+    lng: z.number().min(-180).max(180).optional(),
+    lat: z.number().min(-90).max(90).optional(),
+    radiusKm: z.number().positive().max(2000).optional(),
+}).refine(
+    (f) => f.radiusKm === undefined || (f.lng !== undefined && f.lat !== undefined),
+    { message: 'A radius needs lng and lat', path: ['radiusKm'] }
+).refine(
+    (f) => f.minPrice === undefined || f.maxPrice === undefined || f.minPrice <= f.maxPrice,
+    { message: 'minPrice cannot exceed maxPrice', path: ['minPrice'] }
+);
+
+export const createSavedSearchSchema = z.object({
+    name: z.string().min(1).max(80),
+    filters: savedSearchFiltersSchema,
+    cadence: z.enum(['instant', 'daily']).default('instant'),
+    channels: z.object({
+        email: z.boolean().default(true),
+        inApp: z.boolean().default(true),
+    }).optional(),
+    active: z.boolean().optional(),
+});
+
+export const updateSavedSearchSchema = createSavedSearchSchema.partial();
+
 // ==================== IMPACT ====================
 
 export const calculateImpactSchema = z.object({
@@ -238,7 +341,15 @@ export const calculateImpactSchema = z.object({
 // ==================== MATCHING ====================
 
 export const findMatchesSchema = z.object({
-    wasteListingId: z.string().min(1, 'wasteListingId is required'),
+    wasteListingId: z.string().min(1).optional(),
+    needListingId: z.string().min(1).optional(),
+}).refine(
+    (data) => !!data.wasteListingId !== !!data.needListingId,
+    { message: 'Send either wasteListingId or needListingId', path: ['wasteListingId'] }
+);
+
+export const proposeBundlesSchema = z.object({
+    needListingId: z.string().min(1),
 });
 
 export const negotiateSchema = z.object({
@@ -249,10 +360,205 @@ export const negotiateSchema = z.object({
     attachments: z.array(z.string()).optional(),
 });
 
+export const offerSchema = z.object({
+    pricePerUnit: z.number().nonnegative(),
+    quantity: z.number().positive(),
+    pickupWindow: z.object({
+        start: z.string().datetime(),
+        end: z.string().datetime(),
+    }).optional(),
+    expiresAt: z.string().datetime().optional(),
+    expiresInHours: z.number().positive().max(24 * 30).optional(),
+    message: z.string().max(2000).optional(),
+}).refine(
+    (data) => !(data.expiresAt && data.expiresInHours),
+    { message: 'Provide either expiresAt or expiresInHours, not both' }
+);
+
+export const offerResponseSchema = z.object({
+    reason: z.string().max(500).optional(),
+});
+
+export const rejectMatchSchema = z.object({
+    reason: z.string().max(500).optional(),
+});
+
+export const pickupSchema = z.object({
+    trackingCode: z.string().max(100).optional(),
+    logisticsProvider: z.string().max(100).optional(),
+    reason: z.string().max(500).optional(),
+});
+
+export const pickupSlotsSchema = z.object({
+    slots: z.array(z.object({
+        start: z.string().datetime(),
+        end: z.string().datetime(),
+    })).min(1).max(5),
+});
+
+export const trackingLinkSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    vehicleNumber: z.string().trim().max(20).optional(),
+    driverName: z.string().trim().max(100).optional(),
+    driverPhone: z.string().trim().max(20).optional(),
+});
+
+export const deliverySchema = z.object({
+    proofOfDelivery: z.array(z.string().url()).max(20).optional(),
+    notes: z.string().max(1000).optional(),
+});
+
+export const verifyDeliverySchema = z.object({
+    approved: z.boolean(),
+    notes: z.string().max(1000).optional(),
+    category: z.enum(['quality', 'quantity', 'contamination', 'non_delivery', 'late_delivery', 'documentation', 'payment', 'other']).optional(),
+    desiredOutcome: z.enum(['full_refund', 'partial_refund', 'replacement', 'price_adjustment', 'passport_correction', 'other']).optional(),
+}).refine(
+    (data) => data.approved || !!data.notes,
+    { message: 'Explain what is wrong when rejecting a delivery', path: ['notes'] }
+);
+
+const vehicleTypeSchema = z.enum(['light_truck', 'heavy_truck', 'truck', 'rail', 'ship', 'pipeline', 'air']);
+
+const coordinatesSchema = z.tuple([
+    z.number().min(-180).max(180), // lng
+    z.number().min(-90).max(90),   // lat
+]);
+
+export const trackingEventSchema = z.object({
+    type: z.enum(['picked_up', 'in_transit', 'delivered']),
+    at: z.string().datetime().optional(),
+    location: coordinatesSchema.optional(),
+    note: z.string().max(500).optional(),
+    proof: z.string().url().optional(),
+});
+
+export const recordRouteSchema = z.object({
+    stops: z.array(z.object({
+        label: z.string().max(200).optional(),
+        coordinates: coordinatesSchema,
+    })).max(25).default([]),
+    startAtSeller: z.boolean().default(true),
+    endAtBuyer: z.boolean().default(true),
+    legDistancesKm: z.array(z.number().nonnegative()).optional(),
+    vehicleType: vehicleTypeSchema.default('truck'),
+    loadFactor: z.number().min(0.1).max(1.5).default(1.0),
+    carrier: z.string().max(200).optional(),
+});
+
 export const completeMatchSchema = z.object({
     actualDistanceKm: z.number().positive().optional(),
     transportMode: z.enum(['truck', 'rail', 'ship', 'pipeline']).default('truck'),
+    vehicleType: vehicleTypeSchema.optional(),
+    loadFactor: z.number().min(0.1).max(1.5).optional(),
     finalPrice: z.number().nonnegative().optional(),
+    reason: z.string().max(500).optional(),
+});
+
+// ==================== DISPUTES ====================
+
+export const fileDisputeSchema = z.object({
+    category: z.enum(['quality', 'quantity', 'contamination', 'non_delivery', 'late_delivery', 'documentation', 'payment', 'other']),
+    description: z.string().min(10, 'Describe the problem in at least 10 characters').max(5000),
+    attachments: z.array(z.string().url()).max(20).optional(),
+    desiredOutcome: z.enum(['full_refund', 'partial_refund', 'replacement', 'price_adjustment', 'passport_correction', 'other']),
+    requestedAmount: z.number().nonnegative().optional(),
+});
+
+export const disputeResponseSchema = z.object({
+    statement: z.string().min(1, 'Statement is required').max(5000),
+    attachments: z.array(z.string().url()).max(20).optional(),
+    acceptsOutcome: z.boolean().optional(),
+});
+
+export const disputeEvidenceSchema = z.object({
+    note: z.string().max(5000).optional(),
+    attachments: z.array(z.string().url()).max(20).optional(),
+}).refine(
+    (data) => !!data.note || !!data.attachments?.length,
+    { message: 'Add a note or at least one attachment' }
+);
+
+export const withdrawDisputeSchema = z.object({
+    reason: z.string().max(500).optional(),
+});
+
+export const disputeRulingSchema = z.object({
+    decision: z.enum(['upheld', 'partially_upheld', 'dismissed']),
+    paymentAction: z.enum(['release', 'refund', 'partial_refund']),
+    refundAmount: z.number().positive().optional(),
+    passportAction: z.enum(['none', 'revoke', 'amend']).default('none'),
+    passportAmendment: z.object({
+        quantity: z.number().positive().optional(),
+        unit: z.enum(QUANTITY_UNITS).optional(),
+        notes: z.string().max(1000).optional(),
+    }).optional(),
+    faultParty: z.enum(['seller', 'buyer', 'none']).optional(),
+    notes: z.string().max(2000).optional(),
+}).refine(
+    (data) => data.paymentAction !== 'partial_refund' || data.refundAmount !== undefined,
+    { message: 'refundAmount is required for a partial refund', path: ['refundAmount'] }
+).refine(
+    (data) => data.passportAction !== 'amend' || !!(data.passportAmendment?.quantity || data.passportAmendment?.unit),
+    { message: 'passportAmendment needs a quantity or unit', path: ['passportAmendment'] }
+);
+
+// ==================== REVIEWS ====================
+
+export const reviewSchema = z.object({
+    rating: z.number().int().min(1, 'Rating is 1-5 stars').max(5, 'Rating is 1-5 stars'),
+    review: z.string().max(2000).optional(),
+    wouldRecommend: z.boolean().optional(),
+});
+
+export const reportReviewSchema = z.object({
+    reason: z.string().min(3, 'Say why the review should be checked').max(500),
+});
+
+export const moderateReviewParamsSchema = z.object({
+    matchId: z.string().min(1),
+    side: z.enum(['seller', 'buyer']),
+});
+
+export const moderateReviewSchema = z.object({
+    action: z.enum(['publish', 'hide']),
+    notes: z.string().max(1000).optional(),
+});
+
+// ==================== PASSPORT AUDITS ====================
+
+export const registerAuditorSchema = z.object({
+    organization: z.string().trim().min(2).max(200),
+    accreditation: z.object({
+        body: z.string().trim().min(2).max(100),
+        number: z.string().trim().min(1).max(100),
+        validUntil: z.string().datetime().optional(),
+    }),
+    emails: z.array(z.string().email()).min(1).max(50),
+});
+
+export const updateAuditorSchema = registerAuditorSchema.partial().extend({
+    active: z.boolean().optional(),
+});
+
+export const openAuditSchema = z.object({
+    scope: z.string().max(1000).optional(),
+});
+
+export const auditEvidenceSchema = z.object({
+    type: z.enum(['weighbridge_ticket', 'lab_report', 'site_visit', 'transport_record', 'invoice', 'photo', 'other']),
+    name: z.string().trim().min(1).max(200),
+    url: z.string().url(),
+    sha256: z.string().regex(/^[0-9a-f]{64}$/i, 'sha256 must be 64 hex characters'),
+});
+
+export const auditVerdictSchema = z.object({
+    result: z.enum(['pass', 'fail']),
+    findings: z.string().trim().min(10, 'Summarise the findings in at least 10 characters').max(5000),
+});
+
+export const revokePassportSchema = z.object({
+    reason: z.string().trim().min(10, 'Give a reason of at least 10 characters').max(2000),
 });
 
 // ==================== CHAT ====================
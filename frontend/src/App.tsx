@@ -13,6 +13,8 @@ import Predictions from "./pages/Predictions";
 import Marketplace from "./pages/Marketplace";
 import Matches from "./pages/Matches";
 import DigitalPassport from "./pages/DigitalPassport";
+import VerifyPassport from "./pages/VerifyPassport";
+import TrackShipment from "./pages/TrackShipment";
 import ImpactDashboard from "./pages/ImpactDashboard";
 import ROIDashboard from "./pages/ROIDashboard";
 import ESGReports from "./pages/ESGReports";
@@ -65,6 +67,8 @@ const App = () => (
             <Route path="/sign-up/*" element={<AuthPage />} />
             <Route path="/sso-callback/*" element={<AuthPage />} />
             <Route path="/onboarding" element={<Onboarding />} />
+            <Route path="/verify/:passportNumber" element={<VerifyPassport />} />
+            <Route path="/track/:token" element={<TrackShipment />} />
             <Route element={<AppLayout />}>
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/impact" element={<ImpactCalculator />} />
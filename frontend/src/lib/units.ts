@@ -0,0 +1,44 @@
+// Mirrors backend/src/utils/units.ts — keep the densities in step.
+
+export const QUANTITY_UNITS = ["kg", "ton", "liter", "cubic_meter"] as const;
+
+export type QuantityUnit = typeof QUANTITY_UNITS[number];
+
+export const UNIT_LABELS: Record<QuantityUnit, string> = {
+  kg: "kg",
+  ton: "ton",
+  liter: "liter",
+  cubic_meter: "m³",
+};
+
+const KG_PER_MASS_UNIT: Record<string, number> = { kg: 1, ton: 1000 };
+const M3_PER_VOLUME_UNIT: Record<string, number> = { liter: 0.001, cubic_meter: 1 };
+
+/** Bulk density as usually delivered — kg per m³ */
+export const MATERIAL_DENSITIES: Record<string, number> = {
+  metal_scrap: 900,
+  plastic: 350,
+  organic: 600,
+  fabric: 250,
+  wood: 450,
+  chemical: 1100,
+  electronic: 500,
+  construction: 1500,
+  mixed: 400,
+  energy_recovery: 500,
+};
+
+export function isVolumeUnit(unit: string): boolean {
+  return unit in M3_PER_VOLUME_UNIT;
+}
+
+/**
+ * Mass of a quantity in kg, or undefined when the unit is unknown or a
+ * volume has no density for the material.
+ */
+export function toKg(value: number, unit: string, material?: string): number | undefined {
+  if (unit in KG_PER_MASS_UNIT) return value * KG_PER_MASS_UNIT[unit];
+  if (!isVolumeUnit(unit)) return undefined;
+  const density = material ? MATERIAL_DENSITIES[material] : undefined;
+  return density === undefined ? undefined : value * M3_PER_VOLUME_UNIT[unit] * density;
+}
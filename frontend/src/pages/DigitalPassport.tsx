@@ -1,8 +1,10 @@
 import { motion } from "framer-motion";
-import { QrCode, CheckCircle2, Truck, Factory, Building, Droplets, Leaf, Download, Share2 } from "lucide-react";
+import { useState } from "react";
+import { QrCode, CheckCircle2, Truck, Factory, Building, Droplets, Leaf, Download, Share2, Loader2, GitBranch } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FormulaFx } from "@/components/FormulaFx";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { useAuthStore } from "@/stores/authStore";
 import { toast } from "sonner";
@@ -13,6 +15,106 @@ const journey = [
   { icon: <Building className="h-5 w-5" />, title: "Destination", location: "RCC Constructions, Ranchi", date: "April 16, 2024", detail: "Used for structural reinforcement" },
 ];
 
+interface LineageNode {
+  id: string;
+  passportNumber: string;
+  status: string;
+  generation: number;
+  material: string;
+  quantityKg: number;
+  origin: string;
+  destination: string;
+  date: string;
+  transportEmissionsKg: number;
+  processingEmissionsKg: number;
+  processing: Array<{ facility: string; process: string; yieldPct?: number; emissionsKg?: number }>;
+  impact: { co2SavedKg: number };
+  retainedKg: number;
+  creditedShare: number;
+}
+
+interface Lineage {
+  passportId: string;
+  nodes: LineageNode[];
+  edges: Array<{ from: string; to: string; quantityKg: number }>;
+  cumulative: {
+    passports: number;
+    co2SavedKg: number;
+    waterSavedLiters: number;
+    energySavedKwh: number;
+    landfillAvoidedM3: number;
+    transportEmissionsKg: number;
+    processingEmissionsKg: number;
+    netCo2SavedKg: number;
+    naiveCo2SavedKg: number;
+    doubleCountAvoidedKg: number;
+  };
+  truncated: boolean;
+}
+
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 72;
+const COLUMN_GAP = 70;
+const ROW_GAP = 18;
+
+/** Passports laid out left to right by generation, edges labelled with the kg drawn */
+function LineageGraph({ lineage }: { lineage: Lineage }) {
+  const columns = new Map<number, LineageNode[]>();
+  for (const node of lineage.nodes) columns.set(node.generation, [...(columns.get(node.generation) || []), node]);
+
+  const position = new Map<string, { x: number; y: number }>();
+  for (const [generation, nodes] of columns) {
+    nodes.forEach((node, row) => position.set(node.id, { x: generation * (NODE_WIDTH + COLUMN_GAP), y: row * (NODE_HEIGHT + ROW_GAP) }));
+  }
+  const width = Math.max(...[...columns.keys()].map((g) => (g + 1) * NODE_WIDTH + g * COLUMN_GAP));
+  const height = Math.max(...[...columns.values()].map((nodes) => nodes.length * NODE_HEIGHT + (nodes.length - 1) * ROW_GAP));
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={width + 2} height={height + 2} className="block">
+        {lineage.edges.map((edge) => {
+          const from = position.get(edge.from);
+          const to = position.get(edge.to);
+          if (!from || !to) return null;
+          const x1 = from.x + NODE_WIDTH;
+          const y1 = from.y + NODE_HEIGHT / 2;
+          const x2 = to.x;
+          const y2 = to.y + NODE_HEIGHT / 2;
+          const mid = (x1 + x2) / 2;
+          return (
+            <g key={`${edge.from}-${edge.to}`}>
+              <path d={`M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}`} fill="none" className="stroke-primary/50" strokeWidth={1.5} />
+              <text x={mid} y={(y1 + y2) / 2 - 4} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+                {edge.quantityKg.toLocaleString()} kg
+              </text>
+            </g>
+          );
+        })}
+        {lineage.nodes.map((node) => {
+          const { x, y } = position.get(node.id)!;
+          const current = node.id === lineage.passportId;
+          return (
+            <g key={node.id} transform={`translate(${x + 1},${y + 1})`}>
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={8} className={current ? "fill-primary/10 stroke-primary" : "fill-card stroke-border"} strokeWidth={current ? 2 : 1} />
+              <text x={10} y={18} className="fill-foreground font-mono text-[11px] font-bold">{node.passportNumber}</text>
+              <text x={10} y={34} className="fill-muted-foreground text-[10px] capitalize">
+                {node.quantityKg.toLocaleString()} kg {node.material?.replace(/_/g, " ")}
+              </text>
+              <text x={10} y={49} className="fill-muted-foreground text-[10px]">
+                {`${node.origin} → ${node.destination}`.slice(0, 34)}
+              </text>
+              <text x={10} y={64} className={`text-[10px] ${node.status === "revoked" ? "fill-destructive" : "fill-primary"}`}>
+                {node.processing[0] ? `${node.processing[0].process}${node.processing[0].yieldPct ? ` · ${node.processing[0].yieldPct}%` : ""} · ` : ""}
+                {Math.round(node.creditedShare * 100)}% credited
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
 const impactMetrics = [
   { label: "CO₂ Saved", value: "6,400 kg", icon: <Leaf className="h-5 w-5" />, desc: "vs virgin steel production" },
   { label: "Water Saved", value: "80,000 L", icon: <Droplets className="h-5 w-5" />, desc: "freshwater conserved" },
@@ -32,11 +134,35 @@ export default function DigitalPassport() {
     enabled: !!company?.id,
   });
 
-  const displayPassport = rawPassports && rawPassports.length > 0 ? rawPassports[0] : null;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const displayPassport = rawPassports && rawPassports.length > 0
+    ? rawPassports.find((p: { _id: string }) => p._id === selectedId) || rawPassports[0]
+    : null;
+
+  const { data: lineage } = useQuery({
+    queryKey: ['passport-lineage', displayPassport?._id],
+    queryFn: async () => {
+      const res = (await api.get(`/passports/${displayPassport._id}/lineage`)) as unknown as { data: Lineage };
+      return res.data;
+    },
+    enabled: !!displayPassport?._id,
+  });
+
+  // Pickup, GPS points and delivery as reported through the shipment
+  const trackingEvents: Array<{ timestamp: string; status: string; location?: number[] }> = displayPassport?.journey?.transport?.trackingEvents || [];
+  const pickedUpAt = trackingEvents.find((e) => e.status === 'picked_up')?.timestamp;
+  const deliveredAt = trackingEvents.find((e) => e.status === 'delivered')?.timestamp;
+  const gpsPoints = trackingEvents.filter((e) => e.location?.length).length;
+  const transitDetail = trackingEvents.length
+    ? [
+      deliveredAt ? `Delivered ${new Date(deliveredAt).toLocaleString()}` : "",
+      gpsPoints ? `${gpsPoints} GPS point${gpsPoints > 1 ? 's' : ''} on route` : "",
+    ].filter(Boolean).join(" · ") || "Transit documented"
+    : "Transit documented";
 
   const dynamicJourney = displayPassport ? [
     { icon: <Factory className="h-5 w-5" />, title: "Origin", location: displayPassport.origin?.companyName || "Origin", date: new Date(displayPassport.origin?.date || Date.now()).toLocaleDateString(), detail: `${displayPassport.origin?.quantity} ${displayPassport.origin?.unit} ${displayPassport.origin?.materialType} produced` },
-    { icon: <Truck className="h-5 w-5" />, title: "Transport", location: `${displayPassport.journey?.transport?.distanceKm || 0}km by ${displayPassport.journey?.transport?.mode || 'truck'}`, date: new Date(displayPassport.origin?.date || Date.now()).toLocaleDateString(), detail: "Transit documented" },
+    { icon: <Truck className="h-5 w-5" />, title: "Transport", location: `${displayPassport.journey?.transport?.distanceKm || 0}km by ${displayPassport.journey?.transport?.mode || 'truck'}`, date: new Date(pickedUpAt || displayPassport.origin?.date || Date.now()).toLocaleDateString(), detail: transitDetail },
     { icon: <Building className="h-5 w-5" />, title: "Destination", location: displayPassport.destination?.companyName || "Destination", date: new Date(displayPassport.destination?.date || Date.now()).toLocaleDateString(), detail: displayPassport.destination?.application || "Used for manufacturing" },
   ] : journey;
 
@@ -48,6 +174,20 @@ export default function DigitalPassport() {
   ] : impactMetrics;
 
   const passportNumber = displayPassport?.passportNumber || "CIRC-2024-001";
+  const verifyUrl = `${window.location.origin}/verify/${passportNumber}`;
+
+  const certificateMutation = useMutation({
+    mutationFn: async (number: string) => (await api.get(`/passports/verify/${encodeURIComponent(number)}/certificate`, { responseType: 'blob' })) as unknown as Blob,
+    onSuccess: (blob, number) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${number}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: () => toast.error("Failed to download certificate"),
+  });
   const materialType = displayPassport?.origin?.materialType || "Steel Scrap";
   const quantity = `${displayPassport?.origin?.quantity || 4000} ${displayPassport?.origin?.unit || 'kg'}`;
 
@@ -58,6 +198,16 @@ export default function DigitalPassport() {
           <h1 className="text-2xl font-bold text-foreground">Digital Passport</h1>
           <p className="text-sm text-muted-foreground mt-0.5">Material journey and impact certification</p>
         </div>
+        {rawPassports && rawPassports.length > 1 && (
+          <Select value={displayPassport?._id} onValueChange={setSelectedId}>
+            <SelectTrigger className="w-[220px] font-mono text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {rawPassports.map((p: { _id: string; passportNumber: string }) => (
+                <SelectItem key={p._id} value={p._id} className="font-mono text-xs">{p.passportNumber}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         {displayPassport && (
           <div className="bg-primary/10 text-primary px-3 py-1.5 rounded-md text-xs font-bold border border-primary/20 flex items-center gap-2">
             <span className="h-2 w-2 rounded-full bg-primary animate-pulse" /> Live Blockchain Sync
@@ -68,9 +218,15 @@ export default function DigitalPassport() {
       {/* Hero */}
       <motion.div initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }} className="rounded-xl bg-gradient-forest p-6 text-primary-foreground">
         <div className="flex flex-col sm:flex-row items-start gap-6">
-          <div className="h-28 w-28 rounded-xl bg-primary-foreground/10 flex items-center justify-center border-2 border-primary-foreground/20 shrink-0">
-            <QrCode className="h-16 w-16 opacity-80" />
-          </div>
+          {displayPassport?.verification?.qrCode ? (
+            <a href={verifyUrl} target="_blank" rel="noreferrer" className="shrink-0">
+              <img src={displayPassport.verification.qrCode} alt={`QR code for ${passportNumber}`} className="h-28 w-28 rounded-xl bg-white p-1" />
+            </a>
+          ) : (
+            <div className="h-28 w-28 rounded-xl bg-primary-foreground/10 flex items-center justify-center border-2 border-primary-foreground/20 shrink-0">
+              <QrCode className="h-16 w-16 opacity-80" />
+            </div>
+          )}
           <div className="flex-1">
             <p className="text-xs uppercase tracking-widest opacity-70 mb-1">Passport ID</p>
             <p className="font-mono text-xl font-bold">{passportNumber}</p>
@@ -108,6 +264,44 @@ export default function DigitalPassport() {
         </div>
       </motion.div>
 
+      {/* Lineage — only once material has been relisted along the chain */}
+      {lineage && lineage.nodes.length > 1 && (
+        <motion.div initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.25 }} className="industrial-card p-6 space-y-5">
+          <div>
+            <h3 className="text-sm font-semibold text-foreground flex items-center gap-2"><GitBranch className="h-4 w-4" /> Chain of Custody</h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              {lineage.cumulative.passports} linked passports{lineage.truncated ? " (showing the nearest)" : ""}. Each lot is credited only for the material it did not pass on.
+            </p>
+          </div>
+          <LineageGraph lineage={lineage} />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: "Cumulative CO₂ saved", value: `${lineage.cumulative.co2SavedKg.toLocaleString()} kg` },
+              { label: "Transport + processing", value: `−${(lineage.cumulative.transportEmissionsKg + lineage.cumulative.processingEmissionsKg).toLocaleString()} kg` },
+              { label: "Net CO₂ saved", value: `${lineage.cumulative.netCo2SavedKg.toLocaleString()} kg` },
+              { label: "Double count avoided", value: `${lineage.cumulative.doubleCountAvoidedKg.toLocaleString()} kg` },
+            ].map((m) => (
+              <div key={m.label} className="rounded-lg border border-border p-3 text-center">
+                <p className="font-mono text-base font-bold text-foreground">{m.value}</p>
+                <p className="text-[11px] text-muted-foreground mt-0.5">{m.label}</p>
+              </div>
+            ))}
+          </div>
+          {displayPassport?.journey?.processing?.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-bold uppercase tracking-wider text-primary">Processing before this exchange</p>
+              {displayPassport.journey.processing.map((step: { facility: string; process: string; yieldPct?: number; emissionsKg?: number }, i: number) => (
+                <p key={i} className="text-xs text-muted-foreground">
+                  {step.process} at {step.facility}
+                  {step.yieldPct ? ` · ${step.yieldPct}% yield` : ""}
+                  {step.emissionsKg ? ` · ${step.emissionsKg.toLocaleString()} kg CO₂` : ""}
+                </p>
+              ))}
+            </div>
+          )}
+        </motion.div>
+      )}
+
       {/* Impact */}
       <motion.div initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.3 }}>
         <h3 className="text-sm font-semibold text-foreground mb-3">Environmental Impact</h3>
@@ -136,11 +330,15 @@ export default function DigitalPassport() {
       </motion.div>
 
       <div className="flex gap-3 mt-8">
-        <Button className="flex-1 gap-2" onClick={() => toast.success("Preparing PDF generation...", { icon: <Download className="h-4 w-4" /> })}>
-          <Download className="h-4 w-4" /> Download Certificate
+        <Button
+          className="flex-1 gap-2"
+          disabled={!displayPassport || certificateMutation.isPending}
+          onClick={() => certificateMutation.mutate(passportNumber)}
+        >
+          {certificateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />} Download Certificate
         </Button>
         <Button variant="outline" className="flex-1 gap-2" onClick={() => {
-          navigator.clipboard.writeText(window.location.href);
+          navigator.clipboard.writeText(displayPassport ? verifyUrl : window.location.href);
           toast.success("Passport link copied to clipboard!");
         }}>
           <Share2 className="h-4 w-4" /> Share Impact
@@ -274,22 +274,40 @@ export default function LiveDocument() {
         fetchData();
 
         const baseUrl = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
-        const es = new EventSource(`${baseUrl}/esg-live/${company.id}/stream`);
-        eventSourceRef.current = es;
+        let es: EventSource | null = null;
+        let closed = false;
 
-        es.onopen = () => setSseStatus("connected");
-        es.onmessage = (event) => {
+        // EventSource cannot send an Authorization header — open the stream with
+        // a short-lived stream token rather than the session token
+        (async () => {
+            let token: string;
             try {
-                const parsed = JSON.parse(event.data);
-                if (!parsed.error) {
-                    setData(prev => ({ ...(prev || {} as any), ...parsed }));
-                    setLastUpdate(new Date());
-                }
-            } catch { /* ignore parse errors */ }
-        };
-        es.onerror = () => setSseStatus("disconnected");
-
-        return () => { es.close(); eventSourceRef.current = null; };
+                const res = await api.post(`/esg-live/${company.id}/stream-token`);
+                token = res.data.token;
+            } catch {
+                setSseStatus("disconnected");
+                return;
+            }
+            if (closed) return;
+
+            const source = new EventSource(`${baseUrl}/esg-live/${company.id}/stream?stream_token=${encodeURIComponent(token)}`);
+            es = source;
+            eventSourceRef.current = source;
+
+            source.onopen = () => setSseStatus("connected");
+            source.onmessage = (event) => {
+                try {
+                    const parsed = JSON.parse(event.data);
+                    if (!parsed.error) {
+                        setData(prev => ({ ...(prev || {} as any), ...parsed }));
+                        setLastUpdate(new Date());
+                    }
+                } catch { /* ignore parse errors */ }
+            };
+            source.onerror = () => setSseStatus("disconnected");
+        })();
+
+        return () => { closed = true; es?.close(); eventSourceRef.current = null; };
     }, [company?.id, fetchData]);
 
     const handleRefresh = async () => {
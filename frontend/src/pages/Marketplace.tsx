@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Search, SlidersHorizontal, MapPin, Plus, Package, Loader2, Clock, Pencil, Trash2, Mail, Handshake } from "lucide-react";
+import { Search, SlidersHorizontal, MapPin, Plus, Package, Loader2, Clock, Pencil, Trash2, Mail, Handshake, Gavel, Lock, Bookmark, BellRing, Pause, Play, BarChart3, TrendingUp, AlertTriangle } from "lucide-react";
+import { AreaChart, Area, ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, Legend } from "recharts";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -8,9 +9,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { FormulaFx } from "@/components/FormulaFx";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { QUANTITY_UNITS, UNIT_LABELS, MATERIAL_DENSITIES, isVolumeUnit, toKg } from "@/lib/units";
 import { useAuthStore } from "@/stores/authStore";
 import { toast } from "sonner";
 
@@ -48,6 +51,192 @@ function MatchScoreBadge({ score }: { score: number }) {
   );
 }
 
+interface AuctionBid {
+  _id: string;
+  amount: number;
+  unit: string;
+  status: "active" | "outbid" | "superseded" | "won" | "lost";
+  extendedAuction: boolean;
+  createdAt: string;
+  mine: boolean;
+  bidder: { _id?: string; name?: string };
+}
+
+interface AuctionHistory {
+  auction: {
+    bidding: "open" | "sealed";
+    status: "scheduled" | "open" | "closed" | "unsold";
+    startsAt: string;
+    endsAt: string;
+    originalEndsAt: string;
+    extensions: number;
+    minIncrement: number;
+    openingPrice: number;
+    bidCount: number;
+    highBid: number | null;
+    reservePrice?: number | null;
+    reserveMet: boolean | null;
+    matchId?: string;
+  };
+  bids: AuctionBid[];
+}
+
+interface ListingRates {
+  viewsPerDay: number;
+  inquiriesPerDay: number;
+  matchesPerDay: number;
+  inquiryRate: number;
+  completionRate: number;
+}
+
+interface ListingAnalytics {
+  days: number;
+  daily: Array<{ date: string; views: number; inquiries: number; bids: number; matches: number; accepted: number; completed: number }>;
+  funnel: {
+    stages: Array<{ stage: string; count: number; conversion: number | null }>;
+    bids: number;
+    viewToCompletion: number;
+  };
+  comparison: {
+    category: string;
+    region: string | null;
+    peerCount: number;
+    listing: ListingRates;
+    peerAverage: ListingRates | null;
+    percentile: Record<keyof ListingRates, number> | null;
+  };
+}
+
+const COMPARISON_METRICS: Array<{ key: keyof ListingRates; label: string; percent?: boolean }> = [
+  { key: "viewsPerDay", label: "Views / day" },
+  { key: "inquiriesPerDay", label: "Inquiries / day" },
+  { key: "matchesPerDay", label: "Matches / day" },
+  { key: "inquiryRate", label: "Views → inquiry", percent: true },
+  { key: "completionRate", label: "Matches → completed", percent: true },
+];
+
+interface PriceBenchmark {
+  scope: string;
+  period: string;
+  unit: string;
+  sampleCount: number;
+  median: number;
+  low: number;
+  high: number;
+}
+
+interface ListingBenchmark {
+  median: number;
+  low: number;
+  high: number;
+  deviationPct: number;
+  flag?: "low" | "high" | null;
+  scope: string;
+}
+
+interface PriceIndexPoint {
+  period: string;
+  sampleCount: number;
+  dealCount: number;
+  askCount: number;
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+}
+
+interface PriceIndexSeries {
+  category: string;
+  state: string;
+  regions: string[];
+  series: PriceIndexPoint[];
+}
+
+function scopeLabel(scope: string) {
+  return scope === "ALL" ? "India" : scope;
+}
+
+function benchmarkWarning(benchmark?: ListingBenchmark) {
+  if (!benchmark?.flag) return null;
+  return `Your price is ${Math.abs(benchmark.deviationPct)}% ${benchmark.flag === "high" ? "above" : "below"} the ${scopeLabel(benchmark.scope)} median of ₹${benchmark.median.toLocaleString()} — typical range ₹${benchmark.low.toLocaleString()}–₹${benchmark.high.toLocaleString()}.`;
+}
+
+function formatTimeLeft(dateStr: string) {
+  const diff = new Date(dateStr).getTime() - Date.now();
+  if (diff <= 0) return "ended";
+  const mins = Math.floor(diff / 60000);
+  if (mins < 60) return `${mins}m left`;
+  const hrs = Math.floor(mins / 60);
+  if (hrs < 24) return `${hrs}h ${mins % 60}m left`;
+  return `${Math.floor(hrs / 24)}d ${hrs % 24}h left`;
+}
+
+interface ReceivedPassport {
+  _id: string;
+  passportNumber: string;
+  origin?: { materialType?: string; quantity?: number; unit?: string };
+  destination?: { companyId?: string };
+  verification?: { status?: string };
+}
+
+interface SearchFilters {
+  category?: string;
+  hazardous?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+  lng?: number;
+  lat?: number;
+  radiusKm?: number;
+}
+
+interface SavedSearch {
+  _id: string;
+  name: string;
+  filters: SearchFilters;
+  cadence: "instant" | "daily";
+  channels: { email: boolean; inApp: boolean };
+  active: boolean;
+  hitCount: number;
+  lastHitAt?: string;
+  unseenCount: number;
+}
+
+interface SavedSearchHit {
+  _id: string;
+  createdAt: string;
+  seenAt?: string;
+  savedSearchId: { _id: string; name: string } | null;
+  listingId: {
+    _id: string;
+    material: { category: string };
+    quantity: { value: number; unit: string };
+    pricing?: { amount?: number; type?: string };
+    status: string;
+    companyId?: { name?: string };
+  } | null;
+}
+
+function describeFilters(f: SearchFilters) {
+  const parts: string[] = [];
+  if (f.category) parts.push(f.category.replace(/_/g, " "));
+  if (f.hazardous !== undefined) parts.push(f.hazardous ? "hazardous" : "non-hazardous");
+  if (f.minPrice !== undefined || f.maxPrice !== undefined) parts.push(`₹${f.minPrice ?? 0}–${f.maxPrice ?? "any"}`);
+  if (f.radiusKm) parts.push(`within ${f.radiusKm} km`);
+  return parts.length ? parts.join(" · ") : "All listings";
+}
+
+function errorMessage(err: unknown, fallback: string) {
+  const e = err as { error?: string; message?: string } | undefined;
+  return e?.error || e?.message || fallback;
+}
+
+// ISO timestamp → value for a datetime-local input
+function toLocalInput(dateStr: string) {
+  const d = new Date(dateStr);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
 const MATERIAL_OPTIONS = [
   { value: "metal_scrap", label: "Metal Scrap" },
   { value: "plastic", label: "Plastic" },
@@ -61,7 +250,30 @@ const MATERIAL_OPTIONS = [
   { value: "energy_recovery", label: "Energy Recovery" },
 ];
 
-function ListingFormFields({ formData, setFormData }: { formData: any; setFormData: (d: any) => void }) {
+function ListingFormFields({ formData, setFormData, lockTerms = false, withProvenance = false }: { formData: any; setFormData: (d: any) => void; lockTerms?: boolean; withProvenance?: boolean }) {
+  const isAuction = formData.pricingType === "auction";
+  const { company } = useAuthStore();
+  // Passports this company received — relisting under one extends its chain of custody
+  const { data: received = [] } = useQuery({
+    queryKey: ['passports', company?.id],
+    queryFn: async () => {
+      const res = (await api.get('/passports')) as unknown as { data: ReceivedPassport[] };
+      return res.data || [];
+    },
+    enabled: withProvenance && !!company?.id,
+    select: (passports: ReceivedPassport[]) => passports.filter((p) => p.destination?.companyId === company?.id && p.verification?.status !== "revoked"),
+  });
+  const { data: suggestion } = useQuery({
+    queryKey: ['price-suggestion', formData.materialType, formData.quantityUnit],
+    queryFn: async () => {
+      const res = (await api.get("/marketplace/price-index/suggest", { params: { category: formData.materialType, unit: formData.quantityUnit } })) as unknown as { data: PriceBenchmark | null };
+      return res.data;
+    },
+    enabled: !!formData.materialType && !lockTerms,
+    staleTime: 60 * 60 * 1000,
+  });
+  // Volumes are matched and costed by mass — show what the buyer side will see
+  const massKg = formData.quantityValue ? toKg(Number(formData.quantityValue), formData.quantityUnit, formData.materialType) : undefined;
   return (
     <div className="space-y-4 pt-4">
       <div className="grid grid-cols-4 items-center gap-4">
@@ -89,21 +301,45 @@ function ListingFormFields({ formData, setFormData }: { formData: any; setFormDa
             className="flex-1"
             value={formData.quantityValue}
             onChange={(e) => setFormData({ ...formData, quantityValue: e.target.value })}
+            disabled={lockTerms}
             required
           />
           <select
             className="flex h-9 w-24 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
             value={formData.quantityUnit}
             onChange={(e) => setFormData({ ...formData, quantityUnit: e.target.value })}
+            disabled={lockTerms}
           >
-            <option value="kg">kg</option>
-            <option value="ton">ton</option>
-            <option value="liter">liter</option>
+            {QUANTITY_UNITS.map((unit) => (
+              <option key={unit} value={unit}>{UNIT_LABELS[unit]}</option>
+            ))}
           </select>
         </div>
+        {isVolumeUnit(formData.quantityUnit) && (
+          <p className="col-span-3 col-start-2 text-[11px] text-muted-foreground">
+            {!formData.materialType
+              ? "Pick a material to convert this volume to mass."
+              : massKg !== undefined
+                ? `≈ ${Math.round(massKg).toLocaleString()} kg at ${MATERIAL_DENSITIES[formData.materialType].toLocaleString()} kg/m³ bulk density`
+                : "No density on file for this material — list it by mass instead."}
+          </p>
+        )}
+      </div>
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="pricingType" className="text-right text-xs text-muted-foreground">Sell By</Label>
+        <select
+          id="pricingType"
+          className="col-span-3 flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm disabled:opacity-60"
+          value={formData.pricingType}
+          onChange={(e) => setFormData({ ...formData, pricingType: e.target.value })}
+          disabled={lockTerms}
+        >
+          <option value="fixed">Fixed price</option>
+          <option value="auction">Auction</option>
+        </select>
       </div>
       <div className="grid grid-cols-4 items-center gap-4">
-        <Label htmlFor="price" className="text-right text-xs text-muted-foreground">Price</Label>
+        <Label htmlFor="price" className="text-right text-xs text-muted-foreground">{isAuction ? "Opening Bid" : "Price"}</Label>
         <div className="col-span-3 flex gap-2">
           <Input
             id="price"
@@ -112,22 +348,154 @@ function ListingFormFields({ formData, setFormData }: { formData: any; setFormDa
             className="flex-1"
             value={formData.priceAmount}
             onChange={(e) => setFormData({ ...formData, priceAmount: e.target.value })}
+            disabled={lockTerms}
             required
           />
           <select
             className="flex h-9 w-24 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
             value={formData.priceCurrency}
             onChange={(e) => setFormData({ ...formData, priceCurrency: e.target.value })}
+            disabled={lockTerms}
           >
             <option value="INR">INR</option>
             <option value="USD">USD</option>
           </select>
         </div>
+        {suggestion && formData.priceCurrency === "INR" && !lockTerms && (
+          <p className="col-span-3 col-start-2 text-[11px] text-muted-foreground">
+            Suggested ₹{suggestion.median.toLocaleString()}/{suggestion.unit} · typical ₹{suggestion.low.toLocaleString()}–₹{suggestion.high.toLocaleString()} in {scopeLabel(suggestion.scope)} ({suggestion.sampleCount} prices, {suggestion.period}){" "}
+            <button type="button" className="text-primary hover:underline" onClick={() => setFormData({ ...formData, priceAmount: String(suggestion.median) })}>
+              Use
+            </button>
+          </p>
+        )}
       </div>
+      {isAuction && !lockTerms && (
+        <>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="bidding" className="text-right text-xs text-muted-foreground">Bidding</Label>
+            <select
+              id="bidding"
+              className="col-span-3 flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+              value={formData.bidding}
+              onChange={(e) => setFormData({ ...formData, bidding: e.target.value })}
+            >
+              <option value="open">Open — bidders see the leading bid</option>
+              <option value="sealed">Sealed — bids hidden until close</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="reserve" className="text-right text-xs text-muted-foreground">Reserve</Label>
+            <Input
+              id="reserve"
+              type="number"
+              placeholder="Optional — hidden from bidders"
+              className="col-span-3"
+              value={formData.reservePrice}
+              onChange={(e) => setFormData({ ...formData, reservePrice: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="increment" className="text-right text-xs text-muted-foreground">Min Raise</Label>
+            <Input
+              id="increment"
+              type="number"
+              placeholder="Optional — defaults to 2% of opening bid"
+              className="col-span-3"
+              value={formData.minIncrement}
+              onChange={(e) => setFormData({ ...formData, minIncrement: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="endsAt" className="text-right text-xs text-muted-foreground">Ends At</Label>
+            <Input
+              id="endsAt"
+              type="datetime-local"
+              className="col-span-3"
+              value={formData.endsAt}
+              onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+              required
+            />
+          </div>
+          <p className="text-[11px] text-muted-foreground pl-[25%]">
+            Bids in the last 5 minutes extend the auction. The best bid at or above the reserve becomes a match automatically.
+          </p>
+        </>
+      )}
+      {withProvenance && received.length > 0 && (
+        <>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="source" className="text-right text-xs text-muted-foreground">Made From</Label>
+            <select
+              id="source"
+              className="col-span-3 flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+              value={formData.sourcePassportId}
+              onChange={(e) => setFormData({ ...formData, sourcePassportId: e.target.value })}
+            >
+              <option value="">First-hand material</option>
+              {received.map((p) => (
+                <option key={p._id} value={p._id}>
+                  {p.passportNumber} · {p.origin?.quantity} {p.origin?.unit} {p.origin?.materialType?.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+          </div>
+          {formData.sourcePassportId && (
+            <>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="process" className="text-right text-xs text-muted-foreground">Processing</Label>
+                <div className="col-span-3 flex gap-2">
+                  <Input id="process" placeholder="Process, e.g. shredding" value={formData.processName} onChange={(e) => setFormData({ ...formData, processName: e.target.value })} />
+                  <Input placeholder="Facility" value={formData.processFacility} onChange={(e) => setFormData({ ...formData, processFacility: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label className="text-right text-xs text-muted-foreground">In / Out / CO₂</Label>
+                <div className="col-span-3 flex gap-2">
+                  <Input type="number" placeholder="Input kg" value={formData.processInputKg} onChange={(e) => setFormData({ ...formData, processInputKg: e.target.value })} />
+                  <Input type="number" placeholder="Output kg" value={formData.processOutputKg} onChange={(e) => setFormData({ ...formData, processOutputKg: e.target.value })} />
+                  <Input type="number" placeholder="kg CO₂" value={formData.processEmissionsKg} onChange={(e) => setFormData({ ...formData, processEmissionsKg: e.target.value })} />
+                </div>
+              </div>
+              <p className="text-[11px] text-muted-foreground pl-[25%]">
+                The passport issued for this lot will link back to the source passport. Yield is output ÷ input.
+              </p>
+            </>
+          )}
+        </>
+      )}
     </div>
   );
 }
 
+function buildProvenance(data: { sourcePassportId: string; processName: string; processFacility: string; processInputKg: string; processOutputKg: string; processEmissionsKg: string }) {
+  if (!data.sourcePassportId) return undefined;
+  const processing = data.processName && data.processFacility
+    ? [{
+      process: data.processName,
+      facility: data.processFacility,
+      date: new Date().toISOString(),
+      ...(data.processInputKg ? { inputQuantity: Number(data.processInputKg) } : {}),
+      ...(data.processOutputKg ? { outputQuantity: Number(data.processOutputKg) } : {}),
+      emissionsKg: Number(data.processEmissionsKg) || 0,
+    }]
+    : [];
+  return { parentPassportIds: [data.sourcePassportId], processing };
+}
+
+function buildPricing(data: { priceAmount: string; priceCurrency: string; pricingType: string; bidding: string; reservePrice: string; minIncrement: string; endsAt: string }) {
+  const pricing: Record<string, unknown> = { amount: Number(data.priceAmount), currency: data.priceCurrency, type: data.pricingType };
+  if (data.pricingType === "auction") {
+    pricing.auction = {
+      bidding: data.bidding,
+      endsAt: new Date(data.endsAt).toISOString(),
+      ...(data.reservePrice ? { reservePrice: Number(data.reservePrice) } : {}),
+      ...(data.minIncrement ? { minIncrement: Number(data.minIncrement) } : {}),
+    };
+  }
+  return pricing;
+}
+
 export default function Marketplace() {
   const [search, setSearch] = useState("");
   const [isCreateOpen, setIsCreateOpen] = useState(false);
@@ -138,13 +506,40 @@ export default function Marketplace() {
   const [contactMaterial, setContactMaterial] = useState("");
   const [contactMessage, setContactMessage] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingAuctionLocked, setEditingAuctionLocked] = useState(false);
+  const [auctionListing, setAuctionListing] = useState<{ id: string; material: string; unit: string; isSeller: boolean } | null>(null);
+  const [bidAmount, setBidAmount] = useState("");
+  const [analyticsListing, setAnalyticsListing] = useState<{ id: string; material: string } | null>(null);
+  const [analyticsDays, setAnalyticsDays] = useState(30);
+  const [priceCategory, setPriceCategory] = useState("metal_scrap");
+  const [priceState, setPriceState] = useState("");
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [filterForm, setFilterForm] = useState({ category: "", hazardous: "", minPrice: "", maxPrice: "", radiusKm: "" });
+  const [isSaveSearchOpen, setIsSaveSearchOpen] = useState(false);
+  const [saveSearchForm, setSaveSearchForm] = useState({ name: "", cadence: "instant", email: true });
   const { company } = useAuthStore();
   const queryClient = useQueryClient();
 
-  const emptyForm = { materialType: "", quantityValue: "", quantityUnit: "kg", priceAmount: "", priceCurrency: "INR" };
+  const emptyForm = {
+    materialType: "", quantityValue: "", quantityUnit: "kg", priceAmount: "", priceCurrency: "INR",
+    pricingType: "fixed", bidding: "open", reservePrice: "", minIncrement: "", endsAt: "",
+    sourcePassportId: "", processName: "", processFacility: "", processInputKg: "", processOutputKg: "", processEmissionsKg: "",
+  };
   const [createForm, setCreateForm] = useState(emptyForm);
   const [editForm, setEditForm] = useState(emptyForm);
 
+  // Filters in the shape the API expects — shared by the browse query and saved searches
+  const siteCoords: number[] | undefined = company?.location?.coordinates;
+  const hasSite = !!siteCoords && (siteCoords[0] !== 0 || siteCoords[1] !== 0);
+  const activeFilters: SearchFilters = {
+    ...(filterForm.category ? { category: filterForm.category } : {}),
+    ...(filterForm.hazardous ? { hazardous: filterForm.hazardous === "true" } : {}),
+    ...(filterForm.minPrice ? { minPrice: Number(filterForm.minPrice) } : {}),
+    ...(filterForm.maxPrice ? { maxPrice: Number(filterForm.maxPrice) } : {}),
+    ...(filterForm.radiusKm && hasSite ? { radiusKm: Number(filterForm.radiusKm), lng: siteCoords![0], lat: siteCoords![1] } : {}),
+  };
+  const filterCount = Object.keys(activeFilters).filter((k) => k !== "lng" && k !== "lat").length;
+
   // ===================== MUTATIONS =====================
 
   const createListingMutation = useMutation({
@@ -153,7 +548,8 @@ export default function Marketplace() {
         companyId: company?.id,
         material: { category: data.materialType || "mixed" },
         quantity: { value: Number(data.quantityValue), unit: data.quantityUnit },
-        pricing: { amount: Number(data.priceAmount), currency: data.priceCurrency, type: "fixed" },
+        pricing: buildPricing(data),
+        provenance: buildProvenance(data),
         quality: { condition: "mixed" },
         logistics: { pickupAvailable: true },
         status: "active",
@@ -161,32 +557,39 @@ export default function Marketplace() {
       const res = await api.post("/marketplace/waste-listings", payload);
       return res;
     },
-    onSuccess: () => {
+    onSuccess: (res) => {
+      const warning = benchmarkWarning((res as unknown as { data?: { pricing?: { benchmark?: ListingBenchmark } } }).data?.pricing?.benchmark);
       toast.success("Listing created successfully!");
+      if (warning) toast.warning(warning);
       queryClient.invalidateQueries({ queryKey: ['waste-listings'] });
       setIsCreateOpen(false);
       setCreateForm(emptyForm);
     },
-    onError: () => toast.error("Failed to create listing"),
+    onError: (err) => toast.error(errorMessage(err, "Failed to create listing")),
   });
 
   const updateListingMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: any }) => {
-      const payload = {
-        material: { category: data.materialType || "mixed" },
-        quantity: { value: Number(data.quantityValue), unit: data.quantityUnit },
-        pricing: { amount: Number(data.priceAmount), currency: data.priceCurrency, type: "fixed" },
-      };
+    mutationFn: async ({ id, data, locked }: { id: string; data: any; locked: boolean }) => {
+      // Once an auction is running only the material description can change
+      const payload = locked
+        ? { material: { category: data.materialType || "mixed" } }
+        : {
+          material: { category: data.materialType || "mixed" },
+          quantity: { value: Number(data.quantityValue), unit: data.quantityUnit },
+          pricing: buildPricing(data),
+        };
       const res = await api.put(`/marketplace/waste-listings/${id}`, payload);
       return res;
     },
-    onSuccess: () => {
+    onSuccess: (res) => {
+      const warning = benchmarkWarning((res as unknown as { data?: { pricing?: { benchmark?: ListingBenchmark } } }).data?.pricing?.benchmark);
       toast.success("Listing updated successfully!");
+      if (warning) toast.warning(warning);
       queryClient.invalidateQueries({ queryKey: ['waste-listings'] });
       setIsEditOpen(false);
       setEditingId(null);
     },
-    onError: () => toast.error("Failed to update listing"),
+    onError: (err) => toast.error(errorMessage(err, "Failed to update listing")),
   });
 
   const deleteListingMutation = useMutation({
@@ -198,7 +601,20 @@ export default function Marketplace() {
       toast.success("Listing withdrawn.");
       queryClient.invalidateQueries({ queryKey: ['waste-listings'] });
     },
-    onError: () => toast.error("Failed to withdraw listing"),
+    onError: (err) => toast.error(errorMessage(err, "Failed to withdraw listing")),
+  });
+
+  const placeBidMutation = useMutation({
+    mutationFn: async ({ listingId, amount }: { listingId: string; amount: number }) => {
+      return api.post(`/marketplace/waste-listings/${listingId}/bids`, { amount }) as unknown as Promise<{ message?: string }>;
+    },
+    onSuccess: (res, { listingId }) => {
+      toast.success(res?.message || "Bid placed");
+      setBidAmount("");
+      queryClient.invalidateQueries({ queryKey: ['auction-bids', listingId] });
+      queryClient.invalidateQueries({ queryKey: ['waste-listings'] });
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to place bid.")),
   });
 
   const contactSellerMutation = useMutation({
@@ -241,16 +657,80 @@ export default function Marketplace() {
     },
   });
 
+  const createSavedSearchMutation = useMutation({
+    mutationFn: async () => {
+      return api.post('/marketplace/saved-searches', {
+        name: saveSearchForm.name,
+        filters: activeFilters,
+        cadence: saveSearchForm.cadence,
+        channels: { email: saveSearchForm.email, inApp: true },
+      }) as unknown as Promise<{ message?: string }>;
+    },
+    onSuccess: (res) => {
+      toast.success(res?.message || "Search saved");
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      setIsSaveSearchOpen(false);
+      setSaveSearchForm({ name: "", cadence: "instant", email: true });
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to save search")),
+  });
+
+  const updateSavedSearchMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: string; body: Record<string, unknown> }) => {
+      return api.put(`/marketplace/saved-searches/${id}`, body);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['saved-searches'] }),
+    onError: (err) => toast.error(errorMessage(err, "Failed to update saved search")),
+  });
+
+  const deleteSavedSearchMutation = useMutation({
+    mutationFn: async (id: string) => api.delete(`/marketplace/saved-searches/${id}`),
+    onSuccess: () => {
+      toast.success("Saved search deleted");
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      queryClient.invalidateQueries({ queryKey: ['saved-search-hits'] });
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to delete saved search")),
+  });
+
+  const markHitsSeenMutation = useMutation({
+    mutationFn: async (savedSearchId?: string) => api.post('/marketplace/saved-searches/hits/seen', { savedSearchId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      queryClient.invalidateQueries({ queryKey: ['saved-search-hits'] });
+    },
+  });
+
   // ===================== QUERIES =====================
 
   const { data: rawBrowseListings } = useQuery({
-    queryKey: ['waste-listings', 'browse'],
+    queryKey: ['waste-listings', 'browse', activeFilters],
     queryFn: async () => {
-      const res: any = await api.get('/marketplace/waste-listings');
+      const params = Object.fromEntries(Object.entries(activeFilters).map(([k, v]) => [k, String(v)]));
+      const res = (await api.get('/marketplace/waste-listings', { params })) as unknown as { data?: unknown[] };
       return res.data || [];
     }
   });
 
+  const { data: savedSearches = [] } = useQuery({
+    queryKey: ['saved-searches', company?.id],
+    queryFn: async () => {
+      const res = (await api.get('/marketplace/saved-searches')) as unknown as { data: SavedSearch[] };
+      return res.data;
+    },
+    enabled: !!company?.id,
+  });
+
+  const { data: savedSearchHits } = useQuery({
+    queryKey: ['saved-search-hits', company?.id],
+    queryFn: async () => {
+      return (await api.get('/marketplace/saved-searches/hits', { params: { limit: 30 } })) as unknown as { data: SavedSearchHit[]; unseen: number };
+    },
+    enabled: !!company?.id,
+    refetchInterval: 60000,
+  });
+  const unseenHits = savedSearchHits?.unseen || 0;
+
   const { data: rawMyListings } = useQuery({
     queryKey: ['waste-listings', 'my', company?.id],
     queryFn: async () => {
@@ -261,6 +741,34 @@ export default function Marketplace() {
     enabled: !!company?.id,
   });
 
+  const { data: listingAnalytics, isLoading: analyticsLoading } = useQuery({
+    queryKey: ['listing-analytics', analyticsListing?.id, analyticsDays],
+    queryFn: async () => {
+      const res = (await api.get(`/marketplace/waste-listings/${analyticsListing?.id}/analytics`, { params: { days: analyticsDays } })) as unknown as { data: ListingAnalytics };
+      return res.data;
+    },
+    enabled: !!analyticsListing,
+  });
+
+  const { data: priceIndex, isLoading: priceIndexLoading } = useQuery({
+    queryKey: ['price-index', priceCategory, priceState],
+    queryFn: async () => {
+      const res = (await api.get("/marketplace/price-index", { params: { category: priceCategory, state: priceState || undefined, months: 12 } })) as unknown as { data: PriceIndexSeries };
+      return res.data;
+    },
+  });
+  const priceChart = (priceIndex?.series || []).map((p) => ({ ...p, band: [p.p25, p.p75] }));
+
+  const { data: auctionHistory, isLoading: auctionLoading } = useQuery({
+    queryKey: ['auction-bids', auctionListing?.id],
+    queryFn: async () => {
+      const res = (await api.get(`/marketplace/waste-listings/${auctionListing?.id}/bids`)) as unknown as { data: AuctionHistory };
+      return res.data;
+    },
+    enabled: !!auctionListing,
+    refetchInterval: 15000,
+  });
+
   // ===================== DATA MAPPING =====================
 
   // Filter OUT own listings from "Find Materials"
@@ -324,6 +832,8 @@ export default function Marketplace() {
       sellerVerified: r.companyId?.verificationStatus === 'verified' || r.companyId?.verificationStatus === 'completed',
       quantity: `${r.quantity?.value?.toLocaleString() || 0} ${r.quantity?.unit || 'kg'}`,
       price: `₹${(r.pricing?.amount || 0).toLocaleString()}/${r.quantity?.unit || 'kg'}`,
+      unit: r.quantity?.unit || 'kg',
+      auction: r.pricing?.type === 'auction' ? r.pricing.auction : null,
       matchScore: computeCompatibilityScore(r),
       createdAt: r.createdAt,
       frequency: r.quantity?.frequency || 'one_time',
@@ -339,7 +849,10 @@ export default function Marketplace() {
     quantity: `${r.quantity?.value?.toLocaleString() || 0} ${r.quantity?.unit || 'kg'}`,
     rawPrice: r.pricing?.amount || 0,
     rawCurrency: r.pricing?.currency || 'INR',
+    rawPricingType: r.pricing?.type || 'fixed',
+    auction: r.pricing?.type === 'auction' ? r.pricing.auction : null,
     price: `₹${(r.pricing?.amount || 0).toLocaleString()}/${r.quantity?.unit || 'kg'}`,
+    benchmark: r.pricing?.benchmark as ListingBenchmark | undefined,
     status: r.status || 'draft',
     matchCount: r.matchCount || 0,
     viewCount: r.viewCount || 0,
@@ -356,21 +869,35 @@ export default function Marketplace() {
   const handleEditClick = (item: any) => {
     setEditingId(item.id);
     setEditForm({
+      ...emptyForm,
       materialType: item.rawMaterial,
       quantityValue: String(item.rawQuantity),
       quantityUnit: item.rawUnit,
       priceAmount: String(item.rawPrice),
       priceCurrency: item.rawCurrency,
+      pricingType: item.rawPricingType === 'auction' ? 'auction' : 'fixed',
+      bidding: item.auction?.bidding || "open",
+      reservePrice: "",
+      minIncrement: item.auction?.minIncrement ? String(item.auction.minIncrement) : "",
+      endsAt: item.auction?.endsAt ? toLocalInput(item.auction.endsAt) : "",
     });
+    setEditingAuctionLocked(!!item.auction && (item.auction.status !== 'scheduled' || (item.auction.bidCount || 0) > 0));
     setIsEditOpen(true);
   };
 
   const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingId) return;
-    updateListingMutation.mutate({ id: editingId, data: editForm });
+    updateListingMutation.mutate({ id: editingId, data: editForm, locked: editingAuctionLocked });
   };
 
+  const handleBidSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!auctionListing || !bidAmount) return;
+    placeBidMutation.mutate({ listingId: auctionListing.id, amount: Number(bidAmount) });
+  };
+
+
   const handleContactClick = (listing: any) => {
     setContactListingId(listing.id);
     setContactSellerName(listing.seller);
@@ -421,7 +948,7 @@ export default function Marketplace() {
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleCreateSubmit}>
-              <ListingFormFields formData={createForm} setFormData={setCreateForm} />
+              <ListingFormFields formData={createForm} setFormData={setCreateForm} withProvenance />
               <DialogFooter className="mt-6 border-t border-border pt-4">
                 <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
                   Cancel
@@ -446,7 +973,7 @@ export default function Marketplace() {
             </DialogDescription>
           </DialogHeader>
           <form onSubmit={handleEditSubmit}>
-            <ListingFormFields formData={editForm} setFormData={setEditForm} />
+            <ListingFormFields formData={editForm} setFormData={setEditForm} lockTerms={editingAuctionLocked} />
             <DialogFooter className="mt-6 border-t border-border pt-4">
               <Button type="button" variant="outline" onClick={() => setIsEditOpen(false)}>
                 Cancel
@@ -464,6 +991,13 @@ export default function Marketplace() {
         <TabsList>
           <TabsTrigger value="find">Find Materials ({dynamicBrowseListings.length})</TabsTrigger>
           <TabsTrigger value="my">My Listings ({dynamicMyListings.length})</TabsTrigger>
+          <TabsTrigger value="saved" className="gap-1.5">
+            Saved Searches ({savedSearches.length})
+            {unseenHits > 0 && <span className="rounded-full bg-primary px-1.5 text-[10px] font-bold text-primary-foreground">{unseenHits}</span>}
+          </TabsTrigger>
+          <TabsTrigger value="prices" className="gap-1.5">
+            <TrendingUp className="h-3.5 w-3.5" /> Price Index
+          </TabsTrigger>
         </TabsList>
 
         {/* ==================== FIND MATERIALS ==================== */}
@@ -478,11 +1012,62 @@ export default function Marketplace() {
                 onChange={(e) => setSearch(e.target.value)}
               />
             </div>
-            <Button variant="outline" className="gap-2">
-              <SlidersHorizontal className="h-4 w-4" /> Filters
+            <Button variant={filtersOpen ? "secondary" : "outline"} className="gap-2" onClick={() => setFiltersOpen(!filtersOpen)}>
+              <SlidersHorizontal className="h-4 w-4" /> Filters{filterCount > 0 && ` (${filterCount})`}
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => setIsSaveSearchOpen(true)}>
+              <Bookmark className="h-4 w-4" /> Save Search
             </Button>
           </div>
 
+          {filtersOpen && (
+            <div className="industrial-card p-4 grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Material</Label>
+                <select
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+                  value={filterForm.category}
+                  onChange={(e) => setFilterForm({ ...filterForm, category: e.target.value })}
+                >
+                  <option value="">Any</option>
+                  {MATERIAL_OPTIONS.map((m) => (
+                    <option key={m.value} value={m.value}>{m.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Hazardous</Label>
+                <select
+                  className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+                  value={filterForm.hazardous}
+                  onChange={(e) => setFilterForm({ ...filterForm, hazardous: e.target.value })}
+                >
+                  <option value="">Any</option>
+                  <option value="false">Non-hazardous</option>
+                  <option value="true">Hazardous</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Min Price (₹)</Label>
+                <Input type="number" value={filterForm.minPrice} onChange={(e) => setFilterForm({ ...filterForm, minPrice: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Max Price (₹)</Label>
+                <Input type="number" value={filterForm.maxPrice} onChange={(e) => setFilterForm({ ...filterForm, maxPrice: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Within (km of my site)</Label>
+                <Input
+                  type="number"
+                  value={filterForm.radiusKm}
+                  onChange={(e) => setFilterForm({ ...filterForm, radiusKm: e.target.value })}
+                  disabled={!hasSite}
+                  placeholder={hasSite ? "" : "Set a site location first"}
+                />
+              </div>
+            </div>
+          )}
+
           {(() => {
             const searchLower = search.toLowerCase();
             const filtered = searchLower
@@ -539,11 +1124,29 @@ export default function Marketplace() {
                         <p className="font-mono font-semibold text-foreground">{listing.quantity}</p>
                       </div>
                       <div>
-                        <span className="text-muted-foreground">Price</span>
+                        <span className="text-muted-foreground">{listing.auction ? "Opening Bid" : "Price"}</span>
                         <p className="font-mono font-semibold text-foreground">{listing.price}</p>
                       </div>
                     </div>
 
+                    {listing.auction && (
+                      <div className="flex items-center justify-between rounded-md border border-border bg-muted/30 px-3 py-2 text-xs mb-3">
+                        <span className="flex items-center gap-1.5 font-medium text-foreground">
+                          {listing.auction.bidding === 'sealed' ? <Lock className="h-3 w-3" /> : <Gavel className="h-3 w-3" />}
+                          {listing.auction.bidding === 'sealed'
+                            ? 'Sealed bids'
+                            : listing.auction.highBid
+                              ? `High bid ₹${listing.auction.highBid.toLocaleString()}/${listing.unit}`
+                              : 'No bids yet'}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {listing.auction.status === 'scheduled'
+                            ? `Opens ${new Date(listing.auction.startsAt).toLocaleString()}`
+                            : formatTimeLeft(listing.auction.endsAt)}
+                        </span>
+                      </div>
+                    )}
+
                     <div className="flex items-center justify-between mt-auto pt-3 border-t">
                       <div className="flex items-center gap-3 text-xs text-muted-foreground">
                         {listing.sellerCity && (
@@ -555,15 +1158,26 @@ export default function Marketplace() {
                           <Clock className="h-3 w-3" /> {formatTimeAgo(listing.createdAt)}
                         </span>
                       </div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="text-xs h-7 gap-1"
-                        onClick={() => handleContactClick(listing)}
-                      >
-                        <Mail className="h-3 w-3" />
-                        Contact Seller
-                      </Button>
+                      {listing.auction ? (
+                        <Button
+                          size="sm"
+                          className="text-xs h-7 gap-1"
+                          onClick={() => setAuctionListing({ id: listing.id, material: listing.material, unit: listing.unit, isSeller: false })}
+                        >
+                          <Gavel className="h-3 w-3" />
+                          Place Bid
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-xs h-7 gap-1"
+                          onClick={() => handleContactClick(listing)}
+                        >
+                          <Mail className="h-3 w-3" />
+                          Contact Seller
+                        </Button>
+                      )}
                     </div>
                   </motion.div>
                 ))}
@@ -617,6 +1231,378 @@ export default function Marketplace() {
           </DialogContent>
         </Dialog>
 
+        {/* ==================== AUCTION DIALOG ==================== */}
+        <Dialog open={!!auctionListing} onOpenChange={(open) => { if (!open) { setAuctionListing(null); setBidAmount(""); } }}>
+          <DialogContent className="sm:max-w-[520px]">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2 capitalize">
+                <Gavel className="h-5 w-5 text-primary" /> {auctionListing?.isSeller ? 'Bid History' : 'Place Bid'} — {auctionListing?.material}
+              </DialogTitle>
+              <DialogDescription>
+                {auctionHistory?.auction.bidding === 'sealed'
+                  ? 'Sealed auction — bids stay hidden until it closes. You can raise your own bid.'
+                  : 'Open auction — each bid must beat the leading bid by the minimum raise.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            {auctionLoading || !auctionHistory ? (
+              <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+            ) : (() => {
+              const { auction, bids } = auctionHistory;
+              const unit = auctionListing?.unit || 'kg';
+              const live = ['scheduled', 'open'].includes(auction.status) && new Date(auction.endsAt).getTime() > Date.now();
+              const minimumBid = auction.bidding === 'open' && auction.highBid !== null
+                ? auction.highBid + auction.minIncrement
+                : auction.openingPrice;
+
+              return (
+                <div className="space-y-4 pt-2">
+                  <div className="grid grid-cols-3 gap-2 text-xs">
+                    <div className="rounded-md border border-border p-2">
+                      <span className="text-muted-foreground">{auction.bidding === 'sealed' && auction.highBid === null ? 'Opening' : 'High Bid'}</span>
+                      <p className="font-mono font-semibold text-foreground">
+                        ₹{(auction.highBid ?? auction.openingPrice).toLocaleString()}/{unit}
+                      </p>
+                    </div>
+                    <div className="rounded-md border border-border p-2">
+                      <span className="text-muted-foreground">Bids</span>
+                      <p className="font-mono font-semibold text-foreground">{auction.bidCount || 0}</p>
+                    </div>
+                    <div className="rounded-md border border-border p-2">
+                      <span className="text-muted-foreground">{live ? 'Ends' : 'Status'}</span>
+                      <p className="font-mono font-semibold text-foreground capitalize">{live ? formatTimeLeft(auction.endsAt) : auction.status}</p>
+                    </div>
+                  </div>
+
+                  <div className="text-[11px] text-muted-foreground space-y-0.5">
+                    {auction.extensions > 0 && (
+                      <p>Extended {auction.extensions}× by late bids (originally {new Date(auction.originalEndsAt).toLocaleString()}).</p>
+                    )}
+                    {auctionListing?.isSeller && auction.reservePrice != null && (
+                      <p>Reserve ₹{auction.reservePrice.toLocaleString()}/{unit} — {auction.reserveMet ? 'met' : 'not met yet'}.</p>
+                    )}
+                    {!auctionListing?.isSeller && auction.reserveMet === false && <p>The seller's reserve has not been met yet.</p>}
+                    {auction.matchId && <p>Sold — the winning bid is now a match on the Matches page.</p>}
+                  </div>
+
+                  <div className="max-h-56 overflow-y-auto rounded-md border border-border">
+                    {bids.length === 0 ? (
+                      <p className="text-xs text-muted-foreground text-center py-6">No bids to show yet</p>
+                    ) : (
+                      <table className="w-full text-xs">
+                        <tbody>
+                          {bids.map((bid) => (
+                            <tr key={bid._id} className="border-b last:border-0">
+                              <td className="px-3 py-2">{bid.bidder.name || 'Bidder'}{bid.mine && <span className="text-primary"> (you)</span>}</td>
+                              <td className="px-3 py-2 font-mono">₹{bid.amount.toLocaleString()}/{bid.unit}</td>
+                              <td className="px-3 py-2 capitalize text-muted-foreground">{bid.status}{bid.extendedAuction && ' · extended'}</td>
+                              <td className="px-3 py-2 text-muted-foreground">{formatTimeAgo(bid.createdAt)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+
+                  {!auctionListing?.isSeller && live && (
+                    <form onSubmit={handleBidSubmit} className="space-y-2">
+                      <Label htmlFor="bidAmount" className="text-xs text-muted-foreground">
+                        Your bid per {unit} (minimum ₹{minimumBid.toLocaleString()})
+                      </Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="bidAmount"
+                          type="number"
+                          min={minimumBid}
+                          step="any"
+                          placeholder={String(minimumBid)}
+                          value={bidAmount}
+                          onChange={(e) => setBidAmount(e.target.value)}
+                          required
+                        />
+                        <Button type="submit" disabled={placeBidMutation.isPending} className="gap-2">
+                          {placeBidMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                          Bid
+                        </Button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              );
+            })()}
+          </DialogContent>
+        </Dialog>
+
+        {/* ==================== LISTING ANALYTICS DIALOG ==================== */}
+        <Dialog open={!!analyticsListing} onOpenChange={(open) => { if (!open) setAnalyticsListing(null); }}>
+          <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2 capitalize">
+                <BarChart3 className="h-5 w-5 text-primary" /> Listing Analytics — {analyticsListing?.material}
+              </DialogTitle>
+              <DialogDescription>
+                Activity on this listing over time, how viewers convert into completed exchanges, and how it compares with similar listings.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex gap-1">
+              {[7, 30, 90].map((d) => (
+                <Button key={d} size="sm" variant={analyticsDays === d ? "default" : "outline"} className="h-7 text-xs" onClick={() => setAnalyticsDays(d)}>
+                  {d} days
+                </Button>
+              ))}
+            </div>
+
+            {analyticsLoading || !listingAnalytics ? (
+              <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+            ) : (
+              <div className="space-y-6">
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={listingAnalytics.daily}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(210, 18%, 90%)" />
+                      <XAxis dataKey="date" tick={{ fontSize: 10 }} stroke="hsl(210, 12%, 70%)" tickFormatter={(d: string) => d.slice(5)} />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 10 }} stroke="hsl(210, 12%, 70%)" width={28} />
+                      <RechartsTooltip contentStyle={{ background: "hsl(0, 0%, 100%)", border: "1px solid hsl(210, 18%, 90%)", borderRadius: "8px", fontSize: "12px" }} />
+                      <Legend wrapperStyle={{ fontSize: "11px" }} />
+                      <Area type="monotone" dataKey="views" name="Views" stroke="hsl(181, 61%, 25%)" fill="hsl(181, 61%, 25%)" fillOpacity={0.12} strokeWidth={2} />
+                      <Area type="monotone" dataKey="inquiries" name="Inquiries" stroke="hsl(16, 100%, 60%)" fill="hsl(16, 100%, 60%)" fillOpacity={0.12} strokeWidth={2} />
+                      <Area type="monotone" dataKey="matches" name="Matches" stroke="hsl(142, 60%, 40%)" fill="hsl(142, 60%, 40%)" fillOpacity={0.12} strokeWidth={2} />
+                      {listingAnalytics.funnel.bids > 0 && (
+                        <Area type="monotone" dataKey="bids" name="Bids" stroke="hsl(262, 60%, 55%)" fill="hsl(262, 60%, 55%)" fillOpacity={0.12} strokeWidth={2} />
+                      )}
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <div>
+                  <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">Conversion funnel</p>
+                  <div className="space-y-1.5">
+                    {listingAnalytics.funnel.stages.map((s) => {
+                      const top = listingAnalytics.funnel.stages[0].count || 1;
+                      return (
+                        <div key={s.stage} className="flex items-center gap-3 text-xs">
+                          <span className="w-20 capitalize text-muted-foreground">{s.stage}</span>
+                          <div className="flex-1 h-5 bg-muted/50 rounded">
+                            <div className="h-5 bg-primary/70 rounded" style={{ width: `${Math.max(2, Math.min(100, (s.count / top) * 100))}%` }} />
+                          </div>
+                          <span className="w-12 text-right font-mono">{s.count.toLocaleString()}</span>
+                          <span className="w-14 text-right text-muted-foreground">{s.conversion === null ? "" : `${(s.conversion * 100).toFixed(1)}%`}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="text-[11px] text-muted-foreground mt-2">
+                    View to completion: {(listingAnalytics.funnel.viewToCompletion * 100).toFixed(2)}%
+                    {listingAnalytics.funnel.bids > 0 && ` · ${listingAnalytics.funnel.bids} bid${listingAnalytics.funnel.bids === 1 ? "" : "s"}`}
+                  </p>
+                </div>
+
+                <div>
+                  <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+                    Compared with {listingAnalytics.comparison.peerCount} similar listing{listingAnalytics.comparison.peerCount === 1 ? "" : "s"}
+                    {listingAnalytics.comparison.region ? ` in ${listingAnalytics.comparison.region}` : ""}
+                  </p>
+                  {listingAnalytics.comparison.peerAverage ? (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="border-b text-muted-foreground">
+                          <th className="text-left py-1.5 font-medium">Metric</th>
+                          <th className="text-right py-1.5 font-medium">This listing</th>
+                          <th className="text-right py-1.5 font-medium">Peer average</th>
+                          <th className="text-right py-1.5 font-medium">Percentile</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {COMPARISON_METRICS.map(({ key, label, percent }) => {
+                          const format = (v: number) => percent ? `${(v * 100).toFixed(1)}%` : v.toFixed(2);
+                          return (
+                            <tr key={key} className="border-b last:border-0">
+                              <td className="py-1.5">{label}</td>
+                              <td className="py-1.5 text-right font-mono">{format(listingAnalytics.comparison.listing[key])}</td>
+                              <td className="py-1.5 text-right font-mono text-muted-foreground">{format(listingAnalytics.comparison.peerAverage![key])}</td>
+                              <td className="py-1.5 text-right font-mono">{listingAnalytics.comparison.percentile?.[key] ?? "—"}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No comparable listings yet.</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* ==================== SAVE SEARCH DIALOG ==================== */}
+        <Dialog open={isSaveSearchOpen} onOpenChange={setIsSaveSearchOpen}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Bookmark className="h-5 w-5 text-primary" /> Save Search
+              </DialogTitle>
+              <DialogDescription>
+                Get notified when a new listing matches: <span className="capitalize">{describeFilters(activeFilters)}</span>.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={(e) => { e.preventDefault(); createSavedSearchMutation.mutate(); }}>
+              <div className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="searchName" className="text-xs text-muted-foreground">Name</Label>
+                  <Input
+                    id="searchName"
+                    placeholder="e.g. HDPE within 200 km"
+                    value={saveSearchForm.name}
+                    onChange={(e) => setSaveSearchForm({ ...saveSearchForm, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cadence" className="text-xs text-muted-foreground">Notify me</Label>
+                  <select
+                    id="cadence"
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+                    value={saveSearchForm.cadence}
+                    onChange={(e) => setSaveSearchForm({ ...saveSearchForm, cadence: e.target.value })}
+                  >
+                    <option value="instant">Instantly, for each new listing</option>
+                    <option value="daily">Once a day, as a digest</option>
+                  </select>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="searchEmail" className="text-xs text-muted-foreground">Also send by email</Label>
+                  <Switch id="searchEmail" checked={saveSearchForm.email} onCheckedChange={(v) => setSaveSearchForm({ ...saveSearchForm, email: v })} />
+                </div>
+              </div>
+              <DialogFooter className="mt-6 border-t border-border pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsSaveSearchOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createSavedSearchMutation.isPending} className="gap-2">
+                  {createSavedSearchMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* ==================== SAVED SEARCHES ==================== */}
+        <TabsContent value="saved" className="space-y-4">
+          {savedSearches.length === 0 ? (
+            <div className="text-center py-16 text-muted-foreground">
+              <Bookmark className="h-12 w-12 mx-auto mb-3 opacity-40" />
+              <p className="text-sm font-medium">No saved searches yet</p>
+              <p className="text-xs mt-1">Set filters under "Find Materials" and click "Save Search" to be notified of new listings.</p>
+            </div>
+          ) : (
+            <div className="industrial-card overflow-hidden">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    {["Name", "Filters", "Notify", "Email", "Matches", "Actions"].map((h) => (
+                      <th key={h} className="text-left px-4 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {savedSearches.map((search) => (
+                    <tr key={search._id} className={`border-b last:border-0 hover:bg-muted/30 transition-colors ${search.active ? "" : "opacity-60"}`}>
+                      <td className="px-4 py-3 font-medium">
+                        {search.name}
+                        {search.unseenCount > 0 && (
+                          <Badge variant="outline" className="ml-2 bg-primary/15 text-primary border-primary/20">{search.unseenCount} new</Badge>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-muted-foreground capitalize">{describeFilters(search.filters)}</td>
+                      <td className="px-4 py-3">
+                        <select
+                          className="flex h-8 rounded-md border border-input bg-transparent px-2 text-xs shadow-sm"
+                          value={search.cadence}
+                          onChange={(e) => updateSavedSearchMutation.mutate({ id: search._id, body: { cadence: e.target.value } })}
+                        >
+                          <option value="instant">Instantly</option>
+                          <option value="daily">Daily digest</option>
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        <Switch
+                          checked={search.channels?.email !== false}
+                          onCheckedChange={(v) => updateSavedSearchMutation.mutate({ id: search._id, body: { channels: { email: v } } })}
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-muted-foreground">
+                        {search.hitCount}
+                        {search.lastHitAt && <span className="block text-[10px]">last {formatTimeAgo(search.lastHitAt)}</span>}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-xs h-7 gap-1"
+                            onClick={() => updateSavedSearchMutation.mutate({ id: search._id, body: { active: !search.active } })}
+                          >
+                            {search.active ? <><Pause className="h-3 w-3" /> Pause</> : <><Play className="h-3 w-3" /> Resume</>}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-xs h-7 gap-1 text-destructive hover:text-destructive"
+                            onClick={() => {
+                              if (window.confirm(`Delete saved search "${search.name}"?`)) {
+                                deleteSavedSearchMutation.mutate(search._id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-3 w-3" /> Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {(savedSearchHits?.data?.length || 0) > 0 && (
+            <div className="industrial-card p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold flex items-center gap-2">
+                  <BellRing className="h-4 w-4 text-primary" /> New Listings For You
+                </h3>
+                {unseenHits > 0 && (
+                  <Button size="sm" variant="ghost" className="text-xs h-7" onClick={() => markHitsSeenMutation.mutate(undefined)}>
+                    Mark all seen
+                  </Button>
+                )}
+              </div>
+              <div className="divide-y divide-border">
+                {savedSearchHits?.data.map((hit) => hit.listingId && (
+                  <div key={hit._id} className="flex items-center justify-between py-2 text-xs">
+                    <div>
+                      <p className={`capitalize ${hit.seenAt ? "text-muted-foreground" : "font-semibold text-foreground"}`}>
+                        {hit.listingId.material.category.replace(/_/g, " ")} · {hit.listingId.quantity.value.toLocaleString()} {hit.listingId.quantity.unit}
+                        {hit.listingId.pricing?.type === "auction" && <Gavel className="inline h-3 w-3 ml-1 text-primary" />}
+                      </p>
+                      <p className="text-muted-foreground">
+                        {hit.listingId.companyId?.name || "Seller"} · matched "{hit.savedSearchId?.name || "deleted search"}" · {formatTimeAgo(hit.createdAt)}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-mono">₹{(hit.listingId.pricing?.amount || 0).toLocaleString()}/{hit.listingId.quantity.unit}</p>
+                      {hit.listingId.status !== "active" && <p className="text-muted-foreground capitalize">{hit.listingId.status}</p>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </TabsContent>
+
         {/* ==================== MY LISTINGS ==================== */}
         <TabsContent value="my" className="space-y-4">
           {dynamicMyListings.length === 0 ? (
@@ -640,7 +1626,20 @@ export default function Marketplace() {
                     <tr key={item.id} className="border-b last:border-0 hover:bg-muted/30 transition-colors">
                       <td className="px-4 py-3 font-medium capitalize">{item.material}</td>
                       <td className="px-4 py-3 font-mono text-sm">{item.quantity}</td>
-                      <td className="px-4 py-3 font-mono text-sm">{item.price}</td>
+                      <td className="px-4 py-3 font-mono text-sm">
+                        {item.price}
+                        {item.auction && (
+                          <span className="block text-[10px] font-sans text-muted-foreground">
+                            Auction · {item.auction.bidCount || 0} bid{item.auction.bidCount === 1 ? '' : 's'}
+                            {['scheduled', 'open'].includes(item.auction.status) ? ` · ${formatTimeLeft(item.auction.endsAt)}` : ` · ${item.auction.status}`}
+                          </span>
+                        )}
+                        {item.benchmark?.flag && (
+                          <span className="flex items-center gap-1 text-[10px] font-sans text-warning" title={benchmarkWarning(item.benchmark) || undefined}>
+                            <AlertTriangle className="h-3 w-3" /> {item.benchmark.deviationPct > 0 ? '+' : ''}{item.benchmark.deviationPct}% vs market
+                          </span>
+                        )}
+                      </td>
                       <td className="px-4 py-3"><StatusBadge status={item.status} /></td>
                       <td className="px-4 py-3 text-muted-foreground">{item.viewCount}</td>
                       <td className="px-4 py-3 text-xs text-muted-foreground">{formatTimeAgo(item.createdAt)}</td>
@@ -654,7 +1653,25 @@ export default function Marketplace() {
                           >
                             <Pencil className="h-3 w-3" /> Edit
                           </Button>
-                          {item.status === 'active' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-xs h-7 gap-1"
+                            onClick={() => setAnalyticsListing({ id: item.id, material: item.material })}
+                          >
+                            <BarChart3 className="h-3 w-3" /> Analytics
+                          </Button>
+                          {item.auction && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-xs h-7 gap-1 text-primary hover:text-primary"
+                              onClick={() => setAuctionListing({ id: item.id, material: item.material, unit: item.rawUnit, isSeller: true })}
+                            >
+                              <Gavel className="h-3 w-3" /> Bids
+                            </Button>
+                          )}
+                          {item.status === 'active' && !item.auction && (
                             <Button
                               size="sm"
                               variant="ghost"
@@ -686,6 +1703,88 @@ export default function Marketplace() {
             </div>
           )}
         </TabsContent>
+
+        {/* ==================== PRICE INDEX ==================== */}
+        <TabsContent value="prices" className="space-y-4">
+          <div className="flex flex-wrap gap-3">
+            <select
+              className="flex h-9 w-48 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+              value={priceCategory}
+              onChange={(e) => { setPriceCategory(e.target.value); setPriceState(""); }}
+            >
+              {MATERIAL_OPTIONS.map((m) => (
+                <option key={m.value} value={m.value}>{m.label}</option>
+              ))}
+            </select>
+            <select
+              className="flex h-9 w-48 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+              value={priceState}
+              onChange={(e) => setPriceState(e.target.value)}
+            >
+              <option value="">All India</option>
+              {(priceIndex?.regions || []).map((region) => (
+                <option key={region} value={region}>{region}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="industrial-card p-5">
+            <div className="mb-4">
+              <h3 className="font-semibold text-sm">Monthly price, ₹ per kg</h3>
+              <p className="text-xs text-muted-foreground">
+                Median of completed exchanges and asking prices, with the middle half of prices shaded.
+              </p>
+            </div>
+            {priceIndexLoading ? (
+              <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+            ) : priceChart.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <TrendingUp className="h-12 w-12 mx-auto mb-3 opacity-40" />
+                <p className="text-sm font-medium">No prices recorded for this material yet</p>
+              </div>
+            ) : (
+              <>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={priceChart}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(210, 18%, 90%)" />
+                      <XAxis dataKey="period" tick={{ fontSize: 10 }} stroke="hsl(210, 12%, 70%)" />
+                      <YAxis tick={{ fontSize: 10 }} stroke="hsl(210, 12%, 70%)" width={40} />
+                      <RechartsTooltip
+                        contentStyle={{ background: "hsl(0, 0%, 100%)", border: "1px solid hsl(210, 18%, 90%)", borderRadius: "8px", fontSize: "12px" }}
+                        formatter={(value: number | number[]) => Array.isArray(value) ? `₹${value[0]} – ₹${value[1]}` : `₹${value}`}
+                      />
+                      <Legend wrapperStyle={{ fontSize: "11px" }} />
+                      <Area type="monotone" dataKey="band" name="Middle 50%" stroke="none" fill="hsl(181, 61%, 25%)" fillOpacity={0.15} />
+                      <Line type="monotone" dataKey="median" name="Median" stroke="hsl(181, 61%, 25%)" strokeWidth={2} dot={{ r: 3 }} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+                <table className="w-full text-xs mt-4">
+                  <thead>
+                    <tr className="border-b text-muted-foreground">
+                      {["Month", "Median", "P25 – P75", "P10 – P90", "Deals", "Asks"].map((h) => (
+                        <th key={h} className="py-1.5 text-left font-medium">{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...priceChart].reverse().map((p) => (
+                      <tr key={p.period} className="border-b last:border-0">
+                        <td className="py-1.5">{p.period}</td>
+                        <td className="py-1.5 font-mono">₹{p.median}</td>
+                        <td className="py-1.5 font-mono">₹{p.p25} – ₹{p.p75}</td>
+                        <td className="py-1.5 font-mono text-muted-foreground">₹{p.p10} – ₹{p.p90}</td>
+                        <td className="py-1.5">{p.dealCount}</td>
+                        <td className="py-1.5">{p.askCount}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,7 +1,7 @@
 import { motion } from "framer-motion";
 import {
   Handshake, ArrowRight, MapPin, Leaf, Check, Clock, MessageSquare,
-  Loader2, PackageSearch, RefreshCw, X, Truck
+  Loader2, PackageSearch, RefreshCw, X, Truck, Star, Flag, FileText, Plus, Copy, Link2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -17,6 +17,8 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 
 // ===================== STATUS CONFIG =====================
 
@@ -34,7 +36,22 @@ const executionStatusConfig: Record<string, { label: string; color: string }> =
   in_transit: { label: "In Transit", color: "bg-secondary/15 text-secondary border-secondary/20" },
   delivered: { label: "Delivered", color: "bg-primary/15 text-primary border-primary/20" },
   verified: { label: "Verified", color: "bg-success/15 text-success border-success/20" },
+  disputed: { label: "Disputed", color: "bg-destructive/15 text-destructive border-destructive/20" },
   completed: { label: "Completed", color: "bg-success/15 text-success border-success/20" },
+  cancelled: { label: "Cancelled", color: "bg-muted text-muted-foreground" },
+};
+
+const slotStatusColor: Record<string, string> = {
+  proposed: "bg-warning/15 text-warning border-warning/20",
+  confirmed: "bg-success/15 text-success border-success/20",
+  declined: "bg-muted text-muted-foreground",
+  withdrawn: "bg-muted text-muted-foreground",
+};
+
+const shipmentEventLabel: Record<string, string> = {
+  picked_up: "Picked up",
+  in_transit: "Location update",
+  delivered: "Delivered",
 };
 
 // ===================== HELPERS =====================
@@ -50,6 +67,114 @@ function formatTimeAgo(dateStr: string) {
   return `${days}d ago`;
 }
 
+function formatTimeLeft(dateStr: string) {
+  const diff = new Date(dateStr).getTime() - Date.now();
+  if (diff <= 0) return 'expired';
+  const mins = Math.floor(diff / 60000);
+  if (mins < 60) return `${mins}m left`;
+  const hrs = Math.floor(mins / 60);
+  if (hrs < 24) return `${hrs}h left`;
+  return `${Math.floor(hrs / 24)}d left`;
+}
+
+function toLocalInput(date: Date) {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function errorMessage(err: unknown, fallback: string) {
+  const e = err as { error?: string; message?: string } | undefined;
+  return e?.error || e?.message || fallback;
+}
+
+interface MatchOffer {
+  version: number;
+  fromRole: 'seller' | 'buyer';
+  pricePerUnit: number;
+  quantity: number;
+  unit?: string;
+  pickupWindow?: { start?: string; end?: string };
+  expiresAt: string;
+  message?: string;
+  status: string;
+}
+
+interface MatchReview {
+  rating: number;
+  review?: string;
+  wouldRecommend?: boolean;
+  status: 'published' | 'held' | 'hidden';
+  reported: boolean;
+}
+
+interface CompanyReview {
+  matchId: string;
+  role: 'seller' | 'buyer';
+  rating: number;
+  review?: string;
+  wouldRecommend?: boolean;
+  reviewedAt: string;
+  reviewer?: { name: string };
+}
+
+interface ShipmentSlot {
+  _id: string;
+  start: string;
+  end: string;
+  status: 'proposed' | 'confirmed' | 'declined' | 'withdrawn';
+}
+
+interface ShipmentEvent {
+  type: 'picked_up' | 'in_transit' | 'delivered';
+  at: string;
+  location?: [number, number];
+  note?: string;
+  proof?: string;
+  source: 'transporter' | 'seller';
+}
+
+interface Shipment {
+  status: string;
+  pickupScheduledAt?: string;
+  slots: ShipmentSlot[];
+  transporter?: { name: string; vehicleNumber?: string; driverName?: string; driverPhone?: string };
+  trackingLinkActive: boolean;
+  trackingLinkExpiresAt?: string;
+  events: ShipmentEvent[];
+}
+
+function formatSlot(slot: { start: string; end: string }) {
+  const start = new Date(slot.start);
+  const end = new Date(slot.end);
+  const sameDay = start.toDateString() === end.toDateString();
+  return `${start.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} – ${end.toLocaleString([], sameDay ? { timeStyle: 'short' } : { dateStyle: 'medium', timeStyle: 'short' })}`;
+}
+
+interface CompanyReviewsResponse {
+  data: CompanyReview[];
+  summary: { total: number; averageRating: number | null; recommended: number };
+  pagination: { page: number; pages: number };
+}
+
+function Stars({ value, onChange, size = "h-3.5 w-3.5" }: { value: number; onChange?: (v: number) => void; size?: string }) {
+  return (
+    <span className="inline-flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          type="button"
+          disabled={!onChange}
+          onClick={() => onChange?.(n)}
+          className={onChange ? "cursor-pointer" : "cursor-default"}
+          aria-label={`${n} star${n > 1 ? 's' : ''}`}
+        >
+          <Star className={`${size} ${n <= value ? 'fill-warning text-warning' : 'text-muted-foreground/40'}`} />
+        </button>
+      ))}
+    </span>
+  );
+}
+
 function mapRawMatch(r: any, companyId: string | undefined) {
   const negStatus = r.negotiation?.status || 'pending';
   const execStatus = r.execution?.status || 'not_started';
@@ -58,6 +183,26 @@ function mapRawMatch(r: any, companyId: string | undefined) {
   // Determine if current company is buyer or seller
   const isSeller = r.sellerId?._id === companyId || r.sellerId === companyId;
 
+  // The live offer, and whether it is our turn to answer it
+  const offers: MatchOffer[] = r.negotiation?.offers || [];
+  const currentOffer = offers.find((o) => o.status === 'open') || null;
+  const myRole = isSeller ? 'seller' : 'buyer';
+  const awaitingMe = !!currentOffer && currentOffer.fromRole !== myRole;
+
+  // ratings.seller* is the buyer's review of the seller and vice versa
+  const reviewOf = (side: 'seller' | 'buyer'): MatchReview | null => {
+    const rating = r.ratings?.[`${side}Rating`];
+    if (!rating) return null;
+    const moderation = r.ratings?.moderation?.[side];
+    return {
+      rating,
+      review: r.ratings?.[`${side}Review`],
+      wouldRecommend: r.ratings?.[`${side}WouldRecommend`],
+      status: moderation?.status || 'published',
+      reported: !!moderation?.flags?.some((f: { source: string }) => f.source === 'report'),
+    };
+  };
+
   return {
     id: r._id,
     buyer: r.buyerId?.name || "Verified Buyer",
@@ -83,15 +228,32 @@ function mapRawMatch(r: any, companyId: string | undefined) {
     // Dates
     createdAt: r.createdAt,
     acceptedAt: r.negotiation?.acceptedAt,
+    pickupScheduledAt: r.execution?.pickupScheduledAt as string | undefined,
     completedAt: r.completedAt,
-    // Passport
+    // Passport & invoice
     passportId: r.passportId,
+    invoiceUrl: r.financials?.invoiceUrl || null,
+    // Negotiation
+    currentOffer,
+    awaitingMe,
+    offerCount: offers.length,
+    agreedTerms: r.financials?.agreedTerms || null,
+    // Reviews
+    myReview: reviewOf(isSeller ? 'buyer' : 'seller'),
+    reviewOfMe: reviewOf(myRole),
+    counterpartyId: (isSeller ? r.buyerId?._id || r.buyerId : r.sellerId?._id || r.sellerId) as string,
+    counterpartyName: isSeller ? r.buyerId?.name || "Verified Buyer" : r.sellerId?.name || "Verified Seller",
     // Raw for negotiate
     rawListingPrice: listing?.pricing?.amount || 0,
     rawListingQty: listing?.quantity?.value || 0,
+    rawListingUnit: listing?.quantity?.unit || 'kg',
   };
 }
 
+const emptyOfferForm = { price: "", quantity: "", pickupStart: "", pickupEnd: "", expiresInHours: "72", message: "" };
+const emptyReviewForm = { rating: 0, review: "", wouldRecommend: true };
+const emptyTransporterForm = { name: "", vehicleNumber: "", driverName: "", driverPhone: "" };
+
 // ===================== COMPONENT =====================
 
 export default function Matches() {
@@ -100,8 +262,16 @@ export default function Matches() {
   const navigate = useNavigate();
   const [filter, setFilter] = useState<'all' | 'pending' | 'accepted' | 'completed'>('all');
   const [negotiateDialogOpen, setNegotiateDialogOpen] = useState(false);
-  const [negotiateMatchId, setNegotiateMatchId] = useState<string | null>(null);
-  const [negotiateForm, setNegotiateForm] = useState({ price: "", message: "" });
+  const [negotiateMatch, setNegotiateMatch] = useState<{ id: string; counterTo: number | null; unit: string } | null>(null);
+  const [negotiateForm, setNegotiateForm] = useState(emptyOfferForm);
+  const [reviewMatch, setReviewMatch] = useState<{ id: string; counterparty: string } | null>(null);
+  const [reviewForm, setReviewForm] = useState(emptyReviewForm);
+  const [reviewsOf, setReviewsOf] = useState<{ id: string; name: string } | null>(null);
+  const [reviewsPage, setReviewsPage] = useState(1);
+  const [shipmentMatch, setShipmentMatch] = useState<{ id: string; isSeller: boolean; material: string } | null>(null);
+  const [slotDrafts, setSlotDrafts] = useState<Array<{ start: string; end: string }>>([]);
+  const [transporterForm, setTransporterForm] = useState(emptyTransporterForm);
+  const [trackingUrl, setTrackingUrl] = useState<string | null>(null);
 
   // ===================== QUERIES =====================
 
@@ -115,50 +285,88 @@ export default function Matches() {
     enabled: !!company?.id,
   });
 
+  const { data: companyReviews, isLoading: reviewsLoading } = useQuery({
+    queryKey: ['company-reviews', reviewsOf?.id, reviewsPage],
+    queryFn: async () => (await api.get(`/companies/${reviewsOf!.id}/reviews`, { params: { page: reviewsPage, limit: 10 } })) as unknown as CompanyReviewsResponse,
+    enabled: !!reviewsOf,
+  });
+
+  const { data: shipment, isLoading: shipmentLoading } = useQuery({
+    queryKey: ['match-shipment', shipmentMatch?.id],
+    queryFn: async () => ((await api.get(`/matches/${shipmentMatch!.id}/shipment`)) as unknown as { data: Shipment }).data,
+    enabled: !!shipmentMatch,
+  });
+
   // ===================== MUTATIONS =====================
 
   const acceptMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const res: any = await api.post(`/matches/${id}/accept`);
+    mutationFn: async ({ id, offerVersion }: { id: string; offerVersion?: number }) => {
+      const res: any = offerVersion
+        ? await api.post(`/matches/${id}/offers/${offerVersion}/accept`)
+        : await api.post(`/matches/${id}/accept`);
       return res;
     },
     onSuccess: () => {
-      toast.success("Match accepted! The deal is now in progress.");
+      toast.success("Match accepted! Terms are locked and the deal is now in progress.");
       queryClient.invalidateQueries({ queryKey: ['matches'] });
     },
-    onError: () => toast.error("Failed to accept match"),
+    onError: (err) => toast.error(errorMessage(err, "Failed to accept match")),
   });
 
   const rejectMutation = useMutation({
-    mutationFn: async (id: string) => {
-      // Use negotiate endpoint to reject
-      const res: any = await api.post(`/matches/${id}/negotiate`, {
-        message: "Match declined",
-      });
+    mutationFn: async ({ id, offerVersion }: { id: string; offerVersion?: number }) => {
+      if (offerVersion) {
+        return api.post(`/matches/${id}/offers/${offerVersion}/reject`, { reason: "Offer declined" });
+      }
+      const res: any = await api.post(`/matches/${id}/reject`, { reason: "Match declined" });
       return res;
     },
     onSuccess: () => {
       toast.info("Match declined.");
       queryClient.invalidateQueries({ queryKey: ['matches'] });
     },
-    onError: () => toast.error("Failed to decline match"),
+    onError: (err) => toast.error(errorMessage(err, "Failed to decline match")),
   });
 
   const negotiateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: any }) => {
-      const res: any = await api.post(`/matches/${id}/negotiate`, {
-        proposedPrice: data.price ? Number(data.price) : undefined,
-        message: data.message || "Counter offer submitted",
-      });
+    mutationFn: async ({ id, counterTo, data }: { id: string; counterTo: number | null; data: typeof emptyOfferForm }) => {
+      const body = {
+        pricePerUnit: Number(data.price),
+        quantity: Number(data.quantity),
+        pickupWindow: data.pickupStart && data.pickupEnd
+          ? { start: new Date(data.pickupStart).toISOString(), end: new Date(data.pickupEnd).toISOString() }
+          : undefined,
+        expiresInHours: data.expiresInHours ? Number(data.expiresInHours) : undefined,
+        message: data.message || undefined,
+      };
+      const res: any = counterTo
+        ? await api.post(`/matches/${id}/offers/${counterTo}/counter`, body)
+        : await api.post(`/matches/${id}/offers`, body);
       return res;
     },
-    onSuccess: () => {
-      toast.success("Counter offer sent!");
+    onSuccess: (_data, variables) => {
+      toast.success(variables.counterTo ? "Counter offer sent!" : "Offer sent!");
       queryClient.invalidateQueries({ queryKey: ['matches'] });
       setNegotiateDialogOpen(false);
-      setNegotiateForm({ price: "", message: "" });
+      setNegotiateForm(emptyOfferForm);
     },
-    onError: () => toast.error("Failed to send counter offer"),
+    onError: (err) => toast.error(errorMessage(err, "Failed to send offer")),
+  });
+
+  const executionMutation = useMutation({
+    mutationFn: async ({ id, step, body }: { id: string; step: 'pickup' | 'deliver' | 'verify'; body?: Record<string, unknown> }) => {
+      return api.post(`/matches/${id}/${step}`, body || {});
+    },
+    onSuccess: (_data, variables) => {
+      const messages = {
+        pickup: "Pickup confirmed. Shipment is in transit.",
+        deliver: "Delivery reported. Waiting for the buyer to verify.",
+        verify: variables.body?.approved ? "Delivery verified." : "Delivery rejected. A dispute has been opened.",
+      };
+      toast.success(messages[variables.step]);
+      queryClient.invalidateQueries({ queryKey: ['matches'] });
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to update shipment status")),
   });
 
   const completeMutation = useMutation({
@@ -174,7 +382,90 @@ export default function Matches() {
         setTimeout(() => navigate(`/passports/${passportId}`), 1500);
       }
     },
-    onError: () => toast.error("Failed to complete transaction"),
+    onError: (err) => toast.error(errorMessage(err, "Failed to complete transaction")),
+  });
+
+  const invoiceMutation = useMutation({
+    mutationFn: async (id: string) => (await api.get(`/matches/${id}/invoice`, { responseType: 'blob' })) as unknown as Blob,
+    onSuccess: (blob, id) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `invoice-${id.slice(-8)}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: () => toast.error("Failed to download invoice"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: typeof emptyReviewForm }) => {
+      return api.post(`/matches/${id}/review`, {
+        rating: data.rating,
+        review: data.review.trim() || undefined,
+        wouldRecommend: data.wouldRecommend,
+      }) as unknown as Promise<{ message?: string }>;
+    },
+    onSuccess: (data) => {
+      toast.success(data?.message || "Review published");
+      queryClient.invalidateQueries({ queryKey: ['matches'] });
+      queryClient.invalidateQueries({ queryKey: ['company-reviews'] });
+      setReviewMatch(null);
+      setReviewForm(emptyReviewForm);
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to submit review")),
+  });
+
+  const reportReviewMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => api.post(`/matches/${id}/review/report`, { reason }),
+    onSuccess: () => {
+      toast.info("Review reported. A moderator will take a look.");
+      queryClient.invalidateQueries({ queryKey: ['matches'] });
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to report review")),
+  });
+
+  const proposeSlotsMutation = useMutation({
+    mutationFn: async ({ id, slots }: { id: string; slots: Array<{ start: string; end: string }> }) =>
+      ((await api.post(`/matches/${id}/pickup-slots`, { slots })) as unknown as { data: Shipment }).data,
+    onSuccess: (data, { id }) => {
+      toast.success("Pickup slots sent to the buyer");
+      queryClient.setQueryData(['match-shipment', id], data);
+      setSlotDrafts([]);
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to propose pickup slots")),
+  });
+
+  const confirmSlotMutation = useMutation({
+    mutationFn: async ({ id, slotId }: { id: string; slotId: string }) =>
+      ((await api.post(`/matches/${id}/pickup-slots/${slotId}/confirm`)) as unknown as { data: Shipment }).data,
+    onSuccess: (data, { id }) => {
+      toast.success("Pickup slot confirmed");
+      queryClient.setQueryData(['match-shipment', id], data);
+      queryClient.invalidateQueries({ queryKey: ['matches'] });
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to confirm pickup slot")),
+  });
+
+  const trackingLinkMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: typeof emptyTransporterForm }) => {
+      const body = {
+        name: data.name.trim(),
+        vehicleNumber: data.vehicleNumber.trim() || undefined,
+        driverName: data.driverName.trim() || undefined,
+        driverPhone: data.driverPhone.trim() || undefined,
+      };
+      return ((await api.post(`/matches/${id}/tracking-link`, body)) as unknown as { data: { url: string; expiresAt: string } }).data;
+    },
+    onSuccess: (link, { id }) => {
+      setTrackingUrl(link.url);
+      navigator.clipboard?.writeText(link.url).then(
+        () => toast.success("Tracking link copied. Share it with the driver."),
+        () => toast.success("Tracking link created. Share it with the driver."),
+      );
+      queryClient.invalidateQueries({ queryKey: ['match-shipment', id] });
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to create tracking link")),
   });
 
   // ===================== DATA =====================
@@ -198,16 +489,83 @@ export default function Matches() {
 
   // ===================== HANDLERS =====================
 
-  const openNegotiate = (matchId: string, currentPrice: number) => {
-    setNegotiateMatchId(matchId);
-    setNegotiateForm({ price: String(currentPrice), message: "" });
+  const openNegotiate = (match: ReturnType<typeof mapRawMatch>) => {
+    const offer = match.currentOffer;
+    const pickupStart = offer?.pickupWindow?.start ? new Date(offer.pickupWindow.start) : null;
+    const pickupEnd = offer?.pickupWindow?.end ? new Date(offer.pickupWindow.end) : null;
+
+    setNegotiateMatch({ id: match.id, counterTo: match.awaitingMe ? offer!.version : null, unit: match.rawListingUnit });
+    setNegotiateForm({
+      ...emptyOfferForm,
+      price: String(offer?.pricePerUnit ?? match.rawListingPrice),
+      quantity: String(offer?.quantity ?? match.rawListingQty),
+      pickupStart: pickupStart ? toLocalInput(pickupStart) : "",
+      pickupEnd: pickupEnd ? toLocalInput(pickupEnd) : "",
+    });
     setNegotiateDialogOpen(true);
   };
 
   const handleNegotiateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!negotiateMatchId) return;
-    negotiateMutation.mutate({ id: negotiateMatchId, data: negotiateForm });
+    if (!negotiateMatch) return;
+    if (!(Number(negotiateForm.price) >= 0) || !(Number(negotiateForm.quantity) > 0)) {
+      toast.error("Enter a valid price and quantity");
+      return;
+    }
+    if (!!negotiateForm.pickupStart !== !!negotiateForm.pickupEnd) {
+      toast.error("Set both the start and end of the pickup window");
+      return;
+    }
+    negotiateMutation.mutate({ id: negotiateMatch.id, counterTo: negotiateMatch.counterTo, data: negotiateForm });
+  };
+
+  const openShipment = (match: ReturnType<typeof mapRawMatch>) => {
+    setShipmentMatch({ id: match.id, isSeller: match.isSeller, material: match.material });
+    setSlotDrafts([]);
+    setTransporterForm(emptyTransporterForm);
+    setTrackingUrl(null);
+  };
+
+  const handleProposeSlots = () => {
+    if (!shipmentMatch) return;
+    const slots = slotDrafts.filter((d) => d.start && d.end);
+    if (slots.length === 0) {
+      toast.error("Add at least one slot with a start and end time");
+      return;
+    }
+    if (slots.some((d) => new Date(d.end) <= new Date(d.start))) {
+      toast.error("Each slot must end after it starts");
+      return;
+    }
+    proposeSlotsMutation.mutate({
+      id: shipmentMatch.id,
+      slots: slots.map((d) => ({ start: new Date(d.start).toISOString(), end: new Date(d.end).toISOString() })),
+    });
+  };
+
+  const handleTrackingLinkSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shipmentMatch) return;
+    if (!transporterForm.name.trim()) {
+      toast.error("Enter the transporter's name");
+      return;
+    }
+    trackingLinkMutation.mutate({ id: shipmentMatch.id, data: transporterForm });
+  };
+
+  const openReviews = (id: string, name: string) => {
+    setReviewsPage(1);
+    setReviewsOf({ id, name });
+  };
+
+  const handleReviewSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reviewMatch) return;
+    if (reviewForm.rating < 1) {
+      toast.error("Choose a star rating");
+      return;
+    }
+    reviewMutation.mutate({ id: reviewMatch.id, data: reviewForm });
   };
 
   // ===================== RENDER =====================
@@ -381,35 +739,132 @@ export default function Matches() {
                   </div>
                 )}
 
+                {/* Current Offer */}
+                {match.currentOffer && !isAccepted && (
+                  <div className="p-3 rounded-lg border border-secondary/20 bg-secondary/5 mb-4 text-xs space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-foreground">
+                        Offer v{match.currentOffer.version} · from {match.awaitingMe ? 'the ' + match.currentOffer.fromRole : 'you'}
+                      </span>
+                      <span className="flex items-center gap-1 text-muted-foreground">
+                        <Clock className="h-3 w-3" /> {formatTimeLeft(match.currentOffer.expiresAt)}
+                      </span>
+                    </div>
+                    <p className="font-mono text-foreground">
+                      ₹{match.currentOffer.pricePerUnit.toLocaleString()}/{match.currentOffer.unit || 'unit'} × {match.currentOffer.quantity.toLocaleString()} {match.currentOffer.unit || ''}
+                      {' = '}₹{Math.round(match.currentOffer.pricePerUnit * match.currentOffer.quantity).toLocaleString()}
+                    </p>
+                    {match.currentOffer.pickupWindow?.start && (
+                      <p className="text-muted-foreground">
+                        Pickup {new Date(match.currentOffer.pickupWindow.start).toLocaleString()} – {new Date(match.currentOffer.pickupWindow.end).toLocaleString()}
+                      </p>
+                    )}
+                    {match.currentOffer.message && <p className="text-muted-foreground italic">"{match.currentOffer.message}"</p>}
+                  </div>
+                )}
+
+                {/* Agreed Terms */}
+                {isAccepted && match.agreedTerms && (
+                  <div className="p-3 rounded-lg bg-success/5 mb-4 text-xs">
+                    <span className="font-semibold text-foreground">Agreed terms: </span>
+                    <span className="font-mono text-foreground">
+                      ₹{match.agreedTerms.pricePerUnit.toLocaleString()}/{match.agreedTerms.unit} × {match.agreedTerms.quantity.toLocaleString()} {match.agreedTerms.unit}
+                      {' = '}₹{Math.round(match.agreedTerms.totalPrice).toLocaleString()}
+                    </span>
+                    {match.agreedTerms.offerVersion && <span className="text-muted-foreground"> (offer v{match.agreedTerms.offerVersion})</span>}
+                  </div>
+                )}
+
+                {/* Reviews */}
+                {isCompleted && (
+                  <div className="p-3 rounded-lg bg-muted/50 mb-4 text-xs space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-foreground">Reviews</span>
+                      <button
+                        type="button"
+                        className="text-primary hover:underline"
+                        onClick={() => openReviews(match.counterpartyId, match.counterpartyName)}
+                      >
+                        All reviews of {match.counterpartyName}
+                      </button>
+                    </div>
+                    {match.myReview ? (
+                      <div>
+                        <p className="text-muted-foreground">
+                          Your review <Stars value={match.myReview.rating} />
+                          {match.myReview.status === 'held' && <span className="ml-1 text-warning">(awaiting moderation)</span>}
+                          {match.myReview.status === 'hidden' && <span className="ml-1 text-destructive">(hidden by a moderator)</span>}
+                        </p>
+                        {match.myReview.review && <p className="text-foreground italic">"{match.myReview.review}"</p>}
+                      </div>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="w-full gap-1"
+                        onClick={() => {
+                          setReviewForm(emptyReviewForm);
+                          setReviewMatch({ id: match.id, counterparty: match.counterpartyName });
+                        }}
+                      >
+                        <Star className="h-3 w-3" /> Review {match.counterpartyName}
+                      </Button>
+                    )}
+                    {match.reviewOfMe && match.reviewOfMe.status !== 'hidden' && (
+                      <div>
+                        <p className="text-muted-foreground flex items-center gap-1">
+                          Their review of you <Stars value={match.reviewOfMe.rating} />
+                          {match.reviewOfMe.reported ? (
+                            <span className="ml-auto text-muted-foreground">Reported</span>
+                          ) : (
+                            <button
+                              type="button"
+                              className="ml-auto flex items-center gap-1 text-muted-foreground hover:text-destructive"
+                              onClick={() => {
+                                const reason = window.prompt("Why should a moderator check this review?");
+                                if (reason) reportReviewMutation.mutate({ id: match.id, reason });
+                              }}
+                              disabled={reportReviewMutation.isPending}
+                            >
+                              <Flag className="h-3 w-3" /> Report
+                            </button>
+                          )}
+                        </p>
+                        {match.reviewOfMe.review && <p className="text-foreground italic">"{match.reviewOfMe.review}"</p>}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex gap-2 mt-4">
-                  {/* PENDING: Accept / Negotiate / Decline */}
-                  {isPending && (
+                  {/* OUR TURN: Accept / Counter / Reject the open offer */}
+                  {match.awaitingMe && (isPending || isNegotiating) && (
                     <>
                       <Button
                         size="sm"
                         className="flex-1 gap-1"
-                        onClick={() => acceptMutation.mutate(match.id)}
+                        onClick={() => acceptMutation.mutate({ id: match.id, offerVersion: match.currentOffer.version })}
                         disabled={acceptMutation.isPending}
                       >
                         {acceptMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
-                        Accept
+                        Accept Offer
                       </Button>
                       <Button
                         size="sm"
                         variant="outline"
                         className="flex-1 gap-1"
-                        onClick={() => openNegotiate(match.id, match.rawListingPrice)}
+                        onClick={() => openNegotiate(match)}
                       >
-                        <MessageSquare className="h-3 w-3" /> Negotiate
+                        <MessageSquare className="h-3 w-3" /> Counter Offer
                       </Button>
                       <Button
                         size="sm"
                         variant="ghost"
                         className="gap-1 text-destructive hover:text-destructive"
                         onClick={() => {
-                          if (window.confirm("Decline this match?")) {
-                            rejectMutation.mutate(match.id);
+                          if (window.confirm(`Reject offer v${match.currentOffer.version}? This ends the negotiation.`)) {
+                            rejectMutation.mutate({ id: match.id, offerVersion: match.currentOffer.version });
                           }
                         }}
                         disabled={rejectMutation.isPending}
@@ -419,45 +874,139 @@ export default function Matches() {
                     </>
                   )}
 
-                  {/* NEGOTIATING: Continue negotiation */}
-                  {isNegotiating && (
+                  {/* THEIR TURN: waiting on the other party */}
+                  {match.currentOffer && !match.awaitingMe && (isPending || isNegotiating) && (
+                    <p className="flex-1 text-center text-xs text-muted-foreground py-2">
+                      Waiting for the {match.isSeller ? 'buyer' : 'seller'} to respond to offer v{match.currentOffer.version}
+                    </p>
+                  )}
+
+                  {/* NO OPEN OFFER: Accept listing terms / Make an offer / Decline */}
+                  {!match.currentOffer && (isPending || isNegotiating) && (
                     <>
                       <Button
                         size="sm"
                         className="flex-1 gap-1"
-                        onClick={() => acceptMutation.mutate(match.id)}
+                        onClick={() => acceptMutation.mutate({ id: match.id })}
                         disabled={acceptMutation.isPending}
                       >
                         {acceptMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
-                        Accept Offer
+                        Accept
                       </Button>
                       <Button
                         size="sm"
                         variant="outline"
                         className="flex-1 gap-1"
-                        onClick={() => openNegotiate(match.id, match.rawListingPrice)}
+                        onClick={() => openNegotiate(match)}
                       >
-                        <MessageSquare className="h-3 w-3" /> Counter Offer
+                        <MessageSquare className="h-3 w-3" /> {match.offerCount > 0 ? 'New Offer' : 'Negotiate'}
                       </Button>
+                      {isPending && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="gap-1 text-destructive hover:text-destructive"
+                          onClick={() => {
+                            if (window.confirm("Decline this match?")) {
+                              rejectMutation.mutate({ id: match.id });
+                            }
+                          }}
+                          disabled={rejectMutation.isPending}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
                     </>
                   )}
 
-                  {/* ACCEPTED: Track / Mark Complete */}
-                  {isAccepted && !isCompleted && (
-                    <>
-                      <Button size="sm" variant="outline" className="flex-1 gap-1" onClick={() => toast.info("Tracking information will be available once shipment starts.")}>
-                        <Truck className="h-3 w-3" /> Track
+                  {/* ACCEPTED: step through pickup → delivery → verification → completion */}
+                  {isAccepted && match.execStatus === 'pickup_scheduled' && (
+                    match.isSeller ? (
+                      <Button
+                        size="sm"
+                        className="flex-1 gap-1"
+                        onClick={() => executionMutation.mutate({ id: match.id, step: 'pickup' })}
+                        disabled={executionMutation.isPending}
+                      >
+                        <Truck className="h-3 w-3" /> Mark Picked Up
                       </Button>
+                    ) : (
+                      <p className="flex-1 text-center text-xs text-muted-foreground py-2">
+                        {match.pickupScheduledAt
+                          ? `Pickup booked for ${new Date(match.pickupScheduledAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`
+                          : 'Waiting for the seller to dispatch'}
+                      </p>
+                    )
+                  )}
+
+                  {isAccepted && match.execStatus === 'in_transit' && (
+                    match.isSeller ? (
                       <Button
                         size="sm"
-                        className="flex-1 bg-success hover:bg-success/90 text-success-foreground gap-1"
-                        onClick={() => completeMutation.mutate(match.id)}
-                        disabled={completeMutation.isPending}
+                        className="flex-1 gap-1"
+                        onClick={() => executionMutation.mutate({ id: match.id, step: 'deliver' })}
+                        disabled={executionMutation.isPending}
                       >
-                        {completeMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
-                        Mark Complete
+                        <MapPin className="h-3 w-3" /> Mark Delivered
                       </Button>
-                    </>
+                    ) : (
+                      <p className="flex-1 text-center text-xs text-muted-foreground py-2">
+                        <Truck className="inline h-3 w-3 mr-1" /> In transit
+                      </p>
+                    )
+                  )}
+
+                  {isAccepted && match.execStatus === 'delivered' && (
+                    !match.isSeller ? (
+                      <>
+                        <Button
+                          size="sm"
+                          className="flex-1 bg-success hover:bg-success/90 text-success-foreground gap-1"
+                          onClick={() => executionMutation.mutate({ id: match.id, step: 'verify', body: { approved: true } })}
+                          disabled={executionMutation.isPending}
+                        >
+                          <Check className="h-3 w-3" /> Verify Delivery
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1 gap-1 text-destructive hover:text-destructive"
+                          onClick={() => {
+                            const notes = window.prompt("What is wrong with this delivery?");
+                            if (notes) {
+                              executionMutation.mutate({ id: match.id, step: 'verify', body: { approved: false, notes } });
+                            }
+                          }}
+                          disabled={executionMutation.isPending}
+                        >
+                          <X className="h-3 w-3" /> Report Issue
+                        </Button>
+                      </>
+                    ) : (
+                      <p className="flex-1 text-center text-xs text-muted-foreground py-2">Waiting for the buyer to verify delivery</p>
+                    )
+                  )}
+
+                  {isAccepted && match.execStatus === 'verified' && (
+                    <Button
+                      size="sm"
+                      className="flex-1 bg-success hover:bg-success/90 text-success-foreground gap-1"
+                      onClick={() => completeMutation.mutate(match.id)}
+                      disabled={completeMutation.isPending}
+                    >
+                      {completeMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+                      Mark Complete
+                    </Button>
+                  )}
+
+                  {isAccepted && match.execStatus === 'disputed' && (
+                    <p className="flex-1 text-center text-xs text-destructive py-2">This delivery is under dispute</p>
+                  )}
+
+                  {isAccepted && match.execStatus !== 'not_started' && (
+                    <Button size="sm" variant="outline" className="gap-1" onClick={() => openShipment(match)}>
+                      <Truck className="h-3 w-3" /> Shipment
+                    </Button>
                   )}
 
                   {/* COMPLETED: View Passport */}
@@ -471,6 +1020,19 @@ export default function Matches() {
                       <Leaf className="h-3 w-3" /> View Digital Passport
                     </Button>
                   )}
+                  {isCompleted && match.invoiceUrl && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-1"
+                      disabled={invoiceMutation.isPending}
+                      onClick={() => invoiceMutation.mutate(match.id)}
+                    >
+                      {invoiceMutation.isPending && invoiceMutation.variables === match.id
+                        ? <Loader2 className="h-3 w-3 animate-spin" />
+                        : <FileText className="h-3 w-3" />} Invoice
+                    </Button>
+                  )}
                 </div>
               </motion.div>
             );
@@ -480,22 +1042,68 @@ export default function Matches() {
 
       {/* Negotiate Dialog */}
       <Dialog open={negotiateDialogOpen} onOpenChange={setNegotiateDialogOpen}>
-        <DialogContent className="sm:max-w-[400px]">
+        <DialogContent className="sm:max-w-[440px]">
           <DialogHeader>
-            <DialogTitle>Send Counter Offer</DialogTitle>
+            <DialogTitle>{negotiateMatch?.counterTo ? `Counter Offer v${negotiateMatch.counterTo}` : 'Make an Offer'}</DialogTitle>
             <DialogDescription>
-              Propose a new price or add a message to the other party.
+              The other party can accept, reject or counter before the offer expires. Accepted terms are locked for the deal.
             </DialogDescription>
           </DialogHeader>
           <form onSubmit={handleNegotiateSubmit} className="space-y-4 pt-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="neg-price" className="text-xs text-muted-foreground">Price per {negotiateMatch?.unit || 'unit'} (₹)</Label>
+                <Input
+                  id="neg-price"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="e.g. 12"
+                  value={negotiateForm.price}
+                  onChange={(e) => setNegotiateForm({ ...negotiateForm, price: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="neg-qty" className="text-xs text-muted-foreground">Quantity ({negotiateMatch?.unit || 'units'})</Label>
+                <Input
+                  id="neg-qty"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={negotiateForm.quantity}
+                  onChange={(e) => setNegotiateForm({ ...negotiateForm, quantity: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="neg-pickup-start" className="text-xs text-muted-foreground">Pickup from</Label>
+                <Input
+                  id="neg-pickup-start"
+                  type="datetime-local"
+                  value={negotiateForm.pickupStart}
+                  onChange={(e) => setNegotiateForm({ ...negotiateForm, pickupStart: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="neg-pickup-end" className="text-xs text-muted-foreground">Pickup until</Label>
+                <Input
+                  id="neg-pickup-end"
+                  type="datetime-local"
+                  value={negotiateForm.pickupEnd}
+                  onChange={(e) => setNegotiateForm({ ...negotiateForm, pickupEnd: e.target.value })}
+                />
+              </div>
+            </div>
             <div className="space-y-2">
-              <Label htmlFor="neg-price" className="text-xs text-muted-foreground">Proposed Price (₹)</Label>
+              <Label htmlFor="neg-expiry" className="text-xs text-muted-foreground">Offer valid for (hours)</Label>
               <Input
-                id="neg-price"
+                id="neg-expiry"
                 type="number"
-                placeholder="e.g. 12000"
-                value={negotiateForm.price}
-                onChange={(e) => setNegotiateForm({ ...negotiateForm, price: e.target.value })}
+                min="1"
+                max="720"
+                value={negotiateForm.expiresInHours}
+                onChange={(e) => setNegotiateForm({ ...negotiateForm, expiresInHours: e.target.value })}
               />
             </div>
             <div className="space-y-2">
@@ -507,6 +1115,11 @@ export default function Matches() {
                 onChange={(e) => setNegotiateForm({ ...negotiateForm, message: e.target.value })}
               />
             </div>
+            {negotiateForm.price && negotiateForm.quantity && (
+              <p className="text-xs text-muted-foreground">
+                Total: <span className="font-mono text-foreground">₹{Math.round(Number(negotiateForm.price) * Number(negotiateForm.quantity)).toLocaleString()}</span>
+              </p>
+            )}
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setNegotiateDialogOpen(false)}>Cancel</Button>
               <Button type="submit" disabled={negotiateMutation.isPending}>
@@ -517,6 +1130,279 @@ export default function Matches() {
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Review Dialog */}
+      <Dialog open={!!reviewMatch} onOpenChange={(open) => !open && setReviewMatch(null)}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Review {reviewMatch?.counterparty}</DialogTitle>
+            <DialogDescription>
+              Your review is public on their company profile and feeds their reliability score. You can only review a match once.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReviewSubmit} className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Rating</Label>
+              <div>
+                <Stars value={reviewForm.rating} onChange={(rating) => setReviewForm({ ...reviewForm, rating })} size="h-6 w-6" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="review-text" className="text-xs text-muted-foreground">Review</Label>
+              <Textarea
+                id="review-text"
+                maxLength={2000}
+                placeholder="How did the deal go? Material quality, punctuality, communication..."
+                value={reviewForm.review}
+                onChange={(e) => setReviewForm({ ...reviewForm, review: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="review-recommend"
+                checked={reviewForm.wouldRecommend}
+                onCheckedChange={(checked) => setReviewForm({ ...reviewForm, wouldRecommend: checked === true })}
+              />
+              <Label htmlFor="review-recommend" className="text-xs">I would recommend them</Label>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setReviewMatch(null)}>Cancel</Button>
+              <Button type="submit" disabled={reviewMutation.isPending}>
+                {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit Review
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Shipment Dialog */}
+      <Dialog open={!!shipmentMatch} onOpenChange={(open) => !open && setShipmentMatch(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle className="capitalize">Shipment · {shipmentMatch?.material}</DialogTitle>
+            <DialogDescription>
+              {shipmentMatch?.isSeller
+                ? 'Offer pickup slots for the buyer to pick from, then send the transporter a tracking link.'
+                : 'Confirm one of the seller\'s pickup slots and follow the load on the road.'}
+            </DialogDescription>
+          </DialogHeader>
+          {shipmentLoading || !shipment ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : (
+            <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-1">
+              {/* Pickup slots */}
+              <div className="space-y-2">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Pickup slots</h4>
+                {shipment.slots.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {shipment.pickupScheduledAt
+                      ? `Pickup scheduled for ${new Date(shipment.pickupScheduledAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`
+                      : 'No slots proposed yet.'}
+                  </p>
+                )}
+                {shipment.slots.map((slot) => (
+                  <div key={slot._id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/50 text-xs">
+                    <span className={slot.status === 'declined' || slot.status === 'withdrawn' ? 'text-muted-foreground line-through' : 'text-foreground'}>
+                      {formatSlot(slot)}
+                    </span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant="outline" className={`capitalize ${slotStatusColor[slot.status]}`}>{slot.status}</Badge>
+                      {!shipmentMatch?.isSeller && slot.status === 'proposed' && shipment.status === 'pickup_scheduled' && (
+                        <Button
+                          size="sm"
+                          className="h-7 gap-1"
+                          disabled={confirmSlotMutation.isPending}
+                          onClick={() => confirmSlotMutation.mutate({ id: shipmentMatch!.id, slotId: slot._id })}
+                        >
+                          <Check className="h-3 w-3" /> Confirm
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {shipmentMatch?.isSeller && shipment.status === 'pickup_scheduled' && (
+                  <div className="space-y-2 pt-1">
+                    {slotDrafts.map((draft, i) => (
+                      <div key={i} className="flex items-center gap-2">
+                        <Input
+                          type="datetime-local"
+                          aria-label="Slot start"
+                          value={draft.start}
+                          onChange={(e) => setSlotDrafts(slotDrafts.map((d, j) => (j === i ? { ...d, start: e.target.value } : d)))}
+                        />
+                        <Input
+                          type="datetime-local"
+                          aria-label="Slot end"
+                          value={draft.end}
+                          onChange={(e) => setSlotDrafts(slotDrafts.map((d, j) => (j === i ? { ...d, end: e.target.value } : d)))}
+                        />
+                        <Button type="button" size="icon" variant="ghost" className="shrink-0" onClick={() => setSlotDrafts(slotDrafts.filter((_, j) => j !== i))}>
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="gap-1"
+                        disabled={slotDrafts.length >= 5}
+                        onClick={() => {
+                          const start = new Date(Date.now() + 24 * 60 * 60 * 1000);
+                          start.setMinutes(0, 0, 0);
+                          setSlotDrafts([...slotDrafts, { start: toLocalInput(start), end: toLocalInput(new Date(start.getTime() + 2 * 60 * 60 * 1000)) }]);
+                        }}
+                      >
+                        <Plus className="h-3 w-3" /> Add slot
+                      </Button>
+                      {slotDrafts.length > 0 && (
+                        <Button size="sm" className="gap-1" disabled={proposeSlotsMutation.isPending} onClick={handleProposeSlots}>
+                          {proposeSlotsMutation.isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+                          {shipment.slots.some((slot) => slot.status === 'proposed' || slot.status === 'confirmed') ? 'Replace slots' : 'Propose slots'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Transporter tracking link */}
+              {shipmentMatch?.isSeller && ['pickup_scheduled', 'in_transit'].includes(shipment.status) && (
+                <form onSubmit={handleTrackingLinkSubmit} className="space-y-2">
+                  <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Transporter link</h4>
+                  {shipment.trackingLinkActive && !trackingUrl && (
+                    <p className="text-xs text-muted-foreground">
+                      {shipment.transporter?.name} has a link until {new Date(shipment.trackingLinkExpiresAt!).toLocaleDateString()}. A new link stops the old one working.
+                    </p>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      placeholder="Transporter *"
+                      value={transporterForm.name}
+                      onChange={(e) => setTransporterForm({ ...transporterForm, name: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Vehicle number"
+                      value={transporterForm.vehicleNumber}
+                      onChange={(e) => setTransporterForm({ ...transporterForm, vehicleNumber: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Driver name"
+                      value={transporterForm.driverName}
+                      onChange={(e) => setTransporterForm({ ...transporterForm, driverName: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Driver phone"
+                      value={transporterForm.driverPhone}
+                      onChange={(e) => setTransporterForm({ ...transporterForm, driverPhone: e.target.value })}
+                    />
+                  </div>
+                  <Button type="submit" size="sm" variant="outline" className="gap-1" disabled={trackingLinkMutation.isPending}>
+                    {trackingLinkMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Link2 className="h-3 w-3" />}
+                    {shipment.trackingLinkActive ? 'Issue new link' : 'Create tracking link'}
+                  </Button>
+                  {trackingUrl && (
+                    <div className="flex items-center gap-2">
+                      <Input readOnly value={trackingUrl} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="outline"
+                        className="shrink-0"
+                        onClick={() => navigator.clipboard?.writeText(trackingUrl).then(() => toast.success("Copied"))}
+                      >
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </form>
+              )}
+
+              {/* Timeline */}
+              <div className="space-y-2">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Tracking</h4>
+                {shipment.events.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No tracking events yet.</p>
+                ) : (
+                  <ol className="relative border-l border-border ml-1.5 space-y-3">
+                    {shipment.events.map((event, i) => (
+                      <li key={i} className="pl-4 text-xs">
+                        <span className={`absolute -left-1.5 mt-0.5 h-3 w-3 rounded-full ${event.type === 'in_transit' ? 'bg-secondary' : 'bg-primary'}`} />
+                        <p className="font-medium text-foreground">
+                          {shipmentEventLabel[event.type]}
+                          <span className="ml-2 font-normal text-muted-foreground">
+                            {new Date(event.at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                            {event.source === 'transporter' ? ' · by transporter' : ''}
+                          </span>
+                        </p>
+                        {event.location && (
+                          <a
+                            href={`https://www.openstreetmap.org/?mlat=${event.location[1]}&mlon=${event.location[0]}#map=14/${event.location[1]}/${event.location[0]}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="inline-flex items-center gap-1 text-primary hover:underline"
+                          >
+                            <MapPin className="h-3 w-3" /> {event.location[1].toFixed(4)}, {event.location[0].toFixed(4)}
+                          </a>
+                        )}
+                        {event.note && <p className="text-muted-foreground">{event.note}</p>}
+                        {event.proof && (
+                          <a href={event.proof} target="_blank" rel="noreferrer" className="text-primary hover:underline">Proof of delivery</a>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Company Reviews Dialog */}
+      <Dialog open={!!reviewsOf} onOpenChange={(open) => !open && setReviewsOf(null)}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Reviews of {reviewsOf?.name}</DialogTitle>
+            <DialogDescription>
+              {companyReviews?.summary.total
+                ? `${companyReviews.summary.averageRating} / 5 from ${companyReviews.summary.total} review${companyReviews.summary.total > 1 ? 's' : ''} · ${companyReviews.summary.recommended} would recommend`
+                : 'Published reviews from completed deals.'}
+            </DialogDescription>
+          </DialogHeader>
+          {reviewsLoading ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : !companyReviews?.data.length ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No reviews yet.</p>
+          ) : (
+            <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+              {companyReviews.data.map((review) => (
+                <div key={review.matchId} className="p-3 rounded-lg bg-muted/50 text-xs space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-foreground">
+                      {review.reviewer?.name || 'A trading partner'} <span className="text-muted-foreground">(as {review.role === 'seller' ? 'buyer' : 'seller'})</span>
+                    </span>
+                    <Stars value={review.rating} />
+                  </div>
+                  {review.review && <p className="text-foreground">{review.review}</p>}
+                  <p className="text-muted-foreground">
+                    {formatTimeAgo(review.reviewedAt)}{review.wouldRecommend ? ' · Recommends' : ''}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+          {companyReviews && companyReviews.pagination.pages > 1 && (
+            <DialogFooter className="flex items-center sm:justify-between">
+              <Button variant="outline" size="sm" disabled={reviewsPage <= 1} onClick={() => setReviewsPage(reviewsPage - 1)}>Previous</Button>
+              <span className="text-xs text-muted-foreground">Page {reviewsPage} of {companyReviews.pagination.pages}</span>
+              <Button variant="outline" size="sm" disabled={reviewsPage >= companyReviews.pagination.pages} onClick={() => setReviewsPage(reviewsPage + 1)}>Next</Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
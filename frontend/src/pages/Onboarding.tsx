@@ -49,6 +49,7 @@ export default function Onboarding() {
     // Step 1: Identity
     tradingName: "",
     registrationNumber: "",
+    gstin: "",
     yearEstablished: "",
     website: "",
 
@@ -172,6 +173,7 @@ export default function Onboarding() {
       const rawPayload: Record<string, any> = {
         tradingName: str(formData.tradingName),
         registrationNumber: str(formData.registrationNumber),
+        gstin: str(formData.gstin)?.toUpperCase(),
         yearEstablished: parseInt(formData.yearEstablished) || undefined,
         website: str(formData.website),
 
@@ -334,6 +336,11 @@ export default function Onboarding() {
                     <Label className="text-xs font-medium">Registration Number (CIN/GST/MSME)</Label>
                     <Input value={formData.registrationNumber} onChange={(e) => h('registrationNumber', e.target.value)} className="mt-1 font-mono text-sm" />
                   </div>
+                  <div>
+                    <Label className="text-xs font-medium">GSTIN</Label>
+                    <Input value={formData.gstin} onChange={(e) => h('gstin', e.target.value)} placeholder="e.g. 27AAPFU0939F1ZV" maxLength={15} className="mt-1 font-mono text-sm uppercase" />
+                    <p className="text-[11px] text-muted-foreground mt-1">Printed on the tax invoices issued for your completed exchanges</p>
+                  </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <Label className="text-xs font-medium">Year Established</Label>
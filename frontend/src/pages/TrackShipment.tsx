@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { XCircle, Truck, MapPin, PackageCheck, Navigation, Loader2, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { toast } from "sonner";
+
+type EventType = "picked_up" | "in_transit" | "delivered";
+
+interface Stop {
+  name?: string;
+  address?: string;
+  coordinates?: [number, number];
+}
+
+interface DriverView {
+  material?: string;
+  quantity?: number;
+  unit?: string;
+  pickup: Stop;
+  dropoff: Stop;
+  slot: { start: string; end: string } | null;
+  transporter?: { name: string; vehicleNumber?: string; driverName?: string };
+  status: string;
+  nextEvents: EventType[];
+  events: Array<{ type: EventType; at: string; location?: [number, number]; note?: string }>;
+}
+
+interface EventBody {
+  type: EventType;
+  at?: string;
+  location?: [number, number];
+  note?: string;
+  proof?: string;
+}
+
+const EVENT_LABEL: Record<EventType, string> = {
+  picked_up: "Picked up",
+  in_transit: "Location sent",
+  delivered: "Delivered",
+};
+
+function errorMessage(err: unknown, fallback: string) {
+  const e = err as { error?: string; message?: string } | undefined;
+  return e?.error || e?.message || fallback;
+}
+
+function currentPosition(): Promise<GeolocationPosition> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("This device cannot share its location"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, () => reject(new Error("Allow location access to send your position")), {
+      enableHighAccuracy: true,
+      timeout: 15000,
+    });
+  });
+}
+
+function directionsUrl(stop: Stop) {
+  return stop.coordinates
+    ? `https://www.openstreetmap.org/?mlat=${stop.coordinates[1]}&mlon=${stop.coordinates[0]}#map=15/${stop.coordinates[1]}/${stop.coordinates[0]}`
+    : null;
+}
+
+// Public page for the transporter. The link itself is the credential, so
+// it is sent as a header rather than left in the request path.
+export default function TrackShipment() {
+  const { token = "" } = useParams();
+  const queryClient = useQueryClient();
+  const headers = { "X-Tracking-Token": token };
+  const [note, setNote] = useState("");
+  const [proof, setProof] = useState("");
+
+  const { data: shipment, isLoading, isError } = useQuery({
+    queryKey: ['tracking', token],
+    queryFn: async () => ((await api.get('/tracking', { headers })) as unknown as { data: DriverView }).data,
+    retry: false,
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: async (type: EventType) => {
+      const body: EventBody = { type, note: note.trim() || undefined };
+      // A GPS fix is required in transit; pickup and delivery go without one
+      const position = await currentPosition().catch((err) => {
+        if (type === "in_transit") throw err;
+        return null;
+      });
+      if (position) {
+        body.location = [position.coords.longitude, position.coords.latitude];
+        body.at = new Date(position.timestamp).toISOString();
+      }
+      if (type === "delivered" && proof.trim()) body.proof = proof.trim();
+      return api.post('/tracking/events', body, { headers });
+    },
+    onSuccess: (_data, type) => {
+      toast.success(type === "in_transit" ? "Location sent" : `Marked as ${EVENT_LABEL[type].toLowerCase()}`);
+      setNote("");
+      setProof("");
+      queryClient.invalidateQueries({ queryKey: ['tracking', token] });
+    },
+    onError: (err) => toast.error(errorMessage(err, "Failed to send update")),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isError || !shipment) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted px-4">
+        <div className="text-center">
+          <XCircle className="h-12 w-12 mx-auto mb-3 text-destructive opacity-70" />
+          <h1 className="mb-2 text-xl font-bold">Tracking link not valid</h1>
+          <p className="text-sm text-muted-foreground">This link has expired or been replaced. Ask the seller for a new one.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const can = (type: EventType) => shipment.nextEvents.includes(type);
+  const busy = reportMutation.isPending;
+  const stops = [
+    { title: "Pickup", stop: shipment.pickup },
+    { title: "Drop-off", stop: shipment.dropoff },
+  ];
+
+  return (
+    <div className="min-h-screen bg-muted py-8 px-4">
+      <div className="space-y-4 max-w-[520px] mx-auto">
+        <motion.div initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} className="rounded-xl bg-gradient-forest p-5 text-primary-foreground">
+          <p className="text-xs uppercase tracking-widest opacity-70 mb-1">EcoExchange Shipment</p>
+          <p className="text-lg font-bold capitalize">
+            {shipment.quantity?.toLocaleString()} {shipment.unit} {shipment.material?.replace(/_/g, " ")}
+          </p>
+          {shipment.transporter && (
+            <p className="text-sm opacity-80 mt-1">
+              {shipment.transporter.name}
+              {shipment.transporter.vehicleNumber ? ` · ${shipment.transporter.vehicleNumber}` : ""}
+              {shipment.transporter.driverName ? ` · ${shipment.transporter.driverName}` : ""}
+            </p>
+          )}
+          {shipment.slot && (
+            <p className="text-sm mt-2 flex items-center gap-1.5">
+              <Clock className="h-4 w-4" /> Pickup {new Date(shipment.slot.start).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+              {" – "}{new Date(shipment.slot.end).toLocaleTimeString([], { timeStyle: "short" })}
+            </p>
+          )}
+        </motion.div>
+
+        <div className="industrial-card p-5 space-y-4">
+          {stops.map(({ title, stop }) => (
+            <div key={title} className="flex gap-3">
+              <div className="h-9 w-9 rounded-full bg-primary/10 flex items-center justify-center text-primary shrink-0">
+                {title === "Pickup" ? <Truck className="h-4 w-4" /> : <MapPin className="h-4 w-4" />}
+              </div>
+              <div className="flex-1">
+                <p className="text-xs font-bold uppercase tracking-wider text-primary">{title}</p>
+                <p className="text-sm font-medium text-foreground">{stop.name || "—"}</p>
+                {stop.address && <p className="text-xs text-muted-foreground">{stop.address}</p>}
+                {directionsUrl(stop) && (
+                  <a href={directionsUrl(stop)!} target="_blank" rel="noreferrer" className="text-xs text-primary hover:underline">Open map</a>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {shipment.nextEvents.length > 0 ? (
+          <div className="industrial-card p-5 space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="track-note" className="text-xs text-muted-foreground">Note (optional)</Label>
+              <Input id="track-note" maxLength={500} placeholder="e.g. Loaded 42 bales, seal 1183" value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+            {can("delivered") && (
+              <div className="space-y-2">
+                <Label htmlFor="track-proof" className="text-xs text-muted-foreground">Proof of delivery link (optional)</Label>
+                <Input id="track-proof" type="url" placeholder="https://" value={proof} onChange={(e) => setProof(e.target.value)} />
+              </div>
+            )}
+            <div className="grid gap-2">
+              {can("picked_up") && (
+                <Button className="gap-2" disabled={busy} onClick={() => reportMutation.mutate("picked_up")}>
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Truck className="h-4 w-4" />} Picked up
+                </Button>
+              )}
+              {can("in_transit") && (
+                <Button variant="outline" className="gap-2" disabled={busy} onClick={() => reportMutation.mutate("in_transit")}>
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Navigation className="h-4 w-4" />} Send my location
+                </Button>
+              )}
+              {can("delivered") && (
+                <Button className="gap-2" disabled={busy} onClick={() => reportMutation.mutate("delivered")}>
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <PackageCheck className="h-4 w-4" />} Delivered
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="industrial-card p-5 text-center text-sm text-muted-foreground">
+            {shipment.status === "pickup_scheduled" ? "Nothing to report yet." : "This shipment has been delivered. Thank you!"}
+          </div>
+        )}
+
+        {shipment.events.length > 0 && (
+          <div className="industrial-card p-5">
+            <h3 className="text-sm font-semibold text-foreground mb-3">Updates sent</h3>
+            <ul className="space-y-2">
+              {[...shipment.events].reverse().map((event, i) => (
+                <li key={i} className="text-xs flex justify-between gap-2">
+                  <span className="text-foreground">{EVENT_LABEL[event.type]}{event.note ? ` — ${event.note}` : ""}</span>
+                  <span className="text-muted-foreground shrink-0">{new Date(event.at).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
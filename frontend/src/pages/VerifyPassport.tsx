@@ -0,0 +1,265 @@
+import { Link, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { CheckCircle2, XCircle, AlertTriangle, Factory, Truck, Building, Leaf, Droplets, Zap, Download, Loader2, Link2, ShieldCheck, FileCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { toast } from "sonner";
+
+interface PublicPassport {
+  passportNumber: string;
+  status: "pending" | "verified" | "disputed" | "revoked";
+  origin: { company: string; material: string; quantity: string; date: string };
+  destination: { company: string; application?: string; date: string };
+  journey: {
+    transportMode: string;
+    distanceKm?: number;
+    processing: Array<{ facility: string; process: string; date?: string; yieldPct?: number; emissionsKg?: number }>;
+    tracking: Array<{ status: "picked_up" | "in_transit" | "delivered"; timestamp: string; location?: [number, number] }>;
+  };
+  madeFrom: string[];
+  hazardous?: { category: string; manifestNumber: string };
+  impact: { co2SavedKg: number; waterSavedLiters: number; energySavedKwh: number; landfillAvoidedM3: number; methodology: string };
+  audits: Array<{
+    organization: string;
+    accreditation?: string;
+    status: "in_review" | "completed";
+    scope?: string;
+    startedAt: string;
+    result?: "pass" | "fail";
+    findings?: string;
+    concludedAt?: string;
+    evidence: Array<{ type: string; name: string; sha256: string; addedAt: string }>;
+  }>;
+  revocation?: { revokedAt: string; reason?: string };
+  blockchain?: { network: string; blockNumber?: number; merkleRoot?: string; anchorTimestamp?: string };
+  qrCode?: string;
+  verifiedAt: string;
+  proof: {
+    intact: boolean;
+    entry: { sequence: number; entryHash: string; recordedAt: string };
+    anchor: { number: number; merkleRoot: string; anchoredAt: string } | null;
+    publicKey: { keyId: string };
+  } | null;
+}
+
+const STATUS_STYLE: Record<PublicPassport["status"], { label: string; className: string; icon: JSX.Element }> = {
+  verified: { label: "Verified", className: "bg-success/10 text-success border-success/20", icon: <CheckCircle2 className="h-4 w-4" /> },
+  pending: { label: "Pending verification", className: "bg-muted text-muted-foreground border-border", icon: <Loader2 className="h-4 w-4" /> },
+  disputed: { label: "Under dispute", className: "bg-warning/10 text-warning border-warning/20", icon: <AlertTriangle className="h-4 w-4" /> },
+  revoked: { label: "Revoked", className: "bg-destructive/10 text-destructive border-destructive/20", icon: <XCircle className="h-4 w-4" /> },
+};
+
+export default function VerifyPassport() {
+  const { passportNumber = "" } = useParams();
+
+  const { data: passport, isLoading, isError } = useQuery({
+    queryKey: ['passport-verify', passportNumber],
+    queryFn: async () => {
+      const res = (await api.get(`/passports/verify/${encodeURIComponent(passportNumber)}`)) as unknown as { data: PublicPassport };
+      return res.data;
+    },
+    retry: false,
+  });
+
+  const certificateMutation = useMutation({
+    mutationFn: async () => (await api.get(`/passports/verify/${encodeURIComponent(passportNumber)}/certificate`, { responseType: 'blob' })) as unknown as Blob,
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${passportNumber}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: () => toast.error("Failed to download certificate"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isError || !passport) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <div className="text-center">
+          <XCircle className="h-12 w-12 mx-auto mb-3 text-destructive opacity-70" />
+          <h1 className="mb-2 text-xl font-bold">Passport not found</h1>
+          <p className="text-sm text-muted-foreground">{passportNumber} does not match any issued certificate.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const status = STATUS_STYLE[passport.status] || STATUS_STYLE.pending;
+  const impact = [
+    { label: "CO₂ Saved", value: `${passport.impact.co2SavedKg.toLocaleString()} kg`, icon: <Leaf className="h-5 w-5" /> },
+    { label: "Water Saved", value: `${passport.impact.waterSavedLiters.toLocaleString()} L`, icon: <Droplets className="h-5 w-5" /> },
+    { label: "Energy Saved", value: `${passport.impact.energySavedKwh.toLocaleString()} kWh`, icon: <Zap className="h-5 w-5" /> },
+    { label: "Landfill Avoided", value: `${passport.impact.landfillAvoidedM3.toLocaleString()} m³`, icon: <Factory className="h-5 w-5" /> },
+  ];
+  const tracking = passport.journey.tracking || [];
+  const pickedUp = tracking.find((event) => event.status === "picked_up");
+  const delivered = tracking.find((event) => event.status === "delivered");
+  const gpsPoints = tracking.filter((event) => event.location).length;
+  const journey = [
+    ...(passport.journey.processing || []).map((step) => ({
+      icon: <Factory className="h-5 w-5" />,
+      title: "Processing",
+      place: `${step.process} at ${step.facility}`,
+      date: step.date || passport.origin.date,
+      detail: [step.yieldPct ? `${step.yieldPct}% yield` : "", step.emissionsKg ? `${step.emissionsKg.toLocaleString()} kg CO₂` : ""].filter(Boolean).join(" · "),
+    })),
+    { icon: <Factory className="h-5 w-5" />, title: "Origin", place: passport.origin.company, date: passport.origin.date, detail: `${passport.origin.quantity} ${passport.origin.material.replace(/_/g, " ")}` },
+    {
+      icon: <Truck className="h-5 w-5" />,
+      title: "Transport",
+      place: `${passport.journey.distanceKm?.toLocaleString() ?? "–"} km by ${passport.journey.transportMode}`,
+      date: pickedUp?.timestamp || passport.origin.date,
+      detail: [
+        delivered ? `delivered ${new Date(delivered.timestamp).toLocaleString()}` : "",
+        gpsPoints ? `${gpsPoints} GPS point${gpsPoints > 1 ? "s" : ""} reported by the transporter` : "",
+        passport.hazardous ? `Hazardous (${passport.hazardous.category}) · manifest ${passport.hazardous.manifestNumber}` : "",
+      ].filter(Boolean).join(" · "),
+    },
+    { icon: <Building className="h-5 w-5" />, title: "Destination", place: passport.destination.company, date: passport.destination.date, detail: passport.destination.application || "" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-muted py-10 px-4">
+      <div className="space-y-6 max-w-[820px] mx-auto">
+        <motion.div initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} className="rounded-xl bg-gradient-forest p-6 text-primary-foreground">
+          <div className="flex flex-col sm:flex-row items-start gap-6">
+            {passport.qrCode && (
+              <img src={passport.qrCode} alt={`QR code for ${passport.passportNumber}`} className="h-28 w-28 rounded-lg bg-white p-1 shrink-0" />
+            )}
+            <div className="flex-1">
+              <p className="text-xs uppercase tracking-widest opacity-70 mb-1">Circularity Passport</p>
+              <p className="font-mono text-xl font-bold">{passport.passportNumber}</p>
+              <span className={`inline-flex items-center gap-1.5 mt-3 rounded-md border px-2.5 py-1 text-xs font-semibold bg-background ${status.className}`}>
+                {status.icon} {status.label}
+              </span>
+              <p className="text-sm opacity-70 mt-2">Issued {new Date(passport.verifiedAt).toLocaleDateString()}</p>
+              {passport.revocation && (
+                <p className="text-sm mt-1">
+                  Revoked {new Date(passport.revocation.revokedAt).toLocaleDateString()}{passport.revocation.reason ? ` — ${passport.revocation.reason}` : ""}
+                </p>
+              )}
+            </div>
+            <Button variant="secondary" className="gap-2" disabled={certificateMutation.isPending} onClick={() => certificateMutation.mutate()}>
+              {certificateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />} Certificate
+            </Button>
+          </div>
+        </motion.div>
+
+        <div className="industrial-card p-6">
+          <h3 className="text-sm font-semibold text-foreground mb-5">Material Journey</h3>
+          <div className="space-y-5">
+            {journey.map((step, i) => (
+              <div key={i} className="flex gap-4">
+                <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center text-primary shrink-0">{step.icon}</div>
+                <div className="flex-1 pt-1">
+                  <div className="flex items-center gap-2 mb-0.5">
+                    <span className="text-xs font-bold uppercase tracking-wider text-primary">{step.title}</span>
+                    <span className="text-xs text-muted-foreground">· {new Date(step.date).toLocaleDateString()}</span>
+                  </div>
+                  <p className="text-sm font-medium text-foreground">{step.place}</p>
+                  {step.detail && <p className="text-xs text-muted-foreground mt-0.5 capitalize">{step.detail}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+          {passport.madeFrom?.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-5">
+              Made from{" "}
+              {passport.madeFrom.map((number, i) => (
+                <span key={number}>
+                  {i > 0 && ", "}
+                  <Link to={`/verify/${encodeURIComponent(number)}`} className="font-mono text-primary hover:underline">{number}</Link>
+                </span>
+              ))}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-foreground mb-3">Environmental Impact</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {impact.map((m) => (
+              <div key={m.label} className="industrial-card p-4 text-center">
+                <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center text-primary mx-auto mb-2">{m.icon}</div>
+                <p className="font-mono text-lg font-bold text-foreground">{m.value}</p>
+                <p className="text-xs font-semibold text-foreground mt-0.5">{m.label}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">Methodology: {passport.impact.methodology}</p>
+        </div>
+
+        <div className="industrial-card p-6">
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-2 mb-4"><ShieldCheck className="h-4 w-4" /> Audit Trail</h3>
+          {passport.audits?.length > 0 ? (
+            <div className="space-y-4">
+              {passport.audits.map((audit, i) => (
+                <div key={i} className="border-l-2 border-border pl-4 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-foreground">{audit.organization}</span>
+                    {audit.accreditation && <span className="text-xs text-muted-foreground">{audit.accreditation}</span>}
+                    <span className={`text-xs font-semibold ${audit.result === "pass" ? "text-success" : audit.result === "fail" ? "text-destructive" : "text-muted-foreground"}`}>
+                      {audit.status === "in_review" ? "In review" : audit.result === "pass" ? "Passed" : "Failed"}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Opened {new Date(audit.startedAt).toLocaleDateString()}
+                    {audit.concludedAt ? ` · concluded ${new Date(audit.concludedAt).toLocaleDateString()}` : ""}
+                    {audit.scope ? ` · ${audit.scope}` : ""}
+                  </p>
+                  {audit.findings && <p className="text-sm text-foreground">{audit.findings}</p>}
+                  {audit.evidence.map((doc) => (
+                    <p key={doc.sha256} className="text-xs text-muted-foreground flex items-start gap-1.5">
+                      <FileCheck className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                      <span>
+                        {doc.name} <span className="capitalize">({doc.type.replace(/_/g, " ")})</span>
+                        <span className="block font-mono break-all">sha256 {doc.sha256}</span>
+                      </span>
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No third-party audit has been recorded for this passport yet.</p>
+          )}
+        </div>
+
+        <div className="industrial-card p-6 space-y-2">
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-2"><Link2 className="h-4 w-4" /> Ledger Record</h3>
+          {passport.proof ? (
+            <>
+              <p className={`text-sm font-medium ${passport.proof.intact ? "text-success" : "text-destructive"}`}>
+                {passport.proof.intact
+                  ? "This record matches its signed ledger entry."
+                  : "This record has changed since its last signed ledger entry."}
+              </p>
+              <p className="text-xs text-muted-foreground font-mono break-all">
+                Entry #{passport.proof.entry.sequence} · {passport.proof.entry.entryHash}
+              </p>
+              <p className="text-xs text-muted-foreground font-mono break-all">
+                {passport.proof.anchor
+                  ? `Anchor #${passport.proof.anchor.number} · root ${passport.proof.anchor.merkleRoot} · ${new Date(passport.proof.anchor.anchoredAt).toLocaleString()}`
+                  : "Awaiting the next Merkle anchor"}
+              </p>
+              <p className="text-xs text-muted-foreground">Signing key {passport.proof.publicKey.keyId}. The full proof is returned by the verification API for offline checking.</p>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">This passport has not been sealed into the ledger yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}